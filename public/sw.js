@@ -0,0 +1,31 @@
+/**
+ * Service Worker
+ *
+ * Shows habit reminders pushed from the server (see src/lib/push.ts), even
+ * with Mind Garden closed, and opens the app when one is clicked.
+ */
+
+self.addEventListener("push", (event) => {
+  const message = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || "Mind Garden", {
+      body: message.body,
+      tag: message.tag,
+      data: { url: message.url || "/habits" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/habits", self.location.origin).href;
+
+  // Focus a tab that's already open on the page, or open one
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const open = clients.find((client) => client.url === url);
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
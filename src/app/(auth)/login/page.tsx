@@ -6,10 +6,11 @@
  * Users can sign in with their email and password here.
  */
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { signIn } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { getCallbackUrl, withCallbackUrl } from "@/lib/callbackUrl";
 import { Leaf, Mail, Lock, Eye, EyeOff, ArrowRight } from "lucide-react";
 
 export default function LoginPage() {
@@ -19,6 +20,12 @@ export default function LoginPage() {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [signupHref, setSignupHref] = useState("/signup");
+
+  // Keep an invitation (or other callback) when switching to signup
+  useEffect(() => {
+    setSignupHref(withCallbackUrl("/signup"));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,8 +42,8 @@ export default function LoginPage() {
       if (result?.error) {
         setError(result.error);
       } else {
-        // Redirect to dashboard on success
-        router.push("/dashboard");
+        // Redirect to dashboard (or back to whatever sent us here) on success
+        router.push(getCallbackUrl());
         router.refresh();
       }
     } catch {
@@ -174,7 +181,7 @@ export default function LoginPage() {
           <p className="mt-8 text-center text-[var(--muted)]">
             Don&apos;t have an account?{" "}
             <Link
-              href="/signup"
+              href={signupHref}
               className="text-garden-600 hover:text-garden-700 font-medium transition-colors"
             >
               Create one
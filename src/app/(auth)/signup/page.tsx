@@ -6,10 +6,11 @@
  * New users can create an account here.
  */
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { signIn } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { getCallbackUrl, withCallbackUrl } from "@/lib/callbackUrl";
 import { Leaf, Mail, Lock, User, Eye, EyeOff, ArrowRight, Sparkles } from "lucide-react";
 
 export default function SignupPage() {
@@ -21,6 +22,12 @@ export default function SignupPage() {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [loginHref, setLoginHref] = useState("/login");
+
+  // Keep an invitation (or other callback) when switching to login
+  useEffect(() => {
+    setLoginHref(withCallbackUrl("/login"));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -58,10 +65,10 @@ export default function SignupPage() {
 
       if (loginResult?.error) {
         // Account created but login failed - redirect to login
-        router.push("/login");
+        router.push(withCallbackUrl("/login"));
       } else {
-        // Success! Redirect to dashboard
-        router.push("/dashboard");
+        // Success! Redirect to dashboard (or back to whatever sent us here)
+        router.push(getCallbackUrl());
         router.refresh();
       }
     } catch {
@@ -201,7 +208,7 @@ export default function SignupPage() {
           <p className="mt-8 text-center text-[var(--muted)]">
             Already have an account?{" "}
             <Link
-              href="/login"
+              href={loginHref}
               className="text-garden-600 hover:text-garden-700 font-medium transition-colors"
             >
               Sign in
@@ -9,6 +9,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { useSession } from "next-auth/react";
 import Link from "next/link";
+import { formatAmount } from "@/lib/habits";
 import {
   Leaf,
   FileText,
@@ -46,12 +47,17 @@ interface DashboardStats {
       icon: string;
       color: string;
       streak: number;
+      longestStreak: number;
+      streakUnit: "day" | "week" | "month";
+      dueToday: boolean;
       completedToday: boolean;
+      period: { done: number; quota: number } | null;
     }>;
     best: {
       name: string;
       icon: string;
       streak: number;
+      streakUnit: "day" | "week" | "month";
     } | null;
     totalCompletionsThisWeek: number;
   };
@@ -62,6 +68,16 @@ interface DashboardStats {
     total: number;
     percentage: number;
   }>;
+  habitTotals: Array<{
+    id: string;
+    name: string;
+    icon: string;
+    color: string;
+    unit: string | null;
+    target: number;
+    week: number;
+    month: number;
+  }>;
   recentPages: Array<{
     id: string;
     title: string;
@@ -186,7 +202,7 @@ export default function DashboardPage() {
             Today&apos;s Progress
           </h2>
           
-          {stats && stats.today.habitsTotal > 0 ? (
+          {stats && stats.overview.totalHabits > 0 ? (
             <div className="space-y-4">
               {/* Progress ring */}
               <div className="flex items-center gap-6">
@@ -223,7 +239,9 @@ export default function DashboardPage() {
                     {stats.today.habitsCompleted} of {stats.today.habitsTotal} habits
                   </p>
                   <p className="text-sm text-[var(--muted)] mb-3">
-                    {stats.today.habitsCompleted === stats.today.habitsTotal
+                    {stats.today.habitsTotal === 0
+                      ? "🌿 Nothing due today. Enjoy the rest!"
+                      : stats.today.habitsCompleted === stats.today.habitsTotal
                       ? "🎉 All done! Great work!"
                       : `${stats.today.habitsTotal - stats.today.habitsCompleted} remaining`
                     }
@@ -239,7 +257,7 @@ export default function DashboardPage() {
 
               {/* Habit checklist */}
               <div className="grid grid-cols-2 gap-2 mt-4">
-                {stats.streaks.habits.slice(0, 4).map((habit) => (
+                {stats.streaks.habits.filter((habit) => habit.dueToday).slice(0, 4).map((habit) => (
                   <div
                     key={habit.id}
                     className={`flex items-center gap-2 p-2 rounded-lg ${
@@ -256,6 +274,11 @@ export default function DashboardPage() {
                     <span className="text-sm truncate">
                       {habit.icon} {habit.name}
                     </span>
+                    {habit.period && (
+                      <span className="ml-auto text-xs text-[var(--muted)]">
+                        {habit.period.done}/{habit.period.quota}
+                      </span>
+                    )}
                   </div>
                 ))}
               </div>
@@ -286,7 +309,7 @@ export default function DashboardPage() {
             <div className="text-center py-4">
               <span className="text-5xl block mb-2">{stats.streaks.best.icon}</span>
               <p className="text-4xl font-bold mb-1">{stats.streaks.best.streak}</p>
-              <p className="text-sm opacity-90">days in a row</p>
+              <p className="text-sm opacity-90">{stats.streaks.best.streakUnit}s in a row</p>
               <p className="text-sm mt-2 opacity-75">{stats.streaks.best.name}</p>
             </div>
           ) : (
@@ -379,6 +402,40 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {/* Totals for habits with a target */}
+      {stats && stats.habitTotals.length > 0 && (
+        <div className="bg-[var(--card)] rounded-xl border border-[var(--border)] p-6 mb-8">
+          <h2 className="font-semibold mb-4 flex items-center gap-2">
+            <Target className="w-5 h-5 text-[var(--garden-500)]" />
+            Habit Totals
+          </h2>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {stats.habitTotals.map((habit) => (
+              <div
+                key={habit.id}
+                className="p-3 rounded-lg bg-[var(--background)] border-l-4"
+                style={{ borderLeftColor: habit.color }}
+              >
+                <p className="text-sm font-medium truncate mb-2">
+                  {habit.icon} {habit.name}
+                </p>
+                <div className="flex justify-between text-sm">
+                  <div>
+                    <p className="text-xs text-[var(--muted)]">Last 7 days</p>
+                    <p className="font-semibold">{formatAmount(habit.week, habit.unit)}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-xs text-[var(--muted)]">This month</p>
+                    <p className="font-semibold">{formatAmount(habit.month, habit.unit)}</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Actions & Quote */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Quick Actions */}
@@ -3,20 +3,49 @@
 /**
  * Database View Page
  * 
- * View and edit a single database with its table.
+ * View and edit a single database through its saved views (table, board,
+ * calendar or gallery), shown as tabs. Each view keeps its own filters,
+ * sorts and columns, and the database reopens on the last one used. Rows
+ * are filtered, sorted and paged on the server and load as you scroll.
+ * Any row opens as a page of its own. Rows can also be imported from a
+ * CSV file.
  */
 
-import { useState, useEffect, useCallback, use } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef, use } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { DatabaseTable, Column, Row } from "@/components/database/DatabaseTable";
 import { ColorPicker, COLOR_NAMES } from "@/components/ui/ColorPicker";
+import { DatabaseBoard } from "@/components/database/DatabaseBoard";
+import { DatabaseCalendar } from "@/components/database/DatabaseCalendar";
+import { DatabaseGallery } from "@/components/database/DatabaseGallery";
+import { FilterBar } from "@/components/database/FilterBar";
+import { ViewTabs } from "@/components/database/ViewTabs";
+import { ViewSettingsPanel } from "@/components/database/ViewSettingsPanel";
+import { SaveTemplateModal } from "@/components/database/SaveTemplateModal";
+import { CSVImportModal } from "@/components/database/CSVImportModal";
+import { useRowSave } from "@/components/database/useRowSave";
+import { RelationTarget, applyColumnUpdate } from "@/lib/columns";
+import { RowFilter } from "@/lib/filters";
+import {
+  DatabaseView,
+  ViewLayout,
+  ViewSettings,
+  calendarFilter,
+  loadLastViewId,
+  saveLastViewId,
+  viewFilter,
+  visibleColumns,
+} from "@/lib/views";
 import {
   ArrowLeft,
   Loader2,
   MoreHorizontal,
   Trash2,
   Palette,
+  Copy,
+  LayoutTemplate,
+  Upload,
 } from "lucide-react";
 
 interface DatabaseData {
@@ -26,9 +55,19 @@ interface DatabaseData {
   color: string | null;
   description: string | null;
   columns: string;
-  rows: { id: string; data: string; createdAt: string }[];
+  views: DatabaseView[];
+  relationTargets?: Record<string, RelationTarget[]>;
+}
+
+interface RowPage {
+  rows: Row[];
+  nextCursor: string | null;
+  total: number;
+  totals: Record<string, number>;
 }
 
+const PAGE_SIZE = { table: 50, board: 100, calendar: 200, gallery: 50 };
+
 const EMOJI_OPTIONS = ["📊", "📋", "✅", "🛒", "📅", "💰", "📚", "🎯", "💪", "🌟", "📝", "🔥"];
 
 export default function DatabaseViewPage({ params }: { params: Promise<{ databaseId: string }> }) {
@@ -40,24 +79,45 @@ export default function DatabaseViewPage({ params }: { params: Promise<{ databas
   const [showMenu, setShowMenu] = useState(false);
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [rowPage, setRowPage] = useState<RowPage>({ rows: [], nextCursor: null, total: 0, totals: {} });
+  const [isLoadingRows, setIsLoadingRows] = useState(false);
+  const [views, setViews] = useState<DatabaseView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [calendarMonth, setCalendarMonth] = useState(() => new Date());
+  const [query, setQuery] = useState<string | null>(null);
+  const requestRef = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const pendingViewSaves = useRef(
+    new Map<string, { updates: Partial<ViewSettings>; timer: ReturnType<typeof setTimeout> }>()
+  );
+  const { saveRow, conflictDialog } = useRowSave(databaseId);
 
-  // Parse columns and rows
-  const columns: Column[] = database ? JSON.parse(database.columns) : [];
-  const rows: Row[] = database
-    ? database.rows.map((r) => ({ id: r.id, data: JSON.parse(r.data) }))
-    : [];
+  // Parse columns
+  const columnsJson = database?.columns;
+  const columns: Column[] = useMemo(() => (columnsJson ? JSON.parse(columnsJson) : []), [columnsJson]);
+  const rows = rowPage.rows;
 
-  // Fetch database
-  useEffect(() => {
-    fetchDatabase();
-  }, [databaseId]);
+  const activeView = views.find((v) => v.id === activeViewId) ?? views[0];
+  const shownColumns = useMemo(
+    () => (activeView ? visibleColumns(columns, activeView) : columns),
+    [columns, activeView]
+  );
 
-  const fetchDatabase = async () => {
+  // Fetch database
+  const fetchDatabase = useCallback(async () => {
     try {
       const res = await fetch(`/api/databases/${databaseId}`);
       if (res.ok) {
         const data = await res.json();
         setDatabase(data);
+        setViews(data.views);
+        setActiveViewId((prev) =>
+          [prev, loadLastViewId(databaseId)].find((id) => data.views.some((v: DatabaseView) => v.id === id)) ??
+          data.views[0]?.id ??
+          null
+        );
       } else if (res.status === 404) {
         router.push("/databases");
       }
@@ -66,7 +126,81 @@ export default function DatabaseViewPage({ params }: { params: Promise<{ databas
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [databaseId, router]);
+
+  useEffect(() => {
+    fetchDatabase();
+  }, [fetchDatabase]);
+
+  // Query string for the active view's filters and sorts; calendars also
+  // only need the month on screen
+  const viewQuery = useMemo(() => {
+    if (!activeView) return null;
+    const params = new URLSearchParams();
+    const filters: RowFilter[] = [];
+    const filter = viewFilter(activeView);
+    if (filter) filters.push(filter);
+    if (activeView.layout === "calendar" && activeView.dateColumn) {
+      filters.push(calendarFilter(activeView.dateColumn, calendarMonth));
+    }
+    if (filters.length > 0) params.set("filter", JSON.stringify(filters.length === 1 ? filters[0] : { and: filters }));
+    if (activeView.sorts.length > 0) params.set("sort", JSON.stringify(activeView.sorts));
+    params.set("limit", String(PAGE_SIZE[activeView.layout]));
+    return params.toString();
+  }, [activeView, calendarMonth]);
+
+  // Settle the query while filters are being typed
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(viewQuery), 300);
+    return () => clearTimeout(timer);
+  }, [viewQuery]);
+
+  // Fetch a page of rows; without a cursor the list starts over
+  const fetchRows = useCallback(
+    async (cursor?: string | null) => {
+      if (query === null) return;
+      const request = ++requestRef.current;
+      setIsLoadingRows(true);
+
+      try {
+        const params = new URLSearchParams(query);
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(`/api/databases/${databaseId}/rows?${params}`);
+        if (request !== requestRef.current) return;
+
+        if (!res.ok) {
+          const { error } = await res.json();
+          console.error("Failed to fetch rows:", error);
+          return;
+        }
+
+        const page = await res.json();
+        // Later pages can leave out the totals, which stay as the first page gave them
+        setRowPage((prev) => (cursor ? { ...prev, ...page, rows: [...prev.rows, ...page.rows] } : page));
+      } catch (error) {
+        console.error("Failed to fetch rows:", error);
+      } finally {
+        if (request === requestRef.current) setIsLoadingRows(false);
+      }
+    },
+    [databaseId, query]
+  );
+
+  useEffect(() => {
+    fetchRows();
+  }, [fetchRows]);
+
+  // Load the next page when the end of the table scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !rowPage.nextCursor || isLoadingRows) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) fetchRows(rowPage.nextCursor);
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [rowPage.nextCursor, isLoadingRows, fetchRows]);
 
   // Update database
   const updateDatabase = useCallback(
@@ -91,48 +225,142 @@ export default function DatabaseViewPage({ params }: { params: Promise<{ databas
     [database, databaseId]
   );
 
-  // Add row
-  const addRow = useCallback(async () => {
+  // Switch views, remembering the choice for next time
+  const selectView = useCallback(
+    (viewId: string) => {
+      setActiveViewId(viewId);
+      saveLastViewId(databaseId, viewId);
+    },
+    [databaseId]
+  );
+
+  // Add a view with the given layout and switch to it
+  const addView = useCallback(
+    async (layout: ViewLayout) => {
+      try {
+        const res = await fetch(`/api/databases/${databaseId}/views`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ layout }),
+        });
+
+        if (!res.ok) {
+          const { error } = await res.json();
+          alert(error || "Failed to add view");
+          return;
+        }
+
+        const view = await res.json();
+        setViews((prev) => [...prev, view]);
+        selectView(view.id);
+      } catch (error) {
+        console.error("Failed to add view:", error);
+      }
+    },
+    [databaseId, selectView]
+  );
+
+  // Change a view right away and save it once edits settle
+  const updateView = useCallback(
+    (viewId: string, updates: Partial<ViewSettings>) => {
+      setViews((prev) => prev.map((v) => (v.id === viewId ? { ...v, ...updates } : v)));
+
+      const pending = pendingViewSaves.current.get(viewId);
+      if (pending) clearTimeout(pending.timer);
+      const merged = { ...pending?.updates, ...updates };
+
+      const timer = setTimeout(async () => {
+        pendingViewSaves.current.delete(viewId);
+        try {
+          const res = await fetch(`/api/databases/${databaseId}/views/${viewId}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(merged),
+          });
+
+          if (!res.ok) {
+            const { error } = await res.json();
+            alert(error || "Failed to save view");
+          }
+        } catch (error) {
+          console.error("Failed to save view:", error);
+        }
+      }, 500);
+      pendingViewSaves.current.set(viewId, { updates: merged, timer });
+    },
+    [databaseId]
+  );
+
+  // Delete a view and fall back to the first remaining one
+  const deleteView = useCallback(
+    async (viewId: string) => {
+      if (!confirm("Delete this view? The rows in it are not affected.")) return;
+
+      try {
+        const res = await fetch(`/api/databases/${databaseId}/views/${viewId}`, { method: "DELETE" });
+
+        if (!res.ok) {
+          const { error } = await res.json();
+          alert(error || "Failed to delete view");
+          return;
+        }
+
+        const remaining = views.filter((v) => v.id !== viewId);
+        setViews(remaining);
+        if (viewId === activeView?.id && remaining[0]) selectView(remaining[0].id);
+      } catch (error) {
+        console.error("Failed to delete view:", error);
+      }
+    },
+    [databaseId, views, activeView, selectView]
+  );
+
+  // Add row, optionally with starting values (a board lane or calendar day)
+  const addRow = useCallback(async (data: Record<string, unknown> = {}) => {
     try {
       const res = await fetch(`/api/databases/${databaseId}/rows`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ data: {} }),
+        body: JSON.stringify({ data }),
       });
       
       if (res.ok) {
-        fetchDatabase();
+        const row = await res.json();
+        setRowPage((prev) => ({
+          ...prev,
+          rows: [...prev.rows, { id: row.id, data: JSON.parse(row.data), updatedAt: row.updatedAt }],
+          total: prev.total + 1,
+        }));
       }
     } catch (error) {
       console.error("Failed to add row:", error);
     }
   }, [databaseId]);
 
-  // Update row
+  // Update row. A row changed elsewhere asks how to resolve the conflict.
   const updateRow = useCallback(
     async (rowId: string, data: Record<string, unknown>) => {
+      const row = rows.find((r) => r.id === rowId);
+      if (!row) return;
+
       try {
-        await fetch(`/api/databases/${databaseId}/rows/${rowId}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ data }),
-        });
-        
+        const result = await saveRow(row, data);
+        if (!result) return;
+
         // Update locally for instant feedback
-        setDatabase((prev) => {
-          if (!prev) return prev;
-          return {
-            ...prev,
-            rows: prev.rows.map((r) =>
-              r.id === rowId ? { ...r, data: JSON.stringify(data) } : r
-            ),
-          };
-        });
+        setRowPage((prev) => ({
+          ...prev,
+          rows: [
+            ...prev.rows.map((r) => (r.id === rowId ? { ...r, ...result.row } : r)),
+            ...(result.copy ? [result.copy] : []),
+          ],
+          total: prev.total + (result.copy ? 1 : 0),
+        }));
       } catch (error) {
         console.error("Failed to update row:", error);
       }
     },
-    [databaseId]
+    [rows, saveRow]
   );
 
   // Delete row
@@ -143,13 +371,11 @@ export default function DatabaseViewPage({ params }: { params: Promise<{ databas
           method: "DELETE",
         });
         
-        setDatabase((prev) => {
-          if (!prev) return prev;
-          return {
-            ...prev,
-            rows: prev.rows.filter((r) => r.id !== rowId),
-          };
-        });
+        setRowPage((prev) => ({
+          ...prev,
+          rows: prev.rows.filter((r) => r.id !== rowId),
+          total: prev.total - 1,
+        }));
       } catch (error) {
         console.error("Failed to delete row:", error);
       }
@@ -157,29 +383,94 @@ export default function DatabaseViewPage({ params }: { params: Promise<{ databas
     [databaseId]
   );
 
+  // Open a row as a page, creating the page the first time
+  const openRow = useCallback(
+    async (rowId: string) => {
+      try {
+        const res = await fetch(`/api/databases/${databaseId}/rows/${rowId}/page`, {
+          method: "POST",
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          alert(data.error || "Failed to open row");
+          return;
+        }
+        router.push(`/page/${data.id}`);
+      } catch (error) {
+        console.error("Failed to open row:", error);
+      }
+    },
+    [databaseId, router]
+  );
+
+  // Save a new column list; the server converts values and relations need reloading
+  const saveColumns = useCallback(
+    async (newColumns: Column[]) => {
+      try {
+        const res = await fetch(`/api/databases/${databaseId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ columns: newColumns }),
+        });
+
+        if (!res.ok) {
+          const { error } = await res.json();
+          alert(error || "Failed to update columns");
+          return;
+        }
+
+        // Views come back without settings the new columns can't support
+        await fetchDatabase();
+        await fetchRows();
+      } catch (error) {
+        console.error("Failed to update columns:", error);
+      }
+    },
+    [databaseId, fetchDatabase, fetchRows]
+  );
+
   // Add column
   const addColumn = useCallback(
-    async (column: Column) => {
-      const newColumns = [...columns, column];
-      await updateDatabase({ columns: newColumns as unknown as string });
-      setDatabase((prev) => prev ? { ...prev, columns: JSON.stringify(newColumns) } : prev);
-    },
-    [columns, updateDatabase]
+    (column: Column) => saveColumns([...columns, column]),
+    [columns, saveColumns]
+  );
+
+  // Update column (name, type or settings); formulas follow renames
+  const updateColumn = useCallback(
+    (columnId: string, updates: Partial<Column>) =>
+      saveColumns(applyColumnUpdate(columns, columnId, updates)),
+    [columns, saveColumns]
   );
 
   // Delete column
   const deleteColumn = useCallback(
-    async (columnId: string) => {
-      const newColumns = columns.filter((c) => c.id !== columnId);
-      await updateDatabase({ columns: newColumns as unknown as string });
-      setDatabase((prev) => prev ? { ...prev, columns: JSON.stringify(newColumns) } : prev);
-    },
-    [columns, updateDatabase]
+    (columnId: string) => saveColumns(columns.filter((c) => c.id !== columnId)),
+    [columns, saveColumns]
   );
 
+  // Copy the database, with or without its rows, and open the copy
+  const duplicateDatabase = async (includeRows: boolean) => {
+    setShowMenu(false);
+    try {
+      const res = await fetch(`/api/databases/${databaseId}/duplicate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ includeRows }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to duplicate database");
+        return;
+      }
+      router.push(`/databases/${data.id}`);
+    } catch (error) {
+      console.error("Failed to duplicate database:", error);
+    }
+  };
+
   // Delete database
   const deleteDatabase = async () => {
-    if (!confirm("Are you sure you want to delete this database? This cannot be undone.")) return;
+    if (!confirm("Move this database to the trash? You can restore it from the Trash page.")) return;
     
     try {
       const res = await fetch(`/api/databases/${databaseId}`, { method: "DELETE" });
@@ -291,6 +582,40 @@ export default function DatabaseViewPage({ params }: { params: Promise<{ databas
               className="absolute right-0 top-full mt-1 w-48 bg-[var(--card)] border border-[var(--border)] rounded-lg shadow-xl py-1 z-50"
               onClick={(e) => e.stopPropagation()}
             >
+              <button
+                onClick={() => duplicateDatabase(true)}
+                className="w-full flex items-center gap-2 px-4 py-2 text-sm hover:bg-[var(--card-hover)]"
+              >
+                <Copy className="w-4 h-4" />
+                Duplicate
+              </button>
+              <button
+                onClick={() => duplicateDatabase(false)}
+                className="w-full flex items-center gap-2 px-4 py-2 text-sm hover:bg-[var(--card-hover)]"
+              >
+                <Copy className="w-4 h-4" />
+                Duplicate without rows
+              </button>
+              <button
+                onClick={() => {
+                  setShowImport(true);
+                  setShowMenu(false);
+                }}
+                className="w-full flex items-center gap-2 px-4 py-2 text-sm hover:bg-[var(--card-hover)]"
+              >
+                <Upload className="w-4 h-4" />
+                Import CSV
+              </button>
+              <button
+                onClick={() => {
+                  setShowSaveTemplate(true);
+                  setShowMenu(false);
+                }}
+                className="w-full flex items-center gap-2 px-4 py-2 text-sm hover:bg-[var(--card-hover)]"
+              >
+                <LayoutTemplate className="w-4 h-4" />
+                Save as template
+              </button>
               <button
                 onClick={deleteDatabase}
                 className="w-full flex items-center gap-2 px-4 py-2 text-sm text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
@@ -351,29 +676,145 @@ export default function DatabaseViewPage({ params }: { params: Promise<{ databas
             style={database.color ? { color: database.color } : undefined}
           />
           <p className="text-sm text-[var(--muted)] mt-1">
-            {rows.length} {rows.length === 1 ? "row" : "rows"} · {columns.length} {columns.length === 1 ? "column" : "columns"}
+            {rowPage.total} {rowPage.total === 1 ? "row" : "rows"} · {columns.length} {columns.length === 1 ? "column" : "columns"}
           </p>
         </div>
       </div>
 
-      {/* Table */}
-      <div className="bg-[var(--card)] border border-[var(--border)] rounded-xl overflow-hidden">
-        <DatabaseTable
-          columns={columns}
-          rows={rows}
-          onAddRow={addRow}
-          onUpdateRow={updateRow}
-          onDeleteRow={deleteRow}
-          onAddColumn={addColumn}
-          onUpdateColumn={() => {}}
-          onDeleteColumn={deleteColumn}
-          color={database.color}
-        />
+      {/* Views */}
+      <ViewTabs
+        views={views}
+        activeViewId={activeView?.id ?? null}
+        onSelect={selectView}
+        onAdd={addView}
+        onRename={(viewId, name) => updateView(viewId, { name })}
+        onDelete={deleteView}
+      />
+
+      {activeView && (
+        <>
+          {/* Filters, sorts and view settings */}
+          <div className="flex items-start justify-between gap-2">
+            <FilterBar
+              columns={columns}
+              filters={activeView.filters}
+              filterMode={activeView.filterMode}
+              sorts={activeView.sorts}
+              relationTargets={database.relationTargets}
+              onFiltersChange={(filters) => updateView(activeView.id, { filters })}
+              onFilterModeChange={(filterMode) => updateView(activeView.id, { filterMode })}
+              onSortsChange={(sorts) => updateView(activeView.id, { sorts })}
+            />
+            <ViewSettingsPanel
+              view={activeView}
+              columns={columns}
+              onChange={(updates) => updateView(activeView.id, updates)}
+            />
+          </div>
+
+          <div className="bg-[var(--card)] border border-[var(--border)] rounded-xl overflow-hidden">
+            {activeView.layout === "table" && (
+              <DatabaseTable
+                columns={columns}
+                visibleColumns={shownColumns}
+                rows={rows}
+                onAddRow={() => addRow()}
+                onUpdateRow={updateRow}
+                onDeleteRow={deleteRow}
+                onOpenRow={openRow}
+                onAddColumn={addColumn}
+                onUpdateColumn={updateColumn}
+                onDeleteColumn={deleteColumn}
+                relationTargets={database.relationTargets}
+                totals={rowPage.nextCursor ? rowPage.totals : undefined}
+                color={database.color}
+              />
+            )}
+            {activeView.layout === "board" && (
+              <DatabaseBoard
+                columns={columns}
+                properties={shownColumns}
+                rows={rows}
+                groupBy={columns.find((c) => c.id === activeView.groupBy)}
+                onAddRow={addRow}
+                onOpenRow={openRow}
+                onUpdateRow={updateRow}
+                relationTargets={database.relationTargets}
+                color={database.color}
+              />
+            )}
+            {activeView.layout === "calendar" && (
+              <DatabaseCalendar
+                columns={columns}
+                properties={shownColumns}
+                rows={rows}
+                dateColumn={columns.find((c) => c.id === activeView.dateColumn)}
+                currentMonth={calendarMonth}
+                onPrevMonth={() =>
+                  setCalendarMonth((m) => new Date(m.getFullYear(), m.getMonth() - 1, 1))
+                }
+                onNextMonth={() =>
+                  setCalendarMonth((m) => new Date(m.getFullYear(), m.getMonth() + 1, 1))
+                }
+                onAddRow={addRow}
+                onOpenRow={openRow}
+                relationTargets={database.relationTargets}
+                color={database.color}
+              />
+            )}
+            {activeView.layout === "gallery" && (
+              <DatabaseGallery
+                columns={columns}
+                properties={shownColumns}
+                rows={rows}
+                onAddRow={addRow}
+                onOpenRow={openRow}
+                relationTargets={database.relationTargets}
+                color={database.color}
+              />
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Incremental loading */}
+      <div ref={loadMoreRef} className="flex items-center justify-center gap-2 py-3 text-sm text-[var(--muted)]">
+        {isLoadingRows ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : rowPage.nextCursor ? (
+          <button onClick={() => fetchRows(rowPage.nextCursor)} className="hover:text-[var(--foreground)]">
+            Showing {rows.length} of {rowPage.total} · Load more
+          </button>
+        ) : null}
       </div>
 
+      {conflictDialog}
+
+      {/* Save as template modal */}
+      {showSaveTemplate && (
+        <SaveTemplateModal
+          databaseId={database.id}
+          defaultName={database.name}
+          onClose={() => setShowSaveTemplate(false)}
+        />
+      )}
+
+      {/* CSV import */}
+      {showImport && (
+        <CSVImportModal
+          database={{ id: database.id, columns }}
+          onClose={() => setShowImport(false)}
+          onImported={() => {
+            setShowImport(false);
+            fetchDatabase();
+            fetchRows();
+          }}
+        />
+      )}
+
       {/* Tips */}
       <div className="mt-6 p-4 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm text-[var(--muted)]">
-        💡 <strong>Tip:</strong> Click any cell to edit. Use the + buttons to add rows and columns.
+        💡 <strong>Tip:</strong> Click any cell to edit, or open a row as a page to write in it. Use the + buttons to add rows and columns, and a column&apos;s menu to change its type.
       </div>
     </div>
   );
@@ -3,7 +3,9 @@
 /**
  * Databases List Page
  * 
- * Shows all databases and allows creating new ones.
+ * Shows all databases and allows creating new ones from a gallery of
+ * built-in templates and the user's own saved templates, or by importing
+ * a CSV file.
  */
 
 import { useState, useEffect } from "react";
@@ -12,13 +14,13 @@ import Link from "next/link";
 import {
   Database,
   Plus,
-  Table2,
-  ShoppingCart,
-  CheckSquare,
-  Calendar,
   ArrowRight,
   Loader2,
+  Trash2,
+  Upload,
 } from "lucide-react";
+import { BUILT_IN_TEMPLATES, PersonalTemplate } from "@/lib/templates";
+import { CSVImportModal } from "@/components/database/CSVImportModal";
 
 interface DatabaseItem {
   id: string;
@@ -29,20 +31,14 @@ interface DatabaseItem {
   _count: { rows: number };
 }
 
-// Template options
-const TEMPLATES = [
-  { id: "blank", name: "Blank", icon: Table2, description: "Start from scratch" },
-  { id: "todo", name: "To-Do List", icon: CheckSquare, description: "Track tasks and priorities" },
-  { id: "shopping", name: "Shopping List", icon: ShoppingCart, description: "Items with prices" },
-  { id: "tracker", name: "Habit Tracker", icon: Calendar, description: "Track daily habits" },
-];
-
 export default function DatabasesPage() {
   const router = useRouter();
   const [databases, setDatabases] = useState<DatabaseItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showNewModal, setShowNewModal] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
+  const [personalTemplates, setPersonalTemplates] = useState<PersonalTemplate[]>([]);
+  const [showImport, setShowImport] = useState(false);
 
   // Fetch databases
   useEffect(() => {
@@ -63,22 +59,38 @@ export default function DatabasesPage() {
     }
   };
 
-  // Create new database
-  const createDatabase = async (template: string) => {
+  // Fetch saved templates when the gallery opens
+  useEffect(() => {
+    if (!showNewModal) return;
+    const fetchTemplates = async () => {
+      try {
+        const res = await fetch("/api/databases/templates");
+        if (res.ok) {
+          setPersonalTemplates(await res.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch templates:", error);
+      }
+    };
+    fetchTemplates();
+  }, [showNewModal]);
+
+  // Create new database from a built-in { template } or saved { templateId } template
+  const createDatabase = async (source: { template: string } | { templateId: string }) => {
     setIsCreating(true);
     try {
       const res = await fetch("/api/databases", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          name: template === "blank" ? "Untitled Database" : `My ${TEMPLATES.find(t => t.id === template)?.name}`,
-          template,
-        }),
+        body: JSON.stringify(source),
       });
 
       if (res.ok) {
         const db = await res.json();
         router.push(`/databases/${db.id}`);
+      } else {
+        const { error } = await res.json();
+        alert(error || "Failed to create database");
       }
     } catch (error) {
       console.error("Failed to create database:", error);
@@ -88,6 +100,20 @@ export default function DatabasesPage() {
     }
   };
 
+  // Delete a saved template
+  const deleteTemplate = async (template: PersonalTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Databases made from it are kept.`)) return;
+
+    try {
+      const res = await fetch(`/api/databases/templates/${template.id}`, { method: "DELETE" });
+      if (res.ok) {
+        setPersonalTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      }
+    } catch (error) {
+      console.error("Failed to delete template:", error);
+    }
+  };
+
   return (
     <div className="max-w-5xl mx-auto p-8">
       {/* Header */}
@@ -104,13 +130,22 @@ export default function DatabasesPage() {
           </div>
         </div>
 
-        <button
-          onClick={() => setShowNewModal(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-garden-600 hover:bg-garden-700 text-white rounded-lg transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          New Database
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-[var(--border)] hover:bg-[var(--card-hover)] rounded-lg transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Import CSV
+          </button>
+          <button
+            onClick={() => setShowNewModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-garden-600 hover:bg-garden-700 text-white rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Database
+          </button>
+        </div>
       </div>
 
       {/* Loading */}
@@ -181,26 +216,69 @@ export default function DatabasesPage() {
           onClick={() => setShowNewModal(false)}
         >
           <div 
-            className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 w-full max-w-lg animate-fade-in"
+            className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-fade-in"
             onClick={(e) => e.stopPropagation()}
           >
             <h2 className="text-xl font-semibold mb-2">Create Database</h2>
             <p className="text-[var(--muted)] mb-6">Choose a template to get started</p>
             
-            <div className="grid grid-cols-2 gap-3">
-              {TEMPLATES.map((template) => (
-                <button
-                  key={template.id}
-                  onClick={() => createDatabase(template.id)}
-                  disabled={isCreating}
-                  className="p-4 bg-[var(--background)] border border-[var(--border)] rounded-xl hover:border-garden-500/50 hover:bg-[var(--card-hover)] transition-all text-left disabled:opacity-50"
-                >
-                  <template.icon className="w-8 h-8 text-garden-500 mb-3" />
-                  <h3 className="font-medium mb-1">{template.name}</h3>
-                  <p className="text-sm text-[var(--muted)]">{template.description}</p>
-                </button>
-              ))}
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {BUILT_IN_TEMPLATES.map((template) => {
+                const sampleCount = template.sampleRows().length;
+                return (
+                  <button
+                    key={template.id}
+                    onClick={() => createDatabase({ template: template.id })}
+                    disabled={isCreating}
+                    className="p-4 bg-[var(--background)] border border-[var(--border)] rounded-xl hover:border-garden-500/50 hover:bg-[var(--card-hover)] transition-all text-left disabled:opacity-50"
+                  >
+                    <span className="block text-3xl mb-2">{template.icon}</span>
+                    <h3 className="font-medium mb-1">{template.name}</h3>
+                    <p className="text-sm text-[var(--muted)]">{template.description}</p>
+                    {sampleCount > 0 && (
+                      <p className="text-xs text-[var(--muted)] mt-2">
+                        {template.columns.length} columns · {sampleCount} sample rows
+                      </p>
+                    )}
+                  </button>
+                );
+              })}
             </div>
+
+            {personalTemplates.length > 0 && (
+              <>
+                <h3 className="text-sm font-medium text-[var(--muted)] mt-6 mb-3">Your templates</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {personalTemplates.map((template) => (
+                    <div key={template.id} className="group relative">
+                      <button
+                        onClick={() => createDatabase({ templateId: template.id })}
+                        disabled={isCreating}
+                        className="w-full h-full p-4 bg-[var(--background)] border border-[var(--border)] rounded-xl hover:border-garden-500/50 hover:bg-[var(--card-hover)] transition-all text-left disabled:opacity-50"
+                        style={template.color ? { borderTop: `3px solid ${template.color}` } : undefined}
+                      >
+                        <span className="block text-3xl mb-2">{template.icon || "📊"}</span>
+                        <h3 className="font-medium mb-1 pr-6 truncate">{template.name}</h3>
+                        {template.description && (
+                          <p className="text-sm text-[var(--muted)] line-clamp-2">{template.description}</p>
+                        )}
+                        <p className="text-xs text-[var(--muted)] mt-2">
+                          {template.columnCount} columns
+                          {template.rowCount > 0 && ` · ${template.rowCount} rows`}
+                        </p>
+                      </button>
+                      <button
+                        onClick={() => deleteTemplate(template)}
+                        className="absolute top-2 right-2 p-1 rounded text-[var(--muted)] opacity-0 group-hover:opacity-100 hover:text-red-500 transition-opacity"
+                        title="Delete template"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
             
             <button
               onClick={() => setShowNewModal(false)}
@@ -211,6 +289,14 @@ export default function DatabasesPage() {
           </div>
         </div>
       )}
+
+      {/* CSV import */}
+      {showImport && (
+        <CSVImportModal
+          onClose={() => setShowImport(false)}
+          onImported={(result) => router.push(`/databases/${result.databaseId}`)}
+        />
+      )}
     </div>
   );
 }
@@ -104,6 +104,12 @@ export default function ExportPage() {
   const selectedOption = exportOptions.find((o) => o.id === selectedType)!;
   const availableFormats = selectedOption.formats;
 
+  // Markdown pages come as a zip with one file per page
+  const fileExtension =
+    selectedFormat === "markdown"
+      ? selectedType === "pages" || selectedType === "all" ? "zip" : "md"
+      : selectedFormat;
+
   // Reset format if not available for selected type
   if (!availableFormats.includes(selectedFormat)) {
     setSelectedFormat(availableFormats[0]);
@@ -269,7 +275,7 @@ export default function ExportPage() {
           <div>
             <p className="text-[var(--muted)]">Filename</p>
             <p className="font-medium font-mono text-xs bg-[var(--background)] px-2 py-1 rounded">
-              mind-garden-export-{selectedType}.{selectedFormat === "markdown" ? "md" : selectedFormat}
+              mind-garden-export-{selectedType}.{fileExtension}
             </p>
           </div>
         </div>
@@ -323,9 +329,10 @@ export default function ExportPage() {
           Export Tips
         </h3>
         <ul className="text-sm text-[var(--muted)] space-y-1">
-          <li>• <strong>JSON</strong> - Best for full backups, can be re-imported later</li>
+          <li>• <strong>JSON</strong> - Best for full backups; export Everything as JSON and restore it from the Import page</li>
           <li>• <strong>CSV</strong> - Perfect for opening in spreadsheet apps like Excel or Google Sheets</li>
           <li>• <strong>Markdown</strong> - Human-readable format, great for sharing or printing</li>
+          <li>• Markdown page exports are a zip of .md files by folder that opens as an Obsidian vault and can be imported back</li>
           <li>• Export regularly to keep a backup of your important data!</li>
         </ul>
       </div>
@@ -1,22 +1,28 @@
 /**
  * Favorites Page
  * 
- * Shows all pages marked as favorites.
+ * Shows all pages in the workspace marked as favorites.
  */
 
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { redirect } from "next/navigation";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
 import Link from "next/link";
 import { Star, ArrowRight } from "lucide-react";
 
 export default async function FavoritesPage() {
-  const session = await getServerSession(authOptions);
+  const access = await authorize("view");
+
+  if (access instanceof NextResponse) {
+    redirect("/login");
+  }
 
   const favorites = await db.page.findMany({
     where: {
-      userId: session?.user?.id,
+      workspaceId: access.workspaceId,
       isFavorite: true,
+      deletedAt: null,
     },
     orderBy: { updatedAt: "desc" },
     include: {
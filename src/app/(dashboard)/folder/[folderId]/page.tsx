@@ -4,8 +4,8 @@
  * Shows all pages in a specific folder.
  */
 
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
 import { redirect, notFound } from "next/navigation";
 import Link from "next/link";
@@ -18,24 +18,27 @@ interface FolderPageProps {
 
 export default async function FolderPage({ params }: FolderPageProps) {
   const { folderId } = await params;
-  const session = await getServerSession(authOptions);
+  const access = await authorize("view", { folder: folderId });
 
-  if (!session?.user?.id) {
+  if (access instanceof NextResponse) {
     redirect("/login");
   }
 
   const folder = await db.folder.findFirst({
     where: {
       id: folderId,
-      userId: session.user.id,
+      workspaceId: access.workspaceId,
+      deletedAt: null,
     },
     include: {
       pages: {
+        where: { deletedAt: null },
         orderBy: { updatedAt: "desc" },
       },
       children: {
+        where: { deletedAt: null },
         include: {
-          _count: { select: { pages: true } },
+          _count: { select: { pages: { where: { deletedAt: null } } } },
         },
         orderBy: { order: "asc" },
       },
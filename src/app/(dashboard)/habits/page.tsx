@@ -3,7 +3,7 @@
 /**
  * Habit Tracker Page
  * 
- * Track daily habits with beautiful calendar views
+ * Track habits on the days they're due, with beautiful calendar views
  */
 
 import { useState, useEffect, useCallback } from "react";
@@ -20,11 +20,30 @@ import {
 } from "lucide-react";
 import { HabitCalendar } from "@/components/habits/HabitCalendar";
 import { PRESET_TIMES, formatTime } from "@/lib/notifications";
+import {
+  FREQUENCY_LABELS,
+  HABIT_FREQUENCIES,
+  HabitFrequency,
+  MAX_TIMES_PER_PERIOD,
+  WEEKDAYS,
+  Weekday,
+  completedDays,
+  formatAmount,
+  isDue,
+  isPeriodic,
+  isQuantitative,
+  isValidQuota,
+  logDayKey,
+  toDayKey,
+} from "@/lib/habits";
+import { dayKeyIn } from "@/lib/timezones";
+import { useTimezone } from "@/components/providers/TimezoneProvider";
 
 interface HabitLog {
   id: string;
   date: string;
   completed: boolean;
+  amount: number | null;
 }
 
 interface Habit {
@@ -33,6 +52,11 @@ interface Habit {
   icon: string;
   color: string;
   description?: string;
+  frequency: string;
+  targetDays: string | null;
+  timesPerPeriod: number | null;
+  target: number | null;
+  unit: string | null;
   reminderEnabled: boolean;
   reminderTime: string | null;
   logs: HabitLog[];
@@ -55,6 +79,7 @@ const HABIT_ICONS = [
 ];
 
 export default function HabitsPage() {
+  const { timezone } = useTimezone();
   const [habits, setHabits] = useState<Habit[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentMonth, setCurrentMonth] = useState(new Date());
@@ -62,6 +87,13 @@ export default function HabitsPage() {
   const [newHabitName, setNewHabitName] = useState("");
   const [newHabitIcon, setNewHabitIcon] = useState("✨");
   const [newHabitColor, setNewHabitColor] = useState(HABIT_COLORS[0]);
+  const [newHabitFrequency, setNewHabitFrequency] = useState<HabitFrequency>("daily");
+  const [newHabitDays, setNewHabitDays] = useState<Weekday[]>([]);
+  const [newHabitTimes, setNewHabitTimes] = useState(3);
+  const [newHabitTracksAmount, setNewHabitTracksAmount] = useState(false);
+  const [newHabitTarget, setNewHabitTarget] = useState("");
+  const [newHabitUnit, setNewHabitUnit] = useState("");
+  const [amountEntry, setAmountEntry] = useState<{ habit: Habit; date: Date; value: string } | null>(null);
   const [newHabitReminder, setNewHabitReminder] = useState(false);
   const [newHabitReminderTime, setNewHabitReminderTime] = useState("09:00");
   const [editingReminder, setEditingReminder] = useState<string | null>(null);
@@ -98,6 +130,11 @@ export default function HabitsPage() {
           name: newHabitName,
           icon: newHabitIcon,
           color: newHabitColor,
+          frequency: newHabitFrequency,
+          targetDays: newHabitFrequency === "custom" ? newHabitDays : null,
+          timesPerPeriod: isPeriodic({ frequency: newHabitFrequency }) ? newHabitTimes : null,
+          target: newHabitTracksAmount ? Number(newHabitTarget) : null,
+          unit: newHabitTracksAmount ? newHabitUnit : null,
           reminderEnabled: newHabitReminder,
           reminderTime: newHabitReminder ? newHabitReminderTime : null,
         }),
@@ -109,6 +146,12 @@ export default function HabitsPage() {
         setNewHabitName("");
         setNewHabitIcon("✨");
         setNewHabitColor(HABIT_COLORS[0]);
+        setNewHabitFrequency("daily");
+        setNewHabitDays([]);
+        setNewHabitTimes(3);
+        setNewHabitTracksAmount(false);
+        setNewHabitTarget("");
+        setNewHabitUnit("");
         setNewHabitReminder(false);
         setNewHabitReminderTime("09:00");
         setShowNewHabit(false);
@@ -143,14 +186,16 @@ export default function HabitsPage() {
     }
   };
 
-  // Toggle habit completion for a day
-  const handleToggleDay = async (habitId: string, date: Date) => {
+  // Toggle habit completion for a day, or log an amount for habits with
+  // a target
+  const handleToggleDay = async (habitId: string, date: Date, amount?: number) => {
     try {
       const res = await fetch(`/api/habits/${habitId}/log`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          date: date.toISOString(),
+          date: toDayKey(date),
+          ...(amount !== undefined && { amount }),
         }),
       });
 
@@ -163,6 +208,25 @@ export default function HabitsPage() {
     }
   };
 
+  // Clicking a day of a habit with a target asks how much was done
+  const handleDayClick = (habit: Habit, date: Date) => {
+    if (!isQuantitative(habit)) {
+      handleToggleDay(habit.id, date);
+      return;
+    }
+    const day = toDayKey(date);
+    const log = habit.logs.find((l) => logDayKey(l.date) === day);
+    setAmountEntry({ habit, date, value: log?.amount ? String(log.amount) : "" });
+  };
+
+  const handleSaveAmount = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amountEntry) return;
+    const amount = Number(amountEntry.value) || 0;
+    handleToggleDay(amountEntry.habit.id, amountEntry.date, Math.max(amount, 0));
+    setAmountEntry(null);
+  };
+
   // Delete habit
   const handleDeleteHabit = async (habitId: string) => {
     if (!confirm("Delete this habit? This cannot be undone.")) return;
@@ -189,22 +253,31 @@ export default function HabitsPage() {
     setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1));
   };
 
-  // Calculate overall stats
+  // Calculate overall stats, counting only the habits due today (weekly
+  // and monthly ones are, until their quota is met) in the user's time zone
+  const today = dayKeyIn(new Date(), timezone);
   const overallStats = habits.reduce(
     (acc, habit) => {
-      const todayStr = new Date().toDateString();
-      const completedToday = habit.logs.some(
-        (log) => log.completed && new Date(log.date).toDateString() === todayStr
-      );
-      
-      if (completedToday) acc.completedToday++;
-      acc.totalStreak += habit.logs.filter((l) => l.completed).length;
-      
+      const completed = completedDays(habit.logs);
+
+      if (isDue(habit, completed, today)) {
+        acc.dueToday++;
+        if (completed.has(today)) acc.completedToday++;
+      }
+      acc.totalCompletions += completed.size;
+
       return acc;
     },
-    { completedToday: 0, totalStreak: 0 }
+    { dueToday: 0, completedToday: 0, totalCompletions: 0 }
   );
 
+  // Toggle a day in the custom schedule being chosen
+  const toggleNewHabitDay = (day: Weekday) => {
+    setNewHabitDays((days) =>
+      days.includes(day) ? days.filter((d) => d !== day) : WEEKDAYS.filter((d) => d === day || days.includes(d))
+    );
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -250,7 +323,7 @@ export default function HabitsPage() {
             <div>
               <p className="text-sm text-[var(--muted)]">Completed Today</p>
               <p className="text-2xl font-bold">
-                {overallStats.completedToday}/{habits.length}
+                {overallStats.completedToday}/{overallStats.dueToday}
               </p>
             </div>
           </div>
@@ -263,7 +336,7 @@ export default function HabitsPage() {
             </div>
             <div>
               <p className="text-sm text-[var(--muted)]">Total Completions</p>
-              <p className="text-2xl font-bold">{overallStats.totalStreak}</p>
+              <p className="text-2xl font-bold">{overallStats.totalCompletions}</p>
             </div>
           </div>
         </div>
@@ -346,12 +419,124 @@ export default function HabitsPage() {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium mb-2">Frequency</label>
+              <div className="flex flex-wrap gap-2">
+                {HABIT_FREQUENCIES.map((frequency) => (
+                  <button
+                    key={frequency}
+                    type="button"
+                    onClick={() => setNewHabitFrequency(frequency)}
+                    className={`
+                      px-3 py-1.5 rounded-lg text-sm transition-colors
+                      ${newHabitFrequency === frequency
+                        ? "bg-[var(--garden-500)] text-white"
+                        : "bg-[var(--background)] hover:bg-[var(--card-hover)] border border-[var(--border)]"
+                      }
+                    `}
+                  >
+                    {FREQUENCY_LABELS[frequency]}
+                  </button>
+                ))}
+              </div>
+
+              {newHabitFrequency === "custom" && (
+                <div className="flex gap-1 mt-3">
+                  {WEEKDAYS.map((day) => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => toggleNewHabitDay(day)}
+                      className={`
+                        w-10 h-10 rounded-lg text-xs font-medium capitalize transition-colors
+                        ${newHabitDays.includes(day)
+                          ? "bg-[var(--garden-500)] text-white"
+                          : "bg-[var(--background)] hover:bg-[var(--card-hover)] border border-[var(--border)]"
+                        }
+                      `}
+                    >
+                      {day}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {(newHabitFrequency === "weekly" || newHabitFrequency === "monthly") && (
+                <div className="flex items-center gap-2 mt-3 text-sm">
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_TIMES_PER_PERIOD[newHabitFrequency]}
+                    value={newHabitTimes}
+                    onChange={(e) => setNewHabitTimes(Number(e.target.value))}
+                    className="w-20 px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--garden-500)]"
+                  />
+                  <span className="text-[var(--muted)]">
+                    {newHabitTimes === 1 ? "time" : "times"} a {newHabitFrequency === "weekly" ? "week" : "month"}, any days
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {/* Target */}
+            <div className="p-4 bg-[var(--background)] rounded-lg border border-[var(--border)]">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Target className="w-4 h-4 text-[var(--garden-500)]" />
+                  <label className="text-sm font-medium">Track an amount</label>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setNewHabitTracksAmount(!newHabitTracksAmount)}
+                  className={`
+                    relative w-12 h-7 rounded-full transition-colors duration-300
+                    ${newHabitTracksAmount ? "bg-[var(--garden-500)]" : "bg-gray-300 dark:bg-gray-600"}
+                  `}
+                >
+                  <div
+                    className={`
+                      absolute top-1 w-5 h-5 bg-white rounded-full shadow-md
+                      transition-transform duration-300
+                      ${newHabitTracksAmount ? "translate-x-6" : "translate-x-1"}
+                    `}
+                  />
+                </button>
+              </div>
+
+              {newHabitTracksAmount && (
+                <div className="mt-3 flex gap-2">
+                  <div className="flex-1">
+                    <label className="block text-xs text-[var(--muted)] mb-2">Daily target</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={newHabitTarget}
+                      onChange={(e) => setNewHabitTarget(e.target.value)}
+                      placeholder="e.g., 8"
+                      className="w-full px-3 py-2 bg-[var(--card)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--garden-500)]"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-xs text-[var(--muted)] mb-2">Unit</label>
+                    <input
+                      type="text"
+                      value={newHabitUnit}
+                      onChange={(e) => setNewHabitUnit(e.target.value)}
+                      placeholder="e.g., glasses"
+                      className="w-full px-3 py-2 bg-[var(--card)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--garden-500)]"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
             {/* Reminder settings */}
             <div className="p-4 bg-[var(--background)] rounded-lg border border-[var(--border)]">
               <div className="flex items-center justify-between mb-3">
                 <div className="flex items-center gap-2">
                   <Bell className="w-4 h-4 text-[var(--garden-500)]" />
-                  <label className="text-sm font-medium">Daily Reminder</label>
+                  <label className="text-sm font-medium">Reminder</label>
                 </div>
                 <button
                   type="button"
@@ -392,7 +577,13 @@ export default function HabitsPage() {
             <div className="flex gap-2 pt-2">
               <button
                 type="submit"
-                disabled={!newHabitName.trim()}
+                disabled={
+                  !newHabitName.trim() ||
+                  (newHabitFrequency === "custom" && newHabitDays.length === 0) ||
+                  ((newHabitFrequency === "weekly" || newHabitFrequency === "monthly") &&
+                    !isValidQuota(newHabitFrequency, newHabitTimes)) ||
+                  (newHabitTracksAmount && !(Number(newHabitTarget) > 0))
+                }
                 className="px-4 py-2 bg-[var(--garden-500)] hover:bg-[var(--garden-600)] text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Create Habit
@@ -434,7 +625,7 @@ export default function HabitsPage() {
                 currentMonth={currentMonth}
                 onPrevMonth={goToPrevMonth}
                 onNextMonth={goToNextMonth}
-                onToggleDay={(date) => handleToggleDay(habit.id, date)}
+                onToggleDay={(date) => handleDayClick(habit, date)}
               />
               
               {/* Action buttons */}
@@ -526,6 +717,65 @@ export default function HabitsPage() {
         </div>
       )}
 
+      {/* Amount for a day */}
+      {amountEntry && (
+        <div
+          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+          onClick={() => setAmountEntry(null)}
+        >
+          <form
+            onSubmit={handleSaveAmount}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-[var(--card)] border border-[var(--border)] rounded-xl p-6 w-full max-w-sm animate-fade-in"
+          >
+            <h3 className="font-semibold text-lg mb-1">
+              {amountEntry.habit.icon} {amountEntry.habit.name}
+            </h3>
+            <p className="text-sm text-[var(--muted)] mb-4">
+              {amountEntry.date.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" })}
+              {" · "}target {formatAmount(amountEntry.habit.target!, amountEntry.habit.unit)}
+            </p>
+            <div className="flex items-center gap-2 mb-4">
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={amountEntry.value}
+                onChange={(e) => setAmountEntry({ ...amountEntry, value: e.target.value })}
+                placeholder="0"
+                autoFocus
+                className="flex-1 px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--garden-500)]"
+              />
+              {amountEntry.habit.unit && (
+                <span className="text-sm text-[var(--muted)]">{amountEntry.habit.unit}</span>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-[var(--garden-500)] hover:bg-[var(--garden-600)] text-white rounded-lg transition-colors"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={() => setAmountEntry({ ...amountEntry, value: String(amountEntry.habit.target) })}
+                className="px-4 py-2 bg-[var(--background)] hover:bg-[var(--card-hover)] border border-[var(--border)] rounded-lg transition-colors"
+              >
+                Hit target
+              </button>
+              <button
+                type="button"
+                onClick={() => setAmountEntry(null)}
+                className="ml-auto px-4 py-2 hover:bg-[var(--card-hover)] rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
       {/* Quick tips */}
       {habits.length > 0 && (
         <div className="mt-8 p-4 bg-[var(--card)] rounded-xl border border-[var(--border)]">
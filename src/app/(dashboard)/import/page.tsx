@@ -0,0 +1,276 @@
+"use client";
+
+/**
+ * Import Page
+ *
+ * Bring notes into Mind Garden from Obsidian, Notion or plain Markdown
+ */
+
+import { useState, useRef } from "react";
+import Link from "next/link";
+import {
+  Upload,
+  FileArchive,
+  FileText,
+  FolderOpen,
+  Tag,
+  Database,
+  Check,
+  Loader2,
+  AlertTriangle,
+  Sparkles,
+} from "lucide-react";
+import { BackupRestore } from "@/components/import/BackupRestore";
+
+interface ImportSummary {
+  folders: number;
+  pages: number;
+  tags: number;
+  databases: number;
+  rows: number;
+  unresolvedLinks: string[];
+  skipped: string[];
+}
+
+const sources = [
+  {
+    name: "Obsidian",
+    description: "Zip your vault folder and upload it",
+    color: "#7c3aed",
+  },
+  {
+    name: "Notion",
+    description: "Export as \"Markdown & CSV\" and upload the zip",
+    color: "#111827",
+  },
+  {
+    name: "Markdown",
+    description: "Any zip of .md files, or a single .md or .csv file",
+    color: "#10b981",
+  },
+];
+
+export default function ImportPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    setSummary(null);
+    setError(null);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const res = await fetch("/api/import", { method: "POST", body: formData });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Import failed");
+        return;
+      }
+
+      setSummary(data);
+      setFile(null);
+    } catch (error) {
+      console.error("Import failed:", error);
+      setError("Import failed. Please try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 bg-gradient-to-br from-emerald-500 to-teal-600 rounded-xl text-white">
+            <Upload className="w-6 h-6" />
+          </div>
+          <h1 className="text-3xl font-bold">Import Data</h1>
+        </div>
+        <p className="text-[var(--muted)]">
+          Bring your notes over from Obsidian, Notion or any Markdown folder
+        </p>
+      </div>
+
+      {/* Supported sources */}
+      <div className="mb-8 grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {sources.map((source) => (
+          <div
+            key={source.name}
+            className="p-4 rounded-xl border border-[var(--border)] bg-[var(--card)]"
+          >
+            <div
+              className="w-2 h-2 rounded-full mb-3"
+              style={{ backgroundColor: source.color }}
+            />
+            <h3 className="font-semibold mb-1">{source.name}</h3>
+            <p className="text-sm text-[var(--muted)]">{source.description}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Drop zone */}
+      <div
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          selectFile(e.dataTransfer.files[0]);
+        }}
+        className={`
+          mb-8 p-10 rounded-xl border-2 border-dashed text-center cursor-pointer transition-all
+          ${isDragging
+            ? "border-[var(--garden-500)] bg-[var(--garden-500)]/10"
+            : "border-[var(--border)] hover:border-[var(--muted)]"
+          }
+        `}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".zip,.md,.markdown,.csv"
+          className="hidden"
+          onChange={(e) => selectFile(e.target.files?.[0])}
+        />
+        <FileArchive className="w-10 h-10 text-[var(--muted)] mx-auto mb-3" />
+        {file ? (
+          <>
+            <p className="font-medium">{file.name}</p>
+            <p className="text-sm text-[var(--muted)]">
+              {(file.size / 1024 / 1024).toFixed(2)} MB · click to choose another file
+            </p>
+          </>
+        ) : (
+          <>
+            <p className="font-medium">Drop a .zip, .md or .csv file here</p>
+            <p className="text-sm text-[var(--muted)]">or click to browse</p>
+          </>
+        )}
+      </div>
+
+      {/* Import button */}
+      <div className="flex items-center gap-4 mb-8">
+        <button
+          onClick={handleImport}
+          disabled={!file || isImporting}
+          className={`
+            flex items-center gap-2 px-6 py-3 rounded-xl font-medium text-white
+            transition-all duration-200
+            ${isImporting
+              ? "bg-[var(--muted)] cursor-wait"
+              : !file
+              ? "bg-[var(--muted)] cursor-not-allowed opacity-60"
+              : "bg-[var(--garden-500)] hover:bg-[var(--garden-600)] hover:scale-105"
+            }
+          `}
+        >
+          {isImporting ? (
+            <>
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            <>
+              <Upload className="w-5 h-5" />
+              Import
+            </>
+          )}
+        </button>
+
+        {error && (
+          <p className="text-sm text-red-500 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+      </div>
+
+      {/* Import summary */}
+      {summary && (
+        <div className="mb-8 p-6 bg-[var(--card)] rounded-xl border border-[var(--border)] animate-fade-in">
+          <h2 className="font-semibold mb-4 flex items-center gap-2">
+            <Check className="w-5 h-5 text-green-500" />
+            Import complete
+          </h2>
+          <div className="flex flex-wrap gap-6 text-sm mb-4">
+            <div className="flex items-center gap-2">
+              <FileText className="w-4 h-4 text-[var(--muted)]" />
+              <span className="font-medium">{summary.pages}</span> pages
+            </div>
+            <div className="flex items-center gap-2">
+              <FolderOpen className="w-4 h-4 text-[var(--muted)]" />
+              <span className="font-medium">{summary.folders}</span> folders
+            </div>
+            <div className="flex items-center gap-2">
+              <Tag className="w-4 h-4 text-[var(--muted)]" />
+              <span className="font-medium">{summary.tags}</span> tags
+            </div>
+            <div className="flex items-center gap-2">
+              <Database className="w-4 h-4 text-[var(--muted)]" />
+              <span className="font-medium">{summary.databases}</span> databases
+              ({summary.rows} rows)
+            </div>
+          </div>
+
+          {summary.unresolvedLinks.length > 0 && (
+            <p className="text-sm text-[var(--muted)] mb-2">
+              {summary.unresolvedLinks.length} links pointed at notes that weren&apos;t in the
+              upload and were kept as plain text: {summary.unresolvedLinks.slice(0, 5).join(", ")}
+              {summary.unresolvedLinks.length > 5 && ", …"}
+            </p>
+          )}
+          {summary.skipped.length > 0 && (
+            <p className="text-sm text-[var(--muted)] mb-2">
+              {summary.skipped.length} other files (images, PDFs, …) were skipped.
+            </p>
+          )}
+
+          <Link
+            href="/dashboard"
+            className="inline-block mt-2 text-sm text-[var(--garden-500)] hover:underline"
+          >
+            Go to your dashboard →
+          </Link>
+        </div>
+      )}
+
+      {/* Full account backups */}
+      <BackupRestore />
+
+      {/* Help section */}
+      <div className="p-4 bg-[var(--card)] rounded-xl border border-[var(--border)]">
+        <h3 className="font-medium mb-2 flex items-center gap-2">
+          <Sparkles className="w-4 h-4 text-[var(--garden-500)]" />
+          How Importing Works
+        </h3>
+        <ul className="text-sm text-[var(--muted)] space-y-1">
+          <li>• Directories become folders, keeping their nesting</li>
+          <li>• Each <strong>.md</strong> file becomes a page; <code>tags:</code> in the frontmatter become tags</li>
+          <li>• <strong>[[Wikilinks]]</strong> and links between files become links between pages</li>
+          <li>• Each <strong>.csv</strong> file becomes a database, with column types guessed from the values</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { ThemeProvider } from "@/components/providers/ThemeProvider";
+import { WorkspaceProvider } from "@/components/providers/WorkspaceProvider";
+import { TimezoneProvider } from "@/components/providers/TimezoneProvider";
 
 export default async function DashboardLayout({
   children,
@@ -26,17 +28,21 @@ export default async function DashboardLayout({
 
   return (
     <ThemeProvider>
-      <div className="flex h-screen overflow-hidden">
-        {/* Sidebar navigation */}
-        <Sidebar />
+      <WorkspaceProvider>
+        <TimezoneProvider>
+          <div className="flex h-screen overflow-hidden">
+            {/* Sidebar navigation */}
+            <Sidebar />
 
-        {/* Main content area */}
-        <main className="flex-1 overflow-y-auto bg-[var(--background)]">
-          <div className="p-6">
-            {children}
+            {/* Main content area */}
+            <main className="flex-1 overflow-y-auto bg-[var(--background)]">
+              <div className="p-6">
+                {children}
+              </div>
+            </main>
           </div>
-        </main>
-      </div>
+        </TimezoneProvider>
+      </WorkspaceProvider>
     </ThemeProvider>
   );
 }
@@ -8,14 +8,38 @@
  * - Add/edit content with the rich text editor
  * - Set page icon and color
  * - Toggle favorite status
+ * - Browse and restore earlier versions
+ *
+ * Pages that are the body of a database row show the row's properties
+ * above the editor, and deleting one deletes the row.
+ *
+ * A page under other pages shows them as breadcrumbs. Deleting a page
+ * with sub-pages asks whether they go to the trash too or move up a level.
+ *
+ * With collaboration on, the content is edited through a shared document
+ * that the collaboration server saves, so only the other fields are saved
+ * from here.
+ *
+ * Otherwise saves check the page's version. If it was changed somewhere
+ * else in the meantime, saving stops and the user picks whether to merge,
+ * overwrite, save their version as a copy or take the other version.
  */
 
 import { useEffect, useState, useCallback, useRef, use } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { Editor } from "@tiptap/react";
 import { PageEditor } from "@/components/editor/PageEditor";
+import { useCollaboration } from "@/components/editor/collaboration";
+import { parseDoc } from "@/lib/tiptap";
+import { mergeDocs, mergeFields } from "@/lib/merge";
+import { ifMatchHeaders } from "@/lib/versions";
+import { ConflictDialog, ConflictChoice } from "@/components/ui/ConflictDialog";
 import { ColorPicker, COLOR_NAMES } from "@/components/ui/ColorPicker";
 import { TagPicker } from "@/components/tags/TagPicker";
+import { RevisionHistory } from "@/components/editor/RevisionHistory";
+import { RowProperties } from "@/components/database/RowProperties";
+import { useWorkspace } from "@/components/providers/WorkspaceProvider";
 import {
   ArrowLeft,
   Star,
@@ -26,6 +50,9 @@ import {
   Loader2,
   Check,
   Palette,
+  History,
+  Database,
+  ChevronRight,
 } from "lucide-react";
 
 // Page data type
@@ -43,11 +70,43 @@ interface PageData {
     name: string;
     icon: string | null;
   } | null;
+  parentPageId: string | null;
+  ancestors: Array<{
+    id: string;
+    title: string;
+    icon: string | null;
+  }>;
+  _count: {
+    childPages: number;
+  };
   tags: Array<{
     id: string;
     name: string;
     color: string;
   }>;
+  databaseRow: {
+    id: string;
+    data: string;
+    updatedAt: string;
+    database: {
+      id: string;
+      name: string;
+      icon: string | null;
+      color: string | null;
+    };
+  } | null;
+}
+
+// The saved fields a conflict is resolved over
+interface PageFields {
+  title: string;
+  icon: string | null;
+  color: string | null;
+  content: string | null;
+}
+
+function pageFields(page: PageFields): PageFields {
+  return { title: page.title, icon: page.icon, color: page.color, content: page.content };
 }
 
 // Common emoji options for quick selection
@@ -58,6 +117,7 @@ const EMOJI_OPTIONS = [
 
 export default function PageView({ params }: { params: Promise<{ pageId: string }> }) {
   const { pageId } = use(params);
+  const { canEdit } = useWorkspace();
   const router = useRouter();
   
   const [page, setPage] = useState<PageData | null>(null);
@@ -66,10 +126,24 @@ export default function PageView({ params }: { params: Promise<{ pageId: string
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  // Bumped to remount the editor when content is replaced (e.g. restoring a version)
+  const [editorKey, setEditorKey] = useState(0);
+  const [conflictResolver, setConflictResolver] = useState<((choice: ConflictChoice) => void) | null>(null);
   
   // Use refs for timeout to avoid re-render loops
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const initialContentRef = useRef<string | null>(null);
+  const latestContentRef = useRef<string | null>(null);
+  const editorRef = useRef<Editor | null>(null);
+  // The page as last saved, and its version
+  const savedRef = useRef<{ fields: PageFields; updatedAt: string } | null>(null);
+  // Saves run one at a time so each sends the version the last one made
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const pageRef = useRef<PageData | null>(null);
+  const collaboration = useCollaboration(pageId);
+  const isCollaborating = Boolean(collaboration.session);
 
   // Fetch page data
   useEffect(() => {
@@ -81,6 +155,8 @@ export default function PageView({ params }: { params: Promise<{ pageId: string
           setPage(data);
           // Store initial content in ref (won't cause re-renders)
           initialContentRef.current = data.content;
+          latestContentRef.current = data.content;
+          savedRef.current = { fields: pageFields(data), updatedAt: data.updatedAt };
         } else if (res.status === 404) {
           router.push("/dashboard");
         }
@@ -94,49 +170,166 @@ export default function PageView({ params }: { params: Promise<{ pageId: string
     fetchPage();
   }, [pageId, router]);
 
+  useEffect(() => {
+    pageRef.current = page;
+  }, [page]);
+
+  // Replace what's shown with another version of the page
+  const showVersion = useCallback((fields: PageFields, updatedAt: string) => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    initialContentRef.current = fields.content;
+    latestContentRef.current = fields.content;
+    setPage((prev) =>
+      prev ? { ...prev, title: fields.title, icon: fields.icon, color: fields.color, updatedAt } : prev
+    );
+    setEditorKey((key) => key + 1);
+  }, []);
+
+  // Save the user's version as a new page next to this one and open it
+  const saveAsCopy = useCallback(
+    async (mine: PageFields) => {
+      const current = pageRef.current;
+      const res = await fetch("/api/pages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: `${mine.title || "Untitled"} (copy)`,
+          folderId: current?.folder?.id,
+          parentPageId: current?.parentPageId,
+          icon: mine.icon,
+          color: mine.color,
+        }),
+      });
+      if (!res.ok) {
+        const { error } = await res.json();
+        alert(error || "Failed to create page");
+        return;
+      }
+
+      const copy = await res.json();
+      await fetch(`/api/pages/${copy.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: mine.content }),
+      });
+      router.push(`/page/${copy.id}`);
+    },
+    [router]
+  );
+
+  // Send a save; a page changed elsewhere asks how to resolve it first
+  const sendSave = useCallback(
+    async (updates: Partial<PageData>, updatedAt: string | undefined): Promise<void> => {
+      // Content saves queued behind another send what the editor has now
+      const body = updates.content !== undefined ? { ...updates, content: latestContentRef.current } : updates;
+      const res = await fetch(`/api/pages/${pageId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...(!isCollaborating && ifMatchHeaders(updatedAt)) },
+        body: JSON.stringify(body),
+      });
+
+      if (res.status === 409) {
+        const { current } = (await res.json()) as { current: PageFields & { updatedAt: string } };
+        const theirs = pageFields(current);
+        const choice = await new Promise<ConflictChoice>((resolve) => setConflictResolver(() => resolve));
+        setConflictResolver(null);
+
+        const latest = pageRef.current;
+        const mine: PageFields = {
+          title: latest?.title ?? theirs.title,
+          icon: latest?.icon ?? null,
+          color: latest?.color ?? null,
+          content: latestContentRef.current,
+        };
+        const base = savedRef.current?.fields ?? theirs;
+        savedRef.current = { fields: theirs, updatedAt: current.updatedAt };
+
+        if (choice === "discard") {
+          showVersion(theirs, current.updatedAt);
+          return;
+        }
+        if (choice === "copy") {
+          showVersion(theirs, current.updatedAt);
+          await saveAsCopy(mine);
+          return;
+        }
+
+        let resolved = mine;
+        if (choice === "merge") {
+          const { title, icon, color } = mergeFields(
+            { title: base.title, icon: base.icon, color: base.color },
+            { title: mine.title, icon: mine.icon, color: mine.color },
+            { title: theirs.title, icon: theirs.icon, color: theirs.color }
+          );
+          const content = JSON.stringify(
+            mergeDocs(parseDoc(base.content), parseDoc(mine.content), parseDoc(theirs.content))
+          );
+          resolved = { title, icon, color, content };
+          showVersion(resolved, current.updatedAt);
+        }
+        return sendSave({ ...updates, ...resolved }, current.updatedAt);
+      }
+
+      if (!res.ok) {
+        const { error } = await res.json();
+        throw new Error(error || "Failed to save page");
+      }
+
+      // Only update non-content fields to avoid re-render loop
+      const updated = await res.json();
+      savedRef.current = { fields: pageFields(updated), updatedAt: updated.updatedAt };
+      setPage((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          title: updates.title ?? prev.title,
+          icon: updates.icon ?? prev.icon,
+          color: updates.color !== undefined ? updates.color : prev.color,
+          isFavorite: updates.isFavorite ?? prev.isFavorite,
+          updatedAt: updated.updatedAt,
+          // A title save moves the row on too
+          databaseRow:
+            prev.databaseRow && updated.rowUpdatedAt
+              ? { ...prev.databaseRow, updatedAt: updated.rowUpdatedAt }
+              : prev.databaseRow,
+          // Don't update content from response - editor has latest
+        };
+      });
+    },
+    [pageId, isCollaborating, showVersion, saveAsCopy]
+  );
+
   // Save page updates (stable function - no deps that change often)
   const savePage = useCallback(
-    async (updates: Partial<PageData>) => {
-      if (!page) return;
-      
+    (updates: Partial<PageData>) => {
+      if (!pageRef.current) return;
+
       setSaveStatus("saving");
-      try {
-        const res = await fetch(`/api/pages/${pageId}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(updates),
-        });
-        
-        if (res.ok) {
-          // Only update non-content fields to avoid re-render loop
-          const updated = await res.json();
-          setPage((prev) => {
-            if (!prev) return prev;
-            return {
-              ...prev,
-              title: updates.title ?? prev.title,
-              icon: updates.icon ?? prev.icon,
-              color: updates.color !== undefined ? updates.color : prev.color,
-              isFavorite: updates.isFavorite ?? prev.isFavorite,
-              updatedAt: updated.updatedAt,
-              // Don't update content from response - editor has latest
-            };
-          });
+      const save = saveQueueRef.current
+        .catch(() => undefined)
+        .then(() => sendSave(updates, savedRef.current?.updatedAt))
+        .then(() => {
           setSaveStatus("saved");
           // Reset to idle after showing "saved"
           setTimeout(() => setSaveStatus("idle"), 2000);
-        }
-      } catch (error) {
-        console.error("Failed to save page:", error);
-        setSaveStatus("idle");
-      }
+        })
+        .catch((error) => {
+          console.error("Failed to save page:", error);
+          setSaveStatus("idle");
+        });
+      saveQueueRef.current = save;
     },
-    [page, pageId]
+    [sendSave]
   );
 
   // Debounced content save - using ref to avoid dependency issues
   const handleContentUpdate = useCallback(
     (content: string) => {
+      latestContentRef.current = content;
+      if (isCollaborating) return;
+
       // Clear existing timeout
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current);
@@ -147,7 +340,7 @@ export default function PageView({ params }: { params: Promise<{ pageId: string
         savePage({ content });
       }, 1000);
     },
-    [savePage]
+    [savePage, isCollaborating]
   );
 
   // Cleanup timeout on unmount
@@ -194,20 +387,76 @@ export default function PageView({ params }: { params: Promise<{ pageId: string
     setShowColorPicker(false);
   };
 
+  // Swap in a restored version: remount the editor with it, or push it
+  // through the shared document when editing together
+  const handleRestored = (restored: { title: string; content: string | null; updatedAt: string }) => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    if (savedRef.current) {
+      savedRef.current = {
+        fields: { ...savedRef.current.fields, title: restored.title, content: restored.content },
+        updatedAt: restored.updatedAt,
+      };
+    }
+    initialContentRef.current = restored.content;
+    latestContentRef.current = restored.content;
+    setPage((prev) =>
+      prev ? { ...prev, title: restored.title, updatedAt: restored.updatedAt } : prev
+    );
+
+    // Everyone editing the page gets the restored version through the shared document
+    if (isCollaborating && editorRef.current) {
+      editorRef.current.commands.setContent(parseDoc(restored.content));
+      return;
+    }
+    setEditorKey((key) => key + 1);
+  };
+
   // Delete page
   const deletePage = async () => {
-    if (!confirm("Are you sure you want to delete this page?")) return;
-    
+    if (page?.databaseRow) {
+      deleteRow(page.databaseRow.id, page.databaseRow.database.id);
+      return;
+    }
+    if (page && page._count.childPages > 0) {
+      setShowDeleteDialog(true);
+      return;
+    }
+    if (!confirm("Move this page to the trash?")) return;
+    trashPage(false);
+  };
+
+  // Move the page to the trash, with or without the pages under it
+  const trashPage = async (withChildren: boolean) => {
+    setShowDeleteDialog(false);
+
     try {
-      const res = await fetch(`/api/pages/${pageId}`, { method: "DELETE" });
+      const res = await fetch(`/api/pages/${pageId}${withChildren ? "?children=delete" : ""}`, {
+        method: "DELETE",
+      });
       if (res.ok) {
-        router.push("/dashboard");
+        router.push(page?.parentPageId ? `/page/${page.parentPageId}` : "/dashboard");
       }
     } catch (error) {
       console.error("Failed to delete page:", error);
     }
   };
 
+  // Delete the row this page belongs to, and the page with it
+  const deleteRow = async (rowId: string, databaseId: string) => {
+    if (!confirm("Delete this row and its page? This can't be undone.")) return;
+
+    try {
+      const res = await fetch(`/api/databases/${databaseId}/rows/${rowId}`, { method: "DELETE" });
+      if (res.ok) {
+        router.push(`/databases/${databaseId}`);
+      }
+    } catch (error) {
+      console.error("Failed to delete row:", error);
+    }
+  };
+
   // Close menus when clicking outside
   useEffect(() => {
     const handleClick = () => {
@@ -254,12 +503,23 @@ export default function PageView({ params }: { params: Promise<{ pageId: string
       {/* Header */}
       <div className="flex items-center gap-4 mb-6">
         <Link
-          href="/dashboard"
+          href={page.databaseRow ? `/databases/${page.databaseRow.database.id}` : "/dashboard"}
           className="p-2 rounded-lg hover:bg-[var(--card-hover)] transition-colors"
         >
           <ArrowLeft className="w-5 h-5" />
         </Link>
 
+        {page.databaseRow && (
+          <Link
+            href={`/databases/${page.databaseRow.database.id}`}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-[var(--card)] border border-[var(--border)] rounded-lg hover:border-garden-500/50 transition-colors"
+          >
+            <Database className="w-4 h-4 text-[var(--muted)]" />
+            <span>{page.databaseRow.database.icon}</span>
+            <span>{page.databaseRow.database.name}</span>
+          </Link>
+        )}
+
         {page.folder && (
           <Link
             href={`/folder/${page.folder.id}`}
@@ -271,6 +531,25 @@ export default function PageView({ params }: { params: Promise<{ pageId: string
           </Link>
         )}
 
+        {/* Pages above this one */}
+        {page.ancestors.length > 0 && (
+          <nav className="flex items-center gap-1 min-w-0 text-sm text-[var(--muted)]">
+            {page.ancestors.map((ancestor) => (
+              <span key={ancestor.id} className="flex items-center gap-1 min-w-0">
+                <Link
+                  href={`/page/${ancestor.id}`}
+                  className="flex items-center gap-1 px-1.5 py-1 rounded hover:bg-[var(--card-hover)] hover:text-[var(--foreground)] transition-colors truncate"
+                >
+                  <span>{ancestor.icon || "📄"}</span>
+                  <span className="truncate max-w-[10rem]">{ancestor.title || "Untitled"}</span>
+                </Link>
+                <ChevronRight className="w-3.5 h-3.5 flex-shrink-0" />
+              </span>
+            ))}
+            <span className="truncate max-w-[10rem] text-[var(--foreground)]">{page.title || "Untitled"}</span>
+          </nav>
+        )}
+
         <div className="flex-1" />
 
         {/* Save indicator */}
@@ -357,12 +636,22 @@ export default function PageView({ params }: { params: Promise<{ pageId: string
               className="absolute right-0 top-full mt-1 w-48 bg-[var(--card)] border border-[var(--border)] rounded-lg shadow-xl py-1 z-50 animate-fade-in"
               onClick={(e) => e.stopPropagation()}
             >
+              <button
+                onClick={() => {
+                  setShowHistory(true);
+                  setShowMenu(false);
+                }}
+                className="w-full flex items-center gap-2 px-4 py-2 text-sm hover:bg-[var(--card-hover)] transition-colors"
+              >
+                <History className="w-4 h-4" />
+                Version history
+              </button>
               <button
                 onClick={deletePage}
                 className="w-full flex items-center gap-2 px-4 py-2 text-sm text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
               >
                 <Trash2 className="w-4 h-4" />
-                Delete page
+                {page.databaseRow ? "Delete row" : "Delete page"}
               </button>
             </div>
           )}
@@ -413,6 +702,7 @@ export default function PageView({ params }: { params: Promise<{ pageId: string
             value={page.title}
             onChange={handleTitleChange}
             onBlur={handleTitleBlur}
+            readOnly={!canEdit}
             placeholder="Untitled"
             className="w-full text-4xl font-display font-bold bg-transparent border-none focus:outline-none placeholder:text-[var(--muted)]"
             style={page.color ? { color: page.color } : undefined}
@@ -434,58 +724,155 @@ export default function PageView({ params }: { params: Promise<{ pageId: string
         </div>
       </div>
 
+      {/* Row properties, for pages that belong to a database row */}
+      {page.databaseRow && (
+        <RowProperties
+          databaseId={page.databaseRow.database.id}
+          rowId={page.databaseRow.id}
+          initialData={JSON.parse(page.databaseRow.data || "{}")}
+          title={page.title}
+          color={page.databaseRow.database.color}
+          updatedAt={page.databaseRow.updatedAt}
+        />
+      )}
+
       {/* Editor - use ref content to avoid re-render loops */}
       <PageEditor
+        key={editorKey}
         initialContent={initialContentRef.current}
         onUpdate={handleContentUpdate}
         placeholder="Start writing your thoughts..."
         pageId={page.id}
+        folderId={page.folder?.id ?? null}
+        collaboration={collaboration}
+        editorRef={editorRef}
+        readOnly={!canEdit}
+      />
+
+      {/* Version history */}
+      <RevisionHistory
+        pageId={page.id}
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        currentTitle={page.title}
+        currentContent={latestContentRef.current}
+        onRestored={handleRestored}
       />
 
+      {/* Saving over changes made elsewhere */}
+      {conflictResolver && <ConflictDialog kind="page" onResolve={conflictResolver} />}
+
+      {/* What happens to sub-pages when this page is deleted */}
+      {showDeleteDialog && (
+        <div
+          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+          onClick={() => setShowDeleteDialog(false)}
+        >
+          <div
+            className="bg-[var(--card)] border border-[var(--border)] rounded-xl p-6 w-full max-w-sm animate-fade-in"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="font-semibold mb-2">Move this page to the trash?</h3>
+            <p className="text-sm text-[var(--muted)] mb-4">
+              It has {page._count.childPages} sub-page{page._count.childPages === 1 ? "" : "s"}.
+              They can move up a level or go to the trash with it.
+            </p>
+
+            <div className="space-y-2">
+              <button
+                onClick={() => trashPage(false)}
+                className="w-full px-4 py-2 border border-[var(--border)] rounded-lg hover:bg-[var(--card-hover)] transition-colors"
+              >
+                Keep sub-pages
+              </button>
+              <button
+                onClick={() => trashPage(true)}
+                className="w-full px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors"
+              >
+                Trash sub-pages too
+              </button>
+              <button
+                onClick={() => setShowDeleteDialog(false)}
+                className="w-full px-4 py-2 text-sm text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Backlinks section */}
       <BacklinksSection pageId={page.id} />
     </div>
   );
 }
 
-// Backlinks component
+// Backlinks component - pages linking here and pages linked from here
+interface LinkedPage {
+  id: string;
+  title: string;
+  icon: string | null;
+  color: string | null;
+}
+
 function BacklinksSection({ pageId }: { pageId: string }) {
-  const [backlinks, setBacklinks] = useState<Array<{
-    id: string;
-    title: string;
-    icon: string | null;
-    color: string | null;
-  }>>([]);
+  const [backlinks, setBacklinks] = useState<LinkedPage[]>([]);
+  const [outgoingLinks, setOutgoingLinks] = useState<LinkedPage[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const fetchBacklinks = async () => {
+    const fetchLinks = async () => {
       try {
-        const res = await fetch(`/api/pages/${pageId}/backlinks`);
-        if (res.ok) {
-          const data = await res.json();
-          setBacklinks(data);
+        const [backlinksRes, linksRes] = await Promise.all([
+          fetch(`/api/pages/${pageId}/backlinks`),
+          fetch(`/api/pages/${pageId}/links`),
+        ]);
+        if (backlinksRes.ok) {
+          setBacklinks(await backlinksRes.json());
+        }
+        if (linksRes.ok) {
+          setOutgoingLinks(await linksRes.json());
         }
       } catch (error) {
-        console.error("Failed to fetch backlinks:", error);
+        console.error("Failed to fetch links:", error);
       } finally {
         setLoading(false);
       }
     };
 
-    fetchBacklinks();
+    fetchLinks();
   }, [pageId]);
 
-  if (loading || backlinks.length === 0) return null;
+  if (loading || (backlinks.length === 0 && outgoingLinks.length === 0)) return null;
+
+  return (
+    <div className="mt-12 pt-8 border-t border-[var(--border)] space-y-6">
+      {backlinks.length > 0 && (
+        <LinkedPagesList
+          title={`${backlinks.length} page${backlinks.length !== 1 ? "s" : ""} link to this`}
+          pages={backlinks}
+        />
+      )}
+      {outgoingLinks.length > 0 && (
+        <LinkedPagesList
+          title={`Links to ${outgoingLinks.length} page${outgoingLinks.length !== 1 ? "s" : ""}`}
+          pages={outgoingLinks}
+        />
+      )}
+    </div>
+  );
+}
 
+function LinkedPagesList({ title, pages }: { title: string; pages: LinkedPage[] }) {
   return (
-    <div className="mt-12 pt-8 border-t border-[var(--border)]">
+    <div>
       <h3 className="text-sm font-medium text-[var(--muted)] mb-4 flex items-center gap-2">
         <Link href="#" className="w-4 h-4" />
-        {backlinks.length} page{backlinks.length !== 1 ? "s" : ""} link to this
+        {title}
       </h3>
       <div className="flex flex-wrap gap-2">
-        {backlinks.map((page) => (
+        {pages.map((page) => (
           <Link
             key={page.id}
             href={`/page/${page.id}`}
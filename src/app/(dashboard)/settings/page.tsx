@@ -3,12 +3,17 @@
 /**
  * Settings Page
  * 
- * Customize your Mind Garden with themes and preferences
+ * Customize your Mind Garden with themes and preferences, choose the
+ * time zone habits follow and where reminders go, and manage the open
+ * workspace and who's in it
  */
 
 import { useState, useEffect } from "react";
 import { Settings, Palette, Moon, Sun, Sparkles } from "lucide-react";
 import { ThemePicker } from "@/components/settings/ThemePicker";
+import { TimezoneSettings } from "@/components/settings/TimezoneSettings";
+import { ReminderSettings } from "@/components/settings/ReminderSettings";
+import { WorkspaceSettings } from "@/components/settings/WorkspaceSettings";
 import { getTheme, loadSavedTheme, applyTheme } from "@/lib/themes";
 
 export default function SettingsPage() {
@@ -183,6 +188,15 @@ export default function SettingsPage() {
           </div>
         </section>
 
+        {/* Time zone section */}
+        <TimezoneSettings />
+
+        {/* Reminders section */}
+        <ReminderSettings />
+
+        {/* Workspace section */}
+        <WorkspaceSettings />
+
         {/* Quick tips */}
         <div className="p-4 bg-[var(--card)] rounded-xl border border-[var(--border)]">
           <h3 className="font-medium mb-2 flex items-center gap-2">
@@ -0,0 +1,279 @@
+"use client";
+
+/**
+ * Trash Page
+ *
+ * Lists deleted pages, folders and databases. Items can be restored
+ * to where they were or deleted forever.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Trash2,
+  RotateCcw,
+  FileText,
+  FolderOpen,
+  Database,
+  Loader2,
+  Sparkles,
+} from "lucide-react";
+
+type TrashItemType = "page" | "folder" | "database";
+
+interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+  deletedAt: string;
+  detail: string;
+}
+
+interface TrashResponse {
+  retentionDays: number;
+  pages: Array<{
+    id: string;
+    title: string;
+    icon: string | null;
+    color: string | null;
+    deletedAt: string;
+    folder: { name: string; icon: string | null } | null;
+  }>;
+  folders: Array<{
+    id: string;
+    name: string;
+    icon: string | null;
+    color: string | null;
+    deletedAt: string;
+    _count: { pages: number; children: number };
+  }>;
+  databases: Array<{
+    id: string;
+    name: string;
+    icon: string | null;
+    color: string | null;
+    deletedAt: string;
+    _count: { rows: number };
+  }>;
+}
+
+const TYPE_ICONS: Record<TrashItemType, React.ReactNode> = {
+  page: <FileText className="w-4 h-4" />,
+  folder: <FolderOpen className="w-4 h-4" />,
+  database: <Database className="w-4 h-4" />,
+};
+
+export default function TrashPage() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Fetch trash and flatten into one list, newest first
+  const fetchTrash = useCallback(async () => {
+    try {
+      const res = await fetch("/api/trash");
+      if (res.ok) {
+        const data: TrashResponse = await res.json();
+        setRetentionDays(data.retentionDays);
+        setItems(
+          [
+            ...data.pages.map((p) => ({
+              type: "page" as const,
+              id: p.id,
+              name: p.title,
+              icon: p.icon,
+              color: p.color,
+              deletedAt: p.deletedAt,
+              detail: p.folder ? `${p.folder.icon || "📁"} ${p.folder.name}` : "No folder",
+            })),
+            ...data.folders.map((f) => ({
+              type: "folder" as const,
+              id: f.id,
+              name: f.name,
+              icon: f.icon,
+              color: f.color,
+              deletedAt: f.deletedAt,
+              detail: `${f._count.pages} pages · ${f._count.children} subfolders`,
+            })),
+            ...data.databases.map((d) => ({
+              type: "database" as const,
+              id: d.id,
+              name: d.name,
+              icon: d.icon,
+              color: d.color,
+              deletedAt: d.deletedAt,
+              detail: `${d._count.rows} ${d._count.rows === 1 ? "row" : "rows"}`,
+            })),
+          ].sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime())
+        );
+      }
+    } catch (error) {
+      console.error("Failed to fetch trash:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  // Restore an item to its original place
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      const res = await fetch("/api/trash/restore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: item.type, id: item.id }),
+      });
+      if (res.ok) {
+        fetchTrash();
+      }
+    } catch (error) {
+      console.error("Failed to restore item:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Delete an item forever
+  const handleDeleteForever = async (item: TrashItem) => {
+    if (!confirm(`Delete "${item.name}" forever? This cannot be undone.`)) return;
+
+    setBusyId(item.id);
+    try {
+      const res = await fetch(`/api/trash?type=${item.type}&id=${item.id}`, {
+        method: "DELETE",
+      });
+      if (res.ok) {
+        setItems((prev) => prev.filter((i) => i.id !== item.id));
+      }
+    } catch (error) {
+      console.error("Failed to delete item:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Empty the whole trash
+  const handleEmptyTrash = async () => {
+    if (!confirm("Delete everything in the trash forever? This cannot be undone.")) return;
+
+    try {
+      const res = await fetch("/api/trash", { method: "DELETE" });
+      if (res.ok) {
+        setItems([]);
+      }
+    } catch (error) {
+      console.error("Failed to empty trash:", error);
+    }
+  };
+
+  const daysLeft = (deletedAt: string) => {
+    const expires = new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((expires - Date.now()) / (24 * 60 * 60 * 1000)));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 text-garden-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="flex items-start justify-between mb-8">
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-2 bg-gradient-to-br from-gray-500 to-slate-600 rounded-xl text-white">
+              <Trash2 className="w-6 h-6" />
+            </div>
+            <h1 className="text-3xl font-bold">Trash</h1>
+          </div>
+          <p className="text-[var(--muted)]">
+            Deleted items are removed forever after {retentionDays} days
+          </p>
+        </div>
+
+        {items.length > 0 && (
+          <button
+            onClick={handleEmptyTrash}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-red-500 border border-red-500/30 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            Empty trash
+          </button>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <div className="text-center py-16 bg-[var(--card)] rounded-xl border border-[var(--border)]">
+          <Trash2 className="w-12 h-12 text-[var(--muted)] mx-auto mb-4" />
+          <h3 className="text-lg font-medium mb-2">Trash is empty</h3>
+          <p className="text-[var(--muted)]">
+            Deleted pages, folders and databases show up here
+          </p>
+        </div>
+      ) : (
+        <div className="bg-[var(--card)] rounded-xl border border-[var(--border)] divide-y divide-[var(--border)]">
+          {items.map((item) => (
+            <div key={`${item.type}-${item.id}`} className="flex items-center gap-4 p-4">
+              <span className="text-2xl">
+                {item.icon || (item.type === "folder" ? "📁" : item.type === "database" ? "📊" : "📄")}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p
+                  className="font-medium truncate"
+                  style={item.color ? { color: item.color } : undefined}
+                >
+                  {item.name}
+                </p>
+                <p className="text-sm text-[var(--muted)] flex items-center gap-1.5">
+                  {TYPE_ICONS[item.type]}
+                  <span className="truncate">{item.detail}</span>
+                  <span>·</span>
+                  <span>{daysLeft(item.deletedAt)} days left</span>
+                </p>
+              </div>
+              <button
+                onClick={() => handleRestore(item)}
+                disabled={busyId === item.id}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm border border-[var(--border)] hover:bg-[var(--card-hover)] rounded-lg transition-colors disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Restore
+              </button>
+              <button
+                onClick={() => handleDeleteForever(item)}
+                disabled={busyId === item.id}
+                className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+                title="Delete forever"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Tips */}
+      <div className="mt-8 p-4 bg-[var(--card)] rounded-xl border border-[var(--border)]">
+        <h3 className="font-medium mb-2 flex items-center gap-2">
+          <Sparkles className="w-4 h-4 text-[var(--garden-500)]" />
+          About the Trash
+        </h3>
+        <ul className="text-sm text-[var(--muted)] space-y-1">
+          <li>• Restored items go back to the folder they were deleted from</li>
+          <li>• Deleting a folder moves its subfolders and pages to the trash with it</li>
+          <li>• Trashed items don&apos;t appear in search, favorites or exports</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
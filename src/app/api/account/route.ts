@@ -0,0 +1,85 @@
+/**
+ * Account API
+ *
+ * GET /api/account - The signed-in user's account preferences, and which
+ * reminder channels the server can send through
+ * PATCH /api/account - Update them { timezone?, reminderEmail?,
+ * reminderWebhookUrl? }
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { isEmailConfigured } from "@/lib/email";
+import { checkOutboundUrl } from "@/lib/outbound";
+import { isPushConfigured } from "@/lib/push";
+import { isValidTimezone } from "@/lib/timezones";
+
+const select = {
+  id: true,
+  name: true,
+  email: true,
+  timezone: true,
+  reminderEmail: true,
+  reminderWebhookUrl: true,
+} as const;
+
+// GET - Account preferences
+export async function GET() {
+  try {
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    const user = await db.user.findUnique({ where: { id: access.userId }, select });
+
+    return NextResponse.json({
+      ...user,
+      channels: { push: isPushConfigured(), email: isEmailConfigured() },
+    });
+  } catch (error) {
+    console.error("Error fetching account:", error);
+    return NextResponse.json({ error: "Failed to fetch account" }, { status: 500 });
+  }
+}
+
+// PATCH - Update account preferences
+export async function PATCH(request: Request) {
+  try {
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    const { timezone, reminderEmail, reminderWebhookUrl } = await request.json();
+
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      return NextResponse.json({ error: "Time zone must be one like Europe/Berlin" }, { status: 400 });
+    }
+
+    if (reminderEmail !== undefined && typeof reminderEmail !== "boolean") {
+      return NextResponse.json({ error: "reminderEmail must be true or false" }, { status: 400 });
+    }
+
+    if (reminderWebhookUrl !== undefined && reminderWebhookUrl !== null && reminderWebhookUrl !== "") {
+      // The server posts to it, so it can't point into the server's own network
+      const problem =
+        typeof reminderWebhookUrl === "string" ? await checkOutboundUrl(reminderWebhookUrl) : "Must be an http or https URL";
+      if (problem) {
+        return NextResponse.json({ error: `Webhook: ${problem}` }, { status: 400 });
+      }
+    }
+
+    const user = await db.user.update({
+      where: { id: access.userId },
+      data: {
+        ...(timezone !== undefined && { timezone }),
+        ...(reminderEmail !== undefined && { reminderEmail }),
+        ...(reminderWebhookUrl !== undefined && { reminderWebhookUrl: reminderWebhookUrl || null }),
+      },
+      select,
+    });
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error("Error updating account:", error);
+    return NextResponse.json({ error: "Failed to update account" }, { status: 500 });
+  }
+}
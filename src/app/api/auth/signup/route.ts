@@ -8,6 +8,7 @@
 import { NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
 import { db } from "@/lib/db";
+import { createWorkspace } from "@/lib/workspaces";
 
 export async function POST(request: Request) {
   try {
@@ -62,23 +63,8 @@ export async function POST(request: Request) {
       },
     });
 
-    // Create default PARA folders for the new user
-    const paraFolders = [
-      { name: "Projects", icon: "🎯", folderType: "project", order: 0 },
-      { name: "Areas", icon: "🌱", folderType: "area", order: 1 },
-      { name: "Resources", icon: "📚", folderType: "resource", order: 2 },
-      { name: "Archive", icon: "📦", folderType: "archive", order: 3 },
-    ];
-
-    for (const folder of paraFolders) {
-      await db.folder.create({
-        data: {
-          ...folder,
-          isDefault: true,
-          userId: user.id,
-        },
-      });
-    }
+    // Give the new user a personal workspace, with the default PARA folders
+    await createWorkspace(user.id, "Personal");
 
     // Return success (don't include password in response!)
     return NextResponse.json(
@@ -0,0 +1,54 @@
+/**
+ * Backup Restore API Route
+ * 
+ * POST /api/backup/restore - Restore a backup into the active workspace
+ * Body: { backup: Backup, mode: "empty" | "merge", dryRun?: boolean }
+ * 
+ * With dryRun (the default), nothing is written and the response lists
+ * what would be created and what already exists.
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { restoreBackup, validateBackup, isWorkspaceEmpty, Backup } from "@/lib/backup";
+
+export async function POST(request: Request) {
+  try {
+    const access = await authorize("edit");
+    if (access instanceof NextResponse) return access;
+
+    const { backup, mode, dryRun = true } = await request.json();
+
+    if (mode !== "empty" && mode !== "merge") {
+      return NextResponse.json(
+        { error: "Mode must be \"empty\" or \"merge\"" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateBackup(backup);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    if (mode === "empty" && !(await isWorkspaceEmpty(access))) {
+      return NextResponse.json(
+        { error: "This workspace already has data. Restore in merge mode instead." },
+        { status: 409 }
+      );
+    }
+
+    const result = await restoreBackup(backup as Backup, access, {
+      mode,
+      dryRun: dryRun !== false,
+    });
+
+    return NextResponse.json(result, { status: result.dryRun ? 200 : 201 });
+  } catch (error) {
+    console.error("Error restoring backup:", error);
+    return NextResponse.json(
+      { error: "Failed to restore backup" },
+      { status: 500 }
+    );
+  }
+}
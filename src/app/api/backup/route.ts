@@ -0,0 +1,32 @@
+/**
+ * Backup API Route
+ * 
+ * GET /api/backup - Download a versioned JSON backup of the active workspace
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { createBackup } from "@/lib/backup";
+
+export async function GET() {
+  try {
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    const backup = await createBackup(access);
+    const date = backup.exportedAt.slice(0, 10);
+
+    return new NextResponse(JSON.stringify(backup, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="mind-garden-backup-${date}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error creating backup:", error);
+    return NextResponse.json(
+      { error: "Failed to create backup" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,24 +5,32 @@
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import {
+  addDays,
+  completedDays,
+  computeStreaks,
+  isDue,
+  isPeriodic,
+  isQuantitative,
+  periodProgress,
+  streakUnit,
+  totalAmount,
+} from "@/lib/habits";
+import { getUserTimezone } from "@/lib/account";
+import { dayKeyIn } from "@/lib/timezones";
 
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
 
-    const userId = session.user.id;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const weekAgo = new Date(today);
-    weekAgo.setDate(weekAgo.getDate() - 7);
+    const { workspaceId } = access;
+    // Days are counted in the user's time zone
+    const today = dayKeyIn(new Date(), await getUserTimezone(access.userId));
+    const weekAgo = addDays(today, -6);
+    const monthStart = `${today.slice(0, 7)}-01`;
 
     // Fetch all data in parallel
     const [
@@ -32,25 +40,26 @@ export async function GET() {
       folders,
       recentPages,
     ] = await Promise.all([
-      // Habits with logs
+      // Habits with every completion, so streaks can reach back as far
+      // as they go, and every amount logged
       db.habit.findMany({
-        where: { userId, isArchived: false },
+        where: { workspaceId, isArchived: false },
         include: {
           logs: {
-            where: { date: { gte: weekAgo } },
-            orderBy: { date: "desc" },
+            where: { OR: [{ completed: true }, { amount: { gt: 0 } }] },
+            select: { date: true, completed: true, amount: true },
           },
         },
       }),
       // Total pages count
-      db.page.count({ where: { userId } }),
+      db.page.count({ where: { workspaceId, deletedAt: null, databaseRowId: null } }),
       // Total databases count
-      db.database.count({ where: { userId } }),
+      db.database.count({ where: { workspaceId, deletedAt: null } }),
       // Total folders count
-      db.folder.count({ where: { userId } }),
+      db.folder.count({ where: { workspaceId, deletedAt: null } }),
       // Recent pages
       db.page.findMany({
-        where: { userId },
+        where: { workspaceId, deletedAt: null, databaseRowId: null },
         orderBy: { updatedAt: "desc" },
         take: 5,
         select: {
@@ -63,61 +72,45 @@ export async function GET() {
       }),
     ]);
 
-    // Calculate habit stats
-    const todayStr = today.toDateString();
-    const habitsCompletedToday = habits.filter((h) =>
-      h.logs.some((log) => log.completed && new Date(log.date).toDateString() === todayStr)
-    ).length;
+    // Streaks and today's progress, by each habit's schedule
+    const completedByHabit = new Map(habits.map((habit) => [habit.id, completedDays(habit.logs)]));
 
-    // Calculate streaks for each habit
     const habitStreaks = habits.map((habit) => {
-      const completedDates = new Set(
-        habit.logs
-          .filter((l) => l.completed)
-          .map((l) => new Date(l.date).toDateString())
-      );
-
-      let streak = 0;
-      const checkDate = new Date(today);
-      
-      for (let i = 0; i < 365; i++) {
-        if (completedDates.has(checkDate.toDateString())) {
-          streak++;
-          checkDate.setDate(checkDate.getDate() - 1);
-        } else if (i > 0) {
-          break;
-        } else {
-          checkDate.setDate(checkDate.getDate() - 1);
-        }
-      }
+      const completed = completedByHabit.get(habit.id)!;
+      const { current, longest } = computeStreaks(habit, completed, today);
 
       return {
         id: habit.id,
         name: habit.name,
         icon: habit.icon,
         color: habit.color,
-        streak,
-        completedToday: completedDates.has(todayStr),
+        streak: current,
+        longestStreak: longest,
+        streakUnit: streakUnit(habit),
+        dueToday: isDue(habit, completed, today),
+        completedToday: completed.has(today),
+        // This week's or month's progress, for habits with a quota
+        period: isPeriodic(habit) ? periodProgress(habit, completed, today) : null,
       };
     });
 
-    // Calculate weekly completion rate
+    const dueToday = habitStreaks.filter((h) => h.dueToday);
+    const habitsCompletedToday = dueToday.filter((h) => h.completedToday).length;
+
+    // Calculate weekly completion rate, out of the habits due each day
     const weekDays = [];
     for (let i = 6; i >= 0; i--) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      const dateStr = date.toDateString();
-      
-      const completed = habits.filter((h) =>
-        h.logs.some((log) => log.completed && new Date(log.date).toDateString() === dateStr)
-      ).length;
+      const day = addDays(today, -i);
+      const due = habits.filter((habit) => isDue(habit, completedByHabit.get(habit.id)!, day));
+      const completed = due.filter((habit) => completedByHabit.get(habit.id)!.has(day)).length;
+      const date = new Date(`${day}T00:00:00Z`);
 
       weekDays.push({
         date: date.toISOString(),
-        day: date.toLocaleDateString("en-US", { weekday: "short" }),
+        day: date.toLocaleDateString("en-US", { weekday: "short", timeZone: "UTC" }),
         completed,
-        total: habits.length,
-        percentage: habits.length > 0 ? Math.round((completed / habits.length) * 100) : 0,
+        total: due.length,
+        percentage: due.length > 0 ? Math.round((completed / due.length) * 100) : 0,
       });
     }
 
@@ -126,10 +119,22 @@ export async function GET() {
     const bestStreakHabit = habitStreaks.find((h) => h.streak === bestStreak);
 
     // Total completions this week
-    const totalCompletionsThisWeek = habits.reduce((sum, habit) => {
-      return sum + habit.logs.filter((l) => l.completed).length;
+    const totalCompletionsThisWeek = [...completedByHabit.values()].reduce((sum, completed) => {
+      return sum + [...completed].filter((day) => day >= weekAgo && day <= today).length;
     }, 0);
 
+    // Amounts logged this week and month, for quantitative habits
+    const habitTotals = habits.filter(isQuantitative).map((habit) => ({
+      id: habit.id,
+      name: habit.name,
+      icon: habit.icon,
+      color: habit.color,
+      unit: habit.unit,
+      target: habit.target!,
+      week: totalAmount(habit.logs, weekAgo, today),
+      month: totalAmount(habit.logs, monthStart, today),
+    }));
+
     return NextResponse.json({
       // Overview stats
       overview: {
@@ -141,9 +146,9 @@ export async function GET() {
       // Today's progress
       today: {
         habitsCompleted: habitsCompletedToday,
-        habitsTotal: habits.length,
-        percentage: habits.length > 0 
-          ? Math.round((habitsCompletedToday / habits.length) * 100) 
+        habitsTotal: dueToday.length,
+        percentage: dueToday.length > 0
+          ? Math.round((habitsCompletedToday / dueToday.length) * 100)
           : 0,
       },
       // Habit streaks
@@ -154,6 +159,8 @@ export async function GET() {
       },
       // Weekly chart data
       weeklyProgress: weekDays,
+      // Weekly and monthly totals of quantitative habits
+      habitTotals,
       // Recent activity
       recentPages: recentPages.map((p) => ({
         id: p.id,
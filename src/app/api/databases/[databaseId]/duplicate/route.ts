@@ -0,0 +1,40 @@
+/**
+ * Duplicate Database API
+ * 
+ * POST /api/databases/[databaseId]/duplicate - Copy a database's columns
+ * and views, and its rows and their pages too unless { includeRows: false }
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { createDatabaseFromSnapshot, snapshotDatabase } from "@/lib/databaseCopy";
+
+interface RouteParams {
+  params: Promise<{ databaseId: string }>;
+}
+
+// POST - Duplicate a database
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { databaseId } = await params;
+    const access = await authorize("edit", { database: databaseId });
+    if (access instanceof NextResponse) return access;
+
+    const { includeRows } = await request.json();
+    const snapshot = await snapshotDatabase(databaseId, access.workspaceId, includeRows !== false);
+
+    if (!snapshot) {
+      return NextResponse.json({ error: "Database not found" }, { status: 404 });
+    }
+
+    const database = await createDatabaseFromSnapshot(
+      { ...snapshot, name: `${snapshot.name} (copy)` },
+      access
+    );
+
+    return NextResponse.json(database, { status: 201 });
+  } catch (error) {
+    console.error("Error duplicating database:", error);
+    return NextResponse.json({ error: "Failed to duplicate database" }, { status: 500 });
+  }
+}
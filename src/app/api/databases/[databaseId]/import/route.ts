@@ -0,0 +1,51 @@
+/**
+ * Database CSV Append API
+ * 
+ * POST /api/databases/[databaseId]/import - Add the lines of a CSV file
+ * as rows. Body: { csv, mapping: [columnId | null per field], dryRun? }
+ * Lines that don't fit their column are skipped and listed in `errors`.
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { IMPORT_MAX_MB } from "@/lib/import";
+import { importCSVIntoDatabase } from "@/lib/databaseImport";
+
+interface RouteParams {
+  params: Promise<{ databaseId: string }>;
+}
+
+// POST - Check (dryRun) or run an import into this database
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { databaseId } = await params;
+    const access = await authorize("edit", { database: databaseId });
+    if (access instanceof NextResponse) return access;
+
+    const database = await db.database.findFirst({
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
+    });
+
+    if (!database) {
+      return NextResponse.json({ error: "Database not found" }, { status: 404 });
+    }
+
+    const { csv, mapping, dryRun } = await request.json();
+
+    if (typeof csv === "string" && csv.length > IMPORT_MAX_MB * 1024 * 1024) {
+      return NextResponse.json({ error: `File is larger than ${IMPORT_MAX_MB} MB` }, { status: 413 });
+    }
+
+    const result = await importCSVIntoDatabase(csv, database, mapping, access.workspaceId, Boolean(dryRun));
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result, { status: dryRun ? 200 : 201 });
+  } catch (error) {
+    console.error("Error importing CSV:", error);
+    return NextResponse.json({ error: "Failed to import CSV" }, { status: 500 });
+  }
+}
@@ -1,34 +1,39 @@
 /**
  * Single Database API
  * 
- * GET /api/databases/[databaseId] - Get a specific database with rows
- * PATCH /api/databases/[databaseId] - Update database (name, columns, etc)
- * DELETE /api/databases/[databaseId] - Delete a database
+ * GET /api/databases/[databaseId] - Get a specific database, its row count,
+ * its saved views and the rows or pages its relation columns can point at.
+ * The rows themselves are paged through /api/databases/[databaseId]/rows
+ * PATCH /api/databases/[databaseId] - Update database (name, columns,
+ * etc). Columns that change type have their values converted,
+ * and views drop filters and settings the new columns can't support
+ * DELETE /api/databases/[databaseId] - Move a database to the trash
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import { trashDatabase } from "@/lib/trash";
+import { Column, parseColumns, validateColumns } from "@/lib/columns";
+import { checkRelationColumns, loadRelationTargets, updateDatabaseColumns } from "@/lib/relations";
+import { defaultViewSettings, parseView, pruneView, serializeView } from "@/lib/views";
 
 interface RouteParams {
   params: Promise<{ databaseId: string }>;
 }
 
-// GET - Fetch database with all rows
+// GET - Fetch database settings
 export async function GET(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { databaseId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("view", { database: databaseId });
+    if (access instanceof NextResponse) return access;
 
     const database = await db.database.findFirst({
-      where: { id: databaseId, userId: session.user.id },
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
       include: {
-        rows: { orderBy: { createdAt: "asc" } },
+        _count: { select: { rows: true } },
+        views: { orderBy: { position: "asc" } },
       },
     });
 
@@ -36,7 +41,20 @@ export async function GET(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: "Database not found" }, { status: 404 });
     }
 
-    return NextResponse.json(database);
+    const columns = parseColumns(database.columns);
+
+    // Databases made before views existed get a table view the first time they open
+    if (database.views.length === 0) {
+      database.views.push(
+        await db.databaseView.create({
+          data: { ...serializeView(defaultViewSettings("table", columns)), databaseId },
+        })
+      );
+    }
+
+    const relationTargets = await loadRelationTargets(columns, access.workspaceId);
+
+    return NextResponse.json({ ...database, views: database.views.map(parseView), relationTargets });
   } catch (error) {
     console.error("Error fetching database:", error);
     return NextResponse.json({ error: "Failed to fetch database" }, { status: 500 });
@@ -46,24 +64,41 @@ export async function GET(request: Request, { params }: RouteParams) {
 // PATCH - Update database
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { databaseId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("edit", { database: databaseId });
+    if (access instanceof NextResponse) return access;
 
     const updates = await request.json();
 
     // Verify ownership
     const existing = await db.database.findFirst({
-      where: { id: databaseId, userId: session.user.id },
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
     });
 
     if (!existing) {
       return NextResponse.json({ error: "Database not found" }, { status: 404 });
     }
 
+    if (updates.columns) {
+      const error =
+        validateColumns(updates.columns) ||
+        (await checkRelationColumns(updates.columns as Column[], access.workspaceId));
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+
+      const columns = await updateDatabaseColumns(existing, updates.columns, access.workspaceId);
+
+      const views = await db.databaseView.findMany({ where: { databaseId } });
+      for (const stored of views) {
+        const view = parseView(stored);
+        const pruned = pruneView(view, columns);
+        if (JSON.stringify(pruned) !== JSON.stringify(view)) {
+          await db.databaseView.update({ where: { id: view.id }, data: serializeView(pruned) });
+        }
+      }
+    }
+
     const database = await db.database.update({
       where: { id: databaseId },
       data: {
@@ -71,7 +106,6 @@ export async function PATCH(request: Request, { params }: RouteParams) {
         icon: updates.icon,
         color: updates.color,
         description: updates.description,
-        columns: updates.columns ? JSON.stringify(updates.columns) : undefined,
       },
     });
 
@@ -82,26 +116,23 @@ export async function PATCH(request: Request, { params }: RouteParams) {
   }
 }
 
-// DELETE - Delete database
+// DELETE - Move database to the trash
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { databaseId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("edit", { database: databaseId });
+    if (access instanceof NextResponse) return access;
 
     // Verify ownership
     const existing = await db.database.findFirst({
-      where: { id: databaseId, userId: session.user.id },
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
     });
 
     if (!existing) {
       return NextResponse.json({ error: "Database not found" }, { status: 404 });
     }
 
-    await db.database.delete({ where: { id: databaseId } });
+    await trashDatabase(databaseId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,59 @@
+/**
+ * Row Page API
+ * 
+ * POST /api/databases/[databaseId]/rows/[rowId]/page - Get the page a row
+ * opens as, creating it the first time. Viewers can open pages that
+ * exist; creating one takes edit access
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { roleAllows } from "@/lib/workspaces";
+import { db } from "@/lib/db";
+import { ensureRowPage } from "@/lib/rowPages";
+
+interface RouteParams {
+  params: Promise<{ databaseId: string; rowId: string }>;
+}
+
+// POST - Open a row as a page
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { databaseId, rowId } = await params;
+    const access = await authorize("view", { database: databaseId });
+    if (access instanceof NextResponse) return access;
+
+    // Verify database ownership
+    const database = await db.database.findFirst({
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
+    });
+
+    if (!database) {
+      return NextResponse.json({ error: "Database not found" }, { status: 404 });
+    }
+
+    const row = await db.databaseRow.findFirst({
+      where: { id: rowId, databaseId },
+    });
+
+    if (!row) {
+      return NextResponse.json({ error: "Row not found" }, { status: 404 });
+    }
+
+    const existing = await db.page.findUnique({ where: { databaseRowId: row.id }, select: { id: true } });
+    if (existing) {
+      return NextResponse.json({ id: existing.id });
+    }
+
+    if (!roleAllows(access.role, "edit")) {
+      return NextResponse.json({ error: "You can only view this workspace" }, { status: 403 });
+    }
+
+    const page = await ensureRowPage(row, database, access.userId);
+
+    return NextResponse.json({ id: page.id });
+  } catch (error) {
+    console.error("Error opening row page:", error);
+    return NextResponse.json({ error: "Failed to open row page" }, { status: 500 });
+  }
+}
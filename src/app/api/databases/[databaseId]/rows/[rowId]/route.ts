@@ -1,48 +1,93 @@
 /**
  * Single Row API
  * 
- * PATCH /api/databases/[databaseId]/rows/[rowId] - Update a row
- * DELETE /api/databases/[databaseId]/rows/[rowId] - Delete a row
+ * PATCH /api/databases/[databaseId]/rows/[rowId] - Update a row, checking
+ * each value against its column type. The row's page takes the new title.
+ * With If-Match, a row changed since returns 409 with { current }
+ * DELETE /api/databases/[databaseId]/rows/[rowId] - Delete a row and its page
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import { parseColumns, validateRowData } from "@/lib/columns";
+import { checkRelationValues } from "@/lib/relations";
+import { syncRowPageTitle } from "@/lib/rowPages";
+import { matchesVersion, versionCondition, versionTag } from "@/lib/versions";
 
 interface RouteParams {
   params: Promise<{ databaseId: string; rowId: string }>;
 }
 
+// 409 with the row as it is now
+function conflict(current: { id: string; data: string | null; updatedAt: Date }) {
+  return NextResponse.json(
+    {
+      error: "This row was changed since you opened it",
+      current: { id: current.id, data: JSON.parse(current.data || "{}"), updatedAt: current.updatedAt },
+    },
+    { status: 409, headers: { ETag: versionTag(current.updatedAt) } }
+  );
+}
+
 // PATCH - Update row data
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { databaseId, rowId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("edit", { database: databaseId });
+    if (access instanceof NextResponse) return access;
 
     // Verify database ownership
     const database = await db.database.findFirst({
-      where: { id: databaseId, userId: session.user.id },
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
     });
 
     if (!database) {
       return NextResponse.json({ error: "Database not found" }, { status: 404 });
     }
 
-    const { data } = await request.json();
+    const existing = await db.databaseRow.findFirst({
+      where: { id: rowId, databaseId },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Row not found" }, { status: 404 });
+    }
+
+    // Refuse to overwrite changes the client hasn't seen
+    const ifMatch = request.headers.get("If-Match");
+    if (!matchesVersion(ifMatch, existing.updatedAt)) {
+      return conflict(existing);
+    }
+
+    const columns = parseColumns(database.columns);
+    const { data, error } = validateRowData(columns, (await request.json()).data);
+    const relationError = data ? await checkRelationValues(columns, data, access.workspaceId) : null;
 
-    const row = await db.databaseRow.update({
-      where: { id: rowId },
+    if (error || relationError) {
+      return NextResponse.json({ error: error || relationError }, { status: 400 });
+    }
+
+    // Only write over the version just checked; a save that got in
+    // between makes this one a conflict
+    const { count } = await db.databaseRow.updateMany({
+      where: { id: rowId, databaseId, ...versionCondition(ifMatch, existing.updatedAt) },
       data: {
         data: JSON.stringify(data),
       },
     });
 
-    return NextResponse.json(row);
+    const row = await db.databaseRow.findFirst({ where: { id: rowId, databaseId } });
+    if (!row) {
+      return NextResponse.json({ error: "Row not found" }, { status: 404 });
+    }
+    if (count === 0) {
+      return conflict(row);
+    }
+
+    await syncRowPageTitle(rowId, columns, data!);
+
+    return NextResponse.json(row, { headers: { ETag: versionTag(row.updatedAt) } });
   } catch (error) {
     console.error("Error updating row:", error);
     return NextResponse.json({ error: "Failed to update row" }, { status: 500 });
@@ -52,23 +97,24 @@ export async function PATCH(request: Request, { params }: RouteParams) {
 // DELETE - Delete a row
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { databaseId, rowId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("edit", { database: databaseId });
+    if (access instanceof NextResponse) return access;
 
     // Verify database ownership
     const database = await db.database.findFirst({
-      where: { id: databaseId, userId: session.user.id },
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
     });
 
     if (!database) {
       return NextResponse.json({ error: "Database not found" }, { status: 404 });
     }
 
-    await db.databaseRow.delete({ where: { id: rowId } });
+    const { count } = await db.databaseRow.deleteMany({ where: { id: rowId, databaseId } });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Row not found" }, { status: 404 });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
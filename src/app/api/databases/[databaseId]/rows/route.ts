@@ -1,42 +1,238 @@
 /**
  * Database Rows API
  * 
+ * GET /api/databases/[databaseId]/rows - Query rows, a page at a time
+ *   ?filter=<json>  Condition { columnId, operator, value } or { and: [...] } / { or: [...] }
+ *   ?sort=<json>    List of { columnId, direction: "asc" | "desc" }
+ *   ?cursor=        nextCursor from the previous page
+ *   ?limit=         Rows per page (default 50, at most 200)
+ * Returns { rows, nextCursor, total, totals }; total and totals (sums of
+ * number columns) can be left out of pages after the first
  * POST /api/databases/[databaseId]/rows - Add a new row
+ *
+ * Rows are stored as JSON, and rollups and formulas only exist once they
+ * are calculated, so the first page is filtered and sorted here rather than
+ * in SQL, along with the total and column totals over every matching row.
+ * Later pages in the order rows were added, filtered only on stored values,
+ * are read from where the last one ended instead, so scrolling through a
+ * large database doesn't go over every row again for each page.
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import { Column, computeRowValues, parseColumns, sumColumns, validateRowData } from "@/lib/columns";
+import {
+  CREATED_AT,
+  QueryRow,
+  RowFilter,
+  RowSort,
+  SortKey,
+  compareSortKeys,
+  filterColumnIds,
+  isSortKey,
+  matchesFilter,
+  rowSortKey,
+  validateRowQuery,
+} from "@/lib/filters";
+import { checkRelationValues, loadRelationTargets } from "@/lib/relations";
 
 interface RouteParams {
   params: Promise<{ databaseId: string }>;
 }
 
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Read a JSON query parameter, or undefined when it isn't there
+function parseParam(value: string | null): unknown {
+  return value ? JSON.parse(value) : undefined;
+}
+
+// Whether rows can be paged in SQL: in the order they were added, and
+// filtered only on values stored in the row, not worked out from others
+function isStoredOrder(columns: Column[], filter: RowFilter | undefined, sorts: RowSort[]): boolean {
+  const isStored = (columnId: string) =>
+    columns.some((c) => c.id === columnId && !["formula", "rollup", "relation"].includes(c.type));
+  return sorts.every((sort) => sort.columnId === CREATED_AT) && filterColumnIds(filter).every(isStored);
+}
+
+// Where a cursor left off: sort keys end with when the row was added and its id
+function cursorPosition(after: SortKey): { createdAt: Date; id: string } | null {
+  const [createdAt, id] = after.slice(-2);
+  const date = new Date(String(createdAt));
+  return typeof id === "string" && !isNaN(date.getTime()) ? { createdAt: date, id } : null;
+}
+
+// The page of rows after a position, in the order they were added, read a
+// batch at a time until the page is full
+async function readRowsAfter(
+  databaseId: string,
+  filter: RowFilter | undefined,
+  sorts: RowSort[],
+  position: { createdAt: Date; id: string },
+  limit: number
+) {
+  const direction = sorts[0]?.direction ?? "asc";
+  let { createdAt, id } = position;
+  const page: Array<{ row: { id: string; createdAt: Date; updatedAt: Date }; data: Record<string, unknown> }> = [];
+  let hasMore = false;
+
+  while (!hasMore) {
+    const batch = await db.databaseRow.findMany({
+      where: {
+        databaseId,
+        OR: [
+          { createdAt: direction === "desc" ? { lt: createdAt } : { gt: createdAt } },
+          { createdAt, id: { gt: id } },
+        ],
+      },
+      orderBy: [{ createdAt: direction }, { id: "asc" }],
+      take: limit + 1,
+    });
+
+    for (const row of batch) {
+      const data = JSON.parse(row.data || "{}");
+      if (!matchesFilter(filter, { id: row.id, createdAt: row.createdAt, values: data })) continue;
+      if (page.length === limit) {
+        hasMore = true;
+        break;
+      }
+      page.push({ row, data });
+    }
+
+    if (batch.length <= limit) break;
+    ({ createdAt, id } = batch[batch.length - 1]);
+  }
+
+  const last = page[page.length - 1]?.row;
+  return {
+    rows: page.map(({ row, data }) => ({ id: row.id, data, createdAt: row.createdAt, updatedAt: row.updatedAt })),
+    nextCursor:
+      hasMore && last
+        ? Buffer.from(JSON.stringify(rowSortKey({ ...last, values: {} }, sorts))).toString("base64url")
+        : null,
+  };
+}
+
+// GET - Filter, sort and page through rows
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { databaseId } = await params;
+    const access = await authorize("view", { database: databaseId });
+    if (access instanceof NextResponse) return access;
+
+    // Verify database ownership
+    const database = await db.database.findFirst({
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
+    });
+
+    if (!database) {
+      return NextResponse.json({ error: "Database not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const columns = parseColumns(database.columns);
+
+    let filter: RowFilter | undefined;
+    let sorts: RowSort[];
+    let after: SortKey | undefined;
+    try {
+      filter = parseParam(searchParams.get("filter")) as RowFilter | undefined;
+      sorts = (parseParam(searchParams.get("sort")) as RowSort[] | undefined) ?? [];
+      const cursor = searchParams.get("cursor");
+      after = cursor ? JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) : undefined;
+    } catch {
+      return NextResponse.json({ error: "Invalid filter, sort or cursor" }, { status: 400 });
+    }
+
+    const queryError = validateRowQuery(columns, filter, sorts);
+    if (queryError || (after !== undefined && !isSortKey(after, sorts))) {
+      return NextResponse.json({ error: queryError || "Invalid cursor" }, { status: 400 });
+    }
+
+    const limit = Math.max(
+      1,
+      Math.min(Math.floor(Number(searchParams.get("limit")) || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE)
+    );
+
+    // Later pages leave out the totals, which the first page already gave
+    if (after && isStoredOrder(columns, filter, sorts)) {
+      const position = cursorPosition(after);
+      if (!position) {
+        return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+      }
+      return NextResponse.json(await readRowsAfter(databaseId, filter, sorts, position, limit));
+    }
+
+    const [rows, relationTargets] = await Promise.all([
+      db.databaseRow.findMany({ where: { databaseId }, orderBy: { createdAt: "asc" } }),
+      loadRelationTargets(columns, access.workspaceId),
+    ]);
+
+    // Relations sort by the titles of what they link to
+    const titles = new Map(
+      Object.values(relationTargets).flat().map((target) => [target.id, target.title])
+    );
+
+    const matching = rows
+      .map((row) => {
+        const data = JSON.parse(row.data || "{}");
+        const queryRow: QueryRow = {
+          id: row.id,
+          createdAt: row.createdAt,
+          values: computeRowValues(columns, data, relationTargets).values,
+        };
+        return { row, data, queryRow, key: rowSortKey(queryRow, sorts, titles) };
+      })
+      .filter(({ queryRow }) => matchesFilter(filter, queryRow))
+      .sort((a, b) => compareSortKeys(a.key, b.key, sorts));
+
+    const start = after ? matching.filter(({ key }) => compareSortKeys(key, after!, sorts) <= 0).length : 0;
+    const page = matching.slice(start, start + limit);
+    const hasMore = start + limit < matching.length;
+
+    return NextResponse.json({
+      rows: page.map(({ row, data }) => ({ id: row.id, data, createdAt: row.createdAt, updatedAt: row.updatedAt })),
+      nextCursor: hasMore
+        ? Buffer.from(JSON.stringify(page[page.length - 1].key)).toString("base64url")
+        : null,
+      total: matching.length,
+      totals: sumColumns(columns, matching.map(({ queryRow }) => queryRow.values)),
+    });
+  } catch (error) {
+    console.error("Error querying rows:", error);
+    return NextResponse.json({ error: "Failed to query rows" }, { status: 500 });
+  }
+}
+
 // POST - Create a new row
 export async function POST(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { databaseId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("edit", { database: databaseId });
+    if (access instanceof NextResponse) return access;
 
     // Verify database ownership
     const database = await db.database.findFirst({
-      where: { id: databaseId, userId: session.user.id },
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
     });
 
     if (!database) {
       return NextResponse.json({ error: "Database not found" }, { status: 404 });
     }
 
-    const { data } = await request.json();
+    const columns = parseColumns(database.columns);
+    const { data, error } = validateRowData(columns, (await request.json()).data || {});
+    const relationError = data ? await checkRelationValues(columns, data, access.workspaceId) : null;
+
+    if (error || relationError) {
+      return NextResponse.json({ error: error || relationError }, { status: 400 });
+    }
 
     const row = await db.databaseRow.create({
       data: {
-        data: JSON.stringify(data || {}),
+        data: JSON.stringify(data),
         databaseId,
       },
     });
@@ -0,0 +1,98 @@
+/**
+ * Single Database View API
+ * 
+ * PATCH /api/databases/[databaseId]/views/[viewId] - Update a view's name, layout or settings
+ * DELETE /api/databases/[databaseId]/views/[viewId] - Delete a view. A database keeps at least one
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { parseColumns } from "@/lib/columns";
+import { ViewSettings, parseView, serializeView, validateView } from "@/lib/views";
+
+interface RouteParams {
+  params: Promise<{ databaseId: string; viewId: string }>;
+}
+
+const SETTINGS_KEYS: Array<keyof ViewSettings> = [
+  "name",
+  "layout",
+  "filters",
+  "filterMode",
+  "sorts",
+  "hiddenColumns",
+  "columnOrder",
+  "groupBy",
+  "dateColumn",
+];
+
+// Find a view on a database in the workspace
+async function findView(databaseId: string, viewId: string, workspaceId: string) {
+  return db.databaseView.findFirst({
+    where: { id: viewId, database: { id: databaseId, workspaceId, deletedAt: null } },
+    include: { database: true },
+  });
+}
+
+// PATCH - Update a view
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { databaseId, viewId } = await params;
+    const access = await authorize("edit", { database: databaseId });
+    if (access instanceof NextResponse) return access;
+
+    const existing = await findView(databaseId, viewId, access.workspaceId);
+
+    if (!existing) {
+      return NextResponse.json({ error: "View not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const updates: Partial<ViewSettings> = Object.fromEntries(
+      SETTINGS_KEYS.filter((key) => key in body).map((key) => [key, body[key]])
+    );
+
+    const error = validateView(parseColumns(existing.database.columns), updates);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const view = await db.databaseView.update({
+      where: { id: viewId },
+      data: serializeView(updates),
+    });
+
+    return NextResponse.json(parseView(view));
+  } catch (error) {
+    console.error("Error updating view:", error);
+    return NextResponse.json({ error: "Failed to update view" }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a view
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { databaseId, viewId } = await params;
+    const access = await authorize("edit", { database: databaseId });
+    if (access instanceof NextResponse) return access;
+
+    const existing = await findView(databaseId, viewId, access.workspaceId);
+
+    if (!existing) {
+      return NextResponse.json({ error: "View not found" }, { status: 404 });
+    }
+
+    const count = await db.databaseView.count({ where: { databaseId } });
+    if (count <= 1) {
+      return NextResponse.json({ error: "A database needs at least one view" }, { status: 400 });
+    }
+
+    await db.databaseView.delete({ where: { id: viewId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting view:", error);
+    return NextResponse.json({ error: "Failed to delete view" }, { status: 500 });
+  }
+}
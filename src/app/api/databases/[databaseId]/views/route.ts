@@ -0,0 +1,80 @@
+/**
+ * Database Views API
+ * 
+ * GET /api/databases/[databaseId]/views - List a database's saved views
+ * POST /api/databases/[databaseId]/views - Add a view { name?, layout, ...settings }
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { parseColumns } from "@/lib/columns";
+import { ViewLayout, defaultViewSettings, parseView, serializeView, validateView } from "@/lib/views";
+
+interface RouteParams {
+  params: Promise<{ databaseId: string }>;
+}
+
+// GET - List views in tab order
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { databaseId } = await params;
+    const access = await authorize("view", { database: databaseId });
+    if (access instanceof NextResponse) return access;
+
+    const database = await db.database.findFirst({
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
+      include: { views: { orderBy: { position: "asc" } } },
+    });
+
+    if (!database) {
+      return NextResponse.json({ error: "Database not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(database.views.map(parseView));
+  } catch (error) {
+    console.error("Error fetching views:", error);
+    return NextResponse.json({ error: "Failed to fetch views" }, { status: 500 });
+  }
+}
+
+// POST - Add a view after the existing ones
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { databaseId } = await params;
+    const access = await authorize("edit", { database: databaseId });
+    if (access instanceof NextResponse) return access;
+
+    const database = await db.database.findFirst({
+      where: { id: databaseId, workspaceId: access.workspaceId, deletedAt: null },
+      include: { views: { select: { position: true } } },
+    });
+
+    if (!database) {
+      return NextResponse.json({ error: "Database not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const columns = parseColumns(database.columns);
+    const layout: ViewLayout = body.layout ?? "table";
+    const settings = { ...defaultViewSettings(layout, columns), ...body, layout };
+
+    const error = validateView(columns, settings);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const view = await db.databaseView.create({
+      data: {
+        ...serializeView(settings),
+        position: Math.max(-1, ...database.views.map((v) => v.position)) + 1,
+        databaseId,
+      },
+    });
+
+    return NextResponse.json(parseView(view));
+  } catch (error) {
+    console.error("Error creating view:", error);
+    return NextResponse.json({ error: "Failed to create view" }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Database CSV Import API
+ * 
+ * POST /api/databases/import - Import a CSV file as a new database
+ * Body: { csv, name, columns: [{ name, type } | null per field], dryRun? }
+ * Lines that don't fit their column are skipped and listed in `errors`.
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { IMPORT_MAX_MB } from "@/lib/import";
+import { importCSVAsDatabase } from "@/lib/databaseImport";
+
+// POST - Check (dryRun) or run an import into a new database
+export async function POST(request: Request) {
+  try {
+    const access = await authorize("edit");
+    if (access instanceof NextResponse) return access;
+
+    const { csv, name, columns, dryRun } = await request.json();
+
+    if (typeof csv === "string" && csv.length > IMPORT_MAX_MB * 1024 * 1024) {
+      return NextResponse.json({ error: `File is larger than ${IMPORT_MAX_MB} MB` }, { status: 413 });
+    }
+
+    const result = await importCSVAsDatabase(
+      csv,
+      typeof name === "string" ? name : "",
+      columns,
+      access,
+      Boolean(dryRun)
+    );
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result, { status: dryRun ? 200 : 201 });
+  } catch (error) {
+    console.error("Error importing CSV:", error);
+    return NextResponse.json({ error: "Failed to import CSV" }, { status: 500 });
+  }
+}
@@ -1,32 +1,25 @@
 /**
  * Databases API
  * 
- * GET /api/databases - Get all databases for the logged-in user
- * POST /api/databases - Create a new database
+ * GET /api/databases - Get all databases in the active workspace
+ * POST /api/databases - Create a new database from a built-in template
+ * { template } or one of the user's saved templates { templateId }
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
-
-// Default columns for new databases
-const DEFAULT_COLUMNS = [
-  { id: "title", name: "Name", type: "text" },
-  { id: "status", name: "Status", type: "select", options: ["To Do", "In Progress", "Done"] },
-];
+import { createDatabaseFromSnapshot } from "@/lib/databaseCopy";
+import { DatabaseSnapshot, builtInSnapshot, getBuiltInTemplate, templateSnapshot } from "@/lib/templates";
 
 // GET - Fetch all databases
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
 
     const databases = await db.database.findMany({
-      where: { userId: session.user.id },
+      where: { workspaceId: access.workspaceId, deletedAt: null },
       orderBy: { updatedAt: "desc" },
       include: {
         _count: { select: { rows: true } },
@@ -43,49 +36,34 @@ export async function GET() {
 // POST - Create a new database
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("edit");
+    if (access instanceof NextResponse) return access;
 
-    const { name, icon, color, template } = await request.json();
+    const { name, icon, color, template, templateId } = await request.json();
 
-    // Choose columns based on template
-    let columns = DEFAULT_COLUMNS;
-    if (template === "todo") {
-      columns = [
-        { id: "task", name: "Task", type: "text" },
-        { id: "status", name: "Status", type: "select", options: ["To Do", "In Progress", "Done"] },
-        { id: "priority", name: "Priority", type: "select", options: ["Low", "Medium", "High"] },
-        { id: "done", name: "Completed", type: "checkbox" },
-      ];
-    } else if (template === "shopping") {
-      columns = [
-        { id: "item", name: "Item", type: "text" },
-        { id: "price", name: "Price", type: "number" },
-        { id: "quantity", name: "Qty", type: "number" },
-        { id: "category", name: "Category", type: "select", options: ["Groceries", "Household", "Personal", "Other"] },
-        { id: "bought", name: "Bought", type: "checkbox" },
-      ];
-    } else if (template === "tracker") {
-      columns = [
-        { id: "date", name: "Date", type: "text" },
-        { id: "habit", name: "Habit", type: "text" },
-        { id: "completed", name: "Done", type: "checkbox" },
-        { id: "notes", name: "Notes", type: "text" },
-      ];
+    // Start from a saved template, or a built-in one (blank if none is given)
+    let snapshot: DatabaseSnapshot;
+    if (templateId) {
+      const saved = await db.databaseTemplate.findFirst({
+        where: { id: templateId, userId: access.userId },
+      });
+      if (!saved) {
+        return NextResponse.json({ error: "Template not found" }, { status: 404 });
+      }
+      snapshot = templateSnapshot(saved);
+    } else {
+      snapshot = builtInSnapshot(getBuiltInTemplate(template));
     }
 
-    const database = await db.database.create({
-      data: {
-        name: name || "Untitled Database",
-        icon,
-        color,
-        columns: JSON.stringify(columns),
-        userId: session.user.id,
+    const database = await createDatabaseFromSnapshot(
+      {
+        ...snapshot,
+        name: name || snapshot.name,
+        icon: icon ?? snapshot.icon,
+        color: color ?? snapshot.color,
       },
-    });
+      access
+    );
 
     return NextResponse.json(database, { status: 201 });
   } catch (error) {
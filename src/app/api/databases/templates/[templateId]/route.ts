@@ -0,0 +1,36 @@
+/**
+ * Single Database Template API
+ * 
+ * DELETE /api/databases/templates/[templateId] - Delete a saved template.
+ * Databases made from it are not affected.
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+
+interface RouteParams {
+  params: Promise<{ templateId: string }>;
+}
+
+// DELETE - Delete a template
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    const { count } = await db.databaseTemplate.deleteMany({
+      where: { id: templateId, userId: access.userId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting template:", error);
+    return NextResponse.json({ error: "Failed to delete template" }, { status: 500 });
+  }
+}
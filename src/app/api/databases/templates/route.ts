@@ -0,0 +1,71 @@
+/**
+ * Database Templates API
+ * 
+ * GET /api/databases/templates - List the user's saved templates
+ * POST /api/databases/templates - Save a database as a template
+ * { databaseId, name, description?, includeRows? }
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { snapshotDatabase } from "@/lib/databaseCopy";
+import { toPersonalTemplate, validateTemplateName } from "@/lib/templates";
+
+// GET - List saved templates, newest first
+export async function GET() {
+  try {
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    const templates = await db.databaseTemplate.findMany({
+      where: { userId: access.userId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json(templates.map(toPersonalTemplate));
+  } catch (error) {
+    console.error("Error fetching templates:", error);
+    return NextResponse.json({ error: "Failed to fetch templates" }, { status: 500 });
+  }
+}
+
+// POST - Save a snapshot of a database, with its rows as sample rows if asked
+export async function POST(request: Request) {
+  try {
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    const { databaseId, name, description, includeRows } = await request.json();
+
+    const nameError = validateTemplateName(name);
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    const snapshot = await snapshotDatabase(String(databaseId), access.workspaceId, Boolean(includeRows));
+
+    if (!snapshot) {
+      return NextResponse.json({ error: "Database not found" }, { status: 404 });
+    }
+
+    const template = await db.databaseTemplate.create({
+      data: {
+        name: name.trim(),
+        icon: snapshot.icon,
+        color: snapshot.color,
+        description: typeof description === "string" && description.trim() ? description.trim() : null,
+        columns: JSON.stringify(snapshot.columns),
+        views: JSON.stringify(snapshot.views),
+        rows: JSON.stringify(snapshot.rows),
+        sourceId: snapshot.sourceId,
+        userId: access.userId,
+      },
+    });
+
+    return NextResponse.json(toPersonalTemplate(template), { status: 201 });
+  } catch (error) {
+    console.error("Error saving template:", error);
+    return NextResponse.json({ error: "Failed to save template" }, { status: 500 });
+  }
+}
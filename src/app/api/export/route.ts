@@ -3,26 +3,71 @@
  * 
  * GET /api/export?type=pages|databases|habits|all&format=csv|markdown|json
  * 
- * Exports user data in various formats
+ * Exports the active workspace in various formats. Markdown exports of pages (and
+ * everything) are a zip with one .md file per page, laid out by folder.
+ * Everything as JSON is a versioned backup that /api/backup/restore reads.
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import { buildMarkdownArchive } from "@/lib/export";
+import { createBackup } from "@/lib/backup";
+import { docToLines, parseDoc } from "@/lib/tiptap";
+import { Column, computeRowValues, formatCellValue, parseColumns } from "@/lib/columns";
+import { loadRelationTargets, loadRelationTitles } from "@/lib/relations";
+import { HabitLogLike, HabitSchedule, completedDays, computeStreaks, streakUnit } from "@/lib/habits";
+import { getUserTimezone } from "@/lib/account";
+import { dayKeyIn } from "@/lib/timezones";
 
 export async function GET(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
 
     const { searchParams } = new URL(request.url);
     const type = searchParams.get("type") || "all";
     const format = searchParams.get("format") || "json";
 
+    // Habit streaks run up to today in the user's time zone
+    const today = dayKeyIn(new Date(), await getUserTimezone(access.userId));
+
+    // Pages as Markdown are one file each, so they go out as a zip
+    if (format === "markdown" && (type === "pages" || type === "all")) {
+      let extraFiles: Record<string, string> | undefined;
+      if (type === "all") {
+        const habits = await db.habit.findMany({
+          where: { workspaceId: access.workspaceId },
+          include: { logs: { orderBy: { date: "desc" } } },
+          orderBy: { createdAt: "asc" },
+        });
+        extraFiles = { "Habits.md": convertToMarkdown({ habits }, "habits", today) };
+      }
+
+      const archive = await buildMarkdownArchive(access.workspaceId, {
+        includeDatabases: type === "all",
+        extraFiles,
+      });
+
+      return new NextResponse(archive, {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="mind-garden-export-${type}.zip"`,
+        },
+      });
+    }
+
+    // A full JSON export is a backup that can be restored later
+    if (format === "json" && type === "all") {
+      const backup = await createBackup(access);
+      return new NextResponse(JSON.stringify(backup, null, 2), {
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="mind-garden-export-all.json"`,
+        },
+      });
+    }
+
     const data: Record<string, unknown> = {};
     let filename = "mind-garden-export";
     let contentType = "application/json";
@@ -31,7 +76,7 @@ export async function GET(request: Request) {
     // Fetch requested data
     if (type === "pages" || type === "all") {
       const pages = await db.page.findMany({
-        where: { userId: session.user.id },
+        where: { workspaceId: access.workspaceId, deletedAt: null },
         include: { folder: { select: { name: true } } },
         orderBy: { updatedAt: "desc" },
       });
@@ -40,16 +85,26 @@ export async function GET(request: Request) {
 
     if (type === "databases" || type === "all") {
       const databases = await db.database.findMany({
-        where: { userId: session.user.id },
+        where: { workspaceId: access.workspaceId, deletedAt: null },
         include: { rows: true },
         orderBy: { updatedAt: "desc" },
       });
+
+      // Rollups and formulas are written out with their values
+      for (const database of databases) {
+        const columns = parseColumns(database.columns);
+        const relationTargets = await loadRelationTargets(columns, access.workspaceId);
+        for (const row of database.rows) {
+          const { values } = computeRowValues(columns, JSON.parse(row.data || "{}"), relationTargets);
+          row.data = JSON.stringify(values);
+        }
+      }
       data.databases = databases;
     }
 
     if (type === "habits" || type === "all") {
       const habits = await db.habit.findMany({
-        where: { userId: session.user.id },
+        where: { workspaceId: access.workspaceId },
         include: { logs: { orderBy: { date: "desc" } } },
         orderBy: { createdAt: "asc" },
       });
@@ -58,22 +113,25 @@ export async function GET(request: Request) {
 
     if (type === "folders" || type === "all") {
       const folders = await db.folder.findMany({
-        where: { userId: session.user.id },
+        where: { workspaceId: access.workspaceId, deletedAt: null },
         orderBy: { order: "asc" },
       });
       data.folders = folders;
     }
 
+    // Linked rows and pages are written by title
+    const titles = data.databases ? await loadRelationTitles(access.workspaceId) : undefined;
+
     // Format the data
     switch (format) {
       case "csv":
-        content = convertToCSV(data, type);
+        content = convertToCSV(data, type, today, titles);
         contentType = "text/csv";
         filename = `${filename}-${type}.csv`;
         break;
 
       case "markdown":
-        content = convertToMarkdown(data, type);
+        content = convertToMarkdown(data, type, today, titles);
         contentType = "text/markdown";
         filename = `${filename}-${type}.md`;
         break;
@@ -103,7 +161,7 @@ export async function GET(request: Request) {
 }
 
 // Convert data to CSV format
-function convertToCSV(data: Record<string, unknown>, type: string): string {
+function convertToCSV(data: Record<string, unknown>, type: string, today: string, titles?: Map<string, string>): string {
   const lines: string[] = [];
 
   // Pages CSV
@@ -117,9 +175,9 @@ function convertToCSV(data: Record<string, unknown>, type: string): string {
       updatedAt: string;
       isFavorite: boolean;
     }>) {
-      const content = (page.content || "").replace(/"/g, '""').replace(/\n/g, " ");
+      const content = pageText(page.content).replace(/"/g, '""').replace(/\n/g, " ");
       lines.push(
-        `"${page.title}","${page.folder?.name || "No folder"}","${content}","${page.createdAt}","${page.updatedAt}","${page.isFavorite}"`
+        `"${page.title.replace(/"/g, '""')}","${page.folder?.name || "No folder"}","${content}","${page.createdAt}","${page.updatedAt}","${page.isFavorite}"`
       );
     }
   }
@@ -133,7 +191,7 @@ function convertToCSV(data: Record<string, unknown>, type: string): string {
     }>) {
       lines.push(`\n# ${database.name}`);
       
-      const columns = JSON.parse(database.columns || "[]") as Array<{ id: string; name: string }>;
+      const columns: Column[] = parseColumns(database.columns);
       const headers = columns.map((c) => c.name);
       lines.push(headers.join(","));
 
@@ -141,7 +199,9 @@ function convertToCSV(data: Record<string, unknown>, type: string): string {
         const rowData = JSON.parse(row.data || "{}");
         const values = columns.map((col) => {
           const val = rowData[col.id];
-          if (typeof val === "string") return `"${val.replace(/"/g, '""')}"`;
+          if (typeof val === "string" || Array.isArray(val)) {
+            return `"${formatCellValue(col, val, titles).replace(/"/g, '""')}"`;
+          }
           return val ?? "";
         });
         lines.push(values.join(","));
@@ -151,30 +211,27 @@ function convertToCSV(data: Record<string, unknown>, type: string): string {
 
   // Habits CSV
   if (type === "habits" && Array.isArray(data.habits)) {
-    lines.push("Habit,Icon,Color,Created,Total Completions,Current Streak");
-    for (const habit of data.habits as Array<{
-      name: string;
+    lines.push("Habit,Icon,Color,Created,Target,Unit,Total Completions,Current Streak");
+    for (const habit of data.habits as Array<ExportHabit & {
       icon: string;
       color: string;
       createdAt: string;
-      logs: Array<{ completed: boolean; date: string }>;
+      target: number | null;
+      unit: string | null;
     }>) {
       const completions = habit.logs.filter((l) => l.completed).length;
-      const streak = calculateStreak(habit.logs);
+      const streak = calculateStreak(habit, today);
       lines.push(
-        `"${habit.name}","${habit.icon}","${habit.color}","${habit.createdAt}","${completions}","${streak}"`
+        `"${habit.name}","${habit.icon}","${habit.color}","${habit.createdAt}","${habit.target ?? ""}","${habit.unit ?? ""}","${completions}","${streak}"`
       );
     }
 
     // Add detailed habit logs
     lines.push("\n# Habit Completion Log");
-    lines.push("Habit,Date,Completed");
-    for (const habit of data.habits as Array<{
-      name: string;
-      logs: Array<{ date: string; completed: boolean }>;
-    }>) {
+    lines.push("Habit,Date,Completed,Amount");
+    for (const habit of data.habits as ExportHabit[]) {
       for (const log of habit.logs) {
-        lines.push(`"${habit.name}","${log.date}","${log.completed}"`);
+        lines.push(`"${habit.name}","${log.date}","${log.completed}","${log.amount ?? ""}"`);
       }
     }
   }
@@ -191,9 +248,9 @@ function convertToCSV(data: Record<string, unknown>, type: string): string {
         createdAt: string;
         updatedAt: string;
       }>) {
-        const preview = (page.content || "").substring(0, 100).replace(/"/g, '""').replace(/\n/g, " ");
+        const preview = pageText(page.content).substring(0, 100).replace(/"/g, '""').replace(/\n/g, " ");
         lines.push(
-          `"${page.title}","${page.folder?.name || ""}","${preview}...","${page.createdAt}","${page.updatedAt}"`
+          `"${page.title.replace(/"/g, '""')}","${page.folder?.name || ""}","${preview}...","${page.createdAt}","${page.updatedAt}"`
         );
       }
     }
@@ -201,12 +258,9 @@ function convertToCSV(data: Record<string, unknown>, type: string): string {
     if (Array.isArray(data.habits)) {
       lines.push("\n# HABITS");
       lines.push("Name,Completions,Streak");
-      for (const habit of data.habits as Array<{
-        name: string;
-        logs: Array<{ completed: boolean; date: string }>;
-      }>) {
+      for (const habit of data.habits as ExportHabit[]) {
         const completions = habit.logs.filter((l) => l.completed).length;
-        const streak = calculateStreak(habit.logs);
+        const streak = calculateStreak(habit, today);
         lines.push(`"${habit.name}","${completions}","${streak}"`);
       }
     }
@@ -216,7 +270,12 @@ function convertToCSV(data: Record<string, unknown>, type: string): string {
 }
 
 // Convert data to Markdown format
-function convertToMarkdown(data: Record<string, unknown>, type: string): string {
+function convertToMarkdown(
+  data: Record<string, unknown>,
+  type: string,
+  today: string,
+  titles?: Map<string, string>
+): string {
   const lines: string[] = [];
   const date = new Date().toLocaleDateString("en-US", {
     weekday: "long",
@@ -229,41 +288,6 @@ function convertToMarkdown(data: Record<string, unknown>, type: string): string
   lines.push(`*Exported on ${date}*\n`);
   lines.push("---\n");
 
-  // Pages as Markdown
-  if ((type === "pages" || type === "all") && Array.isArray(data.pages)) {
-    lines.push("## 📄 Pages\n");
-    for (const page of data.pages as Array<{
-      title: string;
-      icon?: string | null;
-      folder?: { name: string } | null;
-      content?: string | null;
-      createdAt: string;
-      isFavorite: boolean;
-    }>) {
-      lines.push(`### ${page.icon || "📝"} ${page.title}`);
-      if (page.folder?.name) {
-        lines.push(`*Folder: ${page.folder.name}*`);
-      }
-      if (page.isFavorite) {
-        lines.push("⭐ *Favorite*");
-      }
-      lines.push("");
-      
-      // Parse and include content
-      if (page.content) {
-        try {
-          const content = JSON.parse(page.content);
-          lines.push(tiptapToMarkdown(content));
-        } catch {
-          lines.push(page.content);
-        }
-      } else {
-        lines.push("*No content*");
-      }
-      lines.push("\n---\n");
-    }
-  }
-
   // Databases as Markdown tables
   if ((type === "databases" || type === "all") && Array.isArray(data.databases)) {
     lines.push("## 🗃️ Databases\n");
@@ -279,7 +303,7 @@ function convertToMarkdown(data: Record<string, unknown>, type: string): string
         lines.push(`*${database.description}*\n`);
       }
 
-      const columns = JSON.parse(database.columns || "[]") as Array<{ id: string; name: string; type: string }>;
+      const columns: Column[] = parseColumns(database.columns);
       
       if (columns.length > 0) {
         // Table header
@@ -292,8 +316,7 @@ function convertToMarkdown(data: Record<string, unknown>, type: string): string
           const values = columns.map((col) => {
             const val = rowData[col.id];
             if (col.type === "checkbox") return val ? "✅" : "⬜";
-            if (val === null || val === undefined) return "";
-            return String(val);
+            return formatCellValue(col, val, titles);
           });
           lines.push("| " + values.join(" | ") + " |");
         }
@@ -305,20 +328,18 @@ function convertToMarkdown(data: Record<string, unknown>, type: string): string
   // Habits as Markdown
   if ((type === "habits" || type === "all") && Array.isArray(data.habits)) {
     lines.push("## 🎯 Habits\n");
-    for (const habit of data.habits as Array<{
-      name: string;
+    for (const habit of data.habits as Array<ExportHabit & {
       icon: string;
       description?: string | null;
-      logs: Array<{ completed: boolean; date: string }>;
     }>) {
       const completions = habit.logs.filter((l) => l.completed).length;
-      const streak = calculateStreak(habit.logs);
+      const streak = calculateStreak(habit, today);
 
       lines.push(`### ${habit.icon} ${habit.name}`);
       if (habit.description) {
         lines.push(`*${habit.description}*`);
       }
-      lines.push(`- 🔥 **Current Streak:** ${streak} days`);
+      lines.push(`- 🔥 **Current Streak:** ${streak} ${streakUnit(habit)}s`);
       lines.push(`- ✅ **Total Completions:** ${completions}`);
       lines.push("");
     }
@@ -339,84 +360,16 @@ function convertToMarkdown(data: Record<string, unknown>, type: string): string
   return lines.join("\n");
 }
 
-// Convert TipTap JSON to Markdown
-function tiptapToMarkdown(doc: { type: string; content?: Array<{ type: string; content?: Array<{ text?: string; marks?: Array<{ type: string }> }>; attrs?: { level?: number } }> }): string {
-  if (!doc.content) return "";
-
-  const lines: string[] = [];
-
-  for (const node of doc.content) {
-    switch (node.type) {
-      case "paragraph":
-        lines.push(inlineToMarkdown(node.content || []));
-        lines.push("");
-        break;
-      case "heading":
-        const level = node.attrs?.level || 1;
-        lines.push("#".repeat(level) + " " + inlineToMarkdown(node.content || []));
-        lines.push("");
-        break;
-      case "bulletList":
-        // Simplified - just add text content
-        lines.push(inlineToMarkdown(node.content || []));
-        break;
-      default:
-        if (node.content) {
-          lines.push(inlineToMarkdown(node.content));
-        }
-    }
-  }
-
-  return lines.join("\n");
-}
-
-function inlineToMarkdown(content: Array<{ text?: string; marks?: Array<{ type: string }> }>): string {
-  return content
-    .map((node) => {
-      let text = node.text || "";
-      if (node.marks) {
-        for (const mark of node.marks) {
-          switch (mark.type) {
-            case "bold":
-              text = `**${text}**`;
-              break;
-            case "italic":
-              text = `*${text}*`;
-              break;
-            case "code":
-              text = `\`${text}\``;
-              break;
-          }
-        }
-      }
-      return text;
-    })
-    .join("");
+// Plain text of a page's Tiptap content, one line per block
+function pageText(content: string | null | undefined): string {
+  return docToLines(parseDoc(content)).join("\n").trim();
 }
 
-// Calculate current streak
-function calculateStreak(logs: Array<{ completed: boolean; date: string }>): number {
-  const completedDates = new Set(
-    logs
-      .filter((l) => l.completed)
-      .map((l) => new Date(l.date).toDateString())
-  );
-
-  let streak = 0;
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  for (let i = 0; i < 365; i++) {
-    const checkDate = new Date(today);
-    checkDate.setDate(today.getDate() - i);
-
-    if (completedDates.has(checkDate.toDateString())) {
-      streak++;
-    } else if (i > 0) {
-      break;
-    }
-  }
+// A habit as the exports read it
+type ExportHabit = HabitSchedule & { name: string; logs: HabitLogLike[] };
 
-  return streak;
+// The current streak, by the habit's schedule
+function calculateStreak(habit: ExportHabit, today: string): number {
+  return computeStreaks(habit, completedDays(habit.logs), today).current;
 }
 
@@ -3,13 +3,13 @@
  * 
  * GET /api/folders/[folderId] - Get a specific folder
  * PATCH /api/folders/[folderId] - Update a folder
- * DELETE /api/folders/[folderId] - Delete a folder
+ * DELETE /api/folders/[folderId] - Move a folder (and its contents) to the trash
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import { trashFolder } from "@/lib/trash";
 
 interface RouteParams {
   params: Promise<{ folderId: string }>;
@@ -18,18 +18,15 @@ interface RouteParams {
 // GET - Fetch a single folder
 export async function GET(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { folderId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("view", { folder: folderId });
+    if (access instanceof NextResponse) return access;
 
     const folder = await db.folder.findFirst({
-      where: { id: folderId, userId: session.user.id },
+      where: { id: folderId, workspaceId: access.workspaceId, deletedAt: null },
       include: {
-        pages: { orderBy: { updatedAt: "desc" } },
-        children: { orderBy: { order: "asc" } },
+        pages: { where: { deletedAt: null }, orderBy: { updatedAt: "desc" } },
+        children: { where: { deletedAt: null }, orderBy: { order: "asc" } },
       },
     });
 
@@ -47,18 +44,15 @@ export async function GET(request: Request, { params }: RouteParams) {
 // PATCH - Update a folder
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { folderId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("edit", { folder: folderId });
+    if (access instanceof NextResponse) return access;
 
     const updates = await request.json();
 
-    // Make sure folder belongs to user
+    // Make sure folder is in the workspace
     const existing = await db.folder.findFirst({
-      where: { id: folderId, userId: session.user.id },
+      where: { id: folderId, workspaceId: access.workspaceId, deletedAt: null },
     });
 
     if (!existing) {
@@ -82,19 +76,16 @@ export async function PATCH(request: Request, { params }: RouteParams) {
   }
 }
 
-// DELETE - Delete a folder
+// DELETE - Move a folder to the trash
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { folderId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("edit", { folder: folderId });
+    if (access instanceof NextResponse) return access;
 
-    // Make sure folder belongs to user
+    // Make sure folder is in the workspace
     const existing = await db.folder.findFirst({
-      where: { id: folderId, userId: session.user.id },
+      where: { id: folderId, workspaceId: access.workspaceId, deletedAt: null },
     });
 
     if (!existing) {
@@ -109,7 +100,7 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       );
     }
 
-    await db.folder.delete({ where: { id: folderId } });
+    await trashFolder(folderId, access.workspaceId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,40 +1,35 @@
 /**
  * Folders API
  * 
- * GET /api/folders - Get all folders for the logged-in user
+ * GET /api/folders - Get all folders in the active workspace
  * POST /api/folders - Create a new folder
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
 
 // GET - Fetch all folders
 export async function GET() {
   try {
-    // Get the current user
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: "Not authenticated" },
-        { status: 401 }
-      );
-    }
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
 
-    // Fetch all folders for this user
+    // Fetch all folders in the workspace
     const folders = await db.folder.findMany({
-      where: { userId: session.user.id },
+      where: { workspaceId: access.workspaceId, deletedAt: null },
       include: {
         pages: {
-          select: { id: true, title: true, icon: true },
+          where: { deletedAt: null },
+          select: { id: true, title: true, icon: true, color: true, parentPageId: true },
           orderBy: { updatedAt: "desc" },
         },
         children: {
+          where: { deletedAt: null },
           include: {
             pages: {
-              select: { id: true, title: true, icon: true },
+              where: { deletedAt: null },
+              select: { id: true, title: true, icon: true, color: true, parentPageId: true },
               orderBy: { updatedAt: "desc" },
             },
           },
@@ -56,14 +51,8 @@ export async function GET() {
 // POST - Create a new folder
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: "Not authenticated" },
-        { status: 401 }
-      );
-    }
+    const access = await authorize("edit");
+    if (access instanceof NextResponse) return access;
 
     const { name, icon, color, parentId, folderType } = await request.json();
 
@@ -76,7 +65,7 @@ export async function POST(request: Request) {
 
     // Get the next order number
     const lastFolder = await db.folder.findFirst({
-      where: { userId: session.user.id, parentId: parentId || null },
+      where: { workspaceId: access.workspaceId, parentId: parentId || null, deletedAt: null },
       orderBy: { order: "desc" },
     });
 
@@ -88,7 +77,8 @@ export async function POST(request: Request) {
         parentId,
         folderType,
         order: (lastFolder?.order ?? -1) + 1,
-        userId: session.user.id,
+        userId: access.userId,
+        workspaceId: access.workspaceId,
       },
     });
 
@@ -2,12 +2,22 @@
  * Habit Log API Routes
  * 
  * POST /api/habits/[habitId]/log - Toggle habit completion for a date
+ * { date: "YYYY-MM-DD", completed?, amount?, note? }
+ *
+ * A full timestamp is also accepted, and logs the day it falls on in the
+ * user's time zone.
+ *
+ * Quantitative habits log an amount, and are completed once it reaches
+ * the target. Toggling one without an amount fills in the target, or
+ * clears the day.
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import { getUserTimezone } from "@/lib/account";
+import { dayKeyDate, isDayKey, isQuantitative, meetsTarget } from "@/lib/habits";
+import { dayKeyIn } from "@/lib/timezones";
 
 interface RouteParams {
   params: Promise<{ habitId: string }>;
@@ -16,18 +26,15 @@ interface RouteParams {
 // POST toggle habit completion
 export async function POST(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { habitId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("edit", { habit: habitId });
+    if (access instanceof NextResponse) return access;
 
     // Verify ownership
     const habit = await db.habit.findFirst({
       where: {
         id: habitId,
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
       },
     });
 
@@ -36,18 +43,25 @@ export async function POST(request: Request, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { date, completed, note } = body;
+    const { date, completed, amount, note } = body;
 
-    if (!date) {
+    if (!date || (!isDayKey(date) && isNaN(Date.parse(date)))) {
       return NextResponse.json(
-        { error: "Date is required" },
+        { error: "Date is required, as YYYY-MM-DD" },
         { status: 400 }
       );
     }
 
-    // Normalize date to start of day in UTC
-    const logDate = new Date(date);
-    logDate.setUTCHours(0, 0, 0, 0);
+    if (amount !== undefined && amount !== null && !(typeof amount === "number" && amount >= 0 && isFinite(amount))) {
+      return NextResponse.json(
+        { error: "Amount must be a number of at least 0" },
+        { status: 400 }
+      );
+    }
+
+    // Logs are stored at midnight UTC of the day they're for
+    const day = isDayKey(date) ? date : dayKeyIn(new Date(date), await getUserTimezone(access.userId));
+    const logDate = dayKeyDate(day);
 
     // Check if log exists for this date
     const existingLog = await db.habitLog.findUnique({
@@ -59,33 +73,50 @@ export async function POST(request: Request, { params }: RouteParams) {
       },
     });
 
+    // Work out what the day's log should say
+    let nextAmount: number | null = null;
+    let nextCompleted: boolean;
+    if (isQuantitative(habit)) {
+      if (typeof amount === "number") {
+        nextAmount = amount;
+      } else {
+        const done = completed ?? !existingLog?.completed;
+        nextAmount = done ? Math.max(habit.target!, existingLog?.amount ?? 0) : 0;
+      }
+      nextCompleted = meetsTarget(habit, nextAmount);
+    } else {
+      nextCompleted = completed ?? (existingLog ? !existingLog.completed : true);
+    }
+    const nextNote = note !== undefined ? note : existingLog?.note;
+
     let log;
 
-    if (existingLog) {
-      // Update existing log
-      if (completed === false && !note) {
-        // If marking as incomplete and no note, delete the log
+    if (!nextCompleted && !nextAmount && !nextNote) {
+      // Nothing left to record for the day
+      if (existingLog) {
         await db.habitLog.delete({
           where: { id: existingLog.id },
         });
-        log = null;
-      } else {
-        // Update the log
-        log = await db.habitLog.update({
-          where: { id: existingLog.id },
-          data: {
-            completed: completed ?? !existingLog.completed,
-            ...(note !== undefined && { note }),
-          },
-        });
       }
+      log = null;
+    } else if (existingLog) {
+      // Update the log
+      log = await db.habitLog.update({
+        where: { id: existingLog.id },
+        data: {
+          completed: nextCompleted,
+          amount: nextAmount,
+          ...(note !== undefined && { note }),
+        },
+      });
     } else {
       // Create new log
       log = await db.habitLog.create({
         data: {
           habitId,
           date: logDate,
-          completed: completed ?? true,
+          completed: nextCompleted,
+          amount: nextAmount,
           note,
         },
       });
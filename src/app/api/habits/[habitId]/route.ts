@@ -7,9 +7,16 @@
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import {
+  MAX_TIMES_PER_PERIOD,
+  isHabitFrequency,
+  isPeriodic,
+  isQuantitative,
+  isValidQuota,
+  parseTargetDays,
+} from "@/lib/habits";
 
 interface RouteParams {
   params: Promise<{ habitId: string }>;
@@ -18,17 +25,14 @@ interface RouteParams {
 // GET a specific habit
 export async function GET(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { habitId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("view", { habit: habitId });
+    if (access instanceof NextResponse) return access;
 
     const habit = await db.habit.findFirst({
       where: {
         id: habitId,
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
       },
       include: {
         logs: {
@@ -54,18 +58,15 @@ export async function GET(request: Request, { params }: RouteParams) {
 // PATCH update a habit
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { habitId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("edit", { habit: habitId });
+    if (access instanceof NextResponse) return access;
 
     // Verify ownership
     const existingHabit = await db.habit.findFirst({
       where: {
         id: habitId,
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
       },
     });
 
@@ -74,7 +75,33 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { name, icon, color, description, frequency, targetDays, isArchived, reminderEnabled, reminderTime } = body;
+    const {
+      name, icon, color, description, frequency, targetDays, timesPerPeriod, target, unit,
+      isArchived, reminderEnabled, reminderTime,
+    } = body;
+
+    if (frequency !== undefined && !isHabitFrequency(frequency)) {
+      return NextResponse.json(
+        { error: "Frequency must be daily, weekdays, weekends, custom, weekly or monthly" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = { frequency: frequency ?? existingHabit.frequency };
+    const quotaChanged = frequency !== undefined || timesPerPeriod !== undefined;
+    if (isPeriodic(schedule) && quotaChanged && !isValidQuota(schedule.frequency, timesPerPeriod)) {
+      return NextResponse.json(
+        { error: `Times per ${schedule.frequency === "weekly" ? "week" : "month"} must be between 1 and ${MAX_TIMES_PER_PERIOD[schedule.frequency]}` },
+        { status: 400 }
+      );
+    }
+
+    if (target !== undefined && target !== null && !isQuantitative({ target })) {
+      return NextResponse.json(
+        { error: "Target must be a number greater than 0" },
+        { status: 400 }
+      );
+    }
 
     const habit = await db.habit.update({
       where: { id: habitId },
@@ -84,13 +111,24 @@ export async function PATCH(request: Request, { params }: RouteParams) {
         ...(color !== undefined && { color }),
         ...(description !== undefined && { description }),
         ...(frequency !== undefined && { frequency }),
-        ...(targetDays !== undefined && { targetDays: JSON.stringify(targetDays) }),
+        ...(targetDays !== undefined && { targetDays: JSON.stringify(parseTargetDays(targetDays)) }),
+        ...(quotaChanged && { timesPerPeriod: isPeriodic(schedule) ? timesPerPeriod : null }),
+        ...(target !== undefined && { target }),
+        ...(unit !== undefined && { unit: typeof unit === "string" ? unit.trim() || null : null }),
         ...(isArchived !== undefined && { isArchived }),
         ...(reminderEnabled !== undefined && { reminderEnabled }),
         ...(reminderTime !== undefined && { reminderTime }),
       },
     });
 
+    // A new target decides afresh which logged days met it
+    if (target && target !== existingHabit.target) {
+      await db.$transaction([
+        db.habitLog.updateMany({ where: { habitId, amount: { gte: target } }, data: { completed: true } }),
+        db.habitLog.updateMany({ where: { habitId, amount: { lt: target } }, data: { completed: false } }),
+      ]);
+    }
+
     return NextResponse.json(habit);
   } catch (error) {
     console.error("Error updating habit:", error);
@@ -104,18 +142,15 @@ export async function PATCH(request: Request, { params }: RouteParams) {
 // DELETE a habit
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { habitId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("edit", { habit: habitId });
+    if (access instanceof NextResponse) return access;
 
     // Verify ownership
     const existingHabit = await db.habit.findFirst({
       where: {
         id: habitId,
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
       },
     });
 
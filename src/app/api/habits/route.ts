@@ -1,36 +1,36 @@
 /**
  * Habits API Routes
  * 
- * GET  /api/habits - Get all habits for the current user
+ * GET  /api/habits - Get all habits in the active workspace
  * POST /api/habits - Create a new habit
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import {
+  MAX_TIMES_PER_PERIOD,
+  isHabitFrequency,
+  isPeriodic,
+  isQuantitative,
+  isValidQuota,
+  parseTargetDays,
+} from "@/lib/habits";
 
 // GET all habits
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
 
     const habits = await db.habit.findMany({
       where: {
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
         isArchived: false,
       },
       include: {
+        // Full history, which streaks are counted over
         logs: {
-          where: {
-            date: {
-              gte: new Date(new Date().setDate(new Date().getDate() - 60)), // Last 60 days
-            },
-          },
           orderBy: { date: "desc" },
         },
       },
@@ -50,14 +50,13 @@ export async function GET() {
 // POST create a new habit
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("edit");
+    if (access instanceof NextResponse) return access;
 
     const body = await request.json();
-    const { name, icon, color, description, frequency, targetDays, reminderEnabled, reminderTime } = body;
+    const {
+      name, icon, color, description, frequency, targetDays, timesPerPeriod, target, unit, reminderEnabled, reminderTime,
+    } = body;
 
     if (!name) {
       return NextResponse.json(
@@ -66,6 +65,28 @@ export async function POST(request: Request) {
       );
     }
 
+    if (frequency !== undefined && !isHabitFrequency(frequency)) {
+      return NextResponse.json(
+        { error: "Frequency must be daily, weekdays, weekends, custom, weekly or monthly" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = { frequency: frequency ?? "daily" };
+    if (isPeriodic(schedule) && true && !isValidQuota(schedule.frequency, timesPerPeriod)) {
+      return NextResponse.json(
+        { error: `Times per ${schedule.frequency === "weekly" ? "week" : "month"} must be between 1 and ${MAX_TIMES_PER_PERIOD[schedule.frequency]}` },
+        { status: 400 }
+      );
+    }
+
+    if (target !== undefined && target !== null && !isQuantitative({ target })) {
+      return NextResponse.json(
+        { error: "Target must be a number greater than 0" },
+        { status: 400 }
+      );
+    }
+
     const habit = await db.habit.create({
       data: {
         name,
@@ -73,10 +94,14 @@ export async function POST(request: Request) {
         color: color || "#10b981",
         description,
         frequency: frequency || "daily",
-        targetDays: targetDays ? JSON.stringify(targetDays) : null,
+        targetDays: frequency === "custom" ? JSON.stringify(parseTargetDays(targetDays)) : null,
+        timesPerPeriod: isPeriodic(schedule) ? timesPerPeriod : null,
+        target: target ?? null,
+        unit: target && typeof unit === "string" ? unit.trim() || null : null,
         reminderEnabled: reminderEnabled || false,
         reminderTime: reminderTime || null,
-        userId: session.user.id,
+        userId: access.userId,
+        workspaceId: access.workspaceId,
       },
     });
 
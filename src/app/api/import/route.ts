@@ -0,0 +1,49 @@
+/**
+ * Import API Route
+ *
+ * POST /api/import - Import a zip of Markdown/CSV files (Obsidian vault,
+ * Notion export) or a single .md/.csv file
+ * Body: multipart form data with a `file` field
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { importArchive, IMPORT_MAX_MB } from "@/lib/import";
+
+export async function POST(request: Request) {
+  try {
+    const access = await authorize("edit");
+    if (access instanceof NextResponse) return access;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A file is required" }, { status: 400 });
+    }
+
+    if (!/\.(zip|md|markdown|csv)$/i.test(file.name)) {
+      return NextResponse.json(
+        { error: "Upload a .zip, .md or .csv file" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > IMPORT_MAX_MB * 1024 * 1024) {
+      return NextResponse.json(
+        { error: `File is larger than ${IMPORT_MAX_MB} MB` },
+        { status: 413 }
+      );
+    }
+
+    const summary = await importArchive(file.name, await file.arrayBuffer(), access);
+
+    return NextResponse.json(summary, { status: 201 });
+  } catch (error) {
+    console.error("Error importing data:", error);
+    return NextResponse.json(
+      { error: "Failed to import data. Check that the file is a valid zip." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Invitation API
+ *
+ * GET /api/invitations/[token] - Look up an invitation link: which
+ * workspace, which email and which role
+ * POST /api/invitations/[token] - Accept it as the signed-in user and
+ * switch to the workspace
+ */
+
+import { NextResponse } from "next/server";
+import { authorize, setActiveWorkspace } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { acceptInvitation, findInvitation } from "@/lib/invitations";
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+// GET - Look up an invitation
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+    const invitation = await findInvitation(token);
+
+    const workspace =
+      invitation &&
+      (await db.workspace.findUnique({
+        where: { id: invitation.workspaceId },
+        select: { name: true, icon: true },
+      }));
+
+    if (!invitation || !workspace) {
+      return NextResponse.json({ error: "This invitation is invalid or has expired" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      workspace,
+      email: invitation.email,
+      role: invitation.role,
+      expires: invitation.expires,
+    });
+  } catch (error) {
+    console.error("Error fetching invitation:", error);
+    return NextResponse.json({ error: "Failed to fetch invitation" }, { status: 500 });
+  }
+}
+
+// POST - Accept an invitation
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    const user = await db.user.findUnique({
+      where: { id: access.userId },
+      select: { id: true, email: true },
+    });
+    if (!user?.email) {
+      return NextResponse.json({ error: "Your account has no email address" }, { status: 400 });
+    }
+
+    const result = await acceptInvitation(token, { id: user.id, email: user.email });
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    await setActiveWorkspace(result.workspaceId);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error accepting invitation:", error);
+    return NextResponse.json({ error: "Failed to accept invitation" }, { status: 500 });
+  }
+}
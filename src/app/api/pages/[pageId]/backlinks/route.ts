@@ -5,8 +5,7 @@
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
 
 interface RouteParams {
@@ -15,18 +14,16 @@ interface RouteParams {
 
 export async function GET(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { pageId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("view", { page: pageId });
+    if (access instanceof NextResponse) return access;
 
-    // Verify the target page exists and belongs to user
+    // Verify the target page exists and is in the workspace
     const targetPage = await db.page.findFirst({
       where: {
         id: pageId,
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
+        deletedAt: null,
       },
     });
 
@@ -34,17 +31,12 @@ export async function GET(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: "Page not found" }, { status: 404 });
     }
 
-    // Find all pages that contain a link to this page
-    // Links are stored as /page/[pageId] in the content
-    const linkPattern = `/page/${pageId}`;
-
+    // Look up linking pages in the link index
     const backlinks = await db.page.findMany({
       where: {
-        userId: session.user.id,
-        id: { not: pageId }, // Exclude self
-        content: {
-          contains: linkPattern,
-        },
+        workspaceId: access.workspaceId,
+        deletedAt: null,
+        outgoingLinks: { some: { targetPageId: pageId } },
       },
       select: {
         id: true,
@@ -0,0 +1,56 @@
+/**
+ * Page Collaboration API
+ *
+ * GET /api/pages/[pageId]/collab - Get a token to join the page's shared
+ * document on the collaboration server. Returns { url: null } when
+ * collaborative editing isn't set up, so the editor saves on its own.
+ * Viewers join read-only.
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { COLLAB_URL, createCollabToken } from "@/lib/collab";
+
+interface RouteParams {
+  params: Promise<{ pageId: string }>;
+}
+
+// GET - Issue a collaboration token
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { pageId } = await params;
+    const access = await authorize("view", { page: pageId });
+    if (access instanceof NextResponse) return access;
+
+    const page = await db.page.findFirst({
+      where: { id: pageId, workspaceId: access.workspaceId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!page) {
+      return NextResponse.json({ error: "Page not found" }, { status: 404 });
+    }
+
+    if (!COLLAB_URL) {
+      return NextResponse.json({ url: null });
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: access.userId },
+      select: { name: true, email: true },
+    });
+
+    return NextResponse.json({
+      url: COLLAB_URL,
+      token: createCollabToken(access.userId, pageId),
+      user: {
+        id: access.userId,
+        name: user?.name || user?.email || "Someone",
+      },
+    });
+  } catch (error) {
+    console.error("Error creating collaboration token:", error);
+    return NextResponse.json({ error: "Failed to start collaboration" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Outgoing Links API Route
+ * 
+ * GET /api/pages/[pageId]/links - Get pages this page links to
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+
+interface RouteParams {
+  params: Promise<{ pageId: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { pageId } = await params;
+    const access = await authorize("view", { page: pageId });
+    if (access instanceof NextResponse) return access;
+
+    // Verify the source page exists and is in the workspace
+    const sourcePage = await db.page.findFirst({
+      where: {
+        id: pageId,
+        workspaceId: access.workspaceId,
+        deletedAt: null,
+      },
+    });
+
+    if (!sourcePage) {
+      return NextResponse.json({ error: "Page not found" }, { status: 404 });
+    }
+
+    const links = await db.page.findMany({
+      where: {
+        workspaceId: access.workspaceId,
+        deletedAt: null,
+        incomingLinks: { some: { sourcePageId: pageId } },
+      },
+      select: {
+        id: true,
+        title: true,
+        icon: true,
+        color: true,
+      },
+      orderBy: { title: "asc" },
+    });
+
+    return NextResponse.json(links);
+  } catch (error) {
+    console.error("Error fetching outgoing links:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch outgoing links" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Restore Revision API Route
+ * 
+ * POST /api/pages/[pageId]/revisions/[revisionId]/restore - Roll a page back to a revision
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { restoreRevision } from "@/lib/revisions";
+
+interface RouteParams {
+  params: Promise<{ pageId: string; revisionId: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { pageId, revisionId } = await params;
+    const access = await authorize("edit", { page: pageId });
+    if (access instanceof NextResponse) return access;
+
+    const page = await restoreRevision(pageId, revisionId, access.workspaceId);
+
+    if (!page) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error("Error restoring revision:", error);
+    return NextResponse.json(
+      { error: "Failed to restore revision" },
+      { status: 500 }
+    );
+  }
+}
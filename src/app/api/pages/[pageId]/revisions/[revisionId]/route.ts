@@ -0,0 +1,41 @@
+/**
+ * Single Page Revision API Route
+ * 
+ * GET /api/pages/[pageId]/revisions/[revisionId] - Get a revision with its content
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+
+interface RouteParams {
+  params: Promise<{ pageId: string; revisionId: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { pageId, revisionId } = await params;
+    const access = await authorize("view", { page: pageId });
+    if (access instanceof NextResponse) return access;
+
+    const revision = await db.pageRevision.findFirst({
+      where: {
+        id: revisionId,
+        pageId,
+        page: { workspaceId: access.workspaceId, deletedAt: null },
+      },
+    });
+
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(revision);
+  } catch (error) {
+    console.error("Error fetching revision:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch revision" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Page Revisions API Route
+ * 
+ * GET /api/pages/[pageId]/revisions - List saved revisions of a page (newest first)
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+
+interface RouteParams {
+  params: Promise<{ pageId: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { pageId } = await params;
+    const access = await authorize("view", { page: pageId });
+    if (access instanceof NextResponse) return access;
+
+    // Verify page ownership
+    const page = await db.page.findFirst({
+      where: {
+        id: pageId,
+        workspaceId: access.workspaceId,
+        deletedAt: null,
+      },
+    });
+
+    if (!page) {
+      return NextResponse.json({ error: "Page not found" }, { status: 404 });
+    }
+
+    // Content is left out of the list - fetch a single revision for that
+    const revisions = await db.pageRevision.findMany({
+      where: { pageId },
+      select: {
+        id: true,
+        title: true,
+        kind: true,
+        restoredFromId: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch revisions" },
+      { status: 500 }
+    );
+  }
+}
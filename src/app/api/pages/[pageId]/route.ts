@@ -1,35 +1,63 @@
 /**
  * Single Page API
  * 
- * GET /api/pages/[pageId] - Get a specific page
- * PATCH /api/pages/[pageId] - Update a page
- * DELETE /api/pages/[pageId] - Delete a page
+ * GET /api/pages/[pageId] - Get a specific page, with its database row if it
+ * has one and the pages above it. The ETag header is its version token
+ * PATCH /api/pages/[pageId] - Update a page. A row page's title is written
+ * back to the row, and links to a renamed page get its new title. Moving a
+ * page ({ parentPageId } or { folderId }) takes the pages below it along.
+ * With If-Match, a page changed since returns 409 with { current }
+ * DELETE /api/pages/[pageId] - Move a page to the trash. Row pages can't be
+ * deleted here; delete their row instead
+ *   ?children=delete  Trash the pages below it too (default: move them up a level)
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import { relabelPageLinks, syncPageLinks } from "@/lib/links";
+import { recordRevision } from "@/lib/revisions";
+import { parseColumns } from "@/lib/columns";
+import { withRowTitle } from "@/lib/rowPages";
+import { trashPage } from "@/lib/trash";
+import { getPageAncestors, moveDescendantsToFolder, resolvePagePlacement } from "@/lib/pageTree";
+import { matchesVersion, versionCondition, versionTag } from "@/lib/versions";
 
 interface RouteParams {
   params: Promise<{ pageId: string }>;
 }
 
+// 409 with the page as it is now
+function conflict(current: { updatedAt: Date }) {
+  return NextResponse.json(
+    { error: "This page was changed since you opened it", current },
+    { status: 409, headers: { ETag: versionTag(current.updatedAt) } }
+  );
+}
+
 // GET - Fetch a single page
 export async function GET(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { pageId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("view", { page: pageId });
+    if (access instanceof NextResponse) return access;
 
     const page = await db.page.findFirst({
-      where: { id: pageId, userId: session.user.id },
+      where: { id: pageId, workspaceId: access.workspaceId, deletedAt: null },
       include: {
         folder: { select: { id: true, name: true, icon: true } },
         tags: { select: { id: true, name: true, color: true } },
+        _count: {
+          select: { outgoingLinks: true, incomingLinks: true, childPages: { where: { deletedAt: null } } },
+        },
+        databaseRow: {
+          select: {
+            id: true,
+            data: true,
+            updatedAt: true,
+            database: { select: { id: true, name: true, icon: true, color: true } },
+          },
+        },
       },
     });
 
@@ -37,7 +65,9 @@ export async function GET(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: "Page not found" }, { status: 404 });
     }
 
-    return NextResponse.json(page);
+    const ancestors = await getPageAncestors(page.parentPageId, access.workspaceId);
+
+    return NextResponse.json({ ...page, ancestors }, { headers: { ETag: versionTag(page.updatedAt) } });
   } catch (error) {
     console.error("Error fetching page:", error);
     return NextResponse.json({ error: "Failed to fetch page" }, { status: 500 });
@@ -47,73 +77,150 @@ export async function GET(request: Request, { params }: RouteParams) {
 // PATCH - Update a page
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { pageId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("edit", { page: pageId });
+    if (access instanceof NextResponse) return access;
 
     const updates = await request.json();
 
-    // Make sure page belongs to user
+    // Blank titles are stored as "Untitled", as when a page is created
+    if (updates.title !== undefined && !String(updates.title).trim()) {
+      updates.title = "Untitled";
+    }
+
+    // Make sure page is in the workspace
     const existing = await db.page.findFirst({
-      where: { id: pageId, userId: session.user.id },
+      where: { id: pageId, workspaceId: access.workspaceId, deletedAt: null },
     });
 
     if (!existing) {
       return NextResponse.json({ error: "Page not found" }, { status: 404 });
     }
 
-    // If moving to a new folder, verify it belongs to user
+    // Refuse to overwrite changes the client hasn't seen
+    const ifMatch = request.headers.get("If-Match");
+    if (!matchesVersion(ifMatch, existing.updatedAt)) {
+      return conflict(existing);
+    }
+
+    // If moving to a new folder, verify it is in the workspace
     if (updates.folderId && updates.folderId !== existing.folderId) {
       const folder = await db.folder.findFirst({
-        where: { id: updates.folderId, userId: session.user.id },
+        where: { id: updates.folderId, workspaceId: access.workspaceId, deletedAt: null },
       });
       if (!folder) {
         return NextResponse.json({ error: "Folder not found" }, { status: 404 });
       }
     }
 
-    const page = await db.page.update({
-      where: { id: pageId },
+    // Moving under another page, or to a folder, takes the pages below along
+    let placement: { parentPageId: string | null; folderId: string | null } | undefined;
+    const isMoving =
+      updates.parentPageId !== undefined ||
+      (updates.folderId !== undefined && updates.folderId !== existing.folderId);
+    if (isMoving && !existing.databaseRowId) {
+      const resolved = await resolvePagePlacement(existing, updates, access.workspaceId);
+      if ("error" in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 });
+      }
+      placement = resolved;
+    }
+
+    // Only write over the version just checked; a save that got in
+    // between makes this one a conflict
+    const { count } = await db.page.updateMany({
+      where: { id: pageId, deletedAt: null, ...versionCondition(ifMatch, existing.updatedAt) },
       data: {
         title: updates.title,
         content: updates.content,
         icon: updates.icon,
         color: updates.color,
-        folderId: updates.folderId,
+        // Row pages stay with their database rather than in folders
+        folderId: placement?.folderId,
+        parentPageId: placement?.parentPageId,
         isFavorite: updates.isFavorite,
       },
     });
 
-    return NextResponse.json(page);
+    const page = await db.page.findFirst({
+      where: { id: pageId, workspaceId: access.workspaceId, deletedAt: null },
+    });
+    if (!page) {
+      return NextResponse.json({ error: "Page not found" }, { status: 404 });
+    }
+    if (count === 0) {
+      return conflict(page);
+    }
+
+    // A row page's title lives in the row's title column
+    let rowUpdatedAt: Date | undefined;
+    if (updates.title !== undefined && existing.databaseRowId) {
+      const row = await db.databaseRow.findUnique({
+        where: { id: existing.databaseRowId },
+        include: { database: { select: { columns: true } } },
+      });
+      const data = row && withRowTitle(parseColumns(row.database.columns), JSON.parse(row.data || "{}"), updates.title);
+      if (data) {
+        const updated = await db.databaseRow.update({ where: { id: row.id }, data: { data: JSON.stringify(data) } });
+        rowUpdatedAt = updated.updatedAt;
+      }
+    }
+
+    if (placement && placement.folderId !== existing.folderId) {
+      await moveDescendantsToFolder(pageId, placement.folderId, access.workspaceId);
+    }
+
+    // Keep the link index in step with the saved content
+    if (updates.content !== undefined) {
+      await syncPageLinks(pageId, access.workspaceId, updates.content);
+    }
+
+    // Links to this page show its title and icon
+    if (page.title !== existing.title || page.icon !== existing.icon) {
+      await relabelPageLinks(pageId, existing, page);
+    }
+
+    // Snapshot title/content changes into the page history
+    if (updates.content !== undefined || updates.title !== undefined) {
+      await recordRevision(page, existing);
+    }
+
+    // The row's new version goes back too, so its properties can still be saved
+    return NextResponse.json(
+      { ...page, ...(rowUpdatedAt && { rowUpdatedAt }) },
+      { headers: { ETag: versionTag(page.updatedAt) } }
+    );
   } catch (error) {
     console.error("Error updating page:", error);
     return NextResponse.json({ error: "Failed to update page" }, { status: 500 });
   }
 }
 
-// DELETE - Delete a page
+// DELETE - Move a page to the trash
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { pageId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
+    const access = await authorize("edit", { page: pageId });
+    if (access instanceof NextResponse) return access;
 
-    // Make sure page belongs to user
+    // Make sure page is in the workspace
     const existing = await db.page.findFirst({
-      where: { id: pageId, userId: session.user.id },
+      where: { id: pageId, workspaceId: access.workspaceId, deletedAt: null },
     });
 
     if (!existing) {
       return NextResponse.json({ error: "Page not found" }, { status: 404 });
     }
 
-    await db.page.delete({ where: { id: pageId } });
+    if (existing.databaseRowId) {
+      return NextResponse.json(
+        { error: "This page belongs to a database row. Delete the row instead." },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    await trashPage(existing, access.workspaceId, searchParams.get("children") === "delete");
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -7,8 +7,7 @@
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
 
 interface RouteParams {
@@ -18,17 +17,15 @@ interface RouteParams {
 // GET tags for a page
 export async function GET(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { pageId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("view", { page: pageId });
+    if (access instanceof NextResponse) return access;
 
     const page = await db.page.findFirst({
       where: {
         id: pageId,
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
+        deletedAt: null,
       },
       include: {
         tags: true,
@@ -52,12 +49,9 @@ export async function GET(request: Request, { params }: RouteParams) {
 // POST add tag to page
 export async function POST(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { pageId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("edit", { page: pageId });
+    if (access instanceof NextResponse) return access;
 
     const body = await request.json();
     const { tagId, tagName, tagColor } = body;
@@ -66,7 +60,8 @@ export async function POST(request: Request, { params }: RouteParams) {
     const page = await db.page.findFirst({
       where: {
         id: pageId,
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
+        deletedAt: null,
       },
     });
 
@@ -81,7 +76,7 @@ export async function POST(request: Request, { params }: RouteParams) {
       tag = await db.tag.findFirst({
         where: {
           id: tagId,
-          userId: session.user.id,
+          workspaceId: access.workspaceId,
         },
       });
 
@@ -92,8 +87,8 @@ export async function POST(request: Request, { params }: RouteParams) {
       // Create new tag or find existing
       tag = await db.tag.upsert({
         where: {
-          userId_name: {
-            userId: session.user.id,
+          workspaceId_name: {
+            workspaceId: access.workspaceId,
             name: tagName.trim(),
           },
         },
@@ -101,7 +96,8 @@ export async function POST(request: Request, { params }: RouteParams) {
         create: {
           name: tagName.trim(),
           color: tagColor || "#6b7280",
-          userId: session.user.id,
+          userId: access.userId,
+          workspaceId: access.workspaceId,
         },
       });
     } else {
@@ -134,12 +130,9 @@ export async function POST(request: Request, { params }: RouteParams) {
 // DELETE remove tag from page
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { pageId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("edit", { page: pageId });
+    if (access instanceof NextResponse) return access;
 
     const { searchParams } = new URL(request.url);
     const tagId = searchParams.get("tagId");
@@ -155,7 +148,8 @@ export async function DELETE(request: Request, { params }: RouteParams) {
     const page = await db.page.findFirst({
       where: {
         id: pageId,
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
+        deletedAt: null,
       },
     });
 
@@ -0,0 +1,26 @@
+/**
+ * Link Index Backfill API Route
+ * 
+ * POST /api/pages/links/backfill - Rebuild the link index from every page's content
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { backfillPageLinks } from "@/lib/links";
+
+export async function POST() {
+  try {
+    const access = await authorize("edit");
+    if (access instanceof NextResponse) return access;
+
+    const result = await backfillPageLinks(access.workspaceId);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error backfilling page links:", error);
+    return NextResponse.json(
+      { error: "Failed to backfill page links" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,42 +1,38 @@
 /**
  * Pages API
  * 
- * GET /api/pages - Get all pages for the logged-in user
- * POST /api/pages - Create a new page
+ * GET /api/pages - Get all pages in the active workspace
+ * POST /api/pages - Create a new page. With a parentPageId it goes under that
+ * page, in the same folder
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
 
 // GET - Fetch all pages
 export async function GET(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: "Not authenticated" },
-        { status: 401 }
-      );
-    }
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
 
     // Get query params for filtering
     const { searchParams } = new URL(request.url);
     const folderId = searchParams.get("folderId");
     const favorites = searchParams.get("favorites");
 
-    // Build the where clause
-    const where: Record<string, unknown> = { userId: session.user.id };
+    // Build the where clause. Row pages only show up among favorites.
+    const where: Record<string, unknown> = { workspaceId: access.workspaceId, deletedAt: null };
     if (folderId) where.folderId = folderId;
     if (favorites === "true") where.isFavorite = true;
+    else where.databaseRowId = null;
 
     const pages = await db.page.findMany({
       where,
       orderBy: { updatedAt: "desc" },
       include: {
         folder: { select: { id: true, name: true, icon: true } },
+        _count: { select: { outgoingLinks: true, incomingLinks: true } },
       },
     });
 
@@ -53,21 +49,19 @@ export async function GET(request: Request) {
 // POST - Create a new page
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: "Not authenticated" },
-        { status: 401 }
-      );
-    }
+    const { title, folderId, icon, color, parentPageId } = await request.json();
 
-    const { title, folderId, icon, color } = await request.json();
+    // A new page goes in the workspace of the page or folder it is put in
+    const access = await authorize(
+      "edit",
+      parentPageId ? { page: parentPageId } : folderId ? { folder: folderId } : undefined
+    );
+    if (access instanceof NextResponse) return access;
 
-    // If folderId provided, verify it belongs to user
+    // If folderId provided, verify it is in the workspace
     if (folderId) {
       const folder = await db.folder.findFirst({
-        where: { id: folderId, userId: session.user.id },
+        where: { id: folderId, workspaceId: access.workspaceId, deletedAt: null },
       });
       if (!folder) {
         return NextResponse.json(
@@ -77,13 +71,30 @@ export async function POST(request: Request) {
       }
     }
 
+    // A sub-page lives in its parent's folder
+    let parent: { id: string; folderId: string | null } | null = null;
+    if (parentPageId) {
+      parent = await db.page.findFirst({
+        where: { id: parentPageId, workspaceId: access.workspaceId, deletedAt: null, databaseRowId: null },
+        select: { id: true, folderId: true },
+      });
+      if (!parent) {
+        return NextResponse.json(
+          { error: "Parent page not found" },
+          { status: 404 }
+        );
+      }
+    }
+
     const page = await db.page.create({
       data: {
         title: title || "Untitled",
         icon,
         color,
-        folderId,
-        userId: session.user.id,
+        folderId: parent ? parent.folderId : folderId,
+        parentPageId: parent?.id,
+        userId: access.userId,
+        workspaceId: access.workspaceId,
         content: JSON.stringify({
           type: "doc",
           content: [{ type: "paragraph" }],
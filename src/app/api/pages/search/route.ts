@@ -5,17 +5,13 @@
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
 
 export async function GET(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
 
     const { searchParams } = new URL(request.url);
     const query = searchParams.get("q")?.toLowerCase().trim();
@@ -23,7 +19,8 @@ export async function GET(request: Request) {
 
     const pages = await db.page.findMany({
       where: {
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
+        deletedAt: null,
         ...(excludeId && { id: { not: excludeId } }),
         ...(query && {
           title: { contains: query, mode: "insensitive" },
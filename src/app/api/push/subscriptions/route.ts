@@ -0,0 +1,78 @@
+/**
+ * Push Subscriptions API
+ *
+ * GET /api/push/subscriptions - The key browsers subscribe with
+ * { publicKey } (null when push isn't set up)
+ * POST /api/push/subscriptions - Turn on reminders for this browser
+ * { endpoint, keys: { p256dh, auth } }, as PushSubscription.toJSON() gives
+ * DELETE /api/push/subscriptions - Turn them off { endpoint }
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { getPushPublicKey, isPushEndpoint } from "@/lib/push";
+
+// GET - The public VAPID key
+export async function GET() {
+  const access = await authorize("view");
+  if (access instanceof NextResponse) return access;
+
+  return NextResponse.json({ publicKey: getPushPublicKey() });
+}
+
+// POST - Save this browser's subscription
+export async function POST(request: Request) {
+  try {
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    if (!getPushPublicKey()) {
+      return NextResponse.json({ error: "Push notifications aren't set up on this server" }, { status: 400 });
+    }
+
+    const { endpoint, keys } = await request.json();
+
+    if (typeof endpoint !== "string" || !keys?.p256dh || !keys?.auth) {
+      return NextResponse.json({ error: "A push subscription is required" }, { status: 400 });
+    }
+
+    if (!isPushEndpoint(endpoint)) {
+      return NextResponse.json({ error: "That isn't a browser push service" }, { status: 400 });
+    }
+
+    // A browser belongs to whoever signed in on it last
+    const subscription = await db.pushSubscription.upsert({
+      where: { endpoint },
+      create: { endpoint, p256dh: keys.p256dh, auth: keys.auth, userId: access.userId },
+      update: { p256dh: keys.p256dh, auth: keys.auth, userId: access.userId },
+      select: { id: true, endpoint: true, createdAt: true },
+    });
+
+    return NextResponse.json(subscription, { status: 201 });
+  } catch (error) {
+    console.error("Error saving push subscription:", error);
+    return NextResponse.json({ error: "Failed to save push subscription" }, { status: 500 });
+  }
+}
+
+// DELETE - Forget this browser's subscription
+export async function DELETE(request: Request) {
+  try {
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    const { endpoint } = await request.json();
+
+    if (typeof endpoint !== "string") {
+      return NextResponse.json({ error: "Endpoint is required" }, { status: 400 });
+    }
+
+    await db.pushSubscription.deleteMany({ where: { endpoint, userId: access.userId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing push subscription:", error);
+    return NextResponse.json({ error: "Failed to remove push subscription" }, { status: 500 });
+  }
+}
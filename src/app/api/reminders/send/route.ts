@@ -0,0 +1,30 @@
+/**
+ * Reminder Send API Route
+ * 
+ * GET /api/reminders/send - Send the habit reminders that are due, for
+ * hosts that run scheduled jobs instead of `npm run reminders`. Meant to
+ * be called every minute; requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextResponse } from "next/server";
+import { sendDueReminders } from "@/lib/reminders";
+
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await sendDueReminders();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error sending reminders:", error);
+    return NextResponse.json(
+      { error: "Failed to send reminders" },
+      { status: 500 }
+    );
+  }
+}
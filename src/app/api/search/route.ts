@@ -1,21 +1,18 @@
 /**
  * Search API Route
  * 
- * GET /api/search?q=query - Search across pages, databases, habits, and folders
+ * GET /api/search?q=query - Search across pages (including the pages database
+ * rows open as), databases, habits, and folders
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
 
 export async function GET(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
 
     const { searchParams } = new URL(request.url);
     const query = searchParams.get("q")?.toLowerCase().trim();
@@ -24,14 +21,15 @@ export async function GET(request: Request) {
       return NextResponse.json({ results: [] });
     }
 
-    const userId = session.user.id;
+    const { workspaceId } = access;
 
     // Search all content types in parallel
     const [pages, databases, habits, folders] = await Promise.all([
       // Search pages
       db.page.findMany({
         where: {
-          userId,
+          workspaceId,
+          deletedAt: null,
           OR: [
             { title: { contains: query, mode: "insensitive" } },
             { content: { contains: query, mode: "insensitive" } },
@@ -44,6 +42,7 @@ export async function GET(request: Request) {
           color: true,
           updatedAt: true,
           folder: { select: { name: true, icon: true } },
+          databaseRow: { select: { database: { select: { name: true, icon: true } } } },
         },
         orderBy: { updatedAt: "desc" },
         take: 10,
@@ -52,7 +51,8 @@ export async function GET(request: Request) {
       // Search databases
       db.database.findMany({
         where: {
-          userId,
+          workspaceId,
+          deletedAt: null,
           OR: [
             { name: { contains: query, mode: "insensitive" } },
             { description: { contains: query, mode: "insensitive" } },
@@ -73,7 +73,7 @@ export async function GET(request: Request) {
       // Search habits
       db.habit.findMany({
         where: {
-          userId,
+          workspaceId,
           isArchived: false,
           OR: [
             { name: { contains: query, mode: "insensitive" } },
@@ -93,7 +93,8 @@ export async function GET(request: Request) {
       // Search folders
       db.folder.findMany({
         where: {
-          userId,
+          workspaceId,
+          deletedAt: null,
           name: { contains: query, mode: "insensitive" },
         },
         select: {
@@ -101,7 +102,7 @@ export async function GET(request: Request) {
           name: true,
           icon: true,
           color: true,
-          _count: { select: { pages: true } },
+          _count: { select: { pages: { where: { deletedAt: null } } } },
         },
         orderBy: { order: "asc" },
         take: 5,
@@ -114,7 +115,11 @@ export async function GET(request: Request) {
         id: page.id,
         type: "page" as const,
         title: page.title,
-        subtitle: page.folder ? `${page.folder.icon} ${page.folder.name}` : "No folder",
+        subtitle: page.databaseRow
+          ? `${page.databaseRow.database.icon || "📊"} ${page.databaseRow.database.name}`
+          : page.folder
+            ? `${page.folder.icon} ${page.folder.name}`
+            : "No folder",
         icon: page.icon || "📄",
         color: page.color,
         href: `/page/${page.id}`,
@@ -6,8 +6,7 @@
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
 
 interface RouteParams {
@@ -17,18 +16,15 @@ interface RouteParams {
 // PATCH update a tag
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { tagId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("edit", { tag: tagId });
+    if (access instanceof NextResponse) return access;
 
     // Verify ownership
     const existingTag = await db.tag.findFirst({
       where: {
         id: tagId,
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
       },
     });
 
@@ -43,8 +39,8 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     if (name && name.trim() !== existingTag.name) {
       const conflict = await db.tag.findUnique({
         where: {
-          userId_name: {
-            userId: session.user.id,
+          workspaceId_name: {
+            workspaceId: access.workspaceId,
             name: name.trim(),
           },
         },
@@ -79,18 +75,15 @@ export async function PATCH(request: Request, { params }: RouteParams) {
 // DELETE a tag
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
     const { tagId } = await params;
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("edit", { tag: tagId });
+    if (access instanceof NextResponse) return access;
 
     // Verify ownership
     const existingTag = await db.tag.findFirst({
       where: {
         id: tagId,
-        userId: session.user.id,
+        workspaceId: access.workspaceId,
       },
     });
 
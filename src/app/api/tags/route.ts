@@ -1,28 +1,24 @@
 /**
  * Tags API Routes
  * 
- * GET  /api/tags - Get all tags for the current user
+ * GET  /api/tags - Get all tags in the active workspace
  * POST /api/tags - Create a new tag
  */
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { authorize } from "@/lib/permissions";
 import { db } from "@/lib/db";
 
 // GET all tags
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
 
     const tags = await db.tag.findMany({
-      where: { userId: session.user.id },
+      where: { workspaceId: access.workspaceId },
       include: {
-        _count: { select: { pages: true } },
+        _count: { select: { pages: { where: { deletedAt: null } } } },
       },
       orderBy: { name: "asc" },
     });
@@ -40,11 +36,8 @@ export async function GET() {
 // POST create a new tag
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const access = await authorize("edit");
+    if (access instanceof NextResponse) return access;
 
     const body = await request.json();
     const { name, color } = body;
@@ -59,8 +52,8 @@ export async function POST(request: Request) {
     // Check if tag already exists
     const existing = await db.tag.findUnique({
       where: {
-        userId_name: {
-          userId: session.user.id,
+        workspaceId_name: {
+          workspaceId: access.workspaceId,
           name: name.trim(),
         },
       },
@@ -77,7 +70,8 @@ export async function POST(request: Request) {
       data: {
         name: name.trim(),
         color: color || "#6b7280",
-        userId: session.user.id,
+        userId: access.userId,
+        workspaceId: access.workspaceId,
       },
     });
 
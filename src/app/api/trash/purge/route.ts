@@ -0,0 +1,30 @@
+/**
+ * Trash Purge API Route
+ * 
+ * GET /api/trash/purge - Permanently delete trash older than TRASH_RETENTION_DAYS
+ * in every workspace. `npm run reminders` does this every hour; this is for
+ * hosts that schedule jobs instead. Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextResponse } from "next/server";
+import { purgeExpiredTrash } from "@/lib/trash";
+
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const purged = await purgeExpiredTrash();
+
+    return NextResponse.json({ success: true, purged });
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    return NextResponse.json(
+      { error: "Failed to purge trash" },
+      { status: 500 }
+    );
+  }
+}
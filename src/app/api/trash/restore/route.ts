@@ -0,0 +1,40 @@
+/**
+ * Trash Restore API Route
+ * 
+ * POST /api/trash/restore - Restore a trashed page, folder or database
+ * Body: { type: "page" | "folder" | "database", id: string }
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { restoreFromTrash, TRASH_ITEM_TYPES, TrashItemType } from "@/lib/trash";
+
+export async function POST(request: Request) {
+  try {
+    const access = await authorize("edit");
+    if (access instanceof NextResponse) return access;
+
+    const { type, id } = await request.json();
+
+    if (!id || !TRASH_ITEM_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: "A valid type and id are required" },
+        { status: 400 }
+      );
+    }
+
+    const restored = await restoreFromTrash(type as TrashItemType, id, access.workspaceId);
+
+    if (!restored) {
+      return NextResponse.json({ error: "Item not found in trash" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error restoring from trash:", error);
+    return NextResponse.json(
+      { error: "Failed to restore item" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Trash API Routes
+ * 
+ * GET    /api/trash - List trashed pages, folders and databases
+ * DELETE /api/trash?type=page|folder|database&id=... - Delete one item forever
+ * DELETE /api/trash - Empty the trash
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import {
+  listTrash,
+  deleteFromTrash,
+  emptyTrash,
+  purgeExpiredTrash,
+  TRASH_ITEM_TYPES,
+  TrashItemType,
+} from "@/lib/trash";
+
+// GET trashed items
+export async function GET() {
+  try {
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    // Drop anything past the retention period before listing
+    await purgeExpiredTrash(access.workspaceId);
+
+    const trash = await listTrash(access.workspaceId);
+
+    return NextResponse.json(trash);
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trash" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE one item forever, or empty the whole trash
+export async function DELETE(request: Request) {
+  try {
+    const access = await authorize("edit");
+    if (access instanceof NextResponse) return access;
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get("type");
+    const id = searchParams.get("id");
+
+    if (!type && !id) {
+      const purged = await emptyTrash(access.workspaceId);
+      return NextResponse.json({ success: true, purged });
+    }
+
+    if (!id || !TRASH_ITEM_TYPES.includes(type as TrashItemType)) {
+      return NextResponse.json(
+        { error: "A valid type and id are required" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteFromTrash(type as TrashItemType, id, access.workspaceId);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Item not found in trash" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting from trash:", error);
+    return NextResponse.json(
+      { error: "Failed to delete from trash" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Workspace Invitations API
+ *
+ * GET /api/workspaces/[workspaceId]/invitations - List pending invitations
+ * POST /api/workspaces/[workspaceId]/invitations - Invite someone { email, role }.
+ * The link is emailed when SMTP is set up and returned either way, so it
+ * can be passed on by hand.
+ * DELETE /api/workspaces/[workspaceId]/invitations?email= - Revoke an invitation
+ *
+ * All owners only.
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { isWorkspaceRole } from "@/lib/workspaces";
+import {
+  createInvitation,
+  listInvitations,
+  normalizeEmail,
+  revokeInvitation,
+  sendInvitationEmail,
+} from "@/lib/invitations";
+
+interface RouteParams {
+  params: Promise<{ workspaceId: string }>;
+}
+
+// GET - List pending invitations
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { workspaceId } = await params;
+    const access = await authorize("manage", { workspace: workspaceId });
+    if (access instanceof NextResponse) return access;
+
+    const invitations = await listInvitations(access.workspaceId);
+
+    return NextResponse.json(invitations);
+  } catch (error) {
+    console.error("Error fetching invitations:", error);
+    return NextResponse.json({ error: "Failed to fetch invitations" }, { status: 500 });
+  }
+}
+
+// POST - Invite someone
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { workspaceId } = await params;
+    const access = await authorize("manage", { workspace: workspaceId });
+    if (access instanceof NextResponse) return access;
+
+    const body = await request.json();
+    const email = typeof body.email === "string" ? normalizeEmail(body.email) : "";
+    const role = body.role ?? "editor";
+
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      return NextResponse.json({ error: "A valid email is required" }, { status: 400 });
+    }
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json({ error: "Role must be owner, editor or viewer" }, { status: 400 });
+    }
+
+    const existing = await db.workspaceMember.findFirst({
+      where: { workspaceId: access.workspaceId, user: { email: { equals: email, mode: "insensitive" } } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: "That person is already a member" }, { status: 400 });
+    }
+
+    const [workspace, inviter] = await Promise.all([
+      db.workspace.findUniqueOrThrow({ where: { id: access.workspaceId }, select: { name: true } }),
+      db.user.findUnique({ where: { id: access.userId }, select: { name: true, email: true } }),
+    ]);
+
+    const token = await createInvitation(access.workspaceId, email, role);
+    const url = new URL(`/invite/${token}`, request.url).toString();
+
+    let emailed = false;
+    try {
+      emailed = await sendInvitationEmail(
+        { email, role },
+        workspace.name,
+        inviter?.name || inviter?.email || "Someone",
+        url
+      );
+    } catch (error) {
+      // The invitation still stands; the owner can share the link instead
+      console.error("Error sending invitation email:", error);
+    }
+
+    return NextResponse.json({ invitation: { email, role }, url, emailed }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating invitation:", error);
+    return NextResponse.json({ error: "Failed to create invitation" }, { status: 500 });
+  }
+}
+
+// DELETE - Revoke an invitation
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { workspaceId } = await params;
+    const access = await authorize("manage", { workspace: workspaceId });
+    if (access instanceof NextResponse) return access;
+
+    const email = new URL(request.url).searchParams.get("email");
+    if (!email) {
+      return NextResponse.json({ error: "Email is required" }, { status: 400 });
+    }
+
+    const revoked = await revokeInvitation(access.workspaceId, email);
+    if (!revoked) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    return NextResponse.json({ error: "Failed to revoke invitation" }, { status: 500 });
+  }
+}
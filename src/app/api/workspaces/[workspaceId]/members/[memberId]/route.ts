@@ -0,0 +1,104 @@
+/**
+ * Single Workspace Member API
+ *
+ * PATCH /api/workspaces/[workspaceId]/members/[memberId] - Change a
+ * member's role { role } (owners only)
+ * DELETE /api/workspaces/[workspaceId]/members/[memberId] - Remove a member
+ * (owners only), or leave the workspace when it's your own membership.
+ * A workspace always keeps at least one owner.
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { isWorkspaceRole } from "@/lib/workspaces";
+
+interface RouteParams {
+  params: Promise<{ workspaceId: string; memberId: string }>;
+}
+
+// Whether taking `member` out of the owners would leave none
+async function isLastOwner(member: { workspaceId: string; role: string }) {
+  if (member.role !== "owner") return false;
+  const owners = await db.workspaceMember.count({
+    where: { workspaceId: member.workspaceId, role: "owner" },
+  });
+  return owners <= 1;
+}
+
+// PATCH - Change a member's role
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { workspaceId, memberId } = await params;
+    const access = await authorize("manage", { workspace: workspaceId });
+    if (access instanceof NextResponse) return access;
+
+    const { role } = await request.json();
+
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json({ error: "Role must be owner, editor or viewer" }, { status: 400 });
+    }
+
+    const member = await db.workspaceMember.findFirst({
+      where: { id: memberId, workspaceId: access.workspaceId },
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    if (role !== "owner" && (await isLastOwner(member))) {
+      return NextResponse.json(
+        { error: "A workspace needs at least one owner. Make someone else an owner first." },
+        { status: 400 }
+      );
+    }
+
+    const updated = await db.workspaceMember.update({
+      where: { id: memberId },
+      data: { role },
+      include: { user: { select: { id: true, name: true, email: true } } },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating member:", error);
+    return NextResponse.json({ error: "Failed to update member" }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a member, or leave
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { workspaceId, memberId } = await params;
+    const access = await authorize("view", { workspace: workspaceId });
+    if (access instanceof NextResponse) return access;
+
+    const member = await db.workspaceMember.findFirst({
+      where: { id: memberId, workspaceId: access.workspaceId },
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    // Anyone can leave; only owners can remove others
+    if (member.userId !== access.userId && access.role !== "owner") {
+      return NextResponse.json({ error: "Only workspace owners can do that" }, { status: 403 });
+    }
+
+    if (await isLastOwner(member)) {
+      return NextResponse.json(
+        { error: "A workspace needs at least one owner. Make someone else an owner first." },
+        { status: 400 }
+      );
+    }
+
+    await db.workspaceMember.delete({ where: { id: memberId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing member:", error);
+    return NextResponse.json({ error: "Failed to remove member" }, { status: 500 });
+  }
+}
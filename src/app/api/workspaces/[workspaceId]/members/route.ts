@@ -0,0 +1,38 @@
+/**
+ * Workspace Members API
+ *
+ * GET /api/workspaces/[workspaceId]/members - List a workspace's members
+ * and their roles
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { WORKSPACE_ROLES, WorkspaceRole } from "@/lib/workspaces";
+
+interface RouteParams {
+  params: Promise<{ workspaceId: string }>;
+}
+
+// GET - List members, owners first
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { workspaceId } = await params;
+    const access = await authorize("view", { workspace: workspaceId });
+    if (access instanceof NextResponse) return access;
+
+    const members = await db.workspaceMember.findMany({
+      where: { workspaceId: access.workspaceId },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const rank = (role: string) => WORKSPACE_ROLES.indexOf(role as WorkspaceRole);
+    members.sort((a, b) => rank(a.role) - rank(b.role));
+
+    return NextResponse.json(members);
+  } catch (error) {
+    console.error("Error fetching members:", error);
+    return NextResponse.json({ error: "Failed to fetch members" }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Single Workspace API
+ *
+ * PATCH /api/workspaces/[workspaceId] - Rename a workspace (owners only)
+ * DELETE /api/workspaces/[workspaceId] - Delete a workspace and everything
+ * in it (owners only). Everyone needs at least one workspace, so the last
+ * one the user belongs to can't be deleted.
+ */
+
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/permissions";
+import { db } from "@/lib/db";
+
+interface RouteParams {
+  params: Promise<{ workspaceId: string }>;
+}
+
+// PATCH - Rename a workspace
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { workspaceId } = await params;
+    const access = await authorize("manage", { workspace: workspaceId });
+    if (access instanceof NextResponse) return access;
+
+    const { name, icon } = await request.json();
+
+    if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+      return NextResponse.json({ error: "Workspace name is required" }, { status: 400 });
+    }
+
+    const workspace = await db.workspace.update({
+      where: { id: access.workspaceId },
+      data: {
+        name: name?.trim(),
+        icon,
+      },
+    });
+
+    return NextResponse.json(workspace);
+  } catch (error) {
+    console.error("Error updating workspace:", error);
+    return NextResponse.json({ error: "Failed to update workspace" }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a workspace
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { workspaceId } = await params;
+    const access = await authorize("manage", { workspace: workspaceId });
+    if (access instanceof NextResponse) return access;
+
+    const memberships = await db.workspaceMember.count({ where: { userId: access.userId } });
+    if (memberships <= 1) {
+      return NextResponse.json(
+        { error: "This is your only workspace. Create or join another one before deleting it." },
+        { status: 400 }
+      );
+    }
+
+    await db.workspace.delete({ where: { id: access.workspaceId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting workspace:", error);
+    return NextResponse.json({ error: "Failed to delete workspace" }, { status: 500 });
+  }
+}
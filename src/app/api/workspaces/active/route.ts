@@ -0,0 +1,30 @@
+/**
+ * Active Workspace API
+ *
+ * PUT /api/workspaces/active - Switch to another workspace the user
+ * belongs to { workspaceId }
+ */
+
+import { NextResponse } from "next/server";
+import { authorize, setActiveWorkspace } from "@/lib/permissions";
+
+// PUT - Switch workspace
+export async function PUT(request: Request) {
+  try {
+    const { workspaceId } = await request.json();
+
+    if (typeof workspaceId !== "string") {
+      return NextResponse.json({ error: "Workspace ID is required" }, { status: 400 });
+    }
+
+    const access = await authorize("view", { workspace: workspaceId });
+    if (access instanceof NextResponse) return access;
+
+    await setActiveWorkspace(access.workspaceId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error switching workspace:", error);
+    return NextResponse.json({ error: "Failed to switch workspace" }, { status: 500 });
+  }
+}
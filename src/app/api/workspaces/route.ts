@@ -0,0 +1,49 @@
+/**
+ * Workspaces API
+ *
+ * GET /api/workspaces - List the workspaces the user belongs to, with their
+ * role in each, and which one is active
+ * POST /api/workspaces - Create a workspace owned by the user and switch to it
+ * { name, icon? }
+ */
+
+import { NextResponse } from "next/server";
+import { authorize, setActiveWorkspace } from "@/lib/permissions";
+import { createWorkspace, listWorkspaces } from "@/lib/workspaces";
+
+// GET - List workspaces
+export async function GET() {
+  try {
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    const workspaces = await listWorkspaces(access.userId);
+
+    return NextResponse.json({ workspaces, activeId: access.workspaceId });
+  } catch (error) {
+    console.error("Error fetching workspaces:", error);
+    return NextResponse.json({ error: "Failed to fetch workspaces" }, { status: 500 });
+  }
+}
+
+// POST - Create a workspace
+export async function POST(request: Request) {
+  try {
+    const access = await authorize("view");
+    if (access instanceof NextResponse) return access;
+
+    const { name, icon } = await request.json();
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "Workspace name is required" }, { status: 400 });
+    }
+
+    const workspace = await createWorkspace(access.userId, name.trim(), icon);
+    await setActiveWorkspace(workspace.id);
+
+    return NextResponse.json(workspace, { status: 201 });
+  } catch (error) {
+    console.error("Error creating workspace:", error);
+    return NextResponse.json({ error: "Failed to create workspace" }, { status: 500 });
+  }
+}
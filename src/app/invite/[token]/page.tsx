@@ -0,0 +1,168 @@
+"use client";
+
+/**
+ * Invitation Page
+ *
+ * Where workspace invitation links land. Shows which workspace the link
+ * is for and lets the signed-in user join it. Anyone signed out is sent
+ * to sign in or sign up first, and comes back here afterwards.
+ */
+
+import { useState, useEffect, use } from "react";
+import { useSession, signOut } from "next-auth/react";
+import Link from "next/link";
+import { Leaf, ArrowRight } from "lucide-react";
+
+interface InvitationInfo {
+  workspace: { name: string; icon: string };
+  email: string;
+  role: "owner" | "editor" | "viewer";
+}
+
+const ROLE_DESCRIPTIONS = {
+  owner: "an owner, able to manage members and settings",
+  editor: "an editor, able to add and change content",
+  viewer: "a viewer, able to read everything",
+};
+
+export default function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const { data: session, status } = useSession();
+  const [invitation, setInvitation] = useState<InvitationInfo | null>(null);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const res = await fetch(`/api/invitations/${token}`);
+        const data = await res.json();
+        if (res.ok) {
+          setInvitation(data);
+        } else {
+          setError(data.error || "This invitation is invalid or has expired");
+        }
+      } catch {
+        setError("Something went wrong. Please try again.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchInvitation();
+  }, [token]);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/invitations/${token}`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to accept invitation");
+        return;
+      }
+      // A full load, so the sidebar picks up the new workspace
+      window.location.href = "/dashboard";
+    } catch {
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const callbackUrl = encodeURIComponent(`/invite/${token}`);
+  const wrongAccount =
+    invitation && session?.user?.email && session.user.email.toLowerCase() !== invitation.email;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8 bg-[var(--background)]">
+      <div className="w-full max-w-md animate-fade-in">
+        <div className="flex items-center justify-center gap-2 mb-8">
+          <Leaf className="w-8 h-8 text-garden-500" />
+          <span className="font-display text-2xl font-bold">Mind Garden</span>
+        </div>
+
+        <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-8 text-center">
+          {isLoading || status === "loading" ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-garden-500" />
+            </div>
+          ) : !invitation ? (
+            <>
+              <h1 className="text-2xl font-display font-bold mb-2">Invitation not found</h1>
+              <p className="text-[var(--muted)] mb-6">{error}</p>
+              <Link href="/dashboard" className="text-garden-600 hover:text-garden-700 font-medium">
+                Go to Mind Garden
+              </Link>
+            </>
+          ) : (
+            <>
+              <div className="text-5xl mb-4">{invitation.workspace.icon}</div>
+              <h1 className="text-2xl font-display font-bold mb-2">
+                Join {invitation.workspace.name}
+              </h1>
+              <p className="text-[var(--muted)] mb-6">
+                You&apos;ve been invited as {ROLE_DESCRIPTIONS[invitation.role]}.
+              </p>
+
+              {error && (
+                <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-600 dark:text-red-400 text-sm">
+                  {error}
+                </div>
+              )}
+
+              {!session ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-[var(--muted)]">
+                    Sign in or create an account with <strong>{invitation.email}</strong> to accept.
+                  </p>
+                  <Link
+                    href={`/login?callbackUrl=${callbackUrl}`}
+                    className="w-full flex items-center justify-center gap-2 py-3 bg-garden-600 hover:bg-garden-700 text-white font-medium rounded-xl transition-all"
+                  >
+                    Sign in
+                  </Link>
+                  <Link
+                    href={`/signup?callbackUrl=${callbackUrl}`}
+                    className="w-full flex items-center justify-center gap-2 py-3 border border-[var(--border)] hover:bg-[var(--card-hover)] font-medium rounded-xl transition-all"
+                  >
+                    Create an account
+                  </Link>
+                </div>
+              ) : wrongAccount ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-[var(--muted)]">
+                    This invitation is for <strong>{invitation.email}</strong>, but you&apos;re signed in as{" "}
+                    <strong>{session.user?.email}</strong>.
+                  </p>
+                  <button
+                    onClick={() => signOut({ callbackUrl: `/login?callbackUrl=${callbackUrl}` })}
+                    className="w-full py-3 border border-[var(--border)] hover:bg-[var(--card-hover)] font-medium rounded-xl transition-all"
+                  >
+                    Sign in with another account
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={handleAccept}
+                  disabled={isAccepting}
+                  className="w-full flex items-center justify-center gap-2 py-3 bg-garden-600 hover:bg-garden-700 text-white font-medium rounded-xl transition-all disabled:opacity-50 group"
+                >
+                  {isAccepting ? (
+                    <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  ) : (
+                    <>
+                      Accept invitation
+                      <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+                    </>
+                  )}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+"use client";
+
+/**
+ * CSV Import Modal Component
+ *
+ * Imports a CSV file into a new database, or appends it to an existing
+ * one. After picking a file, each CSV column gets a row in the mapping
+ * preview: for a new database its name and guessed type, for an existing
+ * one the column it fills. Checking runs the import as a dry run and
+ * lists the lines that would be skipped, before anything is written.
+ */
+
+import { useState } from "react";
+import { Upload, Loader2, AlertTriangle, Check } from "lucide-react";
+import { COLUMN_TYPES, Column, ColumnType, isComputedColumn } from "@/lib/columns";
+import { CSV_COLUMN_TYPES, inferColumns, matchColumns, parseCSVRecords } from "@/lib/csv";
+import type { CSVImportResult } from "@/lib/databaseImport";
+
+interface CSVImportModalProps {
+  database?: { id: string; columns: Column[] }; // Append to this database instead of creating one
+  onClose: () => void;
+  onImported: (result: CSVImportResult) => void;
+}
+
+interface NewField {
+  include: boolean;
+  name: string;
+  type: ColumnType;
+}
+
+// How many errors to list before summing up the rest
+const MAX_ERRORS_SHOWN = 50;
+
+const inputClass =
+  "w-full px-2 py-1 text-sm bg-[var(--background)] border border-[var(--border)] rounded-md focus:outline-none focus:ring-2 focus:ring-garden-500";
+
+export function CSVImportModal({ database, onClose, onImported }: CSVImportModalProps) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [header, setHeader] = useState<string[]>([]);
+  const [samples, setSamples] = useState<string[][]>([]);
+  const [lineCount, setLineCount] = useState(0);
+  const [name, setName] = useState("");
+  const [fields, setFields] = useState<NewField[]>([]);
+  const [mapping, setMapping] = useState<Array<string | null>>([]);
+  const [report, setReport] = useState<CSVImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetColumns = database?.columns.filter((c) => !isComputedColumn(c)) ?? [];
+
+  // Read the file and guess a mapping for it
+  const handleFile = async (file: File) => {
+    setError(null);
+    setReport(null);
+    const text = await file.text();
+    const [head, ...records] = parseCSVRecords(text);
+    if (!head) {
+      setError("The CSV file is empty");
+      return;
+    }
+
+    setCsv(text);
+    setHeader(head.cells);
+    setSamples(records.slice(0, 3).map((r) => r.cells));
+    setLineCount(records.length);
+    if (database) {
+      setMapping(matchColumns(head.cells, database.columns));
+    } else {
+      setName(file.name.replace(/\.csv$/i, ""));
+      setFields(
+        inferColumns(head.cells, records.map((r) => r.cells)).map((c) => ({
+          include: true,
+          name: c.name,
+          type: c.type,
+        }))
+      );
+    }
+  };
+
+  // Any change to the mapping means the last check no longer applies
+  const updateField = (index: number, updates: Partial<NewField>) => {
+    setFields((prev) => prev.map((f, i) => (i === index ? { ...f, ...updates } : f)));
+    setReport(null);
+  };
+
+  const updateMapping = (index: number, columnId: string | null) => {
+    setMapping((prev) => prev.map((id, i) => (i === index ? columnId : id)));
+    setReport(null);
+  };
+
+  // Check the file (dry run) or import it
+  const run = async (dryRun: boolean) => {
+    if (csv === null) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const res = await fetch(database ? `/api/databases/${database.id}/import` : "/api/databases/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          database
+            ? { csv, mapping, dryRun }
+            : { csv, name, columns: fields.map((f) => (f.include ? { name: f.name, type: f.type } : null)), dryRun }
+        ),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to import CSV");
+      } else if (dryRun) {
+        setReport(data);
+      } else {
+        onImported(data);
+      }
+    } catch (error) {
+      console.error("Failed to import CSV:", error);
+      setError("Failed to import CSV");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-[var(--card)] border border-[var(--border)] rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="font-semibold mb-1">Import CSV</h3>
+        <p className="text-sm text-[var(--muted)] mb-4">
+          {database
+            ? "Add the file's lines as rows. Match each CSV column to a column here."
+            : "Create a database from the file. The first line names the columns."}
+        </p>
+
+        <label className="flex items-center justify-center gap-2 px-4 py-3 mb-4 border border-dashed border-[var(--border)] rounded-lg text-sm text-[var(--muted)] hover:bg-[var(--card-hover)] cursor-pointer transition-colors">
+          <Upload className="w-4 h-4" />
+          {csv === null ? "Choose a .csv file" : `${lineCount} lines · choose another file`}
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+
+        {csv !== null && (
+          <div className="space-y-4">
+            {!database && (
+              <div>
+                <label className="block text-sm font-medium mb-1">Database name</label>
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+              </div>
+            )}
+
+            {/* Mapping preview */}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[var(--muted)]">
+                  <th className="pb-2 font-medium">CSV column</th>
+                  <th className="pb-2 font-medium">{database ? "Goes into" : "Import as"}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {header.map((heading, index) => (
+                  <tr key={index} className="border-t border-[var(--border)] align-top">
+                    <td className="py-2 pr-3 w-1/2">
+                      <p className="font-medium truncate">{heading || `Column ${index + 1}`}</p>
+                      <p className="text-xs text-[var(--muted)] truncate">
+                        {samples
+                          .map((row) => row[index] ?? "")
+                          .filter(Boolean)
+                          .join(" · ") || "No values"}
+                      </p>
+                    </td>
+                    <td className="py-2">
+                      {database ? (
+                        <select
+                          value={mapping[index] ?? ""}
+                          onChange={(e) => updateMapping(index, e.target.value || null)}
+                          className={inputClass}
+                        >
+                          <option value="">Skip</option>
+                          {targetColumns.map((column) => (
+                            <option
+                              key={column.id}
+                              value={column.id}
+                              disabled={mapping.includes(column.id) && mapping[index] !== column.id}
+                            >
+                              {column.name}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={fields[index]?.include ?? false}
+                            onChange={(e) => updateField(index, { include: e.target.checked })}
+                            title="Import this column"
+                          />
+                          <input
+                            type="text"
+                            value={fields[index]?.name ?? ""}
+                            onChange={(e) => updateField(index, { name: e.target.value })}
+                            disabled={!fields[index]?.include}
+                            className={`${inputClass} disabled:opacity-50`}
+                          />
+                          <select
+                            value={fields[index]?.type ?? "text"}
+                            onChange={(e) => updateField(index, { type: e.target.value as ColumnType })}
+                            disabled={!fields[index]?.include}
+                            className={`${inputClass} w-36 disabled:opacity-50`}
+                          >
+                            {COLUMN_TYPES.filter((t) => CSV_COLUMN_TYPES.includes(t.type)).map((t) => (
+                              <option key={t.type} value={t.type}>
+                                {t.label}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {/* Dry run report */}
+            {report && (
+              <div className="p-3 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm space-y-2">
+                <p className="flex items-center gap-2">
+                  <Check className="w-4 h-4 text-garden-500" />
+                  {report.imported} of {report.imported + report.errors.length} lines are ready to import
+                </p>
+                {report.errors.length > 0 && (
+                  <>
+                    <p className="flex items-center gap-2 text-amber-600">
+                      <AlertTriangle className="w-4 h-4" />
+                      {report.errors.length} {report.errors.length === 1 ? "line" : "lines"} will be skipped
+                    </p>
+                    <ul className="max-h-40 overflow-y-auto text-xs space-y-1">
+                      {report.errors.slice(0, MAX_ERRORS_SHOWN).map((e) => (
+                        <li key={e.line}>
+                          <span className="text-[var(--muted)]">Line {e.line}:</span> {e.message}
+                        </li>
+                      ))}
+                      {report.errors.length > MAX_ERRORS_SHOWN && (
+                        <li className="text-[var(--muted)]">
+                          and {report.errors.length - MAX_ERRORS_SHOWN} more
+                        </li>
+                      )}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500 mt-4">{error}</p>}
+
+        <div className="flex gap-2 pt-4">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-[var(--border)] rounded-lg hover:bg-[var(--card-hover)] transition-colors"
+          >
+            Cancel
+          </button>
+          {report ? (
+            <button
+              onClick={() => run(false)}
+              disabled={isWorking || report.imported === 0}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-garden-600 hover:bg-garden-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+              Import {report.imported} {report.imported === 1 ? "row" : "rows"}
+            </button>
+          ) : (
+            <button
+              onClick={() => run(true)}
+              disabled={isWorking || csv === null}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-garden-600 hover:bg-garden-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+              Check file
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+"use client";
+
+/**
+ * Column Editor Component
+ *
+ * Modal for adding a column or changing an existing one: name, type,
+ * and the settings some types need (select options, what a relation
+ * points at, what a rollup calculates, a formula's expression).
+ */
+
+import { useState, useEffect } from "react";
+import {
+  Column,
+  ColumnType,
+  RollupAggregate,
+  COLUMN_TYPES,
+  ROLLUP_AGGREGATES,
+  isComputedColumn,
+  parseColumns,
+  validateColumns,
+} from "@/lib/columns";
+import { FORMULA_FUNCTIONS } from "@/lib/formula";
+
+interface DatabaseOption {
+  id: string;
+  name: string;
+  icon: string | null;
+  columns: string;
+}
+
+interface ColumnEditorProps {
+  column?: Column; // Set when editing an existing column
+  columns: Column[];
+  onSave: (column: Column) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg focus:outline-none focus:ring-2 focus:ring-garden-500";
+
+export function ColumnEditor({ column, columns, onSave, onClose }: ColumnEditorProps) {
+  const [name, setName] = useState(column?.name ?? "");
+  const [type, setType] = useState<ColumnType>(column?.type ?? "text");
+  const [optionsText, setOptionsText] = useState(
+    (column?.options ?? ["Option 1", "Option 2", "Option 3"]).join("\n")
+  );
+  const [relationTarget, setRelationTarget] = useState(column?.relation?.target ?? "database");
+  const [relationDatabaseId, setRelationDatabaseId] = useState(column?.relation?.databaseId ?? "");
+  const [rollupRelationId, setRollupRelationId] = useState(column?.rollup?.relationColumnId ?? "");
+  const [rollupTargetId, setRollupTargetId] = useState(column?.rollup?.targetColumnId ?? "");
+  const [rollupAggregate, setRollupAggregate] = useState<RollupAggregate>(
+    column?.rollup?.aggregate ?? "count"
+  );
+  const [formula, setFormula] = useState(column?.formula ?? "");
+  const [showFunctions, setShowFunctions] = useState(false);
+  const [databases, setDatabases] = useState<DatabaseOption[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const needsDatabases = type === "relation" || type === "rollup";
+
+  // Load databases when a relation or rollup needs them
+  useEffect(() => {
+    if (!needsDatabases || databases.length > 0) return;
+    fetch("/api/databases")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setDatabases)
+      .catch((error) => console.error("Failed to fetch databases:", error));
+  }, [needsDatabases, databases.length]);
+
+  const relationColumns = columns.filter((c) => c.type === "relation" && c.id !== column?.id);
+  const rollupRelation = relationColumns.find((c) => c.id === rollupRelationId);
+  const rollupDatabase = databases.find((d) => d.id === rollupRelation?.relation?.databaseId);
+  const rollupTargetColumns = rollupDatabase
+    ? parseColumns(rollupDatabase.columns).filter((c) => c.type !== "rollup")
+    : [];
+
+  // Build the column from the form
+  const buildColumn = (): Column => {
+    const built: Column = {
+      id: column?.id ?? `col_${Date.now()}`,
+      name: name.trim(),
+      type,
+    };
+
+    if (type === "select" || type === "multiSelect") {
+      built.options = Array.from(
+        new Set(optionsText.split("\n").map((o) => o.trim()).filter(Boolean))
+      );
+    }
+    if (type === "relation") {
+      built.relation =
+        relationTarget === "page"
+          ? { target: "page" }
+          : { target: "database", databaseId: relationDatabaseId || undefined };
+    }
+    if (type === "rollup") {
+      built.rollup = {
+        relationColumnId: rollupRelationId,
+        targetColumnId: rollupAggregate === "count" ? undefined : rollupTargetId || undefined,
+        aggregate: rollupAggregate,
+      };
+    }
+    if (type === "formula") {
+      built.formula = formula.trim();
+    }
+
+    return built;
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+
+    const built = buildColumn();
+    const others = columns.filter((c) => c.id !== built.id);
+    const validationError = validateColumns([...others, built]);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onSave(built);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-[var(--card)] border border-[var(--border)] rounded-xl p-6 w-full max-w-sm animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="font-semibold mb-4">{column ? "Edit Column" : "Add Column"}</h3>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Column name"
+              className={inputClass}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Type</label>
+            <select
+              value={type}
+              onChange={(e) => {
+                setType(e.target.value as ColumnType);
+                setError(null);
+              }}
+              className={inputClass}
+            >
+              {COLUMN_TYPES.map((option) => (
+                <option key={option.type} value={option.type}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {column && column.type !== type && (
+              <p className="text-xs text-[var(--muted)] mt-1">
+                Existing values will be converted. Values that don&apos;t fit the new type are cleared.
+              </p>
+            )}
+          </div>
+
+          {/* Select options */}
+          {(type === "select" || type === "multiSelect") && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Options</label>
+              <textarea
+                value={optionsText}
+                onChange={(e) => setOptionsText(e.target.value)}
+                rows={4}
+                placeholder="One option per line"
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {/* Relation target */}
+          {type === "relation" && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Links to</label>
+              <select
+                value={relationTarget === "page" ? "page" : relationDatabaseId}
+                onChange={(e) => {
+                  if (e.target.value === "page") {
+                    setRelationTarget("page");
+                  } else {
+                    setRelationTarget("database");
+                    setRelationDatabaseId(e.target.value);
+                  }
+                }}
+                className={inputClass}
+              >
+                <option value="">Choose a database...</option>
+                <option value="page">Pages</option>
+                {databases.map((database) => (
+                  <option key={database.id} value={database.id}>
+                    {database.icon || "📊"} {database.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Rollup settings */}
+          {type === "rollup" && (
+            <>
+              <div>
+                <label className="block text-sm font-medium mb-1">Relation</label>
+                <select
+                  value={rollupRelationId}
+                  onChange={(e) => {
+                    setRollupRelationId(e.target.value);
+                    setRollupTargetId("");
+                  }}
+                  className={inputClass}
+                >
+                  <option value="">Choose a relation...</option>
+                  {relationColumns.map((relation) => (
+                    <option key={relation.id} value={relation.id}>
+                      {relation.name}
+                    </option>
+                  ))}
+                </select>
+                {relationColumns.length === 0 && (
+                  <p className="text-xs text-[var(--muted)] mt-1">Add a relation column first.</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Calculate</label>
+                <select
+                  value={rollupAggregate}
+                  onChange={(e) => setRollupAggregate(e.target.value as RollupAggregate)}
+                  className={inputClass}
+                >
+                  {ROLLUP_AGGREGATES.filter(
+                    (option) => option.aggregate === "count" || rollupRelation?.relation?.target !== "page"
+                  ).map((option) => (
+                    <option key={option.aggregate} value={option.aggregate}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {rollupAggregate !== "count" && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Property</label>
+                  <select
+                    value={rollupTargetId}
+                    onChange={(e) => setRollupTargetId(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Choose a property...</option>
+                    {rollupTargetColumns.map((target) => (
+                      <option key={target.id} value={target.id}>
+                        {target.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Formula */}
+          {type === "formula" && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Formula</label>
+              <textarea
+                value={formula}
+                onChange={(e) => {
+                  setFormula(e.target.value);
+                  setError(null);
+                }}
+                rows={3}
+                placeholder='prop("Price") * prop("Qty")'
+                className={`${inputClass} font-mono text-sm`}
+              />
+              <div className="flex flex-wrap gap-1 mt-2">
+                {columns
+                  .filter((c) => c.id !== column?.id)
+                  .map((c) => (
+                    <button
+                      key={c.id}
+                      onClick={() => setFormula((f) => `${f}prop(${JSON.stringify(c.name)})`)}
+                      className={`px-2 py-0.5 rounded text-xs border border-[var(--border)] hover:bg-[var(--card-hover)] ${
+                        isComputedColumn(c) ? "italic" : ""
+                      }`}
+                    >
+                      {c.name}
+                    </button>
+                  ))}
+              </div>
+              <button
+                onClick={() => setShowFunctions(!showFunctions)}
+                className="text-xs text-garden-600 hover:underline mt-2"
+              >
+                {showFunctions ? "Hide functions" : "Show functions"}
+              </button>
+              {showFunctions && (
+                <ul className="mt-2 max-h-40 overflow-y-auto text-xs space-y-1">
+                  <li className="text-[var(--muted)]">
+                    Operators: + - * / % ^, == != &lt; &lt;= &gt; &gt;=, and, or, not
+                  </li>
+                  {Object.entries(FORMULA_FUNCTIONS).map(([name, fn]) => (
+                    <li key={name}>
+                      <code>{fn.signature}</code>{" "}
+                      <span className="text-[var(--muted)]">{fn.description}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="flex gap-2 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-[var(--border)] rounded-lg hover:bg-[var(--card-hover)] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-garden-600 hover:bg-garden-700 text-white rounded-lg transition-colors"
+            >
+              {column ? "Save" : "Add"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+/**
+ * Database Board Component
+ *
+ * A Kanban board with one lane per option of a select column, plus a lane
+ * for rows without a value. Dragging a card to another lane sets the
+ * row's value to that option.
+ */
+
+import { useState, useMemo } from "react";
+import { Plus } from "lucide-react";
+import { Column, RelationTarget, computeRowValues } from "@/lib/columns";
+import { RowCard, relationTitles } from "./RowCard";
+import type { Row } from "./DatabaseTable";
+
+interface DatabaseBoardProps {
+  columns: Column[];
+  properties: Column[]; // Columns the view shows on cards
+  rows: Row[];
+  groupBy: Column | undefined;
+  onAddRow: (data: Record<string, unknown>) => void;
+  onOpenRow?: (rowId: string) => void;
+  onUpdateRow: (rowId: string, data: Record<string, unknown>) => void;
+  relationTargets?: Record<string, RelationTarget[]>;
+  color?: string | null;
+}
+
+const NO_VALUE = "";
+
+export function DatabaseBoard({
+  columns,
+  properties,
+  rows,
+  groupBy,
+  onAddRow,
+  onOpenRow,
+  onUpdateRow,
+  relationTargets = {},
+  color,
+}: DatabaseBoardProps) {
+  const [dragOver, setDragOver] = useState<string | null>(null);
+
+  const computedRows = useMemo(
+    () => new Map(rows.map((row) => [row.id, computeRowValues(columns, row.data, relationTargets)])),
+    [columns, rows, relationTargets]
+  );
+  const titles = useMemo(() => relationTitles(relationTargets), [relationTargets]);
+
+  // Rows in each lane, keeping the view's sort order
+  const lanes = useMemo(() => {
+    if (!groupBy) return [];
+    const options = groupBy.options || [];
+    const grouped = new Map<string, Row[]>([NO_VALUE, ...options].map((option) => [option, []]));
+    for (const row of rows) {
+      const value = row.data[groupBy.id];
+      const lane = typeof value === "string" && grouped.has(value) ? value : NO_VALUE;
+      grouped.get(lane)!.push(row);
+    }
+    return [...options, NO_VALUE]
+      .map((option) => ({ option, rows: grouped.get(option)! }))
+      .filter((lane) => lane.option !== NO_VALUE || lane.rows.length > 0);
+  }, [groupBy, rows]);
+
+  if (!groupBy) {
+    return (
+      <div className="p-8 text-center text-sm text-[var(--muted)]">
+        Boards group cards by a select column. Add one, then pick it in the view settings.
+      </div>
+    );
+  }
+
+  const moveCard = (rowId: string, option: string) => {
+    const row = rows.find((r) => r.id === rowId);
+    if (!row || (row.data[groupBy.id] ?? NO_VALUE) === option) return;
+    onUpdateRow(rowId, { ...row.data, [groupBy.id]: option });
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto p-4">
+      {lanes.map((lane) => (
+        <div
+          key={lane.option}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOver(lane.option);
+          }}
+          onDragLeave={() => setDragOver(null)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragOver(null);
+            moveCard(e.dataTransfer.getData("text/plain"), lane.option);
+          }}
+          className={`w-64 shrink-0 rounded-xl p-2 transition-colors ${
+            dragOver === lane.option ? "bg-garden-500/10" : "bg-[var(--background)]"
+          }`}
+        >
+          <div className="flex items-center justify-between px-1 mb-2 text-sm">
+            <span className="font-medium">{lane.option || `No ${groupBy.name}`}</span>
+            <span className="text-[var(--muted)]">{lane.rows.length}</span>
+          </div>
+
+          <div className="space-y-2">
+            {lane.rows.map((row) => (
+              <RowCard
+                key={row.id}
+                columns={columns}
+                properties={properties.filter((c) => c.id !== groupBy.id)}
+                data={row.data}
+                values={computedRows.get(row.id)?.values ?? {}}
+                titles={titles}
+                color={color}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData("text/plain", row.id);
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                onClick={onOpenRow && (() => onOpenRow(row.id))}
+              />
+            ))}
+          </div>
+
+          <button
+            onClick={() => onAddRow({ [groupBy.id]: lane.option })}
+            className="w-full flex items-center gap-1 px-2 py-1.5 mt-2 text-sm text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-hover)] rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
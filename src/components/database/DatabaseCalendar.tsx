@@ -0,0 +1,160 @@
+"use client";
+
+/**
+ * Database Calendar Component
+ *
+ * A month calendar with each row placed on the day in its date column.
+ * Rows are fetched a month at a time, so the page passes in only the
+ * rows for the month shown.
+ */
+
+import { useMemo } from "react";
+import { ChevronLeft, ChevronRight, Plus } from "lucide-react";
+import { Column, RelationTarget, computeRowValues, toISODate } from "@/lib/columns";
+import { localISODate } from "@/lib/views";
+import { RowCard, relationTitles } from "./RowCard";
+import type { Row } from "./DatabaseTable";
+
+interface DatabaseCalendarProps {
+  columns: Column[];
+  properties: Column[];
+  rows: Row[];
+  dateColumn: Column | undefined;
+  currentMonth: Date;
+  onPrevMonth: () => void;
+  onNextMonth: () => void;
+  onAddRow: (data: Record<string, unknown>) => void;
+  onOpenRow?: (rowId: string) => void;
+  relationTargets?: Record<string, RelationTarget[]>;
+  color?: string | null;
+}
+
+const WEEK_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function DatabaseCalendar({
+  columns,
+  properties,
+  rows,
+  dateColumn,
+  currentMonth,
+  onPrevMonth,
+  onNextMonth,
+  onAddRow,
+  onOpenRow,
+  relationTargets = {},
+  color,
+}: DatabaseCalendarProps) {
+  const computedRows = useMemo(
+    () => new Map(rows.map((row) => [row.id, computeRowValues(columns, row.data, relationTargets)])),
+    [columns, rows, relationTargets]
+  );
+  const titles = useMemo(() => relationTitles(relationTargets), [relationTargets]);
+
+  const days = useMemo(() => {
+    const firstDay = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
+    const lastDay = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
+    const daysArray: (Date | null)[] = Array(firstDay.getDay()).fill(null);
+    for (let d = 1; d <= lastDay.getDate(); d++) {
+      daysArray.push(new Date(currentMonth.getFullYear(), currentMonth.getMonth(), d));
+    }
+    return daysArray;
+  }, [currentMonth]);
+
+  // Rows by the day they fall on
+  const rowsByDay = useMemo(() => {
+    const map = new Map<string, Row[]>();
+    if (!dateColumn) return map;
+    for (const row of rows) {
+      const value = computedRows.get(row.id)?.values[dateColumn.id];
+      const day = typeof value === "string" ? toISODate(value) : null;
+      if (!day) continue;
+      map.set(day, [...(map.get(day) || []), row]);
+    }
+    return map;
+  }, [dateColumn, rows, computedRows]);
+
+  if (!dateColumn) {
+    return (
+      <div className="p-8 text-center text-sm text-[var(--muted)]">
+        Calendars place rows on a date column. Add one, then pick it in the view settings.
+      </div>
+    );
+  }
+
+  const today = localISODate(new Date());
+
+  return (
+    <div>
+      {/* Month navigation */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border)]">
+        <button onClick={onPrevMonth} className="p-1 rounded hover:bg-[var(--card-hover)] transition-colors">
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className="font-medium">
+          {currentMonth.toLocaleDateString("en-US", { month: "long", year: "numeric" })}
+        </span>
+        <button onClick={onNextMonth} className="p-1 rounded hover:bg-[var(--card-hover)] transition-colors">
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7">
+        {WEEK_DAYS.map((day) => (
+          <div key={day} className="py-2 text-center text-xs text-[var(--muted)] font-medium border-b border-[var(--border)]">
+            {day}
+          </div>
+        ))}
+
+        {days.map((date, index) => {
+          const day = date ? localISODate(date) : null;
+          return (
+            <div
+              key={index}
+              className={`group min-h-[110px] p-1 border-b border-r border-[var(--border)] ${
+                date ? "" : "bg-[var(--background)]"
+              }`}
+            >
+              {date && day && (
+                <>
+                  <div className="flex items-center justify-between mb-1">
+                    <span
+                      className={`text-xs w-6 h-6 flex items-center justify-center rounded-full ${
+                        day === today ? "bg-garden-600 text-white" : "text-[var(--muted)]"
+                      }`}
+                    >
+                      {date.getDate()}
+                    </span>
+                    {dateColumn.type === "date" && (
+                      <button
+                        onClick={() => onAddRow({ [dateColumn.id]: day })}
+                        className="p-0.5 rounded opacity-0 group-hover:opacity-100 text-[var(--muted)] hover:bg-[var(--card-hover)] transition-opacity"
+                        title="Add a row on this day"
+                      >
+                        <Plus className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    {(rowsByDay.get(day) || []).map((row) => (
+                      <RowCard
+                        key={row.id}
+                        columns={columns}
+                        properties={properties}
+                        data={row.data}
+                        values={computedRows.get(row.id)?.values ?? {}}
+                        titles={titles}
+                        color={color}
+                        compact
+                        onClick={onOpenRow && (() => onOpenRow(row.id))}
+                      />
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+/**
+ * Database Gallery Component
+ *
+ * Rows as a grid of cards showing the view's visible properties.
+ */
+
+import { useMemo } from "react";
+import { Plus } from "lucide-react";
+import { Column, RelationTarget, computeRowValues } from "@/lib/columns";
+import { RowCard, relationTitles } from "./RowCard";
+import type { Row } from "./DatabaseTable";
+
+interface DatabaseGalleryProps {
+  columns: Column[];
+  properties: Column[];
+  rows: Row[];
+  onAddRow: (data: Record<string, unknown>) => void;
+  onOpenRow?: (rowId: string) => void;
+  relationTargets?: Record<string, RelationTarget[]>;
+  color?: string | null;
+}
+
+export function DatabaseGallery({
+  columns,
+  properties,
+  rows,
+  onAddRow,
+  onOpenRow,
+  relationTargets = {},
+  color,
+}: DatabaseGalleryProps) {
+  const computedRows = useMemo(
+    () => new Map(rows.map((row) => [row.id, computeRowValues(columns, row.data, relationTargets)])),
+    [columns, rows, relationTargets]
+  );
+  const titles = useMemo(() => relationTitles(relationTargets), [relationTargets]);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 p-4">
+      {rows.map((row) => (
+        <RowCard
+          key={row.id}
+          columns={columns}
+          properties={properties}
+          data={row.data}
+          values={computedRows.get(row.id)?.values ?? {}}
+          titles={titles}
+          color={color}
+          onClick={onOpenRow && (() => onOpenRow(row.id))}
+        />
+      ))}
+      <button
+        onClick={() => onAddRow({})}
+        className="flex items-center justify-center gap-1 min-h-[88px] text-sm text-[var(--muted)] border border-dashed border-[var(--border)] rounded-lg hover:text-[var(--foreground)] hover:bg-[var(--card-hover)] transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        New
+      </button>
+    </div>
+  );
+}
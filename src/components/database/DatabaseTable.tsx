@@ -4,11 +4,15 @@
  * Database Table Component
  * 
  * A Notion-style editable table with:
- * - Multiple column types (text, number, checkbox, select)
+ * - Multiple column types (text, number, checkbox, select, multi-select,
+ *   date, URL, email, relation, rollup)
  * - Inline editing
  * - Add/delete rows
- * - Add/delete columns
+ * - Formula columns calculated from the other columns in the row
+ * - Add/edit/delete columns, converting values when a type changes
  * - Automatic totals for number columns
+ * - Hidden and reordered columns, for saved views
+ * - Opening a row as a page
  */
 
 import { useState, useCallback, useMemo } from "react";
@@ -19,87 +23,84 @@ import {
   Check,
   ChevronDown,
   Calculator,
+  Pencil,
+  ExternalLink,
+  Maximize2,
+  Search,
 } from "lucide-react";
+import Link from "next/link";
+import { ColumnEditor } from "./ColumnEditor";
+import {
+  Column,
+  RelationTarget,
+  computeRowValues,
+  emptyCellValue,
+  formatCellValue,
+  sumColumns,
+  validateCellValue,
+} from "@/lib/columns";
 
-// Column type definition
-export interface Column {
-  id: string;
-  name: string;
-  type: "text" | "number" | "checkbox" | "select";
-  options?: string[]; // For select type
-}
+export type { Column };
 
 // Row type definition
 export interface Row {
   id: string;
   data: Record<string, unknown>;
+  updatedAt?: string; // Version token for saving
 }
 
 interface DatabaseTableProps {
   columns: Column[];
+  visibleColumns?: Column[]; // Columns to show, in order; defaults to all of them
   rows: Row[];
   onAddRow: () => void;
   onUpdateRow: (rowId: string, data: Record<string, unknown>) => void;
   onDeleteRow: (rowId: string) => void;
+  onOpenRow?: (rowId: string) => void;
   onAddColumn: (column: Column) => void;
   onUpdateColumn: (columnId: string, updates: Partial<Column>) => void;
   onDeleteColumn: (columnId: string) => void;
+  relationTargets?: Record<string, RelationTarget[]>; // Rows or pages each relation column can link to
+  totals?: Record<string, number>; // Totals across every row, not just the ones shown
   color?: string | null;
   showTotals?: boolean; // Show totals row for number columns
 }
 
 export function DatabaseTable({
   columns,
+  visibleColumns,
   rows,
   onAddRow,
   onUpdateRow,
   onDeleteRow,
+  onOpenRow,
   onAddColumn,
+  onUpdateColumn,
   onDeleteColumn,
+  relationTargets = {},
+  totals,
   color,
   showTotals = true,
 }: DatabaseTableProps) {
   const [editingCell, setEditingCell] = useState<{ rowId: string; columnId: string } | null>(null);
   const [showColumnMenu, setShowColumnMenu] = useState<string | null>(null);
   const [showAddColumn, setShowAddColumn] = useState(false);
-  const [newColumnName, setNewColumnName] = useState("");
-  const [newColumnType, setNewColumnType] = useState<Column["type"]>("text");
+  const [editingColumn, setEditingColumn] = useState<Column | null>(null);
 
-  // Calculate totals for number columns
-  const columnTotals = useMemo(() => {
-    const totals: Record<string, number> = {};
-    
-    columns.forEach((col) => {
-      if (col.type === "number") {
-        totals[col.id] = rows.reduce((sum, row) => {
-          const value = Number(row.data[col.id]) || 0;
-          return sum + value;
-        }, 0);
-      }
-    });
-    
-    return totals;
-  }, [columns, rows]);
+  const shownColumns = visibleColumns ?? columns;
 
-  // Check if there are any number columns
-  const hasNumberColumns = columns.some((col) => col.type === "number");
+  // Rollups and formulas for every row
+  const computedRows = useMemo(
+    () => new Map(rows.map((row) => [row.id, computeRowValues(columns, row.data, relationTargets)])),
+    [columns, rows, relationTargets]
+  );
 
-  // Calculate item subtotals (price × quantity) if both columns exist
-  const itemSubtotals = useMemo(() => {
-    const priceCol = columns.find((c) => c.name.toLowerCase().includes("price"));
-    const qtyCol = columns.find((c) => c.name.toLowerCase().includes("qty") || c.name.toLowerCase().includes("quantity"));
-    
-    if (!priceCol || !qtyCol) return null;
-    
-    const subtotals: Record<string, number> = {};
-    rows.forEach((row) => {
-      const price = Number(row.data[priceCol.id]) || 0;
-      const qty = Number(row.data[qtyCol.id]) || 1;
-      subtotals[row.id] = price * qty;
-    });
-    
-    return { subtotals, total: Object.values(subtotals).reduce((a, b) => a + b, 0) };
-  }, [columns, rows]);
+  // Number columns, and calculated columns that come out as numbers, get a total.
+  // When only some rows are loaded the page passes totals over all of them.
+  const columnTotals = useMemo(
+    () => totals ?? sumColumns(columns, rows.map((row) => computedRows.get(row.id)?.values ?? {})),
+    [totals, columns, rows, computedRows]
+  );
 
   // Handle cell value change
   const handleCellChange = useCallback(
@@ -112,26 +113,9 @@ export function DatabaseTable({
     [rows, onUpdateRow]
   );
 
-  // Add new column
-  const handleAddColumn = () => {
-    if (!newColumnName.trim()) return;
-    
-    const newColumn: Column = {
-      id: `col_${Date.now()}`,
-      name: newColumnName,
-      type: newColumnType,
-      options: newColumnType === "select" ? ["Option 1", "Option 2", "Option 3"] : undefined,
-    };
-    
-    onAddColumn(newColumn);
-    setNewColumnName("");
-    setNewColumnType("text");
-    setShowAddColumn(false);
-  };
-
-  // Get cell display value
+  // Get cell display value, including rollups and formulas
   const getCellValue = (row: Row, column: Column): unknown => {
-    return row.data[column.id] ?? (column.type === "checkbox" ? false : "");
+    return computedRows.get(row.id)?.values[column.id] ?? emptyCellValue(column.type);
   };
 
   return (
@@ -141,7 +125,7 @@ export function DatabaseTable({
         <thead>
           <tr>
             <th className="w-8 p-2 bg-[var(--background)] border-b border-r border-[var(--border)]" />
-            {columns.map((column) => (
+            {shownColumns.map((column) => (
               <th
                 key={column.id}
                 className="relative p-0 bg-[var(--background)] border-b border-r border-[var(--border)] text-left font-medium text-sm min-w-[150px]"
@@ -167,6 +151,16 @@ export function DatabaseTable({
                     className="absolute top-full left-0 mt-1 w-48 bg-[var(--card)] border border-[var(--border)] rounded-lg shadow-xl py-1 z-50"
                     onClick={(e) => e.stopPropagation()}
                   >
+                    <button
+                      onClick={() => {
+                        setEditingColumn(column);
+                        setShowColumnMenu(null);
+                      }}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-sm hover:bg-[var(--card-hover)]"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      Edit column
+                    </button>
                     <button
                       onClick={() => {
                         onDeleteColumn(column.id);
@@ -181,12 +175,6 @@ export function DatabaseTable({
                 )}
               </th>
             ))}
-            {/* Subtotal column header */}
-            {itemSubtotals && (
-              <th className="p-2 bg-[var(--background)] border-b border-r border-[var(--border)] text-left text-sm font-medium min-w-[80px]">
-                <span style={color ? { color } : undefined}>Subtotal</span>
-              </th>
-            )}
             {/* Add column button */}
             <th className="p-2 bg-[var(--background)] border-b border-[var(--border)] w-10">
               <button
@@ -210,6 +198,15 @@ export function DatabaseTable({
                   <button className="p-1 text-[var(--muted)] cursor-grab">
                     <GripVertical className="w-3 h-3" />
                   </button>
+                  {onOpenRow && (
+                    <button
+                      onClick={() => onOpenRow(row.id)}
+                      className="p-1 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+                      title="Open as page"
+                    >
+                      <Maximize2 className="w-3 h-3" />
+                    </button>
+                  )}
                   <button
                     onClick={() => onDeleteRow(row.id)}
                     className="p-1 text-[var(--muted)] hover:text-red-500 transition-colors"
@@ -221,7 +218,7 @@ export function DatabaseTable({
               </td>
               
               {/* Cells */}
-              {columns.map((column) => (
+              {shownColumns.map((column) => (
                 <td
                   key={`${row.id}-${column.id}`}
                   className="p-0 border-b border-r border-[var(--border)] bg-[var(--card)]"
@@ -233,43 +230,35 @@ export function DatabaseTable({
                     onStartEdit={() => setEditingCell({ rowId: row.id, columnId: column.id })}
                     onEndEdit={() => setEditingCell(null)}
                     onChange={(value) => handleCellChange(row.id, column.id, value)}
+                    targets={relationTargets[column.id]}
+                    error={computedRows.get(row.id)?.errors[column.id]}
                     color={color}
                   />
                 </td>
               ))}
-              {/* Row subtotal for shopping lists */}
-              <td className="border-b border-[var(--border)] px-2 text-sm">
-                {itemSubtotals && itemSubtotals.subtotals[row.id] > 0 && (
-                  <span 
-                    className="font-medium opacity-70"
-                    style={color ? { color } : undefined}
-                  >
-                    ${itemSubtotals.subtotals[row.id].toFixed(2)}
-                  </span>
-                )}
-              </td>
+              <td className="border-b border-[var(--border)]" />
             </tr>
           ))}
           
           {/* Totals row */}
-          {showTotals && hasNumberColumns && !itemSubtotals && (
+          {showTotals && Object.keys(columnTotals).length > 0 && (
             <tr className="bg-[var(--background)] font-medium">
               <td className="p-2 border-t-2 border-[var(--border)]">
                 <Calculator className="w-4 h-4 text-[var(--muted)]" />
               </td>
-              {columns.map((column) => (
+              {shownColumns.map((column) => (
                 <td
                   key={`total-${column.id}`}
                   className="px-3 py-2 border-t-2 border-r border-[var(--border)] text-sm"
                 >
-                  {column.type === "number" ? (
+                  {column.id in columnTotals ? (
                     <span style={color ? { color } : undefined}>
                       {column.name.toLowerCase().includes("price") 
                         ? `$${columnTotals[column.id]?.toFixed(2) || "0.00"}`
-                        : columnTotals[column.id] || 0
+                        : formatCellValue(column, columnTotals[column.id]) || 0
                       }
                     </span>
-                  ) : column.id === columns[0]?.id ? (
+                  ) : column.id === shownColumns[0]?.id ? (
                     <span className="text-[var(--muted)]">Total</span>
                   ) : null}
                 </td>
@@ -280,7 +269,7 @@ export function DatabaseTable({
 
           {/* Add row button */}
           <tr>
-            <td colSpan={columns.length + (itemSubtotals ? 3 : 2)} className="p-0">
+            <td colSpan={shownColumns.length + 2} className="p-0">
               <button
                 onClick={onAddRow}
                 className="w-full flex items-center gap-2 px-3 py-2 text-sm text-[var(--muted)] hover:bg-[var(--card-hover)] transition-colors"
@@ -293,88 +282,29 @@ export function DatabaseTable({
         </tbody>
       </table>
 
-      {/* Grand total card for shopping lists */}
-      {itemSubtotals && (
-        <div 
-          className="mt-4 p-4 rounded-xl border-2 flex items-center justify-between"
-          style={{ 
-            borderColor: color || "var(--border)",
-            backgroundColor: color ? `${color}10` : "var(--card)",
+      {/* Add column modal */}
+      {showAddColumn && (
+        <ColumnEditor
+          columns={columns}
+          onSave={(column) => {
+            onAddColumn(column);
+            setShowAddColumn(false);
           }}
-        >
-          <div className="flex items-center gap-3">
-            <div 
-              className="p-2 rounded-lg"
-              style={{ backgroundColor: color || "var(--garden-500)" }}
-            >
-              <Calculator className="w-5 h-5 text-white" />
-            </div>
-            <div>
-              <p className="text-sm text-[var(--muted)]">Grand Total</p>
-              <p className="text-2xl font-bold" style={color ? { color } : undefined}>
-                ${itemSubtotals.total.toFixed(2)}
-              </p>
-            </div>
-          </div>
-          <div className="text-right text-sm text-[var(--muted)]">
-            {rows.length} {rows.length === 1 ? "item" : "items"}
-          </div>
-        </div>
+          onClose={() => setShowAddColumn(false)}
+        />
       )}
 
-      {/* Add column modal */}
-      {showAddColumn && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowAddColumn(false)}>
-          <div 
-            className="bg-[var(--card)] border border-[var(--border)] rounded-xl p-6 w-full max-w-sm animate-fade-in"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <h3 className="font-semibold mb-4">Add Column</h3>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium mb-1">Name</label>
-                <input
-                  type="text"
-                  value={newColumnName}
-                  onChange={(e) => setNewColumnName(e.target.value)}
-                  placeholder="Column name"
-                  className="w-full px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg focus:outline-none focus:ring-2 focus:ring-garden-500"
-                  autoFocus
-                />
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium mb-1">Type</label>
-                <select
-                  value={newColumnType}
-                  onChange={(e) => setNewColumnType(e.target.value as Column["type"])}
-                  className="w-full px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg focus:outline-none focus:ring-2 focus:ring-garden-500"
-                >
-                  <option value="text">Text</option>
-                  <option value="number">Number</option>
-                  <option value="checkbox">Checkbox</option>
-                  <option value="select">Select</option>
-                </select>
-              </div>
-              
-              <div className="flex gap-2 pt-2">
-                <button
-                  onClick={() => setShowAddColumn(false)}
-                  className="flex-1 px-4 py-2 border border-[var(--border)] rounded-lg hover:bg-[var(--card-hover)] transition-colors"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={handleAddColumn}
-                  className="flex-1 px-4 py-2 bg-garden-600 hover:bg-garden-700 text-white rounded-lg transition-colors"
-                >
-                  Add
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+      {/* Edit column modal */}
+      {editingColumn && (
+        <ColumnEditor
+          column={editingColumn}
+          columns={columns}
+          onSave={(column) => {
+            onUpdateColumn(column.id, column);
+            setEditingColumn(null);
+          }}
+          onClose={() => setEditingColumn(null)}
+        />
       )}
     </div>
   );
@@ -388,24 +318,55 @@ interface CellEditorProps {
   onStartEdit: () => void;
   onEndEdit: () => void;
   onChange: (value: unknown) => void;
+  targets?: RelationTarget[]; // For relation columns
+  error?: string; // For formula columns that failed
   color?: string | null;
 }
 
-function CellEditor({
+const INPUT_TYPES: Partial<Record<Column["type"], string>> = {
+  number: "number",
+  date: "date",
+  url: "url",
+  email: "email",
+};
+
+export function CellEditor({
   column,
   value,
   isEditing,
   onStartEdit,
   onEndEdit,
   onChange,
+  targets,
+  error,
   color,
 }: CellEditorProps) {
   const [localValue, setLocalValue] = useState(value);
   const [showSelect, setShowSelect] = useState(false);
+  const [search, setSearch] = useState("");
+  const [invalid, setInvalid] = useState<string | null>(null);
 
-  // Handle save on blur or enter
-  const handleSave = () => {
-    onChange(localValue);
+  const chipStyle = {
+    backgroundColor: color ? `${color}20` : "var(--card-hover)",
+    color: color || "inherit",
+  };
+
+  // Handle save on blur or enter; invalid values keep the editor open on enter
+  const handleSave = (fromBlur = false) => {
+    const { value: checked, error: validationError } = validateCellValue(column, localValue);
+    if (validationError) {
+      if (fromBlur) {
+        setLocalValue(value);
+        setInvalid(null);
+        onEndEdit();
+      } else {
+        setInvalid(validationError);
+      }
+      return;
+    }
+    setInvalid(null);
+    setLocalValue(checked);
+    onChange(checked);
     onEndEdit();
   };
 
@@ -439,10 +400,7 @@ function CellEditor({
           {value ? (
             <span 
               className="px-2 py-0.5 rounded text-xs font-medium"
-              style={{ 
-                backgroundColor: color ? `${color}20` : "var(--card-hover)",
-                color: color || "inherit",
-              }}
+              style={chipStyle}
             >
               {String(value)}
             </span>
@@ -472,35 +430,159 @@ function CellEditor({
     );
   }
 
-  // Text/Number type
+  // Multi-select and relation types: a list of chips with a toggle list
+  if (column.type === "multiSelect" || column.type === "relation") {
+    const selected = Array.isArray(value) ? value.map(String) : [];
+    const isRelation = column.type === "relation";
+    const choices = isRelation
+      ? (targets || []).map((t) => ({ id: t.id, label: t.title }))
+      : (column.options || []).map((o) => ({ id: o, label: o }));
+    const labels = new Map(choices.map((c) => [c.id, c.label]));
+    const filtered = choices.filter((c) => c.label.toLowerCase().includes(search.toLowerCase()));
+
+    const toggle = (id: string) => {
+      onChange(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id]);
+    };
+
+    return (
+      <div className="relative">
+        <button
+          onClick={() => {
+            setShowSelect(!showSelect);
+            setSearch("");
+          }}
+          className="w-full min-h-10 px-3 py-1.5 text-left text-sm hover:bg-[var(--card-hover)] transition-colors flex items-center justify-between gap-2"
+        >
+          {selected.length > 0 ? (
+            <span className="flex flex-wrap gap-1">
+              {selected.map((id) => (
+                <span key={id} className="px-2 py-0.5 rounded text-xs font-medium" style={chipStyle}>
+                  {isRelation && column.relation?.target === "page" ? (
+                    <Link
+                      href={`/page/${id}`}
+                      onClick={(e) => e.stopPropagation()}
+                      className="hover:underline"
+                    >
+                      {labels.get(id) ?? "Missing page"}
+                    </Link>
+                  ) : (
+                    labels.get(id) ?? (isRelation ? "Missing row" : id)
+                  )}
+                </span>
+              ))}
+            </span>
+          ) : (
+            <span className="text-[var(--muted)]">{isRelation ? "Link..." : "Select..."}</span>
+          )}
+          <ChevronDown className="w-3 h-3 text-[var(--muted)] flex-shrink-0" />
+        </button>
+
+        {showSelect && (
+          <div className="absolute top-full left-0 right-0 min-w-[200px] mt-1 bg-[var(--card)] border border-[var(--border)] rounded-lg shadow-xl py-1 z-50">
+            {isRelation && (
+              <div className="flex items-center gap-2 px-3 py-2 border-b border-[var(--border)]">
+                <Search className="w-3 h-3 text-[var(--muted)]" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search..."
+                  className="flex-1 bg-transparent text-sm focus:outline-none"
+                  autoFocus
+                />
+              </div>
+            )}
+            <div className="max-h-60 overflow-y-auto">
+              {filtered.map((choice) => (
+                <button
+                  key={choice.id}
+                  onClick={() => toggle(choice.id)}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-[var(--card-hover)] transition-colors"
+                >
+                  <span className="truncate">{choice.label}</span>
+                  {selected.includes(choice.id) && <Check className="w-3 h-3 text-garden-500" />}
+                </button>
+              ))}
+              {filtered.length === 0 && (
+                <p className="px-3 py-2 text-sm text-[var(--muted)]">Nothing to link to</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Rollup and formula types: calculated, so read-only
+  if (column.type === "rollup" || column.type === "formula") {
+    return (
+      <div className="h-10 px-3 flex items-center text-sm text-[var(--muted)]">
+        {error ? (
+          <span className="text-red-500" title={error}>
+            Error
+          </span>
+        ) : (
+          formatCellValue(column, value)
+        )}
+      </div>
+    );
+  }
+
+  // Text, number, date, URL and email types
   if (isEditing) {
     return (
       <input
-        type={column.type === "number" ? "number" : "text"}
-        value={String(localValue)}
-        onChange={(e) => setLocalValue(column.type === "number" ? Number(e.target.value) : e.target.value)}
-        onBlur={handleSave}
+        type={INPUT_TYPES[column.type] ?? "text"}
+        value={localValue === null || localValue === undefined ? "" : String(localValue)}
+        onChange={(e) => {
+          setInvalid(null);
+          setLocalValue(
+            column.type === "number" && e.target.value !== "" ? Number(e.target.value) : e.target.value
+          );
+        }}
+        onBlur={() => handleSave(true)}
         onKeyDown={(e) => {
           if (e.key === "Enter") handleSave();
-          if (e.key === "Escape") onEndEdit();
+          if (e.key === "Escape") {
+            setLocalValue(value);
+            setInvalid(null);
+            onEndEdit();
+          }
         }}
-        className="w-full h-10 px-3 bg-[var(--background)] border-2 border-garden-500 focus:outline-none text-sm"
+        title={invalid ?? undefined}
+        className={`w-full h-10 px-3 bg-[var(--background)] border-2 focus:outline-none text-sm ${
+          invalid ? "border-red-500" : "border-garden-500"
+        }`}
         autoFocus
       />
     );
   }
 
+  const text = formatCellValue(column, value);
+
   return (
     <div
       onClick={onStartEdit}
-      className="h-10 px-3 flex items-center cursor-text hover:bg-[var(--card-hover)] transition-colors text-sm"
+      className="h-10 px-3 flex items-center gap-2 cursor-text hover:bg-[var(--card-hover)] transition-colors text-sm"
     >
-      {value !== "" && value !== undefined ? (
-        <span>{String(value)}</span>
-      ) : (
+      {!text ? (
         <span className="text-[var(--muted)]">Empty</span>
+      ) : column.type === "url" || column.type === "email" ? (
+        <a
+          href={column.type === "email" ? `mailto:${text}` : text}
+          target={column.type === "url" ? "_blank" : undefined}
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className="flex items-center gap-1 truncate text-garden-600 hover:underline"
+        >
+          <span className="truncate">{column.type === "url" ? text.replace(/^https?:\/\//, "") : text}</span>
+          {column.type === "url" && <ExternalLink className="w-3 h-3 flex-shrink-0" />}
+        </a>
+      ) : column.type === "date" ? (
+        <span>{new Date(`${text}T00:00:00`).toLocaleDateString()}</span>
+      ) : (
+        <span>{text}</span>
       )}
     </div>
   );
 }
-
@@ -0,0 +1,249 @@
+"use client";
+
+/**
+ * Filter Bar Component
+ *
+ * Filter and sort controls above a database table. Filters are a list of
+ * conditions joined by "and" or "or"; sorts are applied in order, so the
+ * second only matters when rows tie on the first.
+ */
+
+import { useState } from "react";
+import { Filter, ArrowUpDown, Plus, X } from "lucide-react";
+import { Column, RelationTarget } from "@/lib/columns";
+import {
+  CREATED_AT,
+  FILTER_OPERATORS,
+  FilterCondition,
+  FilterOperator,
+  RowSort,
+  operatorsFor,
+} from "@/lib/filters";
+
+interface FilterBarProps {
+  columns: Column[];
+  filters: FilterCondition[];
+  filterMode: "and" | "or";
+  sorts: RowSort[];
+  relationTargets?: Record<string, RelationTarget[]>;
+  onFiltersChange: (filters: FilterCondition[]) => void;
+  onFilterModeChange: (mode: "and" | "or") => void;
+  onSortsChange: (sorts: RowSort[]) => void;
+}
+
+const controlClass =
+  "px-2 py-1 text-sm bg-[var(--background)] border border-[var(--border)] rounded-md focus:outline-none focus:ring-2 focus:ring-garden-500";
+
+export function FilterBar({
+  columns,
+  filters,
+  filterMode,
+  sorts,
+  relationTargets = {},
+  onFiltersChange,
+  onFilterModeChange,
+  onSortsChange,
+}: FilterBarProps) {
+  const [open, setOpen] = useState<"filter" | "sort" | null>(null);
+
+  const updateFilter = (index: number, updates: Partial<FilterCondition>) => {
+    onFiltersChange(filters.map((f, i) => (i === index ? { ...f, ...updates } : f)));
+  };
+
+  const addFilter = () => {
+    const column = columns[0];
+    if (!column) return;
+    onFiltersChange([...filters, { columnId: column.id, operator: operatorsFor(column.type)[0], value: "" }]);
+  };
+
+  const addSort = () => {
+    const used = new Set(sorts.map((s) => s.columnId));
+    const column = columns.find((c) => !used.has(c.id));
+    onSortsChange([...sorts, { columnId: column?.id ?? CREATED_AT, direction: "asc" }]);
+  };
+
+  // Input for a condition's value, shaped by the column type
+  const renderValue = (condition: FilterCondition, index: number) => {
+    const column = columns.find((c) => c.id === condition.columnId);
+    const needsValue = FILTER_OPERATORS.find((o) => o.operator === condition.operator)?.needsValue;
+    if (!column || !needsValue) return null;
+
+    const value = String(condition.value ?? "");
+    const onChange = (next: string) => updateFilter(index, { value: next });
+
+    if (column.type === "select" || column.type === "multiSelect" || column.type === "relation") {
+      const choices =
+        column.type === "relation"
+          ? (relationTargets[column.id] || []).map((t) => ({ id: t.id, label: t.title }))
+          : (column.options || []).map((o) => ({ id: o, label: o }));
+      return (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className={controlClass}>
+          <option value="">Choose...</option>
+          {choices.map((choice) => (
+            <option key={choice.id} value={choice.id}>
+              {choice.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type={column.type === "number" || column.type === "rollup" ? "number" : column.type === "date" ? "date" : "text"}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Value"
+        className={`${controlClass} w-36`}
+      />
+    );
+  };
+
+  return (
+    <div className="relative flex items-center gap-2 mb-3">
+      <button
+        onClick={() => setOpen(open === "filter" ? null : "filter")}
+        className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+          filters.length > 0 ? "text-garden-600 bg-garden-500/10" : "text-[var(--muted)] hover:bg-[var(--card-hover)]"
+        }`}
+      >
+        <Filter className="w-4 h-4" />
+        Filter{filters.length > 0 && ` (${filters.length})`}
+      </button>
+      <button
+        onClick={() => setOpen(open === "sort" ? null : "sort")}
+        className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+          sorts.length > 0 ? "text-garden-600 bg-garden-500/10" : "text-[var(--muted)] hover:bg-[var(--card-hover)]"
+        }`}
+      >
+        <ArrowUpDown className="w-4 h-4" />
+        Sort{sorts.length > 0 && ` (${sorts.length})`}
+      </button>
+
+      {/* Filter panel */}
+      {open === "filter" && (
+        <div className="absolute left-0 top-full mt-1 p-3 min-w-[420px] bg-[var(--card)] border border-[var(--border)] rounded-xl shadow-xl z-40 space-y-2 animate-fade-in">
+          {filters.length === 0 && <p className="text-sm text-[var(--muted)]">No filters yet</p>}
+          {filters.map((condition, index) => {
+            const column = columns.find((c) => c.id === condition.columnId);
+            return (
+              <div key={index} className="flex items-center gap-2">
+                {index === 0 ? (
+                  <span className="w-14 text-sm text-[var(--muted)]">Where</span>
+                ) : index === 1 ? (
+                  <select
+                    value={filterMode}
+                    onChange={(e) => onFilterModeChange(e.target.value as "and" | "or")}
+                    className={`${controlClass} w-14`}
+                  >
+                    <option value="and">and</option>
+                    <option value="or">or</option>
+                  </select>
+                ) : (
+                  <span className="w-14 text-sm text-[var(--muted)]">{filterMode}</span>
+                )}
+                <select
+                  value={condition.columnId}
+                  onChange={(e) => {
+                    const next = columns.find((c) => c.id === e.target.value);
+                    if (!next) return;
+                    const operators = operatorsFor(next.type);
+                    updateFilter(index, {
+                      columnId: next.id,
+                      operator: operators.includes(condition.operator) ? condition.operator : operators[0],
+                      value: "",
+                    });
+                  }}
+                  className={controlClass}
+                >
+                  {columns.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={condition.operator}
+                  onChange={(e) => updateFilter(index, { operator: e.target.value as FilterOperator })}
+                  className={controlClass}
+                >
+                  {(column ? operatorsFor(column.type) : []).map((operator) => (
+                    <option key={operator} value={operator}>
+                      {FILTER_OPERATORS.find((o) => o.operator === operator)?.label}
+                    </option>
+                  ))}
+                </select>
+                {renderValue(condition, index)}
+                <button
+                  onClick={() => onFiltersChange(filters.filter((_, i) => i !== index))}
+                  className="p-1 text-[var(--muted)] hover:text-red-500"
+                  title="Remove filter"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+          <button
+            onClick={addFilter}
+            className="flex items-center gap-1 text-sm text-[var(--muted)] hover:text-[var(--foreground)]"
+          >
+            <Plus className="w-4 h-4" />
+            Add filter
+          </button>
+        </div>
+      )}
+
+      {/* Sort panel */}
+      {open === "sort" && (
+        <div className="absolute left-0 top-full mt-1 p-3 min-w-[320px] bg-[var(--card)] border border-[var(--border)] rounded-xl shadow-xl z-40 space-y-2 animate-fade-in">
+          {sorts.length === 0 && <p className="text-sm text-[var(--muted)]">Rows are in the order they were added</p>}
+          {sorts.map((sort, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <select
+                value={sort.columnId}
+                onChange={(e) =>
+                  onSortsChange(sorts.map((s, i) => (i === index ? { ...s, columnId: e.target.value } : s)))
+                }
+                className={controlClass}
+              >
+                {columns.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+                <option value={CREATED_AT}>Created</option>
+              </select>
+              <select
+                value={sort.direction}
+                onChange={(e) =>
+                  onSortsChange(
+                    sorts.map((s, i) => (i === index ? { ...s, direction: e.target.value as RowSort["direction"] } : s))
+                  )
+                }
+                className={controlClass}
+              >
+                <option value="asc">Ascending</option>
+                <option value="desc">Descending</option>
+              </select>
+              <button
+                onClick={() => onSortsChange(sorts.filter((_, i) => i !== index))}
+                className="p-1 text-[var(--muted)] hover:text-red-500"
+                title="Remove sort"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addSort}
+            className="flex items-center gap-1 text-sm text-[var(--muted)] hover:text-[var(--foreground)]"
+          >
+            <Plus className="w-4 h-4" />
+            Add sort
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
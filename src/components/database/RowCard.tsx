@@ -0,0 +1,61 @@
+"use client";
+
+/**
+ * Row Card Component
+ *
+ * A database row shown as a card on the board, calendar and gallery
+ * views: its title, then the view's visible properties that have a value.
+ */
+
+import { DragEvent } from "react";
+import { Column, RelationTarget, formatCellValue, getRowTitle } from "@/lib/columns";
+
+interface RowCardProps {
+  columns: Column[]; // Every column, for the title
+  properties: Column[]; // Columns to show on the card
+  data: Record<string, unknown>;
+  values: Record<string, unknown>; // Stored and calculated values
+  titles: Map<string, string>;
+  compact?: boolean; // Title only, for calendar days
+  color?: string | null;
+  onDragStart?: (e: DragEvent<HTMLDivElement>) => void;
+  onClick?: () => void; // Opens the row as a page
+}
+
+// Titles of everything relation columns point at, for showing relation values
+export function relationTitles(relationTargets: Record<string, RelationTarget[]>): Map<string, string> {
+  return new Map(
+    Object.values(relationTargets)
+      .flat()
+      .map((target) => [target.id, target.title])
+  );
+}
+
+export function RowCard({ columns, properties, data, values, titles, compact, color, onDragStart, onClick }: RowCardProps) {
+  const titleColumn = columns.find((c) => c.type === "text");
+  const shown = properties
+    .filter((column) => column.id !== titleColumn?.id)
+    .map((column) => ({ column, text: formatCellValue(column, values[column.id], titles) }))
+    .filter(({ text }) => text !== "");
+
+  return (
+    <div
+      draggable={Boolean(onDragStart)}
+      onDragStart={onDragStart}
+      onClick={onClick}
+      className={`bg-[var(--card)] border border-[var(--border)] rounded-lg hover:border-garden-500/50 transition-colors ${
+        compact ? "px-2 py-1 text-xs truncate" : "p-3 space-y-1.5"
+      } ${onDragStart ? "cursor-grab active:cursor-grabbing" : onClick ? "cursor-pointer" : ""}`}
+      style={color ? { borderLeft: `3px solid ${color}` } : undefined}
+    >
+      <p className={compact ? "truncate" : "font-medium text-sm"}>{getRowTitle(columns, data)}</p>
+      {!compact &&
+        shown.map(({ column, text }) => (
+          <div key={column.id} className="flex gap-2 text-xs">
+            <span className="text-[var(--muted)] shrink-0">{column.name}</span>
+            <span className="truncate">{text}</span>
+          </div>
+        ))}
+    </div>
+  );
+}
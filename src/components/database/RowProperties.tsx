@@ -0,0 +1,114 @@
+"use client";
+
+/**
+ * Row Properties Component
+ *
+ * The properties of a database row, shown above its page body. The
+ * title column is left out, since the page title edits it. Saves check
+ * the row's version, so edits made to the row elsewhere aren't lost.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { Column, RelationTarget, computeRowValues, emptyCellValue } from "@/lib/columns";
+import { CellEditor } from "./DatabaseTable";
+import { useRowSave } from "./useRowSave";
+
+interface RowPropertiesProps {
+  databaseId: string;
+  rowId: string;
+  initialData: Record<string, unknown>;
+  title: string; // The page title, which is also the row's title
+  color?: string | null;
+  updatedAt?: string; // The row's version, which title saves move on too
+}
+
+export function RowProperties({ databaseId, rowId, initialData, title, color, updatedAt }: RowPropertiesProps) {
+  const [columns, setColumns] = useState<Column[]>([]);
+  const [relationTargets, setRelationTargets] = useState<Record<string, RelationTarget[]>>({});
+  const [data, setData] = useState(initialData);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [version, setVersion] = useState(updatedAt);
+  const { saveRow, conflictDialog } = useRowSave(databaseId);
+
+  useEffect(() => {
+    setVersion(updatedAt);
+  }, [updatedAt]);
+
+  useEffect(() => {
+    const fetchDatabase = async () => {
+      try {
+        const res = await fetch(`/api/databases/${databaseId}`);
+        if (res.ok) {
+          const database = await res.json();
+          setColumns(JSON.parse(database.columns));
+          setRelationTargets(database.relationTargets || {});
+        }
+      } catch (error) {
+        console.error("Failed to fetch database:", error);
+      }
+    };
+
+    fetchDatabase();
+  }, [databaseId]);
+
+  const titleColumn = columns.find((c) => c.type === "text");
+  const computed = useMemo(
+    () => computeRowValues(columns, data, relationTargets),
+    [columns, data, relationTargets]
+  );
+
+  // Save one property, keeping the title as the page has it
+  const updateProperty = async (columnId: string, value: unknown) => {
+    const previous = data;
+    const updated = {
+      ...data,
+      ...(titleColumn && { [titleColumn.id]: title }),
+      [columnId]: value,
+    };
+    setData(updated);
+
+    try {
+      const result = await saveRow({ id: rowId, data: previous, updatedAt: version }, updated);
+      if (!result) {
+        setData(previous);
+        return;
+      }
+      // A copy is a new row in the database; this page stays on this one
+      setData(result.row.data);
+      setVersion(result.row.updatedAt);
+    } catch (error) {
+      console.error("Failed to update row:", error);
+      setData(previous);
+    }
+  };
+
+  const properties = columns.filter((c) => c.id !== titleColumn?.id);
+  if (properties.length === 0) return null;
+
+  return (
+    <div className="mb-8 border border-[var(--border)] rounded-xl bg-[var(--card)] divide-y divide-[var(--border)]">
+      {properties.map((column) => (
+        <div key={column.id} className="flex items-stretch">
+          <div className="w-40 shrink-0 px-3 py-2 text-sm text-[var(--muted)] truncate border-r border-[var(--border)]">
+            {column.name}
+          </div>
+          <div className="flex-1 min-w-0">
+            <CellEditor
+              column={column}
+              value={computed.values[column.id] ?? emptyCellValue(column.type)}
+              isEditing={editing === column.id}
+              onStartEdit={() => setEditing(column.id)}
+              onEndEdit={() => setEditing(null)}
+              onChange={(value) => updateProperty(column.id, value)}
+              targets={relationTargets[column.id]}
+              error={computed.errors[column.id]}
+              color={color}
+            />
+          </div>
+        </div>
+      ))}
+
+      {conflictDialog}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+/**
+ * Save Template Modal Component
+ *
+ * Saves a database as a personal template: its columns and views, and
+ * optionally its rows as sample rows. Saved templates show up in the
+ * gallery when creating a database.
+ */
+
+import { useState } from "react";
+
+interface SaveTemplateModalProps {
+  databaseId: string;
+  defaultName: string;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg focus:outline-none focus:ring-2 focus:ring-garden-500";
+
+export function SaveTemplateModal({ databaseId, defaultName, onClose }: SaveTemplateModalProps) {
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState("");
+  const [includeRows, setIncludeRows] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/databases/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ databaseId, name, description, includeRows }),
+      });
+      if (res.ok) {
+        onClose();
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to save template");
+      }
+    } catch (error) {
+      console.error("Failed to save template:", error);
+      setError("Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-[var(--card)] border border-[var(--border)] rounded-xl p-6 w-full max-w-sm animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="font-semibold mb-4">Save as Template</h3>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Template name"
+              className={inputClass}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What it's for (optional)"
+              className={inputClass}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={includeRows}
+              onChange={(e) => setIncludeRows(e.target.checked)}
+              className="rounded"
+            />
+            Include rows as sample rows
+          </label>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="flex gap-2 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-[var(--border)] rounded-lg hover:bg-[var(--card-hover)] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 bg-garden-600 hover:bg-garden-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
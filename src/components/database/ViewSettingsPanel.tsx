@@ -0,0 +1,168 @@
+"use client";
+
+/**
+ * View Settings Panel Component
+ *
+ * Settings for the active view, next to the filter bar: its layout, the
+ * column a board groups by or a calendar is keyed on, and which columns
+ * it shows in what order.
+ */
+
+import { useState } from "react";
+import { Settings2, Eye, EyeOff, ArrowUp, ArrowDown } from "lucide-react";
+import { Column } from "@/lib/columns";
+import {
+  DatabaseView,
+  ViewLayout,
+  ViewSettings,
+  VIEW_LAYOUTS,
+  canGroupBy,
+  canPlaceOnCalendar,
+  visibleColumns,
+} from "@/lib/views";
+
+interface ViewSettingsPanelProps {
+  view: DatabaseView;
+  columns: Column[];
+  onChange: (updates: Partial<ViewSettings>) => void;
+}
+
+const controlClass =
+  "w-full px-2 py-1 text-sm bg-[var(--background)] border border-[var(--border)] rounded-md focus:outline-none focus:ring-2 focus:ring-garden-500";
+
+export function ViewSettingsPanel({ view, columns, onChange }: ViewSettingsPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  // Every column in the view's order, shown or not
+  const ordered = visibleColumns(columns, { hiddenColumns: [], columnOrder: view.columnOrder });
+  const hidden = new Set(view.hiddenColumns);
+
+  const move = (index: number, offset: number) => {
+    const ids = ordered.map((c) => c.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    onChange({ columnOrder: ids });
+  };
+
+  const toggleHidden = (columnId: string) => {
+    onChange({
+      hiddenColumns: hidden.has(columnId)
+        ? view.hiddenColumns.filter((id) => id !== columnId)
+        : [...view.hiddenColumns, columnId],
+    });
+  };
+
+  return (
+    <div className="relative mb-3">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg text-[var(--muted)] hover:bg-[var(--card-hover)] transition-colors"
+      >
+        <Settings2 className="w-4 h-4" />
+        View
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 p-3 w-72 bg-[var(--card)] border border-[var(--border)] rounded-xl shadow-xl z-40 space-y-3 animate-fade-in">
+          <div>
+            <label className="block text-xs font-medium text-[var(--muted)] mb-1">Layout</label>
+            <select
+              value={view.layout}
+              onChange={(e) => {
+                const layout = e.target.value as ViewLayout;
+                onChange({
+                  layout,
+                  groupBy: layout === "board" ? view.groupBy ?? columns.find(canGroupBy)?.id ?? null : view.groupBy,
+                  dateColumn:
+                    layout === "calendar"
+                      ? view.dateColumn ?? columns.find((c) => c.type === "date")?.id ?? null
+                      : view.dateColumn,
+                });
+              }}
+              className={controlClass}
+            >
+              {VIEW_LAYOUTS.map(({ layout, label }) => (
+                <option key={layout} value={layout}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {view.layout === "board" && (
+            <div>
+              <label className="block text-xs font-medium text-[var(--muted)] mb-1">Group by</label>
+              <select
+                value={view.groupBy ?? ""}
+                onChange={(e) => onChange({ groupBy: e.target.value || null })}
+                className={controlClass}
+              >
+                <option value="">Choose a select column...</option>
+                {columns.filter(canGroupBy).map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {view.layout === "calendar" && (
+            <div>
+              <label className="block text-xs font-medium text-[var(--muted)] mb-1">Show rows by</label>
+              <select
+                value={view.dateColumn ?? ""}
+                onChange={(e) => onChange({ dateColumn: e.target.value || null })}
+                className={controlClass}
+              >
+                <option value="">Choose a date column...</option>
+                {columns.filter(canPlaceOnCalendar).map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-[var(--muted)] mb-1">Properties</label>
+            <ul className="max-h-60 overflow-y-auto space-y-0.5">
+              {ordered.map((column, index) => (
+                <li key={column.id} className="flex items-center gap-1 text-sm">
+                  <button
+                    onClick={() => toggleHidden(column.id)}
+                    className="p-1 rounded text-[var(--muted)] hover:bg-[var(--card-hover)]"
+                    title={hidden.has(column.id) ? "Show" : "Hide"}
+                  >
+                    {hidden.has(column.id) ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                  </button>
+                  <span className={`flex-1 truncate ${hidden.has(column.id) ? "text-[var(--muted)]" : ""}`}>
+                    {column.name}
+                  </span>
+                  <button
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 rounded text-[var(--muted)] hover:bg-[var(--card-hover)] disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => move(index, 1)}
+                    disabled={index === ordered.length - 1}
+                    className="p-1 rounded text-[var(--muted)] hover:bg-[var(--card-hover)] disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
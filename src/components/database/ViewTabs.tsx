@@ -0,0 +1,162 @@
+"use client";
+
+/**
+ * View Tabs Component
+ *
+ * A database's saved views as tabs. The active tab's menu renames or
+ * deletes it, and the + button adds a view with any layout.
+ */
+
+import { useState, useEffect } from "react";
+import { Table2, SquareKanban, Calendar, LayoutGrid, Plus, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { DatabaseView, ViewLayout, VIEW_LAYOUTS } from "@/lib/views";
+
+interface ViewTabsProps {
+  views: DatabaseView[];
+  activeViewId: string | null;
+  onSelect: (viewId: string) => void;
+  onAdd: (layout: ViewLayout) => void;
+  onRename: (viewId: string, name: string) => void;
+  onDelete: (viewId: string) => void;
+}
+
+const LAYOUT_ICONS: Record<ViewLayout, typeof Table2> = {
+  table: Table2,
+  board: SquareKanban,
+  calendar: Calendar,
+  gallery: LayoutGrid,
+};
+
+export function ViewTabs({ views, activeViewId, onSelect, onAdd, onRename, onDelete }: ViewTabsProps) {
+  const [menu, setMenu] = useState<"add" | "view" | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  // Close menus
+  useEffect(() => {
+    const handleClick = () => setMenu(null);
+    window.addEventListener("click", handleClick);
+    return () => window.removeEventListener("click", handleClick);
+  }, []);
+
+  const finishRename = () => {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1 mb-3 border-b border-[var(--border)]">
+      {views.map((view) => {
+        const Icon = LAYOUT_ICONS[view.layout];
+        const active = view.id === activeViewId;
+        return (
+          <div key={view.id} className="relative">
+            {renaming?.id === view.id ? (
+              <input
+                value={renaming.name}
+                onChange={(e) => setRenaming({ id: view.id, name: e.target.value })}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") finishRename();
+                  if (e.key === "Escape") setRenaming(null);
+                }}
+                className="w-32 px-2 py-1 my-1 text-sm bg-[var(--background)] border border-[var(--border)] rounded-md focus:outline-none focus:ring-2 focus:ring-garden-500"
+                autoFocus
+              />
+            ) : (
+              <div
+                className={`group flex items-center gap-1.5 px-3 py-2 text-sm border-b-2 -mb-px transition-colors ${
+                  active
+                    ? "border-garden-500 text-[var(--foreground)]"
+                    : "border-transparent text-[var(--muted)] hover:text-[var(--foreground)]"
+                }`}
+              >
+                <button onClick={() => onSelect(view.id)} className="flex items-center gap-1.5">
+                  <Icon className="w-4 h-4" />
+                  {view.name}
+                </button>
+                {active && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setMenu(menu === "view" ? null : "view");
+                    }}
+                    className="p-0.5 rounded hover:bg-[var(--card-hover)]"
+                    title="View options"
+                  >
+                    <MoreHorizontal className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            )}
+
+            {active && menu === "view" && (
+              <div
+                className="absolute left-0 top-full mt-1 w-40 bg-[var(--card)] border border-[var(--border)] rounded-lg shadow-xl py-1 z-40"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <button
+                  onClick={() => {
+                    setRenaming({ id: view.id, name: view.name });
+                    setMenu(null);
+                  }}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm hover:bg-[var(--card-hover)]"
+                >
+                  <Pencil className="w-4 h-4" />
+                  Rename
+                </button>
+                <button
+                  onClick={() => {
+                    setMenu(null);
+                    onDelete(view.id);
+                  }}
+                  disabled={views.length <= 1}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete view
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="relative">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setMenu(menu === "add" ? null : "add");
+          }}
+          className="p-1.5 rounded-lg text-[var(--muted)] hover:bg-[var(--card-hover)] transition-colors"
+          title="Add view"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+
+        {menu === "add" && (
+          <div
+            className="absolute left-0 top-full mt-1 w-40 bg-[var(--card)] border border-[var(--border)] rounded-lg shadow-xl py-1 z-40"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {VIEW_LAYOUTS.map(({ layout, label }) => {
+              const Icon = LAYOUT_ICONS[layout];
+              return (
+                <button
+                  key={layout}
+                  onClick={() => {
+                    setMenu(null);
+                    onAdd(layout);
+                  }}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm hover:bg-[var(--card-hover)]"
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
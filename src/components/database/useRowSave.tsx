@@ -0,0 +1,112 @@
+"use client";
+
+/**
+ * Row Save Hook
+ *
+ * Saves database rows with their version token, one save per row at a
+ * time. When a row was changed since it was loaded, edits that only clash
+ * with our own earlier saves are merged quietly; changes made elsewhere
+ * open the conflict dialog to ask how to resolve it. The result says what
+ * the row looks like now (and the new row, if the edit was saved as a copy).
+ */
+
+import { useState, useRef, useCallback } from "react";
+import { ConflictDialog, ConflictChoice } from "@/components/ui/ConflictDialog";
+import { mergeFields } from "@/lib/merge";
+import { ifMatchHeaders } from "@/lib/versions";
+
+export interface SavedRow {
+  id: string;
+  data: Record<string, unknown>;
+  updatedAt?: string;
+}
+
+export interface RowSaveResult {
+  row: SavedRow;
+  copy?: SavedRow;
+}
+
+function toSavedRow(row: { id: string; data: string; updatedAt: string }): SavedRow {
+  return { id: row.id, data: JSON.parse(row.data), updatedAt: row.updatedAt };
+}
+
+export function useRowSave(databaseId: string) {
+  const [conflictResolver, setConflictResolver] = useState<((choice: ConflictChoice) => void) | null>(null);
+  // Versions our own saves produced
+  const ownVersionsRef = useRef(new Set<string>());
+  const queuesRef = useRef(new Map<string, Promise<unknown>>());
+
+  const patchRow = useCallback(
+    (rowId: string, data: Record<string, unknown>, updatedAt: string | undefined) =>
+      fetch(`/api/databases/${databaseId}/rows/${rowId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...ifMatchHeaders(updatedAt) },
+        body: JSON.stringify({ data }),
+      }),
+    [databaseId]
+  );
+
+  const save = useCallback(
+    async (row: SavedRow, data: Record<string, unknown>): Promise<RowSaveResult | null> => {
+      const ownVersions = ownVersionsRef.current;
+      let res = await patchRow(row.id, data, row.updatedAt);
+
+      if (res.status === 409) {
+        const { current } = (await res.json()) as { current: SavedRow };
+
+        let choice: ConflictChoice = "merge";
+        if (!current.updatedAt || !ownVersions.has(current.updatedAt)) {
+          choice = await new Promise<ConflictChoice>((resolve) => setConflictResolver(() => resolve));
+          setConflictResolver(null);
+        }
+
+        if (choice === "discard") return { row: current };
+
+        if (choice === "copy") {
+          const created = await fetch(`/api/databases/${databaseId}/rows`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ data }),
+          });
+          if (!created.ok) {
+            const { error } = await created.json();
+            alert(error || "Failed to add row");
+            return { row: current };
+          }
+          return { row: current, copy: toSavedRow(await created.json()) };
+        }
+
+        const resolved = choice === "merge" ? mergeFields(row.data, data, current.data) : data;
+        res = await patchRow(row.id, resolved, current.updatedAt);
+      }
+
+      if (!res.ok) {
+        const { error } = await res.json();
+        alert(error || "Failed to update row");
+        return null;
+      }
+
+      const updated = toSavedRow(await res.json());
+      ownVersions.add(updated.updatedAt!);
+      return { row: updated };
+    },
+    [databaseId, patchRow]
+  );
+
+  // Save a row's new data. Resolves to null if it couldn't be saved.
+  const saveRow = useCallback(
+    (row: SavedRow, data: Record<string, unknown>): Promise<RowSaveResult | null> => {
+      const queues = queuesRef.current;
+      const result = (queues.get(row.id) ?? Promise.resolve())
+        .catch(() => undefined)
+        .then(() => save(row, data));
+      queues.set(row.id, result);
+      return result;
+    },
+    [save]
+  );
+
+  const conflictDialog = conflictResolver ? <ConflictDialog kind="row" onResolve={conflictResolver} /> : null;
+
+  return { saveRow, conflictDialog };
+}
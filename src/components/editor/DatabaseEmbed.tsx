@@ -0,0 +1,418 @@
+"use client";
+
+/**
+ * Database Embed Extension
+ *
+ * A Tiptap node that embeds a database in a page. The page only stores the
+ * database's ID, which columns to show and how many rows; the rows are
+ * loaded when the page opens and edited in place through the same APIs as
+ * the database page. A database that was deleted or can't be opened shows
+ * as a placeholder instead.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { NodeViewWrapper, ReactNodeViewRenderer, NodeViewProps } from "@tiptap/react";
+import { Database, Settings2, Trash2, Loader2, ArrowRight } from "lucide-react";
+import { DatabaseTable, Column, Row } from "@/components/database/DatabaseTable";
+import { useRowSave } from "@/components/database/useRowSave";
+import { RelationTarget, applyColumnUpdate } from "@/lib/columns";
+import { DatabaseEmbedAttrs } from "@/lib/tiptap";
+import { DatabaseEmbedNode } from "./extensions";
+
+interface EmbeddedDatabase {
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+  columns: string;
+  relationTargets?: Record<string, RelationTarget[]>;
+}
+
+interface RowPage {
+  rows: Row[];
+  nextCursor: string | null;
+  total: number;
+  totals: Record<string, number>;
+}
+
+const PAGE_SIZE = 50;
+const MAX_ROW_LIMIT = 200;
+
+export const DatabaseEmbed = DatabaseEmbedNode.extend({
+  addNodeView() {
+    return ReactNodeViewRenderer(DatabaseEmbedView);
+  },
+});
+
+function DatabaseEmbedView({ node, updateAttributes, deleteNode, selected }: NodeViewProps) {
+  const { databaseId, columns: columnIds, limit } = node.attrs as DatabaseEmbedAttrs;
+  const router = useRouter();
+
+  const [database, setDatabase] = useState<EmbeddedDatabase | null>(null);
+  const [status, setStatus] = useState<"loading" | "ready" | "missing">("loading");
+  const [rowPage, setRowPage] = useState<RowPage>({ rows: [], nextCursor: null, total: 0, totals: {} });
+  const [isLoadingRows, setIsLoadingRows] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const requestRef = useRef(0);
+  const { saveRow, conflictDialog } = useRowSave(databaseId ?? "");
+
+  const columnsJson = database?.columns;
+  const columns: Column[] = useMemo(() => (columnsJson ? JSON.parse(columnsJson) : []), [columnsJson]);
+
+  // The chosen columns that still exist, or every column
+  const shownColumns = useMemo(() => {
+    const chosen = (columnIds ?? [])
+      .map((id) => columns.find((c) => c.id === id))
+      .filter((c): c is Column => Boolean(c));
+    return chosen.length > 0 ? chosen : columns;
+  }, [columns, columnIds]);
+
+  // Fetch database
+  const fetchDatabase = useCallback(async () => {
+    if (!databaseId) {
+      setStatus("missing");
+      return;
+    }
+    try {
+      const res = await fetch(`/api/databases/${databaseId}`);
+      if (res.ok) {
+        setDatabase(await res.json());
+        setStatus("ready");
+      } else {
+        setStatus("missing");
+      }
+    } catch (error) {
+      console.error("Failed to fetch database:", error);
+      setStatus("missing");
+    }
+  }, [databaseId]);
+
+  useEffect(() => {
+    fetchDatabase();
+  }, [fetchDatabase]);
+
+  // Fetch a page of rows; without a cursor the list starts over
+  const fetchRows = useCallback(
+    async (cursor?: string | null) => {
+      if (!databaseId) return;
+      const request = ++requestRef.current;
+      setIsLoadingRows(true);
+
+      try {
+        const params = new URLSearchParams({ limit: String(limit ?? PAGE_SIZE) });
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(`/api/databases/${databaseId}/rows?${params}`);
+        if (request !== requestRef.current || !res.ok) return;
+
+        const page = await res.json();
+        // Later pages can leave out the totals, which stay as the first page gave them
+        setRowPage((prev) => (cursor ? { ...prev, ...page, rows: [...prev.rows, ...page.rows] } : page));
+      } catch (error) {
+        console.error("Failed to fetch rows:", error);
+      } finally {
+        if (request === requestRef.current) setIsLoadingRows(false);
+      }
+    },
+    [databaseId, limit]
+  );
+
+  useEffect(() => {
+    if (status === "ready") fetchRows();
+  }, [status, fetchRows]);
+
+  // Close the settings on any click outside them
+  useEffect(() => {
+    if (!showSettings) return;
+    const close = () => setShowSettings(false);
+    window.addEventListener("click", close);
+    return () => window.removeEventListener("click", close);
+  }, [showSettings]);
+
+  // Add row
+  const addRow = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/databases/${databaseId}/rows`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data: {} }),
+      });
+
+      if (res.ok) {
+        const row = await res.json();
+        setRowPage((prev) => ({
+          ...prev,
+          rows: [...prev.rows, { id: row.id, data: JSON.parse(row.data), updatedAt: row.updatedAt }],
+          total: prev.total + 1,
+        }));
+      }
+    } catch (error) {
+      console.error("Failed to add row:", error);
+    }
+  }, [databaseId]);
+
+  // Update row
+  const updateRow = useCallback(
+    async (rowId: string, data: Record<string, unknown>) => {
+      const row = rowPage.rows.find((r) => r.id === rowId);
+      if (!row) return;
+
+      try {
+        const result = await saveRow(row, data);
+        if (!result) return;
+
+        setRowPage((prev) => ({
+          ...prev,
+          rows: [
+            ...prev.rows.map((r) => (r.id === rowId ? { ...r, ...result.row } : r)),
+            ...(result.copy ? [result.copy] : []),
+          ],
+          total: prev.total + (result.copy ? 1 : 0),
+        }));
+      } catch (error) {
+        console.error("Failed to update row:", error);
+      }
+    },
+    [rowPage.rows, saveRow]
+  );
+
+  // Delete row
+  const deleteRow = useCallback(
+    async (rowId: string) => {
+      try {
+        await fetch(`/api/databases/${databaseId}/rows/${rowId}`, { method: "DELETE" });
+        setRowPage((prev) => ({
+          ...prev,
+          rows: prev.rows.filter((r) => r.id !== rowId),
+          total: prev.total - 1,
+        }));
+      } catch (error) {
+        console.error("Failed to delete row:", error);
+      }
+    },
+    [databaseId]
+  );
+
+  // Open a row as a page, creating the page the first time
+  const openRow = useCallback(
+    async (rowId: string) => {
+      try {
+        const res = await fetch(`/api/databases/${databaseId}/rows/${rowId}/page`, { method: "POST" });
+        const data = await res.json();
+        if (!res.ok) {
+          alert(data.error || "Failed to open row");
+          return;
+        }
+        router.push(`/page/${data.id}`);
+      } catch (error) {
+        console.error("Failed to open row:", error);
+      }
+    },
+    [databaseId, router]
+  );
+
+  // Save a new column list, then reload to pick up converted values
+  const saveColumns = useCallback(
+    async (newColumns: Column[]) => {
+      try {
+        const res = await fetch(`/api/databases/${databaseId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ columns: newColumns }),
+        });
+
+        if (!res.ok) {
+          const { error } = await res.json();
+          alert(error || "Failed to update columns");
+          return false;
+        }
+
+        await fetchDatabase();
+        await fetchRows();
+        return true;
+      } catch (error) {
+        console.error("Failed to update columns:", error);
+        return false;
+      }
+    },
+    [databaseId, fetchDatabase, fetchRows]
+  );
+
+  // A column added here also shows here when only some columns are shown
+  const addColumn = useCallback(
+    async (column: Column) => {
+      if ((await saveColumns([...columns, column])) && columnIds) {
+        updateAttributes({ columns: [...columnIds, column.id] });
+      }
+    },
+    [columns, columnIds, saveColumns, updateAttributes]
+  );
+
+  const updateColumn = useCallback(
+    (columnId: string, updates: Partial<Column>) => saveColumns(applyColumnUpdate(columns, columnId, updates)),
+    [columns, saveColumns]
+  );
+
+  const deleteColumn = useCallback(
+    async (columnId: string) => {
+      if ((await saveColumns(columns.filter((c) => c.id !== columnId))) && columnIds?.includes(columnId)) {
+        const remaining = columnIds.filter((id) => id !== columnId);
+        updateAttributes({ columns: remaining.length > 0 ? remaining : null });
+      }
+    },
+    [columns, columnIds, saveColumns, updateAttributes]
+  );
+
+  // Show or hide a column; showing every column clears the subset
+  const toggleColumn = (columnId: string) => {
+    const current = shownColumns.map((c) => c.id);
+    const next = current.includes(columnId)
+      ? current.filter((id) => id !== columnId)
+      : columns.map((c) => c.id).filter((id) => id === columnId || current.includes(id));
+    if (next.length === 0) return;
+    updateAttributes({ columns: next.length === columns.length ? null : next });
+  };
+
+  const frameClass = `my-4 rounded-xl border ${selected ? "border-garden-500" : "border-[var(--border)]"}`;
+
+  if (status === "loading") {
+    return (
+      <NodeViewWrapper className={`${frameClass} p-6 flex justify-center`}>
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--muted)]" />
+      </NodeViewWrapper>
+    );
+  }
+
+  // Deleted, or not the user's to open
+  if (status === "missing" || !database) {
+    return (
+      <NodeViewWrapper
+        className={`${frameClass} border-dashed p-4 flex items-center gap-3 text-sm text-[var(--muted)]`}
+      >
+        <Database className="w-5 h-5 flex-shrink-0" />
+        <span className="flex-1">This database was deleted or you don&apos;t have access to it.</span>
+        <button
+          onClick={deleteNode}
+          className="p-1.5 rounded-lg hover:bg-[var(--card-hover)]"
+          title="Remove from page"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </NodeViewWrapper>
+    );
+  }
+
+  const hiddenRows = rowPage.total - rowPage.rows.length;
+
+  return (
+    <NodeViewWrapper className={`${frameClass} p-3`}>
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-2" data-drag-handle>
+        <span className="text-lg">{database.icon || "📊"}</span>
+        <Link
+          href={`/databases/${database.id}`}
+          className="font-semibold hover:underline"
+          style={database.color ? { color: database.color } : undefined}
+        >
+          {database.name}
+        </Link>
+        <span className="text-xs text-[var(--muted)]">
+          {rowPage.total} {rowPage.total === 1 ? "row" : "rows"}
+        </span>
+
+        <div className="relative ml-auto">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowSettings(!showSettings);
+            }}
+            className="p-1.5 rounded-lg hover:bg-[var(--card-hover)] text-[var(--muted)]"
+            title="Embed settings"
+          >
+            <Settings2 className="w-4 h-4" />
+          </button>
+
+          {showSettings && (
+            <div
+              className="absolute right-0 top-full mt-1 w-56 bg-[var(--card)] border border-[var(--border)] rounded-lg shadow-xl p-3 z-50 space-y-3 text-sm"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div>
+                <p className="text-xs font-medium text-[var(--muted)] mb-1">Columns</p>
+                {columns.map((column) => (
+                  <label key={column.id} className="flex items-center gap-2 py-0.5">
+                    <input
+                      type="checkbox"
+                      checked={shownColumns.some((c) => c.id === column.id)}
+                      onChange={() => toggleColumn(column.id)}
+                    />
+                    <span className="truncate">{column.name}</span>
+                  </label>
+                ))}
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-[var(--muted)] mb-1">Rows to show</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_ROW_LIMIT}
+                  value={limit ?? ""}
+                  placeholder="All"
+                  onChange={(e) => {
+                    const value = Math.min(Math.floor(Number(e.target.value)), MAX_ROW_LIMIT);
+                    updateAttributes({ limit: value > 0 ? value : null });
+                  }}
+                  className="w-full px-2 py-1 bg-[var(--background)] border border-[var(--border)] rounded-md focus:outline-none focus:ring-2 focus:ring-garden-500"
+                />
+              </div>
+              <button
+                onClick={deleteNode}
+                className="w-full flex items-center gap-2 px-2 py-1 rounded-md text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+              >
+                <Trash2 className="w-4 h-4" />
+                Remove from page
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DatabaseTable
+        columns={columns}
+        visibleColumns={shownColumns}
+        rows={rowPage.rows}
+        onAddRow={addRow}
+        onUpdateRow={updateRow}
+        onDeleteRow={deleteRow}
+        onOpenRow={openRow}
+        onAddColumn={addColumn}
+        onUpdateColumn={updateColumn}
+        onDeleteColumn={deleteColumn}
+        relationTargets={database.relationTargets}
+        totals={rowPage.totals}
+        color={database.color}
+      />
+
+      {/* More rows: page through them, or open the database when the embed is limited */}
+      {hiddenRows > 0 && (
+        <div className="flex justify-center mt-2 text-sm text-[var(--muted)]">
+          {limit ? (
+            <Link href={`/databases/${database.id}`} className="flex items-center gap-1 hover:text-[var(--foreground)]">
+              {hiddenRows} more {hiddenRows === 1 ? "row" : "rows"} in the database
+              <ArrowRight className="w-4 h-4" />
+            </Link>
+          ) : isLoadingRows ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <button onClick={() => fetchRows(rowPage.nextCursor)} className="hover:text-[var(--foreground)]">
+              Load more rows
+            </button>
+          )}
+        </div>
+      )}
+
+      {conflictDialog}
+    </NodeViewWrapper>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+/**
+ * Database Picker Component
+ *
+ * A modal to search and select a database to embed in a page
+ */
+
+import { useState, useEffect, useRef } from "react";
+import { Search, Table2, X } from "lucide-react";
+
+interface DatabaseResult {
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+  _count: { rows: number };
+}
+
+interface DatabasePickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (database: DatabaseResult) => void;
+}
+
+export function DatabasePicker({ isOpen, onClose, onSelect }: DatabasePickerProps) {
+  const [query, setQuery] = useState("");
+  const [databases, setDatabases] = useState<DatabaseResult[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Load databases and focus the input when opened
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery("");
+    setSelectedIndex(0);
+    setTimeout(() => inputRef.current?.focus(), 100);
+
+    const fetchDatabases = async () => {
+      setIsLoading(true);
+      try {
+        const res = await fetch("/api/databases");
+        if (res.ok) setDatabases(await res.json());
+      } catch (error) {
+        console.error("Failed to fetch databases:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchDatabases();
+  }, [isOpen]);
+
+  const results = databases.filter((d) => d.name.toLowerCase().includes(query.trim().toLowerCase()));
+
+  // Handle keyboard navigation
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setSelectedIndex((i) => Math.min(i + 1, results.length - 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "Enter":
+        e.preventDefault();
+        if (results[selectedIndex]) {
+          onSelect(results[selectedIndex]);
+        }
+        break;
+      case "Escape":
+        onClose();
+        break;
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+
+      {/* Picker */}
+      <div
+        className="fixed z-50 w-80 bg-[var(--card)] border border-[var(--border)] rounded-xl shadow-2xl overflow-hidden animate-fade-in"
+        style={{ top: "20%", left: "50%", transform: "translateX(-50%)" }}
+      >
+        {/* Header */}
+        <div className="p-3 border-b border-[var(--border)] flex items-center gap-2">
+          <Table2 className="w-4 h-4 text-[var(--garden-500)]" />
+          <span className="text-sm font-medium">Embed Database</span>
+          <button onClick={onClose} className="ml-auto p-1 hover:bg-[var(--card-hover)] rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Search input */}
+        <div className="p-2 border-b border-[var(--border)]">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--muted)]" />
+            <input
+              ref={inputRef}
+              type="text"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setSelectedIndex(0);
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder="Search databases..."
+              className="w-full pl-9 pr-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--garden-500)]"
+            />
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="max-h-64 overflow-y-auto">
+          {isLoading ? (
+            <div className="p-4 text-center">
+              <div className="w-5 h-5 border-2 border-[var(--garden-500)]/30 border-t-[var(--garden-500)] rounded-full animate-spin mx-auto" />
+            </div>
+          ) : results.length === 0 ? (
+            <div className="p-4 text-center text-sm text-[var(--muted)]">
+              {query ? "No databases found" : "No databases yet"}
+            </div>
+          ) : (
+            <div className="p-1">
+              {results.map((database, index) => (
+                <button
+                  key={database.id}
+                  onClick={() => onSelect(database)}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  className={`
+                    w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors
+                    ${index === selectedIndex ? "bg-[var(--garden-500)]/10" : "hover:bg-[var(--card-hover)]"}
+                  `}
+                >
+                  <span className="text-lg flex-shrink-0">{database.icon || "📊"}</span>
+                  <div className="flex-1 min-w-0">
+                    <p
+                      className="font-medium truncate text-sm"
+                      style={database.color ? { color: database.color } : undefined}
+                    >
+                      {database.name}
+                    </p>
+                    <p className="text-xs text-[var(--muted)]">
+                      {database._count.rows} {database._count.rows === 1 ? "row" : "rows"}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -9,17 +9,17 @@
  * - Lists (bullet, numbered, checklist)
  * - Blockquotes
  * - Code blocks
- * - Page links
+ * - Page links, also typed as [[wikilinks]]
+ * - Embedded databases
+ * - A "/" command menu
+ * - Live editing with others, with their cursors, when collaboration is on
  */
 
 import { useEffect, useState, useRef, useCallback } from "react";
-import { useEditor, EditorContent } from "@tiptap/react";
-import StarterKit from "@tiptap/starter-kit";
+import { useEditor, EditorContent, Editor } from "@tiptap/react";
 import Placeholder from "@tiptap/extension-placeholder";
-import TaskList from "@tiptap/extension-task-list";
-import TaskItem from "@tiptap/extension-task-item";
-import Highlight from "@tiptap/extension-highlight";
-import Link from "@tiptap/extension-link";
+import Collaboration from "@tiptap/extension-collaboration";
+import CollaborationCursor from "@tiptap/extension-collaboration-cursor";
 import {
   Bold,
   Italic,
@@ -37,14 +37,28 @@ import {
   Highlighter,
   Link2,
   ExternalLink,
+  Table2,
 } from "lucide-react";
 import { PageLinkPicker } from "./PageLinkPicker";
+import { DatabasePicker } from "./DatabasePicker";
+import { DatabaseEmbed } from "./DatabaseEmbed";
+import { SlashMenu } from "./SlashMenu";
+import { WikiLinkMenu } from "./WikiLinkMenu";
+import { MenuKeys } from "./editorMenus";
+import { pageExtensions } from "./extensions";
+import { CollaborationState } from "./collaboration";
+import { DATABASE_EMBED, pageLinkLabel } from "@/lib/tiptap";
 
 interface PageEditorProps {
   initialContent: string | null;
   onUpdate: (content: string) => void;
   placeholder?: string;
   pageId?: string;
+  folderId?: string | null; // Where pages created from [[wikilinks]] go
+  // Edit through the page's shared document instead of `initialContent`
+  collaboration?: CollaborationState;
+  editorRef?: React.MutableRefObject<Editor | null>;
+  readOnly?: boolean; // Viewers can read the page but not change it
 }
 
 export function PageEditor({
@@ -52,9 +66,14 @@ export function PageEditor({
   onUpdate,
   placeholder = "Start typing...",
   pageId,
+  folderId,
+  collaboration,
+  editorRef,
+  readOnly = false,
 }: PageEditorProps) {
   const [isMounted, setIsMounted] = useState(false);
   const [showLinkPicker, setShowLinkPicker] = useState(false);
+  const [showDatabasePicker, setShowDatabasePicker] = useState(false);
   const [showUrlInput, setShowUrlInput] = useState(false);
   const [urlInput, setUrlInput] = useState("");
   
@@ -74,32 +93,24 @@ export function PageEditor({
     }
   }, [initialContent]);
 
-  // Initialize the editor - stable config
+  // Initialize the editor - stable config, rebuilt only when joining a shared document
+  const session = collaboration?.session;
   const editor = useEditor({
     extensions: [
-      StarterKit.configure({
-        heading: {
-          levels: [1, 2, 3],
-        },
-      }),
+      ...pageExtensions({ history: !session, databaseEmbed: DatabaseEmbed }),
       Placeholder.configure({
         placeholder,
       }),
-      TaskList,
-      TaskItem.configure({
-        nested: true,
-      }),
-      Highlight.configure({
-        multicolor: false,
-      }),
-      Link.configure({
-        openOnClick: true,
-        HTMLAttributes: {
-          class: "text-[var(--garden-500)] underline decoration-dotted hover:decoration-solid cursor-pointer",
-        },
-      }),
+      MenuKeys,
+      ...(session
+        ? [
+            Collaboration.configure({ document: session.provider.document }),
+            CollaborationCursor.configure({ provider: session.provider, user: session.user }),
+          ]
+        : []),
     ],
-    content: getInitialContent(),
+    content: session ? undefined : getInitialContent(),
+    editable: !readOnly,
     editorProps: {
       attributes: {
         class: "tiptap focus:outline-none min-h-[300px] px-1",
@@ -112,14 +123,22 @@ export function PageEditor({
     },
     // Prevent unnecessary editor recreations
     immediatelyRender: false,
-  });
+  }, [session]);
+
+  useEffect(() => {
+    if (editorRef) editorRef.current = editor;
+  }, [editor, editorRef]);
+
+  useEffect(() => {
+    editor?.setEditable(!readOnly);
+  }, [editor, readOnly]);
 
   // Handle client-side mounting
   useEffect(() => {
     setIsMounted(true);
   }, []);
 
-  if (!isMounted || !editor) {
+  if (!isMounted || !editor || session === undefined) {
     return (
       <div className="h-64 flex items-center justify-center border border-[var(--border)] rounded-xl bg-[var(--card)]">
         <div className="w-6 h-6 border-2 border-garden-500/30 border-t-garden-500 rounded-full animate-spin" />
@@ -130,7 +149,7 @@ export function PageEditor({
   return (
     <div className="border border-[var(--border)] rounded-xl overflow-hidden bg-[var(--card)]">
       {/* Toolbar */}
-      <div className="flex flex-wrap items-center gap-1 p-2 border-b border-[var(--border)] bg-[var(--background)]">
+      <div className={`${readOnly ? "hidden" : "flex"} flex-wrap items-center gap-1 p-2 border-b border-[var(--border)] bg-[var(--background)]`}>
         {/* Undo/Redo */}
         <div className="flex items-center gap-1 pr-2 border-r border-[var(--border)]">
           <ToolbarButton
@@ -247,6 +266,13 @@ export function PageEditor({
           >
             <Code className="w-4 h-4" />
           </ToolbarButton>
+          <ToolbarButton
+            onClick={() => setShowDatabasePicker(true)}
+            isActive={false}
+            title="Embed Database"
+          >
+            <Table2 className="w-4 h-4" />
+          </ToolbarButton>
         </div>
 
         {/* Links */}
@@ -320,8 +346,41 @@ export function PageEditor({
             )}
           </div>
         </div>
+
+        {/* Who else is here */}
+        {session && collaboration && (
+          <div className="ml-auto flex items-center gap-2 pl-2">
+            {!collaboration.isConnected && (
+              <span className="text-xs text-[var(--muted)]">Reconnecting...</span>
+            )}
+            <div className="flex -space-x-1.5">
+              {collaboration.collaborators.map((person) => (
+                <span
+                  key={person.clientId}
+                  title={person.name}
+                  className="w-6 h-6 rounded-full border-2 border-[var(--background)] flex items-center justify-center text-[10px] font-medium text-white"
+                  style={{ backgroundColor: person.color }}
+                >
+                  {person.name[0]?.toUpperCase()}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Slash command menu */}
+      <SlashMenu
+        editor={editor}
+        context={{
+          openPageLinkPicker: () => setShowLinkPicker(true),
+          openDatabasePicker: () => setShowDatabasePicker(true),
+        }}
+      />
+
+      {/* [[Wikilink]] suggestions */}
+      <WikiLinkMenu editor={editor} pageId={pageId} folderId={folderId} />
+
       {/* Page Link Picker */}
       <PageLinkPicker
         isOpen={showLinkPicker}
@@ -329,7 +388,7 @@ export function PageEditor({
         excludePageId={pageId}
         onSelect={(page) => {
           const linkText = editor.state.selection.empty 
-            ? `${page.icon || "📄"} ${page.title}`
+            ? pageLinkLabel(page)
             : null;
           
           if (linkText) {
@@ -345,6 +404,18 @@ export function PageEditor({
         }}
       />
 
+      {/* Database Picker */}
+      <DatabasePicker
+        isOpen={showDatabasePicker}
+        onClose={() => setShowDatabasePicker(false)}
+        onSelect={(database) => {
+          editor.chain().focus()
+            .insertContent({ type: DATABASE_EMBED, attrs: { databaseId: database.id } })
+            .run();
+          setShowDatabasePicker(false);
+        }}
+      />
+
       {/* Editor content */}
       <div className="p-4">
         <EditorContent editor={editor} />
@@ -0,0 +1,244 @@
+"use client";
+
+/**
+ * Revision History Component
+ *
+ * A modal listing saved versions of a page with a side-by-side
+ * diff against the current content and one-click restore
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { History, X, RotateCcw, Loader2 } from "lucide-react";
+import { diffLines, DiffRow } from "@/lib/diff";
+import { docToLines, parseDoc } from "@/lib/tiptap";
+
+interface RevisionSummary {
+  id: string;
+  title: string;
+  kind: "autosave" | "baseline" | "restore";
+  restoredFromId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface Revision extends RevisionSummary {
+  content: string | null;
+}
+
+interface RevisionHistoryProps {
+  pageId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  currentTitle: string;
+  currentContent: string | null;
+  onRestored: (page: { title: string; content: string | null; updatedAt: string }) => void;
+}
+
+const KIND_LABELS: Record<RevisionSummary["kind"], string> = {
+  autosave: "Edited",
+  baseline: "Original version",
+  restore: "Restored",
+};
+
+export function RevisionHistory({
+  pageId,
+  isOpen,
+  onClose,
+  currentTitle,
+  currentContent,
+  onRestored,
+}: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [selected, setSelected] = useState<Revision | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const selectRevision = useCallback(async (revisionId: string) => {
+    try {
+      const res = await fetch(`/api/pages/${pageId}/revisions/${revisionId}`);
+      if (res.ok) {
+        setSelected(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch revision:", error);
+    }
+  }, [pageId]);
+
+  // Load the revision list when opened
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchRevisions = async () => {
+      setIsLoading(true);
+      try {
+        const res = await fetch(`/api/pages/${pageId}/revisions`);
+        if (res.ok) {
+          const data: RevisionSummary[] = await res.json();
+          setRevisions(data);
+          if (data.length > 0) {
+            selectRevision(data[0].id);
+          } else {
+            setSelected(null);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to fetch revisions:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [isOpen, pageId, selectRevision]);
+
+  // Diff the selected revision (left) against the current page (right)
+  const rows = useMemo<DiffRow[]>(() => {
+    if (!selected) return [];
+    return diffLines(
+      [`# ${selected.title}`, ...docToLines(parseDoc(selected.content))],
+      [`# ${currentTitle}`, ...docToLines(parseDoc(currentContent))]
+    );
+  }, [selected, currentTitle, currentContent]);
+
+  const changeCount = rows.filter((r) => r.type !== "equal").length;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm("Restore this version? Your current content will stay in the history.")) return;
+
+    setIsRestoring(true);
+    try {
+      const res = await fetch(`/api/pages/${pageId}/revisions/${selected.id}/restore`, {
+        method: "POST",
+      });
+      if (res.ok) {
+        onRestored(await res.json());
+        onClose();
+      }
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[var(--card)] border border-[var(--border)] rounded-2xl w-full max-w-6xl h-[80vh] flex flex-col overflow-hidden animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-[var(--border)] flex items-center gap-2">
+          <History className="w-5 h-5 text-[var(--garden-500)]" />
+          <h2 className="font-semibold">Version History</h2>
+          <button
+            onClick={onClose}
+            className="ml-auto p-1 hover:bg-[var(--card-hover)] rounded"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Revision list */}
+          <div className="w-64 border-r border-[var(--border)] overflow-y-auto p-2">
+            {isLoading ? (
+              <div className="p-4 text-center">
+                <Loader2 className="w-5 h-5 text-garden-500 animate-spin mx-auto" />
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="p-4 text-sm text-[var(--muted)] text-center">
+                No saved versions yet
+              </p>
+            ) : (
+              revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  onClick={() => selectRevision(revision.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                    selected?.id === revision.id
+                      ? "bg-[var(--garden-500)]/10"
+                      : "hover:bg-[var(--card-hover)]"
+                  }`}
+                >
+                  <p className="text-sm font-medium">
+                    {new Date(revision.updatedAt).toLocaleString([], {
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </p>
+                  <p className="text-xs text-[var(--muted)] truncate">
+                    {KIND_LABELS[revision.kind] || "Edited"} · {revision.title}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Side-by-side diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="grid grid-cols-2 border-b border-[var(--border)] text-xs font-medium text-[var(--muted)]">
+              <div className="px-4 py-2 border-r border-[var(--border)]">Selected version</div>
+              <div className="px-4 py-2">Current</div>
+            </div>
+            <div className="flex-1 overflow-y-auto font-mono text-xs">
+              {rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-2">
+                  <div
+                    className={`px-4 py-0.5 border-r border-[var(--border)] whitespace-pre-wrap break-words ${
+                      row.type === "removed" || row.type === "changed"
+                        ? "bg-red-500/10 text-red-600 dark:text-red-400"
+                        : ""
+                    }`}
+                  >
+                    {row.left ?? ""}
+                  </div>
+                  <div
+                    className={`px-4 py-0.5 whitespace-pre-wrap break-words ${
+                      row.type === "added" || row.type === "changed"
+                        ? "bg-green-500/10 text-green-600 dark:text-green-400"
+                        : ""
+                    }`}
+                  >
+                    {row.right ?? ""}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Footer */}
+            <div className="p-3 border-t border-[var(--border)] flex items-center justify-between">
+              <span className="text-sm text-[var(--muted)]">
+                {selected
+                  ? changeCount === 0
+                    ? "Identical to the current page"
+                    : `${changeCount} changed line${changeCount !== 1 ? "s" : ""}`
+                  : ""}
+              </span>
+              <button
+                onClick={handleRestore}
+                disabled={!selected || changeCount === 0 || isRestoring}
+                className="flex items-center gap-2 px-4 py-2 bg-garden-600 hover:bg-garden-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRestoring ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-4 h-4" />
+                )}
+                Restore this version
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+/**
+ * Slash Menu Component
+ *
+ * The command menu that opens under the cursor when "/" is typed in the
+ * page editor. Typing after the slash filters the commands; arrow keys
+ * and Enter pick one, and Escape closes the menu until the next slash.
+ */
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Editor } from "@tiptap/react";
+import { SlashCommand, SlashCommandContext, filterSlashCommands, findSlashTrigger } from "./slashCommands";
+import { MenuKeyHandler, MenuTrigger } from "./editorMenus";
+
+interface SlashMenuProps {
+  editor: Editor;
+  context: Omit<SlashCommandContext, "editor">;
+}
+
+export function SlashMenu({ editor, context }: SlashMenuProps) {
+  const [trigger, setTrigger] = useState<MenuTrigger | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+  const itemRefs = useRef<Array<HTMLButtonElement | null>>([]);
+
+  // Follow the text before the cursor
+  useEffect(() => {
+    const update = () => setTrigger(editor.isFocused ? findSlashTrigger(editor) : null);
+    editor.on("transaction", update);
+    editor.on("focus", update);
+    editor.on("blur", update);
+    return () => {
+      editor.off("transaction", update);
+      editor.off("focus", update);
+      editor.off("blur", update);
+    };
+  }, [editor]);
+
+  const query = trigger?.query;
+  const results = useMemo(() => (query === undefined ? [] : filterSlashCommands(query)), [query]);
+  const isOpen = Boolean(trigger) && trigger!.from !== dismissedAt && results.length > 0;
+
+  // Start at the top whenever the query changes
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    itemRefs.current[selectedIndex]?.scrollIntoView({ block: "nearest" });
+  }, [selectedIndex]);
+
+  // Replace the "/query" with the command's result
+  const runCommand = (command: SlashCommand) => {
+    if (!trigger) return;
+    editor.chain().focus().deleteRange({ from: trigger.from, to: trigger.to }).run();
+    command.run({ ...context, editor });
+  };
+
+  // Take over navigation keys while the menu is open
+  const runRef = useRef(runCommand);
+  runRef.current = runCommand;
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKey: MenuKeyHandler = (event) => {
+      switch (event.key) {
+        case "ArrowDown":
+          setSelectedIndex((i) => (i + 1) % results.length);
+          return true;
+        case "ArrowUp":
+          setSelectedIndex((i) => (i - 1 + results.length) % results.length);
+          return true;
+        case "Enter":
+        case "Tab":
+          if (results[selectedIndex]) runRef.current(results[selectedIndex]);
+          return true;
+        case "Escape":
+          setDismissedAt(trigger!.from);
+          return true;
+        default:
+          return false;
+      }
+    };
+    const handlers: Set<MenuKeyHandler> = editor.storage.menuKeys.handlers;
+    handlers.add(handleKey);
+    return () => {
+      handlers.delete(handleKey);
+    };
+  }, [editor, isOpen, results, selectedIndex, trigger]);
+
+  if (!isOpen || !trigger) return null;
+
+  const coords = editor.view.coordsAtPos(trigger.from);
+
+  return (
+    <div
+      className="fixed z-50 w-72 max-h-80 overflow-y-auto bg-[var(--card)] border border-[var(--border)] rounded-xl shadow-2xl p-1 animate-fade-in"
+      style={{ top: coords.bottom + 4, left: coords.left }}
+    >
+      {results.map((command, index) => {
+        const Icon = command.icon;
+        return (
+          <button
+            key={command.id}
+            ref={(el) => {
+              itemRefs.current[index] = el;
+            }}
+            // Keep the editor focused so the command runs where the cursor is
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => runCommand(command)}
+            onMouseEnter={() => setSelectedIndex(index)}
+            className={`
+              w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors
+              ${index === selectedIndex ? "bg-[var(--garden-500)]/10" : "hover:bg-[var(--card-hover)]"}
+            `}
+          >
+            <span className="p-1.5 border border-[var(--border)] rounded-md bg-[var(--background)] flex-shrink-0">
+              <Icon className="w-4 h-4" />
+            </span>
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{command.title}</p>
+              <p className="text-xs text-[var(--muted)] truncate">{command.description}</p>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+/**
+ * Wikilink Menu Component
+ *
+ * Page suggestions that open under the cursor when "[[" is typed in the
+ * page editor. Typing after the brackets searches pages by title, and
+ * picking one replaces "[[title" with a link to that page. When no page
+ * has that exact title, the menu offers to create it in the current
+ * folder and link to the new page.
+ */
+
+import { useState, useEffect, useRef } from "react";
+import { Editor } from "@tiptap/react";
+import { FilePlus } from "lucide-react";
+import { pageLinkLabel } from "@/lib/tiptap";
+import { MenuKeyHandler, MenuTrigger, findTrigger } from "./editorMenus";
+
+interface PageResult {
+  id: string;
+  title: string;
+  icon: string | null;
+  color: string | null;
+  folder: { name: string; icon: string | null } | null;
+}
+
+interface WikiLinkMenuProps {
+  editor: Editor;
+  pageId?: string; // Left out of the suggestions
+  folderId?: string | null; // Where new pages are created
+}
+
+const TRIGGER_PATTERN = /\[\[([^[\]\n]*)$/;
+
+export function WikiLinkMenu({ editor, pageId, folderId }: WikiLinkMenuProps) {
+  const [trigger, setTrigger] = useState<MenuTrigger | null>(null);
+  const [results, setResults] = useState<PageResult[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+
+  // Follow the text before the cursor
+  useEffect(() => {
+    const update = () => setTrigger(editor.isFocused ? findTrigger(editor, TRIGGER_PATTERN) : null);
+    editor.on("transaction", update);
+    editor.on("focus", update);
+    editor.on("blur", update);
+    return () => {
+      editor.off("transaction", update);
+      editor.off("focus", update);
+      editor.off("blur", update);
+    };
+  }, [editor]);
+
+  const query = trigger?.query;
+  const isOpen = Boolean(trigger) && trigger!.from !== dismissedAt;
+
+  // Debounced search
+  useEffect(() => {
+    if (query === undefined || !isOpen) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams();
+        if (query.trim()) params.set("q", query.trim());
+        if (pageId) params.set("exclude", pageId);
+
+        const res = await fetch(`/api/pages/search?${params}`);
+        if (res.ok) {
+          setResults(await res.json());
+          setSelectedIndex(0);
+        }
+      } catch (error) {
+        console.error("Failed to search pages:", error);
+      }
+    }, 150);
+
+    return () => clearTimeout(timer);
+  }, [query, isOpen, pageId]);
+
+  // Offer to create the page unless one already has exactly this title
+  const title = query?.trim() ?? "";
+  const canCreate = title !== "" && !results.some((p) => p.title.toLowerCase() === title.toLowerCase());
+  const optionCount = results.length + (canCreate ? 1 : 0);
+
+  // Replace "[[query" with a link to the page
+  const insertLink = (page: { id: string; title: string; icon: string | null }) => {
+    editor
+      .chain()
+      .focus()
+      .insertContent([
+        { type: "text", text: pageLinkLabel(page), marks: [{ type: "link", attrs: { href: `/page/${page.id}` } }] },
+        { type: "text", text: " " },
+      ])
+      .run();
+  };
+
+  const choose = async (index: number) => {
+    if (!trigger) return;
+    editor.chain().focus().deleteRange({ from: trigger.from, to: trigger.to }).run();
+
+    if (index < results.length) {
+      insertLink(results[index]);
+      return;
+    }
+
+    try {
+      const res = await fetch("/api/pages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, folderId: folderId || undefined }),
+      });
+      const page = await res.json();
+      if (!res.ok) {
+        alert(page.error || "Failed to create page");
+        return;
+      }
+      insertLink(page);
+    } catch (error) {
+      console.error("Failed to create page:", error);
+    }
+  };
+
+  // Take over navigation keys while the menu is open
+  const chooseRef = useRef(choose);
+  chooseRef.current = choose;
+  useEffect(() => {
+    if (!isOpen || optionCount === 0) return;
+    const handleKey: MenuKeyHandler = (event) => {
+      switch (event.key) {
+        case "ArrowDown":
+          setSelectedIndex((i) => (i + 1) % optionCount);
+          return true;
+        case "ArrowUp":
+          setSelectedIndex((i) => (i - 1 + optionCount) % optionCount);
+          return true;
+        case "Enter":
+        case "Tab":
+          chooseRef.current(Math.min(selectedIndex, optionCount - 1));
+          return true;
+        case "Escape":
+          setDismissedAt(trigger!.from);
+          return true;
+        default:
+          return false;
+      }
+    };
+    const handlers: Set<MenuKeyHandler> = editor.storage.menuKeys.handlers;
+    handlers.add(handleKey);
+    return () => {
+      handlers.delete(handleKey);
+    };
+  }, [editor, isOpen, optionCount, selectedIndex, trigger]);
+
+  if (!isOpen || !trigger || optionCount === 0) return null;
+
+  const coords = editor.view.coordsAtPos(trigger.from);
+
+  return (
+    <div
+      className="fixed z-50 w-72 max-h-80 overflow-y-auto bg-[var(--card)] border border-[var(--border)] rounded-xl shadow-2xl p-1 animate-fade-in"
+      style={{ top: coords.bottom + 4, left: coords.left }}
+    >
+      {results.map((page, index) => (
+        <button
+          key={page.id}
+          // Keep the editor focused so the link goes where the cursor is
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => choose(index)}
+          onMouseEnter={() => setSelectedIndex(index)}
+          className={`
+            w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors
+            ${index === selectedIndex ? "bg-[var(--garden-500)]/10" : "hover:bg-[var(--card-hover)]"}
+          `}
+        >
+          <span className="text-lg flex-shrink-0">{page.icon || "📄"}</span>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate text-sm" style={page.color ? { color: page.color } : undefined}>
+              {page.title || "Untitled"}
+            </p>
+            {page.folder && (
+              <p className="text-xs text-[var(--muted)] truncate">
+                {page.folder.icon} {page.folder.name}
+              </p>
+            )}
+          </div>
+        </button>
+      ))}
+
+      {canCreate && (
+        <button
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => choose(results.length)}
+          onMouseEnter={() => setSelectedIndex(results.length)}
+          className={`
+            w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors
+            ${selectedIndex === results.length ? "bg-[var(--garden-500)]/10" : "hover:bg-[var(--card-hover)]"}
+          `}
+        >
+          <FilePlus className="w-4 h-4 flex-shrink-0 text-[var(--garden-500)]" />
+          <span className="truncate">
+            Create page <strong>{title}</strong>
+          </span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+/**
+ * Collaboration Hook
+ *
+ * Joins a page's shared document on the collaboration server so everyone
+ * with the page open edits the same document and sees each other's
+ * cursors. When collaboration isn't set up, or the server can't be reached
+ * when the page opens, `session` ends up null and the editor saves the page
+ * itself as before.
+ */
+
+import { useEffect, useState } from "react";
+import { HocuspocusProvider, WebSocketStatus } from "@hocuspocus/provider";
+import { COLOR_PALETTE } from "@/components/ui/ColorPicker";
+
+// How long to wait for the first sync before editing on our own
+const CONNECT_TIMEOUT_MS = 5000;
+
+export interface CollabSession {
+  provider: HocuspocusProvider;
+  user: { name: string; color: string };
+}
+
+// Someone else editing the page
+export interface Collaborator {
+  clientId: number;
+  name: string;
+  color: string;
+}
+
+export interface CollaborationState {
+  session: CollabSession | null | undefined; // undefined while connecting
+  collaborators: Collaborator[];
+  isConnected: boolean;
+}
+
+// The same cursor color for a user every time
+function userColor(userId: string): string {
+  const colors = Object.values(COLOR_PALETTE);
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return colors[Math.abs(hash) % colors.length];
+}
+
+export function useCollaboration(pageId: string): CollaborationState {
+  const [session, setSession] = useState<CollabSession | null | undefined>(undefined);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    let provider: HocuspocusProvider | null = null;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const fetchSession = async () => {
+      const res = await fetch(`/api/pages/${pageId}/collab`);
+      if (!res.ok) throw new Error("Failed to start collaboration");
+      return res.json();
+    };
+
+    const start = async () => {
+      try {
+        const data = await fetchSession();
+        if (cancelled) return;
+        if (!data.url) {
+          setSession(null);
+          return;
+        }
+
+        let firstToken: string | null = data.token;
+        const user = { name: data.user.name, color: userColor(data.user.id) };
+        let isSynced = false;
+
+        const current: HocuspocusProvider = new HocuspocusProvider({
+          url: data.url,
+          name: pageId,
+          // Tokens are short-lived, so reconnects ask for a fresh one
+          token: async () => {
+            const token = firstToken ?? (await fetchSession()).token;
+            firstToken = null;
+            return token;
+          },
+          onStatus: ({ status }) => setIsConnected(status === WebSocketStatus.Connected),
+          onSynced: ({ state }) => {
+            if (!state || isSynced) return;
+            isSynced = true;
+            clearTimeout(timeout);
+            setSession({ provider: current, user });
+          },
+          onAwarenessChange: ({ states }) => {
+            setCollaborators(
+              states
+                .filter((state) => state.clientId !== current.awareness?.clientID && state.user)
+                .map((state) => ({ clientId: state.clientId, name: state.user.name, color: state.user.color }))
+            );
+          },
+        });
+        provider = current;
+
+        // Don't keep the page waiting on a server that isn't there
+        timeout = setTimeout(() => {
+          if (isSynced) return;
+          current.destroy();
+          provider = null;
+          setSession(null);
+        }, CONNECT_TIMEOUT_MS);
+      } catch (error) {
+        console.error("Failed to start collaboration:", error);
+        if (!cancelled) setSession(null);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      provider?.destroy();
+      setSession(undefined);
+      setCollaborators([]);
+    };
+  }, [pageId]);
+
+  return { session, collaborators, isConnected };
+}
@@ -0,0 +1,62 @@
+/**
+ * Editor Menus
+ *
+ * Shared plumbing for menus that open at the cursor while typing, like
+ * the "/" command menu and "[[" page suggestions. A menu finds the text
+ * that opened it with findTrigger(), and while it's open it adds a key
+ * handler to `editor.storage.menuKeys.handlers` so arrow keys, Enter and
+ * Escape go to the menu before the editor. A handler returns true for
+ * keys it used.
+ */
+
+import { Editor, Extension } from "@tiptap/react";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+
+// Text typed before the cursor that opened a menu, and the range it covers
+export interface MenuTrigger {
+  query: string;
+  from: number;
+  to: number;
+}
+
+export type MenuKeyHandler = (event: KeyboardEvent) => boolean;
+
+// Match `pattern` against the text before the cursor, outside of code. The
+// pattern's last group is the query; the match must end at the cursor.
+export function findTrigger(editor: Editor, pattern: RegExp): MenuTrigger | null {
+  const { selection } = editor.state;
+  if (!selection.empty) return null;
+
+  const { $from } = selection;
+  if ($from.parent.type.spec.code) return null;
+
+  const before = $from.parent.textBetween(0, $from.parentOffset, undefined, "\ufffc");
+  const match = before.match(pattern);
+  if (!match) return null;
+
+  const query = match[match.length - 1] ?? "";
+  const length = match[0].trimStart().length;
+  return { query, from: $from.pos - length, to: $from.pos };
+}
+
+export const MenuKeys = Extension.create({
+  name: "menuKeys",
+
+  addStorage() {
+    return {
+      handlers: new Set<MenuKeyHandler>(),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage;
+    return [
+      new Plugin({
+        key: new PluginKey("menuKeys"),
+        props: {
+          handleKeyDown: (_view, event) => [...storage.handlers].some((handle) => handle(event)),
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,97 @@
+/**
+ * Page Schema Extensions
+ *
+ * The Tiptap nodes and marks a page is made of, shared by the page editor
+ * and the collaboration server, which needs the same schema to turn stored
+ * content into a shared document. Nothing in here renders anything; the
+ * editor adds its own UI extensions and the database embed's table view.
+ */
+
+import { AnyExtension, Node, getSchema, mergeAttributes } from "@tiptap/react";
+import StarterKit from "@tiptap/starter-kit";
+import TaskList from "@tiptap/extension-task-list";
+import TaskItem from "@tiptap/extension-task-item";
+import Highlight from "@tiptap/extension-highlight";
+import Link from "@tiptap/extension-link";
+import { DATABASE_EMBED } from "@/lib/tiptap";
+
+// A database embedded in a page, stored as its ID and display settings
+export const DatabaseEmbedNode = Node.create({
+  name: DATABASE_EMBED,
+  group: "block",
+  atom: true,
+  draggable: true,
+
+  addAttributes() {
+    return {
+      databaseId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-database-id"),
+        renderHTML: (attributes) => ({ "data-database-id": attributes.databaseId }),
+      },
+      columns: {
+        default: null,
+        parseHTML: (element) => {
+          try {
+            return JSON.parse(element.getAttribute("data-columns") || "null");
+          } catch {
+            return null;
+          }
+        },
+        renderHTML: (attributes) =>
+          attributes.columns ? { "data-columns": JSON.stringify(attributes.columns) } : {},
+      },
+      limit: {
+        default: null,
+        parseHTML: (element) => Number(element.getAttribute("data-limit")) || null,
+        renderHTML: (attributes) => (attributes.limit ? { "data-limit": String(attributes.limit) } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "div[data-database-embed]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["div", mergeAttributes(HTMLAttributes, { "data-database-embed": "" })];
+  },
+});
+
+interface PageExtensionOptions {
+  // Collaborative editing brings its own undo history
+  history?: boolean;
+  // The editor swaps in a database embed that renders the table
+  databaseEmbed?: AnyExtension;
+}
+
+// Extensions that make up the page schema
+export function pageExtensions({ history = true, databaseEmbed = DatabaseEmbedNode }: PageExtensionOptions = {}) {
+  return [
+    StarterKit.configure({
+      heading: {
+        levels: [1, 2, 3],
+      },
+      ...(!history && { history: false as const }),
+    }),
+    TaskList,
+    TaskItem.configure({
+      nested: true,
+    }),
+    Highlight.configure({
+      multicolor: false,
+    }),
+    Link.configure({
+      openOnClick: true,
+      HTMLAttributes: {
+        class: "text-[var(--garden-500)] underline decoration-dotted hover:decoration-solid cursor-pointer",
+      },
+    }),
+    databaseEmbed,
+  ];
+}
+
+// The ProseMirror schema of a page
+export function getPageSchema() {
+  return getSchema(pageExtensions());
+}
@@ -0,0 +1,214 @@
+/**
+ * Slash Commands
+ *
+ * The commands offered when typing "/" in the page editor. Commands live
+ * in a registry, so a feature can add its own with registerSlashCommand()
+ * without touching the menu.
+ */
+
+import { Editor } from "@tiptap/react";
+import {
+  Calendar,
+  CheckSquare,
+  Code,
+  FilePlus,
+  Heading1,
+  Heading2,
+  Heading3,
+  Link2,
+  List,
+  ListOrdered,
+  LucideIcon,
+  Minus,
+  Quote,
+  Table2,
+  Type,
+} from "lucide-react";
+import { fuzzyFilter } from "@/lib/fuzzy";
+import { pageLinkLabel } from "@/lib/tiptap";
+import { MenuTrigger, findTrigger } from "./editorMenus";
+
+// What a command can do besides editing the document
+export interface SlashCommandContext {
+  editor: Editor;
+  openPageLinkPicker: () => void;
+  openDatabasePicker: () => void;
+}
+
+export interface SlashCommand {
+  id: string;
+  title: string;
+  description: string;
+  keywords?: string[]; // Other words it can be found by
+  icon: LucideIcon;
+  // Runs once the "/query" text has been removed, with the cursor where it was
+  run: (context: SlashCommandContext) => void | Promise<void>;
+}
+
+const TRIGGER_PATTERN = /(?:^|\s)\/([^\s/]*)$/;
+
+// Insert a link to a page, labelled the way the page link picker does
+function insertPageLink(editor: Editor, page: { id: string; title: string; icon: string | null }) {
+  editor
+    .chain()
+    .focus()
+    .insertContent({
+      type: "text",
+      text: pageLinkLabel(page),
+      marks: [{ type: "link", attrs: { href: `/page/${page.id}` } }],
+    })
+    .run();
+}
+
+const commands: SlashCommand[] = [
+  {
+    id: "text",
+    title: "Text",
+    description: "Plain paragraph",
+    keywords: ["paragraph"],
+    icon: Type,
+    run: ({ editor }) => editor.chain().focus().setParagraph().run(),
+  },
+  {
+    id: "heading1",
+    title: "Heading 1",
+    description: "Big section heading",
+    keywords: ["h1", "title"],
+    icon: Heading1,
+    run: ({ editor }) => editor.chain().focus().setHeading({ level: 1 }).run(),
+  },
+  {
+    id: "heading2",
+    title: "Heading 2",
+    description: "Medium section heading",
+    keywords: ["h2", "subtitle"],
+    icon: Heading2,
+    run: ({ editor }) => editor.chain().focus().setHeading({ level: 2 }).run(),
+  },
+  {
+    id: "heading3",
+    title: "Heading 3",
+    description: "Small section heading",
+    keywords: ["h3"],
+    icon: Heading3,
+    run: ({ editor }) => editor.chain().focus().setHeading({ level: 3 }).run(),
+  },
+  {
+    id: "bulletList",
+    title: "Bullet List",
+    description: "Simple list with bullets",
+    keywords: ["unordered", "ul"],
+    icon: List,
+    run: ({ editor }) => editor.chain().focus().toggleBulletList().run(),
+  },
+  {
+    id: "orderedList",
+    title: "Numbered List",
+    description: "List with numbers",
+    keywords: ["ordered", "ol"],
+    icon: ListOrdered,
+    run: ({ editor }) => editor.chain().focus().toggleOrderedList().run(),
+  },
+  {
+    id: "taskList",
+    title: "Checklist",
+    description: "Tasks you can tick off",
+    keywords: ["todo", "task", "checkbox"],
+    icon: CheckSquare,
+    run: ({ editor }) => editor.chain().focus().toggleTaskList().run(),
+  },
+  {
+    id: "quote",
+    title: "Quote",
+    description: "Quoted block of text",
+    keywords: ["blockquote"],
+    icon: Quote,
+    run: ({ editor }) => editor.chain().focus().toggleBlockquote().run(),
+  },
+  {
+    id: "codeBlock",
+    title: "Code Block",
+    description: "Monospaced code",
+    keywords: ["snippet", "pre"],
+    icon: Code,
+    run: ({ editor }) => editor.chain().focus().setCodeBlock().run(),
+  },
+  {
+    id: "divider",
+    title: "Divider",
+    description: "Horizontal line between sections",
+    keywords: ["hr", "rule", "separator"],
+    icon: Minus,
+    run: ({ editor }) => editor.chain().focus().setHorizontalRule().run(),
+  },
+  {
+    id: "pageLink",
+    title: "Link to Page",
+    description: "Link to one of your pages",
+    keywords: ["mention", "reference"],
+    icon: Link2,
+    run: ({ openPageLinkPicker }) => openPageLinkPicker(),
+  },
+  {
+    id: "newPage",
+    title: "New Page",
+    description: "Create a page and link to it",
+    keywords: ["subpage", "create"],
+    icon: FilePlus,
+    run: async ({ editor }) => {
+      try {
+        const res = await fetch("/api/pages", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ title: "Untitled" }),
+        });
+        const page = await res.json();
+        if (!res.ok) {
+          alert(page.error || "Failed to create page");
+          return;
+        }
+        insertPageLink(editor, page);
+      } catch (error) {
+        console.error("Failed to create page:", error);
+      }
+    },
+  },
+  {
+    id: "date",
+    title: "Today's Date",
+    description: "Insert the date",
+    keywords: ["today", "now", "time"],
+    icon: Calendar,
+    run: ({ editor }) =>
+      editor
+        .chain()
+        .focus()
+        .insertContent(new Date().toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" }))
+        .run(),
+  },
+  {
+    id: "database",
+    title: "Database",
+    description: "Embed one of your databases",
+    keywords: ["table", "embed"],
+    icon: Table2,
+    run: ({ openDatabasePicker }) => openDatabasePicker(),
+  },
+];
+
+// Add a command to the menu, replacing any with the same ID
+export function registerSlashCommand(command: SlashCommand) {
+  const index = commands.findIndex((c) => c.id === command.id);
+  if (index === -1) commands.push(command);
+  else commands[index] = command;
+}
+
+// Commands matching what was typed after the "/", best match first
+export function filterSlashCommands(query: string): SlashCommand[] {
+  return fuzzyFilter(query, commands, (c) => [c.title, ...(c.keywords ?? [])]);
+}
+
+// Find a "/query" right before the cursor
+export function findSlashTrigger(editor: Editor): MenuTrigger | null {
+  return findTrigger(editor, TRIGGER_PATTERN);
+}
@@ -4,16 +4,38 @@
  * Habit Calendar Component
  * 
  * A beautiful calendar view showing habit completions
- * with a GitHub-style contribution grid
+ * with a GitHub-style contribution grid. Days the habit isn't due on
+ * are faded, and streaks and rates only count the days it is. Habits
+ * with a target shade each day by how close it came, and weekly and
+ * monthly habits show how far along this period's quota is. Today is
+ * today in the user's time zone.
  */
 
 import { useMemo } from "react";
 import { ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  completedDays,
+  completionRate,
+  computeStreaks,
+  describeSchedule,
+  formatAmount,
+  isDueOn,
+  isPeriodic,
+  isQuantitative,
+  logProgress,
+  logsByDay,
+  periodProgress,
+  streakUnit,
+  toDayKey,
+} from "@/lib/habits";
+import { dayKeyIn } from "@/lib/timezones";
+import { useTimezone } from "@/components/providers/TimezoneProvider";
 
 interface HabitLog {
   id: string;
   date: string;
   completed: boolean;
+  amount: number | null;
 }
 
 interface Habit {
@@ -21,6 +43,11 @@ interface Habit {
   name: string;
   icon: string;
   color: string;
+  frequency: string;
+  targetDays: string | null;
+  timesPerPeriod: number | null;
+  target: number | null;
+  unit: string | null;
   logs: HabitLog[];
 }
 
@@ -39,6 +66,9 @@ export function HabitCalendar({
   onNextMonth,
   onToggleDay,
 }: HabitCalendarProps) {
+  const { timezone } = useTimezone();
+  const today = dayKeyIn(new Date(), timezone);
+
   const { days, monthName, year } = useMemo(() => {
     const firstDay = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
     const lastDay = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
@@ -63,80 +93,60 @@ export function HabitCalendar({
     };
   }, [currentMonth]);
 
-  // Create a map of completed dates for quick lookup
-  const completedDates = useMemo(() => {
-    const map = new Set<string>();
-    habit.logs.forEach((log) => {
-      if (log.completed) {
-        const date = new Date(log.date);
-        map.add(`${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`);
-      }
-    });
-    return map;
-  }, [habit.logs]);
+  // Days completed, for quick lookup
+  const completedDates = useMemo(() => completedDays(habit.logs), [habit.logs]);
 
-  const isCompleted = (date: Date) => {
-    return completedDates.has(`${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`);
-  };
+  // Logs by day, for partial progress on habits with a target
+  const logs = useMemo(() => logsByDay(habit.logs), [habit.logs]);
 
-  const isToday = (date: Date) => {
-    const today = new Date();
-    return (
-      date.getDate() === today.getDate() &&
-      date.getMonth() === today.getMonth() &&
-      date.getFullYear() === today.getFullYear()
-    );
+  const progress = (date: Date) => logProgress(habit, logs.get(toDayKey(date)));
+
+  // Fill a day by its progress: solid when done, a tint of the habit's
+  // color when partly done
+  const dayColors = (date: Date) => {
+    const amount = progress(date);
+    if (amount >= 1) return { backgroundColor: habit.color, color: "white" };
+    if (amount <= 0) return { backgroundColor: "var(--background)", color: "var(--foreground)" };
+    const tint = Math.round(20 + amount * 60);
+    return {
+      backgroundColor: `color-mix(in srgb, ${habit.color} ${tint}%, var(--background))`,
+      color: amount >= 0.5 ? "white" : "var(--foreground)",
+    };
   };
 
-  const isFuture = (date: Date) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return date > today;
+  const dayTitle = (date: Date) => {
+    const notDue = isDue(date) ? "" : "Not due this day";
+    if (!isQuantitative(habit)) return notDue || undefined;
+    const logged = formatAmount(logs.get(toDayKey(date))?.amount ?? 0, habit.unit);
+    const summary = `${logged} of ${formatAmount(habit.target!, habit.unit)}`;
+    return notDue ? `${summary} · ${notDue}` : summary;
   };
 
-  // Calculate streak
-  const currentStreak = useMemo(() => {
-    let streak = 0;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    for (let i = 0; i < 365; i++) {
-      const checkDate = new Date(today);
-      checkDate.setDate(today.getDate() - i);
-      
-      if (completedDates.has(`${checkDate.getFullYear()}-${checkDate.getMonth()}-${checkDate.getDate()}`)) {
-        streak++;
-      } else if (i > 0) {
-        // Allow today to be incomplete without breaking streak
-        break;
-      }
-    }
-    
-    return streak;
-  }, [completedDates]);
+  const isDue = (date: Date) => isDueOn(habit, toDayKey(date));
+
+  const isToday = (date: Date) => toDayKey(date) === today;
+
+  const isFuture = (date: Date) => toDayKey(date) > today;
+
+  // Streaks over the whole history
+  const streaks = useMemo(
+    () => computeStreaks(habit, completedDates, today),
+    [habit, completedDates, today]
+  );
+
+  // This week's or month's quota, for habits that have one
+  const period = useMemo(
+    () => (isPeriodic(habit) ? periodProgress(habit, completedDates, today) : null),
+    [habit, completedDates, today]
+  );
 
-  // Calculate completion rate for the month
+  // Completion rate for the month, up to today
   const monthStats = useMemo(() => {
-    const today = new Date();
-    const daysInMonth = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0).getDate();
-    const daysToCount = currentMonth.getMonth() === today.getMonth() && currentMonth.getFullYear() === today.getFullYear()
-      ? today.getDate()
-      : daysInMonth;
-    
-    let completed = 0;
-    for (let d = 1; d <= daysToCount; d++) {
-      const date = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), d);
-      if (isCompleted(date)) {
-        completed++;
-      }
-    }
-    
-    return {
-      completed,
-      total: daysToCount,
-      percentage: Math.round((completed / daysToCount) * 100),
-    };
-  }, [currentMonth, completedDates]);
+    const first = toDayKey(new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1));
+    const last = toDayKey(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0));
+    if (first > today) return { completed: 0, due: 0, percentage: 0 };
+    return completionRate(habit, completedDates, first, last < today ? last : today);
+  }, [habit, currentMonth, completedDates, today]);
 
   const weekDays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
@@ -150,16 +160,43 @@ export function HabitCalendar({
         <div className="flex items-center justify-between mb-3">
           <div className="flex items-center gap-2">
             <span className="text-2xl">{habit.icon}</span>
-            <h3 className="font-semibold text-lg">{habit.name}</h3>
+            <div>
+              <h3 className="font-semibold text-lg leading-tight">{habit.name}</h3>
+              <p className="text-xs text-[var(--muted)]">{describeSchedule(habit)}</p>
+            </div>
           </div>
           <div 
             className="px-3 py-1 rounded-full text-sm font-medium text-white"
             style={{ backgroundColor: habit.color }}
           >
-            🔥 {currentStreak} day streak
+            🔥 {streaks.current} {streakUnit(habit)} streak
           </div>
         </div>
         
+        {/* Quota progress */}
+        {period && (
+          <div className="mb-3">
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-[var(--muted)]">
+                This {habit.frequency === "weekly" ? "week" : "month"}
+              </span>
+              <span className="font-medium">
+                {period.done >= period.quota ? "✓ " : ""}
+                {Math.min(period.done, period.quota)} of {period.quota}
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-[var(--background)] overflow-hidden">
+              <div
+                className="h-full rounded-full transition-all duration-500"
+                style={{
+                  width: `${Math.min(period.done / period.quota, 1) * 100}%`,
+                  backgroundColor: habit.color,
+                }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Month navigation */}
         <div className="flex items-center justify-between">
           <button
@@ -208,12 +245,13 @@ export function HabitCalendar({
                 ${date && isFuture(date) ? "opacity-30 cursor-not-allowed" : ""}
                 ${date && !isFuture(date) ? "hover:scale-110 cursor-pointer" : ""}
                 ${date && isToday(date) ? "ring-2 ring-offset-2 ring-offset-[var(--card)]" : ""}
+                ${date && !isDue(date) && progress(date) === 0 ? "opacity-40" : ""}
               `}
+              title={date ? dayTitle(date) : undefined}
               style={
                 date
                   ? {
-                      backgroundColor: isCompleted(date) ? habit.color : "var(--background)",
-                      color: isCompleted(date) ? "white" : "var(--foreground)",
+                      ...dayColors(date),
                       ...(isToday(date) && { ringColor: habit.color }),
                     }
                   : undefined
@@ -233,7 +271,7 @@ export function HabitCalendar({
         <div className="flex items-center gap-4">
           <div>
             <span className="text-[var(--muted)]">This month: </span>
-            <span className="font-semibold">{monthStats.completed}/{monthStats.total}</span>
+            <span className="font-semibold">{monthStats.completed}/{monthStats.due}</span>
           </div>
           <div>
             <span className="text-[var(--muted)]">Rate: </span>
@@ -244,10 +282,16 @@ export function HabitCalendar({
               {monthStats.percentage}%
             </span>
           </div>
+          <div>
+            <span className="text-[var(--muted)]">Best: </span>
+            <span className="font-semibold">{streaks.longest}</span>
+          </div>
         </div>
         <div className="flex items-center gap-2">
           <div className="w-3 h-3 rounded" style={{ backgroundColor: habit.color }} />
-          <span className="text-[var(--muted)]">Completed</span>
+          <span className="text-[var(--muted)]">
+            {isQuantitative(habit) ? `${formatAmount(habit.target!, habit.unit)} a day` : "Completed"}
+          </span>
         </div>
       </div>
     </div>
@@ -0,0 +1,242 @@
+"use client";
+
+/**
+ * Backup Restore Component
+ *
+ * Upload a Mind Garden JSON backup, preview what a restore would do,
+ * then apply it - into an empty workspace or merged into this one
+ */
+
+import { useState, useRef } from "react";
+import {
+  ArchiveRestore,
+  Download,
+  Eye,
+  Check,
+  Loader2,
+  AlertTriangle,
+} from "lucide-react";
+
+type RestoreMode = "empty" | "merge";
+
+type Counts = Record<
+  "folders" | "tags" | "pages" | "databases" | "rows" | "templates" | "habits" | "habitLogs",
+  number
+>;
+
+interface RestoreResult {
+  mode: RestoreMode;
+  dryRun: boolean;
+  created: Counts;
+  matched: Counts;
+}
+
+const COUNT_LABELS: Array<[keyof Counts, string]> = [
+  ["folders", "Folders"],
+  ["pages", "Pages"],
+  ["tags", "Tags"],
+  ["databases", "Databases"],
+  ["rows", "Database rows"],
+  ["templates", "Database templates"],
+  ["habits", "Habits"],
+  ["habitLogs", "Habit logs"],
+];
+
+const modes: Array<{ id: RestoreMode; name: string; description: string }> = [
+  {
+    id: "merge",
+    name: "Merge",
+    description: "Add to what's already here. Anything restored before is skipped.",
+  },
+  {
+    id: "empty",
+    name: "Empty workspace",
+    description: "Only allowed when this workspace has no data yet, besides its default folders.",
+  },
+];
+
+export function BackupRestore() {
+  const [backup, setBackup] = useState<unknown>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [preview, setPreview] = useState<RestoreResult | null>(null);
+  const [restored, setRestored] = useState<RestoreResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const selectFile = async (file: File | undefined) => {
+    if (!file) return;
+    setPreview(null);
+    setRestored(null);
+    setError(null);
+
+    try {
+      setBackup(JSON.parse(await file.text()));
+      setFileName(file.name);
+    } catch {
+      setBackup(null);
+      setFileName(null);
+      setError("That file isn't valid JSON");
+    }
+  };
+
+  // Send the backup to the server, as a dry run or for real
+  const restore = async (dryRun: boolean) => {
+    if (!backup) return;
+    if (!dryRun && !confirm("Restore this backup now?")) return;
+
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/backup/restore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ backup, mode, dryRun }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Restore failed");
+        return;
+      }
+
+      if (dryRun) {
+        setPreview(data);
+      } else {
+        setRestored(data);
+        setPreview(null);
+        setBackup(null);
+        setFileName(null);
+      }
+    } catch (error) {
+      console.error("Restore failed:", error);
+      setError("Restore failed. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const result = restored || preview;
+
+  return (
+    <div className="mb-8 p-6 bg-[var(--card)] rounded-xl border border-[var(--border)]">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="font-semibold flex items-center gap-2">
+            <ArchiveRestore className="w-5 h-5 text-[var(--garden-500)]" />
+            Restore from Backup
+          </h2>
+          <p className="text-sm text-[var(--muted)]">
+            Bring back a full workspace backup (.json)
+          </p>
+        </div>
+        <a
+          href="/api/backup"
+          className="flex items-center gap-2 px-3 py-1.5 text-sm border border-[var(--border)] hover:bg-[var(--card-hover)] rounded-lg transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Download backup
+        </a>
+      </div>
+
+      {/* File */}
+      <div className="flex items-center gap-3 mb-4">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => selectFile(e.target.files?.[0])}
+        />
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="px-4 py-2 text-sm border border-[var(--border)] hover:bg-[var(--card-hover)] rounded-lg transition-colors"
+        >
+          Choose backup file
+        </button>
+        <span className="text-sm text-[var(--muted)] truncate">
+          {fileName || "No file selected"}
+        </span>
+      </div>
+
+      {/* Mode */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+        {modes.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => {
+              setMode(option.id);
+              setPreview(null);
+            }}
+            className={`p-3 rounded-lg border-2 text-left transition-all ${
+              mode === option.id
+                ? "border-[var(--garden-500)] bg-[var(--garden-500)]/10"
+                : "border-[var(--border)] hover:border-[var(--muted)]"
+            }`}
+          >
+            <p className="font-medium text-sm">{option.name}</p>
+            <p className="text-xs text-[var(--muted)]">{option.description}</p>
+          </button>
+        ))}
+      </div>
+
+      {/* Actions */}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => restore(true)}
+          disabled={!backup || isWorking}
+          className="flex items-center gap-2 px-4 py-2 text-sm border border-[var(--border)] hover:bg-[var(--card-hover)] rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isWorking && !preview ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+          Preview
+        </button>
+        <button
+          onClick={() => restore(false)}
+          disabled={!preview || isWorking}
+          className="flex items-center gap-2 px-4 py-2 text-sm bg-garden-600 hover:bg-garden-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isWorking && preview ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArchiveRestore className="w-4 h-4" />}
+          Restore
+        </button>
+        {error && (
+          <p className="text-sm text-red-500 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+      </div>
+
+      {/* Preview / result */}
+      {result && (
+        <div className="mt-4 animate-fade-in">
+          {restored && (
+            <p className="text-sm text-green-600 flex items-center gap-2 mb-2">
+              <Check className="w-4 h-4" />
+              Backup restored
+            </p>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[var(--muted)] border-b border-[var(--border)]">
+                <th className="py-2 font-medium"></th>
+                <th className="py-2 font-medium">{restored ? "Created" : "Will be created"}</th>
+                <th className="py-2 font-medium">Already here</th>
+              </tr>
+            </thead>
+            <tbody>
+              {COUNT_LABELS.map(([key, label]) => (
+                <tr key={key} className="border-b border-[var(--border)] last:border-0">
+                  <td className="py-1.5">{label}</td>
+                  <td className="py-1.5 font-medium">{result.created[key]}</td>
+                  <td className="py-1.5 text-[var(--muted)]">{result.matched[key]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
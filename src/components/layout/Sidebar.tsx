@@ -5,8 +5,11 @@
  * 
  * The main navigation sidebar with:
  * - User profile
+ * - Workspace switcher
  * - Search
  * - PARA folders with color coding
+ * - Pages nested under pages; drag a page onto another page or a folder
+ *   to move it
  * - Quick actions
  */
 
@@ -34,11 +37,15 @@ import {
   Target,
   Settings,
   Download,
+  Upload,
   Tag,
+  Check,
+  ChevronsUpDown,
 } from "lucide-react";
 import { ColorPicker, ColorDot } from "@/components/ui/ColorPicker";
 import { NotificationCenter } from "@/components/notifications/NotificationCenter";
 import { SearchModal, useSearchModal } from "@/components/search/SearchModal";
+import { useWorkspace } from "@/components/providers/WorkspaceProvider";
 
 // Types for our data
 interface Page {
@@ -46,6 +53,7 @@ interface Page {
   title: string;
   icon: string | null;
   color: string | null;
+  parentPageId: string | null;
 }
 
 interface Folder {
@@ -65,6 +73,7 @@ export function Sidebar() {
   const router = useRouter();
   const pathname = usePathname();
   const searchModal = useSearchModal();
+  const { canEdit } = useWorkspace();
   
   const [folders, setFolders] = useState<Folder[]>([]);
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
@@ -76,6 +85,7 @@ export function Sidebar() {
   const [editingFolder, setEditingFolder] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
   const [colorPickerFolder, setColorPickerFolder] = useState<string | null>(null);
+  const [expandedPages, setExpandedPages] = useState<Set<string>>(new Set());
 
   // Fetch folders - memoized to prevent recreation
   const fetchFolders = useCallback(async () => {
@@ -124,21 +134,36 @@ export function Sidebar() {
     });
   }, []);
 
+  const togglePage = useCallback((pageId: string) => {
+    setExpandedPages((prev) => {
+      const next = new Set(prev);
+      if (next.has(pageId)) {
+        next.delete(pageId);
+      } else {
+        next.add(pageId);
+      }
+      return next;
+    });
+  }, []);
+
   const toggleDarkMode = useCallback(() => {
     const html = document.documentElement;
     html.classList.toggle("dark");
     setIsDark((prev) => !prev);
   }, []);
 
-  const handleNewPage = useCallback(async (folderId?: string) => {
+  const handleNewPage = useCallback(async (folderId?: string, parentPageId?: string) => {
     try {
       const res = await fetch("/api/pages", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ folderId }),
+        body: JSON.stringify({ folderId, parentPageId }),
       });
       if (res.ok) {
         const page = await res.json();
+        if (parentPageId) {
+          setExpandedPages((prev) => new Set(prev).add(parentPageId));
+        }
         fetchFolders(); // Refresh sidebar
         router.push(`/page/${page.id}`);
       }
@@ -147,6 +172,33 @@ export function Sidebar() {
     }
   }, [fetchFolders, router]);
 
+  // Move a dropped page under another page, or to the top of a folder
+  const handleMovePage = useCallback(async (
+    pageId: string,
+    target: { parentPageId: string } | { folderId: string }
+  ) => {
+    if ("parentPageId" in target && target.parentPageId === pageId) return;
+
+    try {
+      const res = await fetch(`/api/pages/${pageId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(target),
+      });
+      if (!res.ok) {
+        const { error } = await res.json();
+        alert(error || "Failed to move page");
+        return;
+      }
+      if ("parentPageId" in target) {
+        setExpandedPages((prev) => new Set(prev).add(target.parentPageId));
+      }
+      fetchFolders();
+    } catch (error) {
+      console.error("Failed to move page:", error);
+    }
+  }, [fetchFolders]);
+
   const handleNewFolder = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newFolderName.trim()) return;
@@ -263,6 +315,9 @@ export function Sidebar() {
         </div>
       </div>
 
+      {/* Workspace */}
+      <WorkspaceSwitcher />
+
       {/* Search */}
       <div className="p-3">
         <button
@@ -281,15 +336,17 @@ export function Sidebar() {
       <SearchModal isOpen={searchModal.isOpen} onClose={searchModal.close} />
 
       {/* Quick Actions */}
-      <div className="px-3 mb-2">
-        <button
-          onClick={() => handleNewPage()}
-          className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-lg hover:bg-[var(--card-hover)] transition-colors text-garden-600"
-        >
-          <Plus className="w-4 h-4" />
-          New Page
-        </button>
-      </div>
+      {canEdit && (
+        <div className="px-3 mb-2">
+          <button
+            onClick={() => handleNewPage()}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-lg hover:bg-[var(--card-hover)] transition-colors text-garden-600"
+          >
+            <Plus className="w-4 h-4" />
+            New Page
+          </button>
+        </div>
+      )}
 
       {/* Favorites */}
       <div className="px-3 mb-1">
@@ -381,8 +438,23 @@ export function Sidebar() {
         </Link>
       </div>
 
+      {/* Import */}
+      <div className="px-3 mb-1">
+        <Link
+          href="/import"
+          className={`flex items-center gap-2 px-3 py-2 text-sm rounded-lg transition-colors ${
+            pathname === "/import"
+              ? "bg-emerald-500/10 text-emerald-500"
+              : "hover:bg-[var(--card-hover)]"
+          }`}
+        >
+          <Upload className="w-4 h-4" />
+          Import
+        </Link>
+      </div>
+
       {/* Export */}
-      <div className="px-3 mb-2">
+      <div className="px-3 mb-1">
         <Link
           href="/export"
           className={`flex items-center gap-2 px-3 py-2 text-sm rounded-lg transition-colors ${
@@ -396,6 +468,21 @@ export function Sidebar() {
         </Link>
       </div>
 
+      {/* Trash */}
+      <div className="px-3 mb-2">
+        <Link
+          href="/trash"
+          className={`flex items-center gap-2 px-3 py-2 text-sm rounded-lg transition-colors ${
+            pathname === "/trash"
+              ? "bg-red-500/10 text-red-500"
+              : "hover:bg-[var(--card-hover)]"
+          }`}
+        >
+          <Trash2 className="w-4 h-4" />
+          Trash
+        </Link>
+      </div>
+
       {/* Folders */}
       <div className="flex-1 overflow-y-auto px-3">
         {/* Section header */}
@@ -443,6 +530,10 @@ export function Sidebar() {
                 isExpanded={expandedFolders.has(folder.id)}
                 onToggle={() => toggleFolder(folder.id)}
                 onNewPage={() => handleNewPage(folder.id)}
+                onNewSubPage={(parentPageId) => handleNewPage(folder.id, parentPageId)}
+                expandedPages={expandedPages}
+                onTogglePage={togglePage}
+                onMovePage={handleMovePage}
                 pathname={pathname}
                 onContextMenu={(e) => {
                   e.preventDefault();
@@ -489,7 +580,7 @@ export function Sidebar() {
             className="w-full flex items-center gap-2 px-3 py-2 text-sm text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
           >
             <Trash2 className="w-4 h-4" />
-            Delete
+            Move to trash
           </button>
         </div>
       )}
@@ -521,12 +612,71 @@ export function Sidebar() {
   );
 }
 
+// Workspace switcher: the open workspace, and a menu of the others
+function WorkspaceSwitcher() {
+  const { workspaces, active, switchWorkspace } = useWorkspace();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!active) return null;
+
+  return (
+    <div className="relative px-3 pt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-lg border border-[var(--border)] hover:bg-[var(--card-hover)] transition-colors text-left"
+      >
+        <span>{active.icon}</span>
+        <span className="flex-1 truncate font-medium">{active.name}</span>
+        {active.role === "viewer" && (
+          <span className="text-[10px] uppercase tracking-wide text-[var(--muted)]">View only</span>
+        )}
+        <ChevronsUpDown className="w-3.5 h-3.5 text-[var(--muted)]" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute left-3 right-3 mt-1 bg-[var(--card)] border border-[var(--border)] rounded-lg shadow-lg py-1 z-50 animate-fade-in">
+            {workspaces.map((workspace) => (
+              <button
+                key={workspace.id}
+                onClick={() => {
+                  setIsOpen(false);
+                  if (workspace.id !== active.id) switchWorkspace(workspace.id);
+                }}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm hover:bg-[var(--card-hover)] transition-colors text-left"
+              >
+                <span>{workspace.icon}</span>
+                <span className="flex-1 truncate">{workspace.name}</span>
+                {workspace.id === active.id && <Check className="w-4 h-4 text-garden-500" />}
+              </button>
+            ))}
+            <div className="border-t border-[var(--border)] my-1" />
+            <Link
+              href="/settings#workspace"
+              onClick={() => setIsOpen(false)}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-[var(--muted)] hover:bg-[var(--card-hover)] transition-colors"
+            >
+              <Settings className="w-4 h-4" />
+              Workspace settings
+            </Link>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 // Individual folder component
 interface FolderItemProps {
   folder: Folder;
   isExpanded: boolean;
   onToggle: () => void;
   onNewPage: () => void;
+  onNewSubPage: (parentPageId: string) => void;
+  expandedPages: Set<string>;
+  onTogglePage: (pageId: string) => void;
+  onMovePage: (pageId: string, target: { parentPageId: string } | { folderId: string }) => void;
   pathname: string;
   onContextMenu: (e: React.MouseEvent) => void;
   isEditing: boolean;
@@ -542,6 +692,10 @@ function FolderItem({
   isExpanded,
   onToggle,
   onNewPage,
+  onNewSubPage,
+  expandedPages,
+  onTogglePage,
+  onMovePage,
   pathname,
   onContextMenu,
   isEditing,
@@ -552,17 +706,53 @@ function FolderItem({
   onColorChange,
 }: FolderItemProps) {
   const hasContent = folder.pages.length > 0 || (folder.children?.length ?? 0) > 0;
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  // Pages at the top of the folder, and the pages under each page
+  const childPages = new Map<string, Page[]>();
+  const topPages: Page[] = [];
+  for (const page of folder.pages) {
+    const hasParent = page.parentPageId && folder.pages.some((p) => p.id === page.parentPageId);
+    if (hasParent) {
+      childPages.set(page.parentPageId!, [...(childPages.get(page.parentPageId!) ?? []), page]);
+    } else {
+      topPages.push(page);
+    }
+  }
+
+  const tree: PageTree = {
+    childPages,
+    expandedPages,
+    onTogglePage,
+    onNewSubPage,
+    onMovePage,
+    pathname,
+  };
 
   return (
     <div>
       {/* Folder row */}
       <div
-        className="group flex items-center gap-1 px-2 py-1.5 rounded-lg hover:bg-[var(--card-hover)] transition-colors cursor-pointer"
+        className={`group flex items-center gap-1 px-2 py-1.5 rounded-lg hover:bg-[var(--card-hover)] transition-colors cursor-pointer ${
+          isDropTarget ? "ring-2 ring-garden-500" : ""
+        }`}
         style={folder.color ? { 
           backgroundColor: `${folder.color}15`,
           borderLeft: `3px solid ${folder.color}`,
         } : undefined}
         onContextMenu={onContextMenu}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes(PAGE_DRAG_TYPE)) return;
+          e.preventDefault();
+          setIsDropTarget(true);
+        }}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDropTarget(false);
+          const pageId = e.dataTransfer.getData(PAGE_DRAG_TYPE);
+          if (pageId) onMovePage(pageId, { folderId: folder.id });
+        }}
       >
         <button
           onClick={onToggle}
@@ -633,28 +823,8 @@ function FolderItem({
       {isExpanded && (
         <div className="ml-4 pl-2 border-l border-[var(--border)]">
           {/* Pages */}
-          {folder.pages.map((page) => (
-            <Link
-              key={page.id}
-              href={`/page/${page.id}`}
-              className={`flex items-center gap-2 px-2 py-1.5 text-sm rounded-lg transition-colors ${
-                pathname === `/page/${page.id}`
-                  ? "bg-garden-500/10 text-garden-600"
-                  : "hover:bg-[var(--card-hover)] text-[var(--muted)]"
-              }`}
-              style={page.color && pathname !== `/page/${page.id}` ? {
-                borderLeft: `2px solid ${page.color}`,
-                paddingLeft: '6px',
-              } : undefined}
-            >
-              {page.icon ? (
-                <span className="text-base">{page.icon}</span>
-              ) : (
-                <FileText className="w-4 h-4" />
-              )}
-              {page.color && <ColorDot color={page.color} size="sm" />}
-              <span className="truncate">{page.title}</span>
-            </Link>
+          {topPages.map((page) => (
+            <PageTreeItem key={page.id} page={page} tree={tree} />
           ))}
           
           {/* Empty state */}
@@ -668,3 +838,100 @@ function FolderItem({
     </div>
   );
 }
+
+// Drag data type for moving pages around the sidebar
+const PAGE_DRAG_TYPE = "application/x-mind-garden-page";
+
+// What every page in a folder's tree shares
+interface PageTree {
+  childPages: Map<string, Page[]>;
+  expandedPages: Set<string>;
+  onTogglePage: (pageId: string) => void;
+  onNewSubPage: (parentPageId: string) => void;
+  onMovePage: (pageId: string, target: { parentPageId: string } | { folderId: string }) => void;
+  pathname: string;
+}
+
+// A page in the sidebar, with the pages under it
+function PageTreeItem({ page, tree }: { page: Page; tree: PageTree }) {
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const children = tree.childPages.get(page.id) ?? [];
+  const isExpanded = tree.expandedPages.has(page.id);
+  const isActive = tree.pathname === `/page/${page.id}`;
+
+  return (
+    <div>
+      <div
+        draggable
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.setData(PAGE_DRAG_TYPE, page.id);
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes(PAGE_DRAG_TYPE)) return;
+          e.preventDefault();
+          e.stopPropagation();
+          setIsDropTarget(true);
+        }}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setIsDropTarget(false);
+          const pageId = e.dataTransfer.getData(PAGE_DRAG_TYPE);
+          if (pageId) tree.onMovePage(pageId, { parentPageId: page.id });
+        }}
+        className={`group flex items-center gap-1 rounded-lg transition-colors ${
+          isActive ? "bg-garden-500/10 text-garden-600" : "hover:bg-[var(--card-hover)] text-[var(--muted)]"
+        } ${isDropTarget ? "ring-2 ring-garden-500" : ""}`}
+        style={page.color && !isActive ? { borderLeft: `2px solid ${page.color}` } : undefined}
+      >
+        <button
+          onClick={() => tree.onTogglePage(page.id)}
+          className={`p-0.5 ml-0.5 rounded hover:bg-[var(--border)] transition-colors ${
+            children.length === 0 ? "invisible" : ""
+          }`}
+        >
+          {isExpanded ? (
+            <ChevronDown className="w-3.5 h-3.5" />
+          ) : (
+            <ChevronRight className="w-3.5 h-3.5" />
+          )}
+        </button>
+
+        <Link
+          href={`/page/${page.id}`}
+          className="flex-1 min-w-0 flex items-center gap-2 py-1.5 text-sm"
+        >
+          {page.icon ? (
+            <span className="text-base">{page.icon}</span>
+          ) : (
+            <FileText className="w-4 h-4 flex-shrink-0" />
+          )}
+          {page.color && <ColorDot color={page.color} size="sm" />}
+          <span className="truncate">{page.title}</span>
+        </Link>
+
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            tree.onNewSubPage(page.id);
+          }}
+          className="opacity-0 group-hover:opacity-100 p-1 mr-1 rounded hover:bg-[var(--border)] transition-all"
+          title="Add sub-page"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {isExpanded && children.length > 0 && (
+        <div className="ml-3 pl-1 border-l border-[var(--border)]">
+          {children.map((child) => (
+            <PageTreeItem key={child.id} page={child} tree={tree} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,11 @@
 /**
  * Notification Center Component
  * 
- * Shows in-app notifications and manages habit reminders
+ * Shows in-app notifications and manages habit reminders, which only
+ * go off on days the habit is due, and for weekly and monthly habits
+ * only until the quota is met. Reminder times are on the clock of the
+ * user's time zone. Browsers subscribed to push get the pop-up from the
+ * server instead, so it isn't shown twice.
  */
 
 import { useState, useEffect, useCallback } from "react";
@@ -14,14 +18,21 @@ import {
   getNotificationPermission,
   requestNotificationPermission,
   sendNotification,
+  getPushSubscription,
   formatTime,
 } from "@/lib/notifications";
+import { completedDays, isDue } from "@/lib/habits";
+import { dayKeyIn, timeIn } from "@/lib/timezones";
+import { useTimezone } from "@/components/providers/TimezoneProvider";
 
 interface Habit {
   id: string;
   name: string;
   icon: string;
   color: string;
+  frequency: string;
+  targetDays: string | null;
+  timesPerPeriod: number | null;
   reminderEnabled: boolean;
   reminderTime: string | null;
   logs: Array<{ date: string; completed: boolean }>;
@@ -40,10 +51,12 @@ interface Notification {
 }
 
 export function NotificationCenter() {
+  const { timezone } = useTimezone();
   const [isOpen, setIsOpen] = useState(false);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [habits, setHabits] = useState<Habit[]>([]);
   const [permissionStatus, setPermissionStatus] = useState<string>("default");
+  const [hasPush, setHasPush] = useState(false);
   const [shownReminders, setShownReminders] = useState<Set<string>>(new Set());
 
   // Load permission status
@@ -51,6 +64,9 @@ export function NotificationCenter() {
     if (isNotificationSupported()) {
       setPermissionStatus(getNotificationPermission());
     }
+    getPushSubscription()
+      .then((subscription) => setHasPush(Boolean(subscription)))
+      .catch(() => setHasPush(false));
   }, []);
 
   // Fetch habits with reminders
@@ -74,8 +90,8 @@ export function NotificationCenter() {
   useEffect(() => {
     const checkReminders = () => {
       const now = new Date();
-      const currentTime = `${now.getHours().toString().padStart(2, "0")}:${now.getMinutes().toString().padStart(2, "0")}`;
-      const today = now.toDateString();
+      const currentTime = timeIn(now, timezone);
+      const today = dayKeyIn(now, timezone);
 
       habits.forEach((habit) => {
         if (!habit.reminderTime) return;
@@ -87,12 +103,9 @@ export function NotificationCenter() {
           // Don't show if already shown today
           if (shownReminders.has(reminderId)) return;
 
-          // Check if habit is already completed today
-          const completedToday = habit.logs.some(
-            (log) => log.completed && new Date(log.date).toDateString() === today
-          );
-
-          if (completedToday) return;
+          // Skip days it isn't due, and days it's already done
+          const completed = completedDays(habit.logs);
+          if (!isDue(habit, completed, today) || completed.has(today)) return;
 
           // Add to shown reminders
           setShownReminders((prev) => new Set([...prev, reminderId]));
@@ -112,8 +125,8 @@ export function NotificationCenter() {
 
           setNotifications((prev) => [notification, ...prev]);
 
-          // Send browser notification if permitted
-          if (permissionStatus === "granted") {
+          // Send browser notification if permitted, unless push already does
+          if (permissionStatus === "granted" && !hasPush) {
             sendNotification(`${habit.icon} ${habit.name}`, {
               body: "Time to complete your habit!",
               tag: reminderId,
@@ -131,7 +144,7 @@ export function NotificationCenter() {
     const interval = setInterval(checkReminders, 60000);
 
     return () => clearInterval(interval);
-  }, [habits, permissionStatus, shownReminders]);
+  }, [habits, permissionStatus, hasPush, shownReminders, timezone]);
 
   // Request notification permission
   const handleRequestPermission = async () => {
@@ -0,0 +1,77 @@
+"use client";
+
+/**
+ * Timezone Provider Component
+ *
+ * Loads the time zone saved on the user's account, which decides what
+ * "today" is for habits and when reminders fire. Accounts without one yet
+ * get the browser's zone saved, so the server agrees with what's on screen.
+ */
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { DEFAULT_TIMEZONE, isValidTimezone, localTimezone } from "@/lib/timezones";
+
+interface TimezoneContextValue {
+  timezone: string;
+  setTimezone: (timezone: string) => Promise<void>;
+}
+
+const TimezoneContext = createContext<TimezoneContextValue>({
+  timezone: DEFAULT_TIMEZONE,
+  setTimezone: async () => {},
+});
+
+async function saveTimezone(timezone: string): Promise<string | null> {
+  const res = await fetch("/api/account", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ timezone }),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    alert(data.error || "Failed to save time zone");
+    return null;
+  }
+  return data.timezone;
+}
+
+export function TimezoneProvider({ children }: { children: React.ReactNode }) {
+  const [timezone, setTimezoneState] = useState(DEFAULT_TIMEZONE);
+
+  useEffect(() => {
+    // The browser's zone until the account's loads (set here rather than
+    // on first render, which the server also does)
+    setTimezoneState(localTimezone());
+
+    const fetchTimezone = async () => {
+      try {
+        const res = await fetch("/api/account");
+        if (!res.ok) return;
+        const account = await res.json();
+        if (isValidTimezone(account.timezone)) {
+          setTimezoneState(account.timezone);
+        } else {
+          await saveTimezone(localTimezone());
+        }
+      } catch (error) {
+        console.error("Failed to fetch time zone:", error);
+      }
+    };
+    fetchTimezone();
+  }, []);
+
+  const setTimezone = useCallback(async (next: string) => {
+    const saved = await saveTimezone(next);
+    if (saved) setTimezoneState(saved);
+  }, []);
+
+  return (
+    <TimezoneContext.Provider value={{ timezone, setTimezone }}>
+      {children}
+    </TimezoneContext.Provider>
+  );
+}
+
+export function useTimezone() {
+  return useContext(TimezoneContext);
+}
@@ -0,0 +1,95 @@
+"use client";
+
+/**
+ * Workspace Provider Component
+ *
+ * Loads the workspaces the user belongs to and which one is open, so the
+ * sidebar can switch between them and pages can hide editing controls
+ * from viewers. Switching reloads the app, since everything on screen
+ * belongs to the workspace that was open.
+ */
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import type { WorkspaceRole } from "@/lib/workspaces";
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  icon: string;
+  memberCount: number;
+  role: WorkspaceRole;
+}
+
+interface WorkspaceContextValue {
+  workspaces: WorkspaceSummary[];
+  active: WorkspaceSummary | null;
+  canEdit: boolean;
+  switchWorkspace: (workspaceId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextValue>({
+  workspaces: [],
+  active: null,
+  canEdit: true,
+  switchWorkspace: async () => {},
+  refresh: async () => {},
+});
+
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch("/api/workspaces");
+      if (res.ok) {
+        const data = await res.json();
+        setWorkspaces(data.workspaces);
+        setActiveId(data.activeId);
+      }
+    } catch (error) {
+      console.error("Failed to fetch workspaces:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const switchWorkspace = useCallback(async (workspaceId: string) => {
+    const res = await fetch("/api/workspaces/active", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ workspaceId }),
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      alert(data.error || "Failed to switch workspace");
+      return;
+    }
+    window.location.href = "/dashboard";
+  }, []);
+
+  const active = workspaces.find((w) => w.id === activeId) ?? null;
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        active,
+        // Until the workspaces load, assume editing is allowed; the API
+        // has the final say either way
+        canEdit: active ? active.role !== "viewer" : true,
+        switchWorkspace,
+        refresh,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+export function useWorkspace() {
+  return useContext(WorkspaceContext);
+}
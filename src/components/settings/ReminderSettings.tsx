@@ -0,0 +1,236 @@
+"use client";
+
+/**
+ * Reminder Settings Component
+ *
+ * Where habit reminders go when the app is closed: push notifications on
+ * this device, email, or a webhook. Each habit's reminder time is set on
+ * the habits page; the server sends them on the clock of the user's time
+ * zone.
+ */
+
+import { useState, useEffect } from "react";
+import { BellRing, Smartphone, Mail, Webhook } from "lucide-react";
+import {
+  getPushSubscription,
+  isPushSupported,
+  requestNotificationPermission,
+  subscribeToPush,
+} from "@/lib/notifications";
+
+interface AccountReminders {
+  reminderEmail: boolean;
+  reminderWebhookUrl: string | null;
+  channels: { push: boolean; email: boolean };
+}
+
+function Toggle({ on, disabled, onClick }: { on: boolean; disabled?: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        relative w-14 h-8 rounded-full transition-colors duration-300 shrink-0 disabled:opacity-50
+        ${on ? "bg-[var(--garden-500)]" : "bg-gray-300"}
+      `}
+    >
+      <div
+        className={`
+          absolute top-1 w-6 h-6 bg-white rounded-full shadow-md
+          transition-transform duration-300
+          ${on ? "translate-x-7" : "translate-x-1"}
+        `}
+      />
+    </button>
+  );
+}
+
+export function ReminderSettings() {
+  const [account, setAccount] = useState<AccountReminders | null>(null);
+  const [pushOn, setPushOn] = useState(false);
+  const [pushSupported, setPushSupported] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchAccount = async () => {
+      try {
+        const res = await fetch("/api/account");
+        if (res.ok) {
+          const data = await res.json();
+          setAccount(data);
+          setWebhookUrl(data.reminderWebhookUrl ?? "");
+        }
+      } catch (error) {
+        console.error("Failed to fetch reminder settings:", error);
+      }
+    };
+    fetchAccount();
+
+    setPushSupported(isPushSupported());
+    getPushSubscription()
+      .then((subscription) => setPushOn(Boolean(subscription)))
+      .catch(() => setPushOn(false));
+  }, []);
+
+  const saveAccount = async (changes: Partial<AccountReminders>) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/account", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to save reminder settings");
+        return;
+      }
+      setAccount((prev) => (prev ? { ...prev, ...data } : prev));
+      setWebhookUrl(data.reminderWebhookUrl ?? "");
+    } catch (error) {
+      console.error("Failed to save reminder settings:", error);
+      alert("Failed to save reminder settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const togglePush = async () => {
+    setIsSaving(true);
+    try {
+      if (pushOn) {
+        const subscription = await getPushSubscription();
+        if (subscription) {
+          await fetch("/api/push/subscriptions", {
+            method: "DELETE",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ endpoint: subscription.endpoint }),
+          });
+          await subscription.unsubscribe();
+        }
+        setPushOn(false);
+        return;
+      }
+
+      if ((await requestNotificationPermission()) !== "granted") {
+        alert("Allow notifications for this site in your browser to get reminders here");
+        return;
+      }
+
+      const { publicKey } = await (await fetch("/api/push/subscriptions")).json();
+      const subscription = await subscribeToPush(publicKey);
+      const res = await fetch("/api/push/subscriptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(subscription.toJSON()),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        await subscription.unsubscribe();
+        alert(data.error || "Failed to turn on push notifications");
+        return;
+      }
+      setPushOn(true);
+    } catch (error) {
+      console.error("Failed to change push notifications:", error);
+      alert("Couldn't change push notifications in this browser");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!account) return null;
+
+  return (
+    <section id="reminders" className="bg-[var(--card)] rounded-xl border border-[var(--border)] overflow-hidden">
+      <div className="p-4 border-b border-[var(--border)] flex items-center gap-2">
+        <BellRing className="w-5 h-5 text-[var(--garden-500)]" />
+        <h2 className="font-semibold">Reminders</h2>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <p className="text-sm text-[var(--muted)]">
+          Habit reminders also reach you with Mind Garden closed, through any of these.
+        </p>
+
+        {/* Push */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Smartphone className="w-5 h-5 text-[var(--muted)]" />
+            <div>
+              <h3 className="font-medium">Push notifications on this device</h3>
+              <p className="text-sm text-[var(--muted)]">
+                {!account.channels.push
+                  ? "Push notifications aren't set up on this server"
+                  : !pushSupported
+                    ? "This browser doesn't support push notifications"
+                    : pushOn
+                      ? "Reminders pop up here, even with the app closed"
+                      : "Turn on for each browser you want reminders in"}
+              </p>
+            </div>
+          </div>
+          <Toggle
+            on={pushOn}
+            disabled={isSaving || (!pushOn && (!account.channels.push || !pushSupported))}
+            onClick={togglePush}
+          />
+        </div>
+
+        {/* Email */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Mail className="w-5 h-5 text-[var(--muted)]" />
+            <div>
+              <h3 className="font-medium">Email</h3>
+              <p className="text-sm text-[var(--muted)]">
+                {account.channels.email ? "Sent to your account's address" : "Email isn't set up on this server"}
+              </p>
+            </div>
+          </div>
+          <Toggle
+            on={account.reminderEmail}
+            disabled={isSaving || (!account.reminderEmail && !account.channels.email)}
+            onClick={() => saveAccount({ reminderEmail: !account.reminderEmail })}
+          />
+        </div>
+
+        {/* Webhook */}
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <Webhook className="w-5 h-5 text-[var(--muted)]" />
+            <div>
+              <h3 className="font-medium">Webhook</h3>
+              <p className="text-sm text-[var(--muted)]">
+                Each reminder is POSTed here as JSON, for chat bots and automations
+              </p>
+            </div>
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveAccount({ reminderWebhookUrl: webhookUrl.trim() || null });
+            }}
+            className="flex items-center gap-2"
+          >
+            <input
+              type="url"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              placeholder="https://example.com/hooks/mind-garden"
+              className="flex-1 px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-garden-500"
+            />
+            <button
+              type="submit"
+              disabled={isSaving || webhookUrl.trim() === (account.reminderWebhookUrl ?? "")}
+              className="px-4 py-2 bg-garden-500 text-white rounded-lg text-sm font-medium hover:bg-garden-600 disabled:opacity-50 transition-colors"
+            >
+              Save
+            </button>
+          </form>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+/**
+ * Time Zone Settings Component
+ *
+ * Which time zone habit days, streaks and reminders follow. It starts as
+ * the browser's, and only needs changing when that's wrong, say while
+ * travelling or on a computer set to another zone.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { Globe } from "lucide-react";
+import { useTimezone } from "@/components/providers/TimezoneProvider";
+import { describeTimezone, listTimezones, localTimezone } from "@/lib/timezones";
+
+export function TimezoneSettings() {
+  const { timezone, setTimezone } = useTimezone();
+  const [browserTimezone, setBrowserTimezone] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setBrowserTimezone(localTimezone());
+  }, []);
+
+  // Every zone with its offset, which takes a moment to work out
+  const timezones = useMemo(() => {
+    const zones = listTimezones();
+    return (zones.includes(timezone) ? zones : [timezone, ...zones]).map((zone) => ({
+      zone,
+      label: describeTimezone(zone),
+    }));
+  }, [timezone]);
+
+  const handleChange = async (next: string) => {
+    setIsSaving(true);
+    try {
+      await setTimezone(next);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section id="timezone" className="bg-[var(--card)] rounded-xl border border-[var(--border)] overflow-hidden">
+      <div className="p-4 border-b border-[var(--border)] flex items-center gap-2">
+        <Globe className="w-5 h-5 text-[var(--garden-500)]" />
+        <h2 className="font-semibold">Time Zone</h2>
+      </div>
+
+      <div className="p-6 space-y-3">
+        <p className="text-sm text-[var(--muted)]">
+          Habit days start at midnight and reminders go off on the clock of this zone.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={timezone}
+            onChange={(e) => handleChange(e.target.value)}
+            disabled={isSaving}
+            className="px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm disabled:opacity-50"
+          >
+            {timezones.map(({ zone, label }) => (
+              <option key={zone} value={zone}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {browserTimezone && browserTimezone !== timezone && (
+            <button
+              onClick={() => handleChange(browserTimezone)}
+              disabled={isSaving}
+              className="px-3 py-2 text-sm text-garden-600 hover:text-garden-700 font-medium disabled:opacity-50"
+            >
+              Use this device&apos;s ({browserTimezone})
+            </button>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,394 @@
+"use client";
+
+/**
+ * Workspace Settings Component
+ *
+ * The open workspace's name, members and invitations. Owners can rename
+ * it, change roles, invite people by email and remove members; everyone
+ * can leave, or start a new workspace of their own.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { Users, Mail, Trash2, LogOut, Plus, Copy, Check, X } from "lucide-react";
+import { useWorkspace } from "@/components/providers/WorkspaceProvider";
+import type { WorkspaceRole } from "@/lib/workspaces";
+
+interface Member {
+  id: string;
+  role: WorkspaceRole;
+  user: { id: string; name: string | null; email: string };
+}
+
+interface PendingInvitation {
+  email: string;
+  role: WorkspaceRole;
+  expires: string;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+// Most access first, as the role menus list them
+const ROLES = Object.keys(ROLE_LABELS) as WorkspaceRole[];
+
+export function WorkspaceSettings() {
+  const { data: session } = useSession();
+  const { active, workspaces, switchWorkspace, refresh } = useWorkspace();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [name, setName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("editor");
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+  const [showNewWorkspace, setShowNewWorkspace] = useState(false);
+  const [newWorkspaceName, setNewWorkspaceName] = useState("");
+
+  const isOwner = active?.role === "owner";
+  const workspaceUrl = active ? `/api/workspaces/${active.id}` : null;
+
+  const fetchMembers = useCallback(async () => {
+    if (!workspaceUrl) return;
+    try {
+      const res = await fetch(`${workspaceUrl}/members`);
+      if (res.ok) setMembers(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch members:", error);
+    }
+  }, [workspaceUrl]);
+
+  const fetchInvitations = useCallback(async () => {
+    if (!workspaceUrl || !isOwner) return;
+    try {
+      const res = await fetch(`${workspaceUrl}/invitations`);
+      if (res.ok) setInvitations(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch invitations:", error);
+    }
+  }, [workspaceUrl, isOwner]);
+
+  useEffect(() => {
+    fetchMembers();
+    fetchInvitations();
+  }, [fetchMembers, fetchInvitations]);
+
+  useEffect(() => {
+    if (active) setName(active.name);
+  }, [active]);
+
+  // Send a request and alert its error, if any. Returns the response body
+  // when it succeeded.
+  const send = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      alert(data.error || "Something went wrong");
+      return null;
+    }
+    return data;
+  };
+
+  const handleRename = async () => {
+    if (!workspaceUrl || !active || !name.trim() || name.trim() === active.name) return;
+    if (await send(workspaceUrl, "PATCH", { name: name.trim() })) refresh();
+  };
+
+  const handleRoleChange = async (member: Member, role: WorkspaceRole) => {
+    if (!workspaceUrl) return;
+    if (await send(`${workspaceUrl}/members/${member.id}`, "PATCH", { role })) fetchMembers();
+  };
+
+  const handleRemove = async (member: Member) => {
+    if (!workspaceUrl) return;
+    if (!confirm(`Remove ${member.user.name || member.user.email} from this workspace?`)) return;
+    if (await send(`${workspaceUrl}/members/${member.id}`, "DELETE")) fetchMembers();
+  };
+
+  const handleLeave = async () => {
+    if (!workspaceUrl || !active) return;
+    const me = members.find((m) => m.user.id === session?.user?.id);
+    const other = workspaces.find((w) => w.id !== active.id);
+    if (!me) return;
+    if (!other) {
+      alert("This is your only workspace. Create or join another one before leaving it.");
+      return;
+    }
+    if (!confirm(`Leave ${active.name}? You'll need a new invitation to come back.`)) return;
+    if (await send(`${workspaceUrl}/members/${me.id}`, "DELETE")) switchWorkspace(other.id);
+  };
+
+  const handleDelete = async () => {
+    if (!workspaceUrl || !active) return;
+    const other = workspaces.find((w) => w.id !== active.id);
+    if (!other) {
+      alert("This is your only workspace. Create or join another one before deleting it.");
+      return;
+    }
+    if (!confirm(`Delete ${active.name} and everything in it for all ${active.memberCount} member(s)? This cannot be undone.`)) {
+      return;
+    }
+    if (await send(workspaceUrl, "DELETE")) switchWorkspace(other.id);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspaceUrl || !inviteEmail.trim()) return;
+
+    setIsInviting(true);
+    const data = await send(`${workspaceUrl}/invitations`, "POST", { email: inviteEmail, role: inviteRole });
+    setIsInviting(false);
+
+    if (data) {
+      setInviteEmail("");
+      setCopied(false);
+      // Without email set up, the link has to be passed on by hand
+      setInviteLink(data.emailed ? null : data.url);
+      fetchInvitations();
+    }
+  };
+
+  const handleRevoke = async (email: string) => {
+    if (!workspaceUrl) return;
+    if (await send(`${workspaceUrl}/invitations?email=${encodeURIComponent(email)}`, "DELETE")) {
+      fetchInvitations();
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!inviteLink) return;
+    await navigator.clipboard.writeText(inviteLink);
+    setCopied(true);
+  };
+
+  const handleCreateWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWorkspaceName.trim()) return;
+    // The new workspace becomes the active one
+    if (await send("/api/workspaces", "POST", { name: newWorkspaceName.trim() })) {
+      window.location.href = "/dashboard";
+    }
+  };
+
+  if (!active) return null;
+
+  return (
+    <section id="workspace" className="bg-[var(--card)] rounded-xl border border-[var(--border)] overflow-hidden">
+      <div className="p-4 border-b border-[var(--border)] flex items-center gap-2">
+        <Users className="w-5 h-5 text-[var(--garden-500)]" />
+        <h2 className="font-semibold">Workspace</h2>
+        <span className="ml-auto text-sm text-[var(--muted)]">Your role: {ROLE_LABELS[active.role]}</span>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Name */}
+        <div>
+          <h3 className="font-medium mb-2">Name</h3>
+          <div className="flex items-center gap-2">
+            <span className="text-2xl">{active.icon}</span>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={handleRename}
+              onKeyDown={(e) => e.key === "Enter" && handleRename()}
+              disabled={!isOwner}
+              className="flex-1 px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-garden-500 disabled:opacity-60"
+            />
+          </div>
+        </div>
+
+        <hr className="border-[var(--border)]" />
+
+        {/* Members */}
+        <div>
+          <h3 className="font-medium mb-3">Members</h3>
+          <div className="space-y-2">
+            {members.map((member) => {
+              const isMe = member.user.id === session?.user?.id;
+              return (
+                <div key={member.id} className="flex items-center gap-3">
+                  <div className="w-8 h-8 rounded-full bg-garden-500 flex items-center justify-center text-white text-sm font-medium">
+                    {member.user.name?.[0] || member.user.email[0]}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {member.user.name || member.user.email}
+                      {isMe && <span className="text-[var(--muted)] font-normal"> (you)</span>}
+                    </p>
+                    <p className="text-xs text-[var(--muted)] truncate">{member.user.email}</p>
+                  </div>
+                  {isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value as WorkspaceRole)}
+                      className="px-2 py-1 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm"
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-sm text-[var(--muted)]">{ROLE_LABELS[member.role]}</span>
+                  )}
+                  {isOwner && !isMe && (
+                    <button
+                      onClick={() => handleRemove(member)}
+                      className="p-1.5 rounded-lg text-[var(--muted)] hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                      title="Remove from workspace"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Invitations */}
+        {isOwner && (
+          <>
+            <hr className="border-[var(--border)]" />
+            <div>
+              <h3 className="font-medium mb-3 flex items-center gap-2">
+                <Mail className="w-4 h-4" />
+                Invite people
+              </h3>
+              <form onSubmit={handleInvite} className="flex gap-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  className="flex-1 px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-garden-500"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                  className="px-2 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={isInviting || !inviteEmail.trim()}
+                  className="px-4 py-2 bg-garden-500 text-white rounded-lg text-sm font-medium hover:bg-garden-600 disabled:opacity-50 transition-colors"
+                >
+                  {isInviting ? "Inviting..." : "Invite"}
+                </button>
+              </form>
+
+              {inviteLink && (
+                <div className="mt-3 p-3 bg-[var(--background)] border border-[var(--border)] rounded-lg">
+                  <p className="text-xs text-[var(--muted)] mb-2">
+                    Email isn&apos;t set up, so send this link yourself:
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 text-xs truncate">{inviteLink}</code>
+                    <button
+                      onClick={handleCopyLink}
+                      className="p-1.5 rounded-lg hover:bg-[var(--card-hover)] transition-colors"
+                      title="Copy link"
+                    >
+                      {copied ? <Check className="w-4 h-4 text-garden-500" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {invitations.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  <p className="text-xs font-medium text-[var(--muted)] uppercase tracking-wide">Pending</p>
+                  {invitations.map((invitation) => (
+                    <div key={invitation.email} className="flex items-center gap-3 text-sm">
+                      <span className="flex-1 truncate">{invitation.email}</span>
+                      <span className="text-[var(--muted)]">{ROLE_LABELS[invitation.role]}</span>
+                      <button
+                        onClick={() => handleRevoke(invitation.email)}
+                        className="p-1.5 rounded-lg text-[var(--muted)] hover:text-red-500 transition-colors"
+                        title="Revoke invitation"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        <hr className="border-[var(--border)]" />
+
+        {/* New workspace */}
+        {showNewWorkspace ? (
+          <form onSubmit={handleCreateWorkspace} className="flex gap-2">
+            <input
+              type="text"
+              value={newWorkspaceName}
+              onChange={(e) => setNewWorkspaceName(e.target.value)}
+              placeholder="Workspace name"
+              autoFocus
+              className="flex-1 px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-garden-500"
+            />
+            <button
+              type="submit"
+              disabled={!newWorkspaceName.trim()}
+              className="px-4 py-2 bg-garden-500 text-white rounded-lg text-sm font-medium hover:bg-garden-600 disabled:opacity-50 transition-colors"
+            >
+              Create
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowNewWorkspace(false)}
+              className="px-4 py-2 text-sm rounded-lg hover:bg-[var(--card-hover)] transition-colors"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setShowNewWorkspace(true)}
+              className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg border border-[var(--border)] hover:bg-[var(--card-hover)] transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New workspace
+            </button>
+            <button
+              onClick={handleLeave}
+              className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg border border-[var(--border)] hover:bg-[var(--card-hover)] transition-colors"
+            >
+              <LogOut className="w-4 h-4" />
+              Leave workspace
+            </button>
+            {isOwner && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg border border-red-500/30 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete workspace
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+/**
+ * Conflict Dialog Component
+ *
+ * Shown when a save is refused because the page or row was changed
+ * somewhere else (another tab or device) since it was loaded. The user
+ * picks how to resolve it: merge both sets of changes, overwrite with
+ * theirs, save their own version as a copy, or drop their changes.
+ */
+
+import { GitMerge, Save, Copy, Undo2 } from "lucide-react";
+
+export type ConflictChoice = "merge" | "overwrite" | "copy" | "discard";
+
+interface ConflictDialogProps {
+  kind: "page" | "row";
+  onResolve: (choice: ConflictChoice) => void;
+}
+
+const OPTIONS: Array<{ choice: ConflictChoice; label: string; description: string; icon: typeof Save }> = [
+  {
+    choice: "merge",
+    label: "Merge",
+    description: "Keep the other changes and add yours. Where both changed the same thing, yours is kept.",
+    icon: GitMerge,
+  },
+  {
+    choice: "overwrite",
+    label: "Overwrite",
+    description: "Save your version over the other changes.",
+    icon: Save,
+  },
+  {
+    choice: "copy",
+    label: "Save as copy",
+    description: "Leave the other version as it is and save yours separately.",
+    icon: Copy,
+  },
+  {
+    choice: "discard",
+    label: "Discard mine",
+    description: "Drop your changes and show the latest version.",
+    icon: Undo2,
+  },
+];
+
+export function ConflictDialog({ kind, onResolve }: ConflictDialogProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-[var(--card)] border border-[var(--border)] rounded-xl p-6 w-full max-w-md animate-fade-in">
+        <h3 className="font-semibold mb-2">This {kind} was changed elsewhere</h3>
+        <p className="text-sm text-[var(--muted)] mb-4">
+          Someone saved a newer version (maybe you, in another tab or device) after you opened it.
+          How should your changes be saved?
+        </p>
+
+        <div className="space-y-2">
+          {OPTIONS.map(({ choice, label, description, icon: Icon }) => (
+            <button
+              key={choice}
+              onClick={() => onResolve(choice)}
+              className="w-full flex items-start gap-3 px-3 py-2.5 border border-[var(--border)] rounded-lg text-left hover:border-garden-500/50 hover:bg-[var(--card-hover)] transition-colors"
+            >
+              <Icon className="w-4 h-4 mt-0.5 flex-shrink-0 text-[var(--garden-500)]" />
+              <span>
+                <span className="block text-sm font-medium">{label}</span>
+                <span className="block text-xs text-[var(--muted)]">{description}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Account
+ *
+ * Preferences that belong to the user rather than a workspace, so they
+ * follow them into every workspace they open.
+ */
+
+import { db } from "./db";
+import { DEFAULT_TIMEZONE, isValidTimezone } from "./timezones";
+
+// The time zone a user's habit days and reminders follow
+export async function getUserTimezone(userId: string): Promise<string> {
+  const user = await db.user.findUnique({ where: { id: userId }, select: { timezone: true } });
+  return isValidTimezone(user?.timezone) ? user.timezone : DEFAULT_TIMEZONE;
+}
@@ -0,0 +1,615 @@
+/**
+ * Account Backup & Restore
+ *
+ * A versioned JSON snapshot of everything in a workspace: folders, tags,
+ * pages, databases with their rows and views, and habits with their logs,
+ * plus the user's saved database templates. Records
+ * keep their original IDs so references between them survive; restoring
+ * gives everything new IDs and rewrites page links and database
+ * references to match.
+ *
+ * Restores either go into an empty workspace or merge into an existing
+ * one. In merge mode, folders, tags, habits and templates with the same
+ * name are reused, and pages and databases that were restored before (same name
+ * and creation time) are skipped, so restoring the same file twice
+ * doesn't duplicate anything.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { syncPageLinks } from "./links";
+import { DatabaseView, parseView, serializeView } from "./views";
+import { SnapshotRow, templateSnapshot } from "./templates";
+import { ContentOwner } from "./workspaces";
+
+export const BACKUP_FORMAT = "mind-garden-backup";
+export const BACKUP_VERSION = 1;
+
+export interface BackupFolder {
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+  order: number;
+  folderType: string | null;
+  isDefault?: boolean; // Missing from backups made before it was kept
+  parentId: string | null;
+  createdAt: string;
+}
+
+export interface BackupTag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface BackupPage {
+  id: string;
+  title: string;
+  content: string | null;
+  icon: string | null;
+  color: string | null;
+  isFavorite: boolean;
+  folderId: string | null;
+  tagIds: string[];
+  databaseRowId?: string | null; // Set for pages that database rows open as
+  parentPageId?: string | null; // Missing from backups made before sub-pages existed
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BackupDatabase {
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+  description: string | null;
+  columns: unknown[];
+  rows: Array<{ id: string; data: Record<string, unknown>; createdAt: string }>;
+  views?: DatabaseView[]; // Missing from backups made before views existed
+  createdAt: string;
+}
+
+export interface BackupTemplate {
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+  description: string | null;
+  columns: unknown[];
+  views: unknown[];
+  rows: SnapshotRow[];
+  sourceId: string | null;
+  createdAt: string;
+}
+
+export interface BackupHabit {
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+  description: string | null;
+  frequency: string;
+  targetDays: string | null;
+  timesPerPeriod?: number | null; // Missing from backups made before weekly and monthly habits existed
+  isArchived: boolean;
+  reminderEnabled: boolean;
+  reminderTime: string | null;
+  target?: number | null; // Missing from backups made before habit targets existed
+  unit?: string | null;
+  createdAt: string;
+  logs: Array<{ date: string; completed: boolean; amount?: number | null; note: string | null }>;
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  folders: BackupFolder[];
+  tags: BackupTag[];
+  pages: BackupPage[];
+  databases: BackupDatabase[];
+  templates?: BackupTemplate[]; // Missing from backups made before templates existed
+  habits: BackupHabit[];
+}
+
+export type RestoreMode = "empty" | "merge";
+
+type Counts = Record<
+  "folders" | "tags" | "pages" | "databases" | "rows" | "templates" | "habits" | "habitLogs",
+  number
+>;
+
+export interface RestoreResult {
+  mode: RestoreMode;
+  dryRun: boolean;
+  created: Counts;
+  matched: Counts; // Already in the account, so reused or skipped
+}
+
+// Snapshot a workspace and the user's templates. Items in the trash are left out.
+export async function createBackup({ userId, workspaceId }: ContentOwner): Promise<Backup> {
+  const [folders, tags, pages, databases, templates, habits] = await Promise.all([
+    db.folder.findMany({ where: { workspaceId, deletedAt: null }, orderBy: { createdAt: "asc" } }),
+    db.tag.findMany({ where: { workspaceId }, orderBy: { createdAt: "asc" } }),
+    db.page.findMany({
+      where: { workspaceId, deletedAt: null },
+      include: { tags: { select: { id: true } } },
+      orderBy: { createdAt: "asc" },
+    }),
+    db.database.findMany({
+      where: { workspaceId, deletedAt: null },
+      include: {
+        rows: { orderBy: { createdAt: "asc" } },
+        views: { orderBy: { position: "asc" } },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    db.databaseTemplate.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    db.habit.findMany({
+      where: { workspaceId },
+      include: { logs: { orderBy: { date: "asc" } } },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    folders: folders.map((f) => ({
+      id: f.id,
+      name: f.name,
+      icon: f.icon,
+      color: f.color,
+      order: f.order,
+      folderType: f.folderType,
+      isDefault: f.isDefault,
+      parentId: f.parentId,
+      createdAt: f.createdAt.toISOString(),
+    })),
+    tags: tags.map((t) => ({ id: t.id, name: t.name, color: t.color })),
+    pages: pages.map((p) => ({
+      id: p.id,
+      title: p.title,
+      content: p.content,
+      icon: p.icon,
+      color: p.color,
+      isFavorite: p.isFavorite,
+      folderId: p.folderId,
+      tagIds: p.tags.map((t) => t.id),
+      databaseRowId: p.databaseRowId,
+      parentPageId: p.parentPageId,
+      createdAt: p.createdAt.toISOString(),
+      updatedAt: p.updatedAt.toISOString(),
+    })),
+    databases: databases.map((d) => ({
+      id: d.id,
+      name: d.name,
+      icon: d.icon,
+      color: d.color,
+      description: d.description,
+      columns: JSON.parse(d.columns || "[]"),
+      rows: d.rows.map((r) => ({
+        id: r.id,
+        data: JSON.parse(r.data || "{}"),
+        createdAt: r.createdAt.toISOString(),
+      })),
+      views: d.views.map(parseView),
+      createdAt: d.createdAt.toISOString(),
+    })),
+    templates: templates.map((t) => {
+      const snapshot = templateSnapshot(t);
+      return {
+        id: t.id,
+        name: t.name,
+        icon: t.icon,
+        color: t.color,
+        description: t.description,
+        columns: snapshot.columns,
+        views: snapshot.views,
+        rows: snapshot.rows,
+        sourceId: t.sourceId,
+        createdAt: t.createdAt.toISOString(),
+      };
+    }),
+    habits: habits.map((h) => ({
+      id: h.id,
+      name: h.name,
+      icon: h.icon,
+      color: h.color,
+      description: h.description,
+      frequency: h.frequency,
+      targetDays: h.targetDays,
+      timesPerPeriod: h.timesPerPeriod,
+      isArchived: h.isArchived,
+      reminderEnabled: h.reminderEnabled,
+      reminderTime: h.reminderTime,
+      target: h.target,
+      unit: h.unit,
+      createdAt: h.createdAt.toISOString(),
+      logs: h.logs.map((l) => ({
+        date: l.date.toISOString(),
+        completed: l.completed,
+        amount: l.amount,
+        note: l.note,
+      })),
+    })),
+  };
+}
+
+// Check that a parsed file is a backup we can read. Returns an error message, or null.
+export function validateBackup(data: unknown): string | null {
+  if (!data || typeof data !== "object") return "Not a Mind Garden backup file";
+
+  const backup = data as Partial<Backup>;
+  if (backup.format !== BACKUP_FORMAT) return "Not a Mind Garden backup file";
+  if (typeof backup.version !== "number" || backup.version > BACKUP_VERSION) {
+    return `Backup version ${backup.version} is newer than this app supports (${BACKUP_VERSION})`;
+  }
+
+  for (const key of ["folders", "tags", "pages", "databases", "habits"] as const) {
+    if (!Array.isArray(backup[key])) return `Backup is missing "${key}"`;
+  }
+
+  return null;
+}
+
+// Does the workspace (or the user's templates) have anything a restore into an empty one would clash with?
+// The default folders every workspace has don't count; a restore reuses them.
+export async function isWorkspaceEmpty({ userId, workspaceId }: ContentOwner): Promise<boolean> {
+  const counts = await Promise.all([
+    db.folder.count({ where: { workspaceId, deletedAt: null, isDefault: false } }),
+    db.page.count({ where: { workspaceId, deletedAt: null } }),
+    db.database.count({ where: { workspaceId, deletedAt: null } }),
+    db.habit.count({ where: { workspaceId } }),
+    db.tag.count({ where: { workspaceId } }),
+    db.databaseTemplate.count({ where: { userId } }),
+  ]);
+  return counts.every((count) => count === 0);
+}
+
+// Rewrite references to backed-up records so they point at the restored ones:
+// exact ID values (e.g. in database cells and node attributes) and
+// /page/<id> or /databases/<id> hrefs inside Tiptap content
+function remapReferences<T>(value: T, ids: Map<string, string>): T {
+  if (typeof value === "string") {
+    if (ids.has(value)) return ids.get(value) as T;
+    return value.replace(
+      /(\/page\/|\/databases\/)([A-Za-z0-9_-]+)/g,
+      (match, prefix, id) => (ids.has(id) ? prefix + ids.get(id) : match)
+    ) as T;
+  }
+  if (Array.isArray(value)) return value.map((v) => remapReferences(v, ids)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, remapReferences(v, ids)])
+    ) as T;
+  }
+  return value;
+}
+
+// Page content is stored as a JSON string, so remap inside the parsed document
+function remapContent(content: string | null, ids: Map<string, string>): string | null {
+  if (!content) return content;
+  try {
+    return JSON.stringify(remapReferences(JSON.parse(content), ids));
+  } catch {
+    return content;
+  }
+}
+
+function emptyCounts(): Counts {
+  return { folders: 0, tags: 0, pages: 0, databases: 0, rows: 0, templates: 0, habits: 0, habitLogs: 0 };
+}
+
+// Restore a backup into a workspace. With `dryRun`, nothing is written
+// and the result says what would happen; otherwise everything is written
+// in a single transaction.
+export async function restoreBackup(
+  backup: Backup,
+  { userId, workspaceId }: ContentOwner,
+  { mode, dryRun }: { mode: RestoreMode; dryRun: boolean }
+): Promise<RestoreResult> {
+  const result: RestoreResult = { mode, dryRun, created: emptyCounts(), matched: emptyCounts() };
+  const merge = mode === "merge";
+
+  // Old ID -> new ID for every restored record
+  const ids = new Map<string, string>();
+  const placeholder = (oldId: string) => `dry-run:${oldId}`;
+  const contents = new Map<string, string | null>();
+
+  const run = async (tx: Prisma.TransactionClient) => {
+    // Tags, matched by name
+    for (const tag of backup.tags) {
+      const existing = merge
+        ? await tx.tag.findUnique({ where: { workspaceId_name: { workspaceId, name: tag.name } } })
+        : null;
+      if (existing) {
+        ids.set(tag.id, existing.id);
+        result.matched.tags++;
+      } else {
+        const created = dryRun
+          ? null
+          : await tx.tag.create({ data: { name: tag.name, color: tag.color, userId, workspaceId } });
+        ids.set(tag.id, created?.id ?? placeholder(tag.id));
+        result.created.tags++;
+      }
+    }
+
+    // Folders, parents before children, matched by name within the same parent
+    const folderIds = new Set(backup.folders.map((f) => f.id));
+    const depth = (folder: BackupFolder, seen = 0): number => {
+      const parent = backup.folders.find((f) => f.id === folder.parentId);
+      return parent && seen < backup.folders.length ? depth(parent, seen + 1) + 1 : 0;
+    };
+    const folders = [...backup.folders].sort((a, b) => depth(a) - depth(b));
+
+    // The default folders (Projects, Areas, ...) can't be deleted, so the
+    // backup's go into the ones already here, matched by type. Older
+    // backups don't say which are default; top-level ones of a default type are.
+    const defaultFolders = await tx.folder.findMany({ where: { workspaceId, isDefault: true, deletedAt: null } });
+
+    for (const folder of folders) {
+      const parentId =
+        folder.parentId && folderIds.has(folder.parentId) ? ids.get(folder.parentId) ?? null : null;
+      const isDefault = folder.isDefault ?? (!folder.parentId && folder.folderType !== null);
+      const defaultFolder = isDefault ? defaultFolders.find((f) => f.folderType === folder.folderType) : undefined;
+      if (defaultFolder) defaultFolders.splice(defaultFolders.indexOf(defaultFolder), 1);
+      const existing =
+        defaultFolder ??
+        (merge
+          ? await tx.folder.findFirst({
+              where: { workspaceId, name: folder.name, parentId, deletedAt: null },
+            })
+          : null);
+      if (existing) {
+        ids.set(folder.id, existing.id);
+        result.matched.folders++;
+      } else {
+        const created = dryRun
+          ? null
+          : await tx.folder.create({
+              data: {
+                name: folder.name,
+                icon: folder.icon,
+                color: folder.color,
+                order: folder.order,
+                folderType: folder.folderType,
+                parentId,
+                createdAt: new Date(folder.createdAt),
+                userId,
+                workspaceId,
+              },
+            });
+        ids.set(folder.id, created?.id ?? placeholder(folder.id));
+        result.created.folders++;
+      }
+    }
+
+    // Page shells first so every page has its new ID before links are rewritten
+    const newPages: BackupPage[] = [];
+    for (const page of backup.pages) {
+      const existing = merge
+        ? await tx.page.findFirst({
+            where: { workspaceId, title: page.title, createdAt: new Date(page.createdAt), deletedAt: null },
+          })
+        : null;
+      if (existing) {
+        ids.set(page.id, existing.id);
+        result.matched.pages++;
+        continue;
+      }
+      const created = dryRun
+        ? null
+        : await tx.page.create({
+            data: {
+              title: page.title,
+              icon: page.icon,
+              color: page.color,
+              isFavorite: page.isFavorite,
+              folderId: page.folderId ? ids.get(page.folderId) ?? null : null,
+              createdAt: new Date(page.createdAt),
+              userId,
+              workspaceId,
+              tags: {
+                connect: page.tagIds
+                  .filter((id) => ids.has(id))
+                  .map((id) => ({ id: ids.get(id)! })),
+              },
+            },
+          });
+      ids.set(page.id, created?.id ?? placeholder(page.id));
+      newPages.push(page);
+      result.created.pages++;
+    }
+
+    // Database shells, for the same reason
+    const newDatabases: BackupDatabase[] = [];
+    for (const database of backup.databases) {
+      const existing = merge
+        ? await tx.database.findFirst({
+            where: { workspaceId, name: database.name, createdAt: new Date(database.createdAt), deletedAt: null },
+          })
+        : null;
+      if (existing) {
+        ids.set(database.id, existing.id);
+        result.matched.databases++;
+        result.matched.rows += database.rows.length;
+        continue;
+      }
+      const created = dryRun
+        ? null
+        : await tx.database.create({
+            data: {
+              name: database.name,
+              icon: database.icon,
+              color: database.color,
+              description: database.description,
+              createdAt: new Date(database.createdAt),
+              userId,
+              workspaceId,
+            },
+          });
+      ids.set(database.id, created?.id ?? placeholder(database.id));
+      newDatabases.push(database);
+      result.created.databases++;
+    }
+
+    // Columns and rows, with references to pages and databases rewritten
+    const createdRows: Array<{ id: string; data: Record<string, unknown>; written: string }> = [];
+    for (const database of newDatabases) {
+      result.created.rows += database.rows.length;
+      if (dryRun) continue;
+
+      const databaseId = ids.get(database.id)!;
+      await tx.database.update({
+        where: { id: databaseId },
+        data: { columns: JSON.stringify(remapReferences(database.columns, ids)) },
+      });
+      const data = database.rows.map((row) => JSON.stringify(remapReferences(row.data, ids)));
+      const rows = await tx.databaseRow.createManyAndReturn({
+        data: database.rows.map((row, index) => ({
+          databaseId,
+          data: data[index],
+          createdAt: new Date(row.createdAt),
+        })),
+        select: { id: true },
+      });
+      rows.forEach((row, index) => {
+        ids.set(database.rows[index].id, row.id);
+        createdRows.push({ id: row.id, data: database.rows[index].data, written: data[index] });
+      });
+    }
+
+    // Rows can point at other rows, which only have IDs now
+    for (const row of createdRows) {
+      const data = JSON.stringify(remapReferences(row.data, ids));
+      if (data !== row.written) {
+        await tx.databaseRow.update({ where: { id: row.id }, data: { data } });
+      }
+    }
+
+    // Views, whose filters can point at rows too
+    for (const database of newDatabases) {
+      if (dryRun || !database.views?.length) continue;
+
+      const databaseId = ids.get(database.id)!;
+      for (const { id, position, ...settings } of database.views) {
+        const view = await tx.databaseView.create({
+          data: { ...serializeView(remapReferences(settings, ids)), position, databaseId },
+        });
+        ids.set(id, view.id);
+      }
+    }
+
+    // Page content, now that every link target has its new ID, and the
+    // rows and pages that pages belong to
+    for (const page of newPages) {
+      if (dryRun) continue;
+      const pageId = ids.get(page.id)!;
+      contents.set(pageId, remapContent(page.content, ids));
+      await tx.page.update({
+        where: { id: pageId },
+        data: {
+          content: contents.get(pageId),
+          updatedAt: new Date(page.updatedAt),
+          databaseRowId: page.databaseRowId ? ids.get(page.databaseRowId) ?? null : undefined,
+          parentPageId: page.parentPageId ? ids.get(page.parentPageId) ?? null : undefined,
+        },
+      });
+    }
+
+    // Templates, matched by name. Their columns can point at restored
+    // databases, and their rows at restored rows and pages.
+    for (const template of backup.templates ?? []) {
+      const existing = merge
+        ? await tx.databaseTemplate.findFirst({ where: { userId, name: template.name } })
+        : null;
+      if (existing) {
+        result.matched.templates++;
+        continue;
+      }
+      result.created.templates++;
+      if (dryRun) continue;
+      await tx.databaseTemplate.create({
+        data: {
+          name: template.name,
+          icon: template.icon,
+          color: template.color,
+          description: template.description,
+          columns: JSON.stringify(remapReferences(template.columns, ids)),
+          views: JSON.stringify(remapReferences(template.views, ids)),
+          rows: JSON.stringify(remapReferences(template.rows, ids)),
+          sourceId: template.sourceId ? ids.get(template.sourceId) ?? template.sourceId : null,
+          createdAt: new Date(template.createdAt),
+          userId,
+        },
+      });
+    }
+
+    // Habits, matched by name; logs for days already logged are kept as they are
+    for (const habit of backup.habits) {
+      const existing = merge ? await tx.habit.findFirst({ where: { workspaceId, name: habit.name } }) : null;
+      let habitId = existing?.id ?? null;
+
+      if (existing) {
+        result.matched.habits++;
+      } else {
+        result.created.habits++;
+        if (!dryRun) {
+          const created = await tx.habit.create({
+            data: {
+              name: habit.name,
+              icon: habit.icon,
+              color: habit.color,
+              description: habit.description,
+              frequency: habit.frequency,
+              targetDays: habit.targetDays,
+              timesPerPeriod: habit.timesPerPeriod ?? null,
+              isArchived: habit.isArchived,
+              reminderEnabled: habit.reminderEnabled,
+              reminderTime: habit.reminderTime,
+              target: habit.target ?? null,
+              unit: habit.unit ?? null,
+              createdAt: new Date(habit.createdAt),
+              userId,
+              workspaceId,
+            },
+          });
+          habitId = created.id;
+        }
+      }
+
+      const existingLogs = habitId
+        ? await tx.habitLog.count({
+            where: { habitId, date: { in: habit.logs.map((l) => new Date(l.date)) } },
+          })
+        : 0;
+      result.matched.habitLogs += existingLogs;
+      result.created.habitLogs += habit.logs.length - existingLogs;
+
+      if (!dryRun && habitId) {
+        await tx.habitLog.createMany({
+          data: habit.logs.map((log) => ({
+            habitId: habitId!,
+            date: new Date(log.date),
+            completed: log.completed,
+            amount: log.amount ?? null,
+            note: log.note,
+          })),
+          skipDuplicates: true,
+        });
+      }
+    }
+  };
+
+  await db.$transaction(run, { timeout: 120_000 });
+
+  // Index links between the restored pages for backlinks
+  for (const [pageId, content] of contents) {
+    await syncPageLinks(pageId, workspaceId, content);
+  }
+
+  return result;
+}
@@ -0,0 +1,20 @@
+/**
+ * Callback URLs
+ *
+ * Where to go after signing in or up. Links that need an account, like
+ * workspace invitations, send people to /login?callbackUrl=/invite/...
+ * so they come back afterwards. Only paths on this site are followed.
+ */
+
+export function getCallbackUrl(fallback = "/dashboard"): string {
+  if (typeof window === "undefined") return fallback;
+  const url = new URLSearchParams(window.location.search).get("callbackUrl");
+  // "//host" and "/\host" are other sites to a browser
+  return url && url.startsWith("/") && !/^\/[/\\]/.test(url) ? url : fallback;
+}
+
+// Carry the callback URL over to the other auth page
+export function withCallbackUrl(path: string): string {
+  const url = getCallbackUrl("");
+  return url ? `${path}?callbackUrl=${encodeURIComponent(url)}` : path;
+}
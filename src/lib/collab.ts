@@ -0,0 +1,127 @@
+/**
+ * Collaborative Editing
+ *
+ * Pages are edited together through one Yjs document per page, synced by
+ * the collaboration server (src/server/collab.ts) over a WebSocket. The app
+ * hands the browser a short-lived token for a page, and the server checks
+ * it before letting the browser join.
+ *
+ * The merged document is written back to Page.content, which stays the
+ * source of truth. The Yjs state is kept next to it so editors that
+ * reconnect merge their changes instead of duplicating the page; if the
+ * content was changed some other way since (e.g. restoring a version), the
+ * document is rebuilt from the content instead.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import * as Y from "yjs";
+import { prosemirrorJSONToYXmlFragment, yDocToProsemirrorJSON } from "y-prosemirror";
+import { db } from "./db";
+import { syncPageLinks } from "./links";
+import { recordRevision } from "./revisions";
+import { parseDoc } from "./tiptap";
+import { getPageSchema } from "@/components/editor/extensions";
+
+// Public WebSocket URL of the collaboration server; unset turns it off
+export const COLLAB_URL = process.env.COLLAB_URL || null;
+
+// How long a token can be used to join a page
+const TOKEN_TTL_SECONDS = 5 * 60;
+
+// Tiptap's Collaboration extension keeps the document in this field
+const FIELD = "default";
+
+// Tokens are signed with the app's NEXTAUTH_SECRET, which the collaboration
+// server needs too
+export function isCollabSecretSet(): boolean {
+  return Boolean(process.env.NEXTAUTH_SECRET);
+}
+
+function sign(payload: string): string {
+  // Signing with an empty key would let anyone forge a token
+  if (!isCollabSecretSet()) throw new Error("NEXTAUTH_SECRET must be set to sign collaboration tokens");
+  return createHmac("sha256", process.env.NEXTAUTH_SECRET!)
+    .update(payload)
+    .digest("base64url");
+}
+
+// Create a token that lets a user join a page's document. Throws without
+// NEXTAUTH_SECRET
+export function createCollabToken(userId: string, pageId: string): string {
+  const payload = Buffer.from(
+    JSON.stringify({ userId, pageId, exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS })
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+// Check a token for a page. Returns the user it was issued to, or null.
+// Throws without NEXTAUTH_SECRET
+export function verifyCollabToken(token: string, pageId: string): string | null {
+  if (!isCollabSecretSet()) throw new Error("NEXTAUTH_SECRET must be set to check collaboration tokens");
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (claims.pageId !== pageId || claims.exp < Date.now() / 1000) return null;
+    return typeof claims.userId === "string" ? claims.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+// The stored content a Yjs document stands for
+function documentContent(document: Y.Doc): string {
+  return JSON.stringify(yDocToProsemirrorJSON(document, FIELD));
+}
+
+// Fill a freshly opened document from the page
+export async function loadCollabDocument(pageId: string, document: Y.Doc) {
+  const page = await db.page.findUnique({
+    where: { id: pageId },
+    select: { content: true, collabState: { select: { state: true } } },
+  });
+  if (!page) return;
+
+  if (page.collabState) {
+    const saved = new Y.Doc();
+    Y.applyUpdate(saved, page.collabState.state);
+    if (documentContent(saved) === page.content) {
+      Y.applyUpdate(document, page.collabState.state);
+      return;
+    }
+  }
+
+  prosemirrorJSONToYXmlFragment(getPageSchema(), parseDoc(page.content), document.getXmlFragment(FIELD));
+}
+
+// Write a document back to its page, with the usual link index and history
+export async function storeCollabDocument(pageId: string, document: Y.Doc) {
+  const existing = await db.page.findFirst({
+    where: { id: pageId, deletedAt: null },
+  });
+  if (!existing) return;
+
+  const content = documentContent(document);
+  const state = new Uint8Array(Y.encodeStateAsUpdate(document));
+
+  await db.pageCollabState.upsert({
+    where: { pageId },
+    create: { pageId, state },
+    update: { state },
+  });
+
+  if (content === existing.content) return;
+
+  const page = await db.page.update({
+    where: { id: pageId },
+    data: { content },
+  });
+  if (existing.workspaceId) await syncPageLinks(pageId, existing.workspaceId, content);
+  await recordRevision(page, existing);
+}
@@ -0,0 +1,636 @@
+/**
+ * Database Columns
+ *
+ * Column types, cell validation, converting values when a column changes
+ * type, and calculated columns (rollups and formulas). Used by both the
+ * table in the browser and the database API routes, so nothing in here
+ * touches the database.
+ */
+
+import {
+  FormulaError,
+  FormulaNode,
+  FormulaValue,
+  evaluateFormula,
+  formulaReferences,
+  parseFormula,
+  renameFormulaReference,
+} from "./formula";
+
+export type ColumnType =
+  | "text"
+  | "number"
+  | "checkbox"
+  | "select"
+  | "multiSelect"
+  | "date"
+  | "url"
+  | "email"
+  | "relation"
+  | "rollup"
+  | "formula";
+
+export type RollupAggregate =
+  | "count"
+  | "countValues"
+  | "sum"
+  | "average"
+  | "min"
+  | "max"
+  | "earliest"
+  | "latest"
+  | "percentChecked";
+
+export interface RelationConfig {
+  target: "database" | "page";
+  databaseId?: string; // For database targets
+}
+
+export interface RollupConfig {
+  relationColumnId: string;
+  targetColumnId?: string; // Not needed for "count"
+  aggregate: RollupAggregate;
+}
+
+export interface Column {
+  id: string;
+  name: string;
+  type: ColumnType;
+  options?: string[]; // For select and multiSelect
+  relation?: RelationConfig; // For relation
+  rollup?: RollupConfig; // For rollup
+  formula?: string; // For formula, e.g. prop("Price") * prop("Qty")
+}
+
+// A row or page a relation column can point at
+export interface RelationTarget {
+  id: string;
+  title: string;
+  data?: Record<string, unknown>; // Row data, for database targets
+}
+
+export interface CellValidation {
+  value?: unknown;
+  error?: string;
+}
+
+export interface ConversionContext {
+  // Titles of the rows or pages the old relation column pointed at, by id
+  fromTitles?: Map<string, string>;
+  // Ids of the rows or pages the new relation column can point at, by lowercased title
+  toIds?: Map<string, string>;
+}
+
+export const COLUMN_TYPES: Array<{ type: ColumnType; label: string }> = [
+  { type: "text", label: "Text" },
+  { type: "number", label: "Number" },
+  { type: "checkbox", label: "Checkbox" },
+  { type: "select", label: "Select" },
+  { type: "multiSelect", label: "Multi-select" },
+  { type: "date", label: "Date" },
+  { type: "url", label: "URL" },
+  { type: "email", label: "Email" },
+  { type: "relation", label: "Relation" },
+  { type: "rollup", label: "Rollup" },
+  { type: "formula", label: "Formula" },
+];
+
+export const ROLLUP_AGGREGATES: Array<{ aggregate: RollupAggregate; label: string }> = [
+  { aggregate: "count", label: "Count related" },
+  { aggregate: "countValues", label: "Count values" },
+  { aggregate: "sum", label: "Sum" },
+  { aggregate: "average", label: "Average" },
+  { aggregate: "min", label: "Min" },
+  { aggregate: "max", label: "Max" },
+  { aggregate: "earliest", label: "Earliest date" },
+  { aggregate: "latest", label: "Latest date" },
+  { aggregate: "percentChecked", label: "Percent checked" },
+];
+
+// Text that reads as a ticked or unticked checkbox
+export const TRUE_VALUES = ["true", "yes", "y", "x", "✓", "✔", "checked"];
+export const FALSE_VALUES = ["false", "no", "n", "", "unchecked"];
+
+const ARRAY_TYPES: ColumnType[] = ["multiSelect", "relation"];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+// Whether values of this type are calculated rather than stored
+export function isComputedColumn(column: Pick<Column, "type">): boolean {
+  return column.type === "rollup" || column.type === "formula";
+}
+
+// The value an empty cell of this type holds
+export function emptyCellValue(type: ColumnType): unknown {
+  if (type === "checkbox") return false;
+  if (type === "number") return null;
+  if (ARRAY_TYPES.includes(type)) return [];
+  return "";
+}
+
+export function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+// Turn "2024-03-05", "2024-03-05T10:00:00Z" or "March 5, 2024" into "2024-03-05"
+export function toISODate(value: string): string | null {
+  const text = value.trim();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const build = (year: number, month: number, day: number) => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+  };
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (iso) return build(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const written = text.match(/^([A-Za-z]+)\.? (\d{1,2}),? (\d{4})$/);
+  if (written) {
+    const month = MONTHS.findIndex((m) => m.startsWith(written[1].toLowerCase()) && written[1].length >= 3);
+    if (month >= 0) return build(Number(written[3]), month + 1, Number(written[2]));
+  }
+
+  return null;
+}
+
+// Add https:// to bare domains and check the result is a web address
+export function normalizeUrl(value: string): string | null {
+  const text = value.trim();
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(text) ? text : `https://${text}`;
+  try {
+    const url = new URL(withScheme);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    if (!url.hostname.includes(".") && url.hostname !== "localhost") return null;
+    return withScheme;
+  } catch {
+    return null;
+  }
+}
+
+// Check a value against its column and return it in the stored form
+export function validateCellValue(column: Column, value: unknown): CellValidation {
+  if (isComputedColumn(column)) return { value: undefined };
+  if (isEmpty(value)) return { value: emptyCellValue(column.type) };
+
+  const invalid = (expected: string) => ({ error: `${column.name} must be ${expected}` });
+
+  switch (column.type) {
+    case "text":
+      if (typeof value === "string") return { value };
+      if (typeof value === "number" || typeof value === "boolean") return { value: String(value) };
+      return invalid("text");
+
+    case "number": {
+      const number = typeof value === "string" ? Number(value.replace(/,/g, "")) : value;
+      if (typeof number === "number" && Number.isFinite(number)) return { value: number };
+      return invalid("a number");
+    }
+
+    case "checkbox":
+      if (typeof value === "boolean") return { value };
+      return invalid("true or false");
+
+    case "select":
+      if (typeof value !== "string") return invalid("one of its options");
+      if (column.options && !column.options.includes(value)) {
+        return { error: `"${value}" is not an option for ${column.name}` };
+      }
+      return { value };
+
+    case "multiSelect": {
+      const values = Array.isArray(value) ? value : [value];
+      if (!values.every((v) => typeof v === "string")) return invalid("a list of options");
+      const unknown = values.find((v) => column.options && !column.options.includes(v));
+      if (unknown !== undefined) return { error: `"${unknown}" is not an option for ${column.name}` };
+      return { value: Array.from(new Set(values)) };
+    }
+
+    case "date": {
+      const date = typeof value === "string" ? toISODate(value) : null;
+      return date ? { value: date } : invalid("a date");
+    }
+
+    case "url": {
+      const url = typeof value === "string" ? normalizeUrl(value) : null;
+      return url ? { value: url } : invalid("a web address");
+    }
+
+    case "email":
+      if (typeof value === "string" && EMAIL_PATTERN.test(value.trim())) return { value: value.trim() };
+      return invalid("an email address");
+
+    case "relation": {
+      const ids = Array.isArray(value) ? value : [value];
+      if (!ids.every((id) => typeof id === "string" && id)) return invalid("a list of linked items");
+      return { value: Array.from(new Set(ids)) };
+    }
+
+    default:
+      return { error: `${column.name} has an unknown type` };
+  }
+}
+
+// Validate every cell in a row; stale keys of deleted columns are kept as they are
+export function validateRowData(
+  columns: Column[],
+  data: unknown
+): { data?: Record<string, unknown>; error?: string } {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { error: "Row data must be an object" };
+  }
+
+  const result: Record<string, unknown> = { ...(data as Record<string, unknown>) };
+  for (const column of columns) {
+    if (!(column.id in result)) continue;
+    const { value, error } = validateCellValue(column, result[column.id]);
+    if (error) return { error };
+    if (value === undefined) delete result[column.id];
+    else result[column.id] = value;
+  }
+
+  return { data: result };
+}
+
+// Check the shape of a database's column list
+export function validateColumns(columns: unknown): string | null {
+  if (!Array.isArray(columns)) return "Columns must be a list";
+
+  const ids = new Set<string>();
+  for (const column of columns as Column[]) {
+    if (!column || typeof column.id !== "string" || !column.id || typeof column.name !== "string") {
+      return "Every column needs an id and a name";
+    }
+    if (ids.has(column.id)) return `Duplicate column id "${column.id}"`;
+    ids.add(column.id);
+
+    if (!COLUMN_TYPES.some((t) => t.type === column.type)) {
+      return `${column.name} has an unknown type`;
+    }
+    if (column.options && !(Array.isArray(column.options) && column.options.every((o) => typeof o === "string"))) {
+      return `${column.name} has invalid options`;
+    }
+    if (column.type === "relation") {
+      const relation = column.relation;
+      if (!relation || (relation.target !== "page" && relation.target !== "database")) {
+        return `${column.name} needs to point at pages or a database`;
+      }
+      if (relation.target === "database" && !relation.databaseId) {
+        return `${column.name} needs a database to point at`;
+      }
+    }
+    if (column.type === "rollup") {
+      const rollup = column.rollup;
+      if (!rollup || !ROLLUP_AGGREGATES.some((a) => a.aggregate === rollup.aggregate)) {
+        return `${column.name} needs a rollup calculation`;
+      }
+      const relationColumn = (columns as Column[]).find((c) => c.id === rollup.relationColumnId);
+      if (relationColumn?.type !== "relation") return `${column.name} needs a relation to roll up`;
+      if (rollup.aggregate !== "count" && !rollup.targetColumnId) {
+        return `${column.name} needs a property to roll up`;
+      }
+    }
+    if (column.type === "formula") {
+      const error = checkFormula(column, columns as Column[]);
+      if (error) return error;
+    }
+  }
+
+  const { cycles } = orderComputedColumns(columns as Column[]);
+  if (cycles.length > 0) {
+    return `${cycles.map((c) => c.name).join(", ")} refer to each other in a loop`;
+  }
+
+  return null;
+}
+
+// Parsed formulas, cached by expression
+const parsedFormulas = new Map<string, FormulaNode | FormulaError>();
+
+function getParsedFormula(expression: string): FormulaNode {
+  if (!parsedFormulas.has(expression)) {
+    try {
+      parsedFormulas.set(expression, parseFormula(expression));
+    } catch (error) {
+      parsedFormulas.set(expression, error instanceof FormulaError ? error : new FormulaError(String(error)));
+    }
+  }
+  const parsed = parsedFormulas.get(expression)!;
+  if (parsed instanceof FormulaError) throw parsed;
+  return parsed;
+}
+
+function findColumnByName(columns: Column[], name: string): Column | undefined {
+  const lower = name.trim().toLowerCase();
+  return columns.find((c) => c.name.trim().toLowerCase() === lower);
+}
+
+// Check a formula parses and only reads columns that exist
+export function checkFormula(column: Column, columns: Column[]): string | null {
+  try {
+    const references = formulaReferences(getParsedFormula(column.formula ?? ""));
+    const missing = references.find((name) => !findColumnByName(columns, name));
+    if (missing) return `${column.name} refers to "${missing}", which isn't a column`;
+    return null;
+  } catch (error) {
+    return `${column.name}: ${error instanceof Error ? error.message : "invalid formula"}`;
+  }
+}
+
+// Apply changes to one column, keeping formulas that use its name working
+export function applyColumnUpdate(columns: Column[], columnId: string, updates: Partial<Column>): Column[] {
+  const previous = columns.find((c) => c.id === columnId);
+  const renamed = previous && updates.name !== undefined && updates.name !== previous.name;
+
+  return columns.map((column) => {
+    if (column.id === columnId) return { ...column, ...updates };
+    if (renamed && column.type === "formula" && column.formula) {
+      return { ...column, formula: renameFormulaReference(column.formula, previous.name, updates.name!) };
+    }
+    return column;
+  });
+}
+
+// Columns each formula reads
+function formulaDependencies(column: Column, columns: Column[]): Column[] {
+  try {
+    return formulaReferences(getParsedFormula(column.formula ?? ""))
+      .map((name) => findColumnByName(columns, name))
+      .filter((c): c is Column => Boolean(c));
+  } catch {
+    return [];
+  }
+}
+
+// Order calculated columns so each comes after the formulas it reads, and find loops
+export function orderComputedColumns(columns: Column[]): { order: Column[]; cycles: Column[] } {
+  const order: Column[] = [];
+  const cycles = new Set<Column>();
+  const state = new Map<string, "visiting" | "done">();
+
+  const visit = (column: Column, path: Column[]) => {
+    if (state.get(column.id) === "done") return;
+    if (state.get(column.id) === "visiting") {
+      path.slice(path.indexOf(column)).forEach((c) => cycles.add(c));
+      return;
+    }
+    state.set(column.id, "visiting");
+    if (column.type === "formula") {
+      for (const dependency of formulaDependencies(column, columns)) {
+        if (isComputedColumn(dependency)) visit(dependency, [...path, column]);
+      }
+    }
+    state.set(column.id, "done");
+    if (!cycles.has(column)) order.push(column);
+  };
+
+  columns.filter(isComputedColumn).forEach((column) => visit(column, []));
+  return { order, cycles: Array.from(cycles) };
+}
+
+// Parse a database's stored column list
+export function parseColumns(columns: string | null | undefined): Column[] {
+  try {
+    const parsed = JSON.parse(columns || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// The title of a row is its first text column
+export function getRowTitle(columns: Column[], data: Record<string, unknown>): string {
+  const titleColumn = columns.find((c) => c.type === "text");
+  const title = titleColumn ? data[titleColumn.id] : undefined;
+  return typeof title === "string" && title.trim() ? title : "Untitled";
+}
+
+// Whether a column change needs the stored values converted
+export function needsConversion(from: Column, to: Column): boolean {
+  if (from.type !== to.type) return true;
+  return (
+    to.type === "relation" &&
+    (from.relation?.target !== to.relation?.target || from.relation?.databaseId !== to.relation?.databaseId)
+  );
+}
+
+// Break a value into text pieces, one per item of a list
+function toTextParts(value: unknown, from: Column, context: ConversionContext): string[] {
+  if (isEmpty(value)) return [];
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      from.type === "relation" ? context.fromTitles?.get(String(item)) ?? String(item) : String(item)
+    );
+  }
+  if (from.type === "checkbox") return value ? ["Yes"] : [];
+  return [String(value)];
+}
+
+// Convert a stored value from one column type to another, dropping what doesn't fit
+export function convertCellValue(
+  value: unknown,
+  from: Column,
+  to: Column,
+  context: ConversionContext = {}
+): unknown {
+  if (isComputedColumn(to)) return undefined;
+  if (isComputedColumn(from)) return emptyCellValue(to.type);
+
+  const parts = toTextParts(value, from, context);
+  const text = parts.join(", ");
+  const listParts = parts.length === 1 ? parts[0].split(",").map((p) => p.trim()).filter(Boolean) : parts;
+
+  switch (to.type) {
+    case "text":
+      return text;
+    case "number": {
+      if (from.type === "checkbox") return value ? 1 : 0;
+      const number = Number((parts[0] ?? "").replace(/,/g, ""));
+      return parts.length > 0 && Number.isFinite(number) ? number : null;
+    }
+    case "checkbox":
+      if (from.type === "number") return Number(value) !== 0 && !isEmpty(value);
+      return parts.length > 0 && parts.every((p) => TRUE_VALUES.includes(p.trim().toLowerCase()));
+    case "select":
+      return parts[0] ?? "";
+    case "multiSelect":
+      return Array.from(new Set(listParts));
+    case "date":
+      return toISODate(text) ?? "";
+    case "url":
+      return normalizeUrl(text) ?? "";
+    case "email":
+      return EMAIL_PATTERN.test(text.trim()) ? text.trim() : "";
+    case "relation": {
+      const known = new Set(context.toIds?.values() ?? []);
+      const ids = listParts
+        .map((part) => (known.has(part) ? part : context.toIds?.get(part.toLowerCase())))
+        .filter((id): id is string => Boolean(id));
+      return Array.from(new Set(ids));
+    }
+    default:
+      return emptyCellValue(to.type);
+  }
+}
+
+// Add any converted select values that aren't options yet
+export function withConvertedOptions(column: Column, values: unknown[]): Column {
+  if (column.type !== "select" && column.type !== "multiSelect") return column;
+  const options = [...(column.options || [])];
+  for (const value of values.flat()) {
+    if (typeof value === "string" && value && !options.includes(value)) options.push(value);
+  }
+  return { ...column, options };
+}
+
+// Value of a cell as a formula sees it: lists become text, relations their titles
+function toFormulaValue(column: Column, value: unknown, targets?: RelationTarget[]): FormulaValue {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) {
+    if (column.type === "relation") {
+      const titles = new Map((targets || []).map((t) => [t.id, t.title]));
+      return value.map((id) => titles.get(String(id)) ?? "").filter(Boolean).join(", ");
+    }
+    return value.map(String).join(", ");
+  }
+  if (typeof value === "number" || typeof value === "string" || typeof value === "boolean") return value;
+  return null;
+}
+
+export interface ComputedRow {
+  values: Record<string, unknown>; // Stored values plus rollups and formulas
+  errors: Record<string, string>; // Formula errors by column id
+}
+
+// Calculate every rollup and formula in a row, in dependency order
+export function computeRowValues(
+  columns: Column[],
+  data: Record<string, unknown>,
+  relationTargets: Record<string, RelationTarget[] | undefined> = {}
+): ComputedRow {
+  const values: Record<string, unknown> = { ...data };
+  const errors: Record<string, string> = {};
+  const { order, cycles } = orderComputedColumns(columns);
+
+  for (const column of cycles) {
+    values[column.id] = null;
+    errors[column.id] = "Formulas refer to each other in a loop";
+  }
+
+  for (const column of order) {
+    if (column.type === "rollup") {
+      values[column.id] = computeRollup(column, data, relationTargets[column.rollup?.relationColumnId ?? ""]);
+      continue;
+    }
+
+    try {
+      values[column.id] = evaluateFormula(getParsedFormula(column.formula ?? ""), (name) => {
+        const source = findColumnByName(columns, name);
+        if (!source) throw new FormulaError(`No column named "${name}"`);
+        if (errors[source.id]) throw new FormulaError(`${source.name} has an error`);
+        return toFormulaValue(source, values[source.id], relationTargets[source.id]);
+      });
+    } catch (error) {
+      values[column.id] = null;
+      errors[column.id] = error instanceof Error ? error.message : "Formula failed";
+    }
+  }
+
+  return { values, errors };
+}
+
+// Totals for number columns, and formulas that come out as numbers
+export function sumColumns(columns: Column[], rows: Array<Record<string, unknown>>): Record<string, number> {
+  const totals: Record<string, number> = {};
+
+  for (const column of columns) {
+    const values = rows.map((values) => values[column.id]);
+    const isNumeric =
+      column.type === "number" ||
+      (column.type === "formula" &&
+        values.some((v) => typeof v === "number") &&
+        values.every((v) => typeof v === "number" || v === null || v === undefined));
+    if (!isNumeric) continue;
+    totals[column.id] = values.reduce<number>((sum, v) => sum + (Number(v) || 0), 0);
+  }
+
+  return totals;
+}
+
+// Calculate a rollup cell from the row's related items
+export function computeRollup(
+  column: Column,
+  data: Record<string, unknown>,
+  targets: RelationTarget[] | undefined
+): number | string | null {
+  const rollup = column.rollup;
+  if (!rollup || !targets) return null;
+
+  const relatedIds = data[rollup.relationColumnId];
+  const targetsById = new Map(targets.map((t) => [t.id, t]));
+  const related = (Array.isArray(relatedIds) ? relatedIds : [])
+    .map((id) => targetsById.get(String(id)))
+    .filter((t): t is RelationTarget => Boolean(t));
+
+  if (rollup.aggregate === "count") return related.length;
+
+  const values = related
+    .map((t) => (rollup.targetColumnId ? t.data?.[rollup.targetColumnId] : undefined))
+    .flatMap((v) => (Array.isArray(v) ? v : [v]));
+  const filled = values.filter((v) => !isEmpty(v));
+  const numbers = filled.filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+  const dates = filled
+    .map((v) => (typeof v === "string" ? toISODate(v) : null))
+    .filter((d): d is string => Boolean(d))
+    .sort();
+
+  switch (rollup.aggregate) {
+    case "countValues":
+      return filled.length;
+    case "sum":
+      return numbers.reduce((sum, n) => sum + n, 0);
+    case "average":
+      return numbers.length ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : null;
+    case "min":
+      return numbers.length ? Math.min(...numbers) : null;
+    case "max":
+      return numbers.length ? Math.max(...numbers) : null;
+    case "earliest":
+      return dates[0] ?? null;
+    case "latest":
+      return dates[dates.length - 1] ?? null;
+    case "percentChecked":
+      return related.length
+        ? Math.round((related.filter((t) => t.data?.[rollup.targetColumnId!] === true).length / related.length) * 100)
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Plain-text form of a cell, for exports and read-only views
+export function formatCellValue(
+  column: Column,
+  value: unknown,
+  titles?: Map<string, string>
+): string {
+  if (isEmpty(value)) return "";
+  if (column.type === "checkbox" || typeof value === "boolean") return value ? "Yes" : "No";
+  if (column.type === "relation" && Array.isArray(value)) {
+    return value.map((id) => titles?.get(String(id)) ?? String(id)).join(", ");
+  }
+  if (column.type === "rollup" && column.rollup?.aggregate === "percentChecked") return `${value}%`;
+  if (typeof value === "number" && !Number.isInteger(value)) return String(Math.round(value * 100) / 100);
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
@@ -0,0 +1,289 @@
+/**
+ * CSV Helpers
+ *
+ * Parsing and writing CSV, guessing database column types from the
+ * values when CSV files are imported as databases, and turning CSV
+ * lines into row data for a set of columns, with an error for each line
+ * that doesn't fit.
+ */
+
+import {
+  CellValidation,
+  Column,
+  ColumnType,
+  ConversionContext,
+  FALSE_VALUES,
+  TRUE_VALUES,
+  convertCellValue,
+  isComputedColumn,
+  isEmpty,
+  normalizeUrl,
+  toISODate,
+  validateCellValue,
+  withConvertedOptions,
+} from "./columns";
+
+export type ImportedColumnType = "text" | "number" | "checkbox" | "select" | "date" | "url" | "email";
+
+export interface ImportedColumn {
+  id: string;
+  name: string;
+  type: ImportedColumnType;
+  options?: string[];
+}
+
+// One parsed CSV record and the line of the file it starts on
+export interface CSVRecord {
+  line: number;
+  cells: string[];
+}
+
+// Where one CSV field goes when importing into a database
+export interface CSVTarget {
+  index: number; // Field position in each record
+  column: Column;
+  context?: ConversionContext; // For relation columns, to look up items by title
+}
+
+export interface CSVLineError {
+  line: number;
+  message: string;
+}
+
+// Column types a CSV field can be imported as
+export const CSV_COLUMN_TYPES: ColumnType[] = [
+  "text",
+  "number",
+  "checkbox",
+  "select",
+  "multiSelect",
+  "date",
+  "url",
+  "email",
+];
+
+// A select column needs repeated values and only a handful of distinct ones
+const MAX_SELECT_OPTIONS = 10;
+
+const TEXT_COLUMN: Column = { id: "", name: "", type: "text" };
+
+// Parse CSV text (RFC 4180: quoted fields, escaped quotes, newlines in quotes)
+export function parseCSV(text: string): string[][] {
+  return parseCSVRecords(text).map((record) => record.cells);
+}
+
+// Parse CSV text into records that remember their line, for error messages
+export function parseCSVRecords(text: string): CSVRecord[] {
+  const rows: CSVRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        if (char === "\n") line++;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: recordLine, cells: row });
+      row = [];
+      field = "";
+      recordLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ line: recordLine, cells: row });
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.cells.some((cell) => cell.trim()));
+}
+
+function isNumber(value: string): boolean {
+  return /^-?\d{1,3}(,\d{3})*(\.\d+)?$|^-?\d*\.?\d+$/.test(value.trim());
+}
+
+// Guess the column type that fits every value in a column
+export function inferColumnType(values: string[]): Pick<ImportedColumn, "type" | "options"> {
+  const filled = values.map((v) => v.trim()).filter(Boolean);
+  if (filled.length === 0) return { type: "text" };
+
+  if (filled.every(isNumber)) return { type: "number" };
+
+  if (filled.every((v) => TRUE_VALUES.includes(v.toLowerCase()) || FALSE_VALUES.includes(v.toLowerCase()))) {
+    return { type: "checkbox" };
+  }
+
+  if (filled.every((v) => toISODate(v))) return { type: "date" };
+  if (filled.every((v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v))) return { type: "email" };
+  if (filled.every((v) => /^https?:\/\/\S+$/i.test(v) && normalizeUrl(v))) return { type: "url" };
+
+  const distinct = Array.from(new Set(filled));
+  if (
+    distinct.length <= MAX_SELECT_OPTIONS &&
+    distinct.length < filled.length &&
+    distinct.every((v) => v.length <= 40 && !v.includes("\n"))
+  ) {
+    return { type: "select", options: distinct };
+  }
+
+  return { type: "text" };
+}
+
+// Convert a raw CSV value to what a cell of this type stores
+export function convertCSVValue(value: string, type: ImportedColumnType): unknown {
+  const trimmed = value.trim();
+  switch (type) {
+    case "number":
+      return trimmed ? Number(trimmed.replace(/,/g, "")) : null;
+    case "checkbox":
+      return TRUE_VALUES.includes(trimmed.toLowerCase());
+    case "date":
+      return toISODate(trimmed) ?? "";
+    default:
+      return trimmed;
+  }
+}
+
+// Column ids made from header names, unique within the list
+export function columnIdsFor(names: string[]): string[] {
+  const usedIds = new Set<string>();
+
+  return names.map((name, index) => {
+    const base =
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "_")
+        .replace(/^_+|_+$/g, "") || `col_${index + 1}`;
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) id = `${base}_${n}`;
+    usedIds.add(id);
+    return id;
+  });
+}
+
+// Build typed columns from a header row and the data rows below it
+export function inferColumns(header: string[], rows: string[][]): ImportedColumn[] {
+  const ids = columnIdsFor(header);
+
+  return header.map((name, index) => ({
+    id: ids[index],
+    name: name.trim() || `Column ${index + 1}`,
+    ...inferColumnType(rows.map((row) => row[index] ?? "")),
+  }));
+}
+
+// The existing column each header most likely means, matched by name or
+// id regardless of case. Calculated columns can't be imported into.
+export function matchColumns(header: string[], columns: Column[]): Array<string | null> {
+  const used = new Set<string>();
+
+  return header.map((name) => {
+    const key = name.trim().toLowerCase();
+    const match = columns.find(
+      (c) => !isComputedColumn(c) && !used.has(c.id) && (c.name.toLowerCase() === key || c.id === key)
+    );
+    if (!match) return null;
+    used.add(match.id);
+    return match.id;
+  });
+}
+
+// Convert one CSV field for a column. Blank fields are left out.
+export function csvCellValue(raw: string, column: Column, context: ConversionContext = {}): CellValidation {
+  const text = raw.trim();
+  if (!text) return { value: undefined };
+
+  if (column.type === "checkbox" && ![...TRUE_VALUES, ...FALSE_VALUES].includes(text.toLowerCase())) {
+    return { error: `${column.name} must be true or false` };
+  }
+
+  if (column.type === "relation") {
+    const known = new Set(context.toIds?.values() ?? []);
+    const missing = text
+      .split(",")
+      .map((part) => part.trim())
+      .find((part) => part && !known.has(part) && !context.toIds?.has(part.toLowerCase()));
+    if (missing) return { error: `"${missing}" doesn't match anything ${column.name} links to` };
+  }
+
+  const value = convertCellValue(text, TEXT_COLUMN, column, context);
+  if (column.type !== "checkbox" && isEmpty(value)) {
+    return { error: validateCellValue(column, text).error ?? `${column.name} can't hold "${text}"` };
+  }
+  return { value };
+}
+
+// Turn CSV records into row data. Records with a field that doesn't fit
+// are left out and reported by line. Select values that aren't options
+// yet are added to the returned columns.
+export function convertCSVRecords(
+  records: CSVRecord[],
+  targets: CSVTarget[],
+  fieldCount: number
+): { rows: Array<{ line: number; data: Record<string, unknown> }>; errors: CSVLineError[]; columns: Column[] } {
+  const rows: Array<{ line: number; data: Record<string, unknown> }> = [];
+  const errors: CSVLineError[] = [];
+
+  for (const record of records) {
+    if (record.cells.length > fieldCount && record.cells.slice(fieldCount).some((cell) => cell.trim())) {
+      errors.push({
+        line: record.line,
+        message: `Has ${record.cells.length} fields but the header has ${fieldCount}`,
+      });
+      continue;
+    }
+
+    const data: Record<string, unknown> = {};
+    const problems: string[] = [];
+    for (const { index, column, context } of targets) {
+      const { value, error } = csvCellValue(record.cells[index] ?? "", column, context);
+      if (error) problems.push(error);
+      else if (value !== undefined) data[column.id] = value;
+    }
+
+    if (problems.length > 0) errors.push({ line: record.line, message: problems.join("; ") });
+    else rows.push({ line: record.line, data });
+  }
+
+  const columns = targets.map(({ column }) =>
+    withConvertedOptions(
+      column,
+      rows.map((row) => row.data[column.id]).filter((value) => value !== undefined)
+    )
+  );
+
+  return { rows, errors, columns };
+}
+
+// Write one CSV line, quoting fields that need it
+export function toCSVRow(values: unknown[]): string {
+  return values
+    .map((value) => {
+      const text = value === null || value === undefined ? "" : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",");
+}
@@ -0,0 +1,151 @@
+/**
+ * Database Copies
+ *
+ * Taking a snapshot of a database and making a new database from one.
+ * Duplicating a database, saving it as a template and creating a
+ * database from a template all go through these two helpers. IDs in the
+ * snapshot are swapped for the copies' IDs, so relations between rows of
+ * the same database point at the new rows.
+ */
+
+import { db } from "./db";
+import { parseColumns } from "./columns";
+import { parseView, serializeView, viewSettings } from "./views";
+import { syncPageLinks } from "./links";
+import { DatabaseSnapshot, SnapshotRow } from "./templates";
+import { ContentOwner } from "./workspaces";
+
+// Swap every value that is exactly an old ID for its new one
+function remapIds<T>(value: T, ids: Map<string, string>): T {
+  if (typeof value === "string") return (ids.get(value) ?? value) as T;
+  if (Array.isArray(value)) return value.map((v) => remapIds(v, ids)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, remapIds(v, ids)])
+    ) as T;
+  }
+  return value;
+}
+
+// Take a snapshot of a database in a workspace, with or without its rows
+export async function snapshotDatabase(
+  databaseId: string,
+  workspaceId: string,
+  includeRows: boolean
+): Promise<DatabaseSnapshot | null> {
+  const database = await db.database.findFirst({
+    where: { id: databaseId, workspaceId, deletedAt: null },
+    include: { views: { orderBy: { position: "asc" } } },
+  });
+  if (!database) return null;
+
+  const rows = includeRows
+    ? await db.databaseRow.findMany({
+        where: { databaseId },
+        orderBy: { createdAt: "asc" },
+        include: { page: { select: { title: true, icon: true, color: true, content: true } } },
+      })
+    : [];
+
+  return {
+    name: database.name,
+    icon: database.icon,
+    color: database.color,
+    description: database.description,
+    columns: parseColumns(database.columns),
+    views: database.views.map((view) => viewSettings(parseView(view))),
+    rows: rows.map(
+      (row): SnapshotRow => ({ id: row.id, data: JSON.parse(row.data || "{}"), page: row.page })
+    ),
+    sourceId: database.id,
+  };
+}
+
+// Create a database in a workspace from a snapshot, in a single transaction
+export async function createDatabaseFromSnapshot(
+  snapshot: DatabaseSnapshot,
+  { userId, workspaceId }: ContentOwner
+) {
+  // Old ID -> new ID for the database and every row
+  const ids = new Map<string, string>();
+  const pages: Array<{ id: string; content: string | null }> = [];
+
+  const database = await db.$transaction(
+    async (tx) => {
+      const database = await tx.database.create({
+        data: {
+          name: snapshot.name,
+          icon: snapshot.icon,
+          color: snapshot.color,
+          description: snapshot.description,
+          userId,
+          workspaceId,
+        },
+      });
+      if (snapshot.sourceId) ids.set(snapshot.sourceId, database.id);
+
+      const columns = remapIds(snapshot.columns, ids);
+      await tx.database.update({
+        where: { id: database.id },
+        data: { columns: JSON.stringify(columns) },
+      });
+
+      // Rows keep their order by getting a millisecond apart
+      const start = Date.now();
+      const written = snapshot.rows.map((row) => JSON.stringify(row.data));
+      const rows = await tx.databaseRow.createManyAndReturn({
+        data: written.map((data, index) => ({
+          databaseId: database.id,
+          data,
+          createdAt: new Date(start + index),
+        })),
+        select: { id: true },
+      });
+      rows.forEach((row, index) => ids.set(snapshot.rows[index].id, row.id));
+
+      // Rows can point at other rows, which only have IDs now
+      for (const [index, row] of rows.entries()) {
+        const data = JSON.stringify(remapIds(snapshot.rows[index].data, ids));
+        if (data !== written[index]) {
+          await tx.databaseRow.update({ where: { id: row.id }, data: { data } });
+        }
+      }
+
+      // Row pages
+      for (const [index, row] of rows.entries()) {
+        const page = snapshot.rows[index].page;
+        if (!page) continue;
+        const created = await tx.page.create({
+          data: {
+            title: page.title,
+            icon: page.icon,
+            color: page.color,
+            content: page.content,
+            databaseRowId: row.id,
+            userId,
+            workspaceId,
+          },
+        });
+        pages.push({ id: created.id, content: page.content });
+      }
+
+      await tx.databaseView.createMany({
+        data: snapshot.views.map((settings, position) => ({
+          ...serializeView(remapIds(settings, ids)),
+          position,
+          databaseId: database.id,
+        })),
+      });
+
+      return database;
+    },
+    { timeout: 60_000 }
+  );
+
+  // Index links from the copied row pages for backlinks
+  for (const page of pages) {
+    await syncPageLinks(page.id, workspaceId, page.content);
+  }
+
+  return database;
+}
@@ -0,0 +1,175 @@
+/**
+ * Database CSV Import
+ *
+ * Imports a CSV file as a new database, or appends its lines to an
+ * existing one with each header mapped to one of its columns. Lines
+ * whose fields don't fit their column are reported by line number and
+ * skipped; everything else is written in a single transaction. A dry run
+ * reports the same without writing anything.
+ */
+
+import { db } from "./db";
+import { Column, ColumnType, isComputedColumn, parseColumns } from "./columns";
+import {
+  CSV_COLUMN_TYPES,
+  CSVLineError,
+  CSVRecord,
+  CSVTarget,
+  columnIdsFor,
+  convertCSVRecords,
+  parseCSVRecords,
+} from "./csv";
+import { loadRelationTargets } from "./relations";
+import { defaultViewSettings, serializeView } from "./views";
+import { ContentOwner } from "./workspaces";
+
+export interface CSVImportResult {
+  dryRun: boolean;
+  databaseId: string | null; // Not set on a dry run into a new database
+  imported: number;
+  errors: CSVLineError[];
+}
+
+// How one CSV field becomes a column of a new database; null skips it
+export type NewColumnSpec = { name: string; type: ColumnType } | null;
+
+// Split a file into its header and the records below it
+function readCSV(csv: unknown): { header: string[]; records: CSVRecord[] } | { error: string } {
+  if (typeof csv !== "string") return { error: "CSV text is required" };
+  const [header, ...records] = parseCSVRecords(csv);
+  if (!header) return { error: "The CSV file is empty" };
+  return { header: header.cells, records };
+}
+
+// Write converted rows after any a database already has, keeping their order
+function rowsToCreate(databaseId: string, rows: Array<{ data: Record<string, unknown> }>) {
+  const start = Date.now();
+  return rows.map((row, index) => ({
+    databaseId,
+    data: JSON.stringify(row.data),
+    createdAt: new Date(start + index),
+  }));
+}
+
+// Import a CSV file as a new database with the given columns
+export async function importCSVAsDatabase(
+  csv: unknown,
+  name: string,
+  specs: NewColumnSpec[],
+  { userId, workspaceId }: ContentOwner,
+  dryRun: boolean
+): Promise<CSVImportResult | { error: string }> {
+  const parsed = readCSV(csv);
+  if ("error" in parsed) return parsed;
+  const { header, records } = parsed;
+
+  if (!Array.isArray(specs) || specs.length !== header.length) {
+    return { error: "Choose how to import every column" };
+  }
+  const included = specs
+    .map((spec, index) => ({ spec, index }))
+    .filter((field): field is { spec: NonNullable<NewColumnSpec>; index: number } => Boolean(field.spec));
+  if (included.length === 0) return { error: "Import at least one column" };
+  for (const { spec } of included) {
+    if (typeof spec.name !== "string" || !spec.name.trim()) return { error: "Every column needs a name" };
+    if (!CSV_COLUMN_TYPES.includes(spec.type)) return { error: `${spec.name} has a type CSV can't fill` };
+  }
+
+  const ids = columnIdsFor(included.map(({ spec }) => spec.name));
+  const targets: CSVTarget[] = included.map(({ spec, index }, i) => ({
+    index,
+    column: {
+      id: ids[i],
+      name: spec.name.trim(),
+      type: spec.type,
+      ...((spec.type === "select" || spec.type === "multiSelect") && { options: [] }),
+    },
+  }));
+  const { rows, errors, columns } = convertCSVRecords(records, targets, header.length);
+
+  if (dryRun) return { dryRun, databaseId: null, imported: rows.length, errors };
+
+  const database = await db.$transaction(
+    async (tx) => {
+      const database = await tx.database.create({
+        data: {
+          name: name.trim() || "Imported Database",
+          columns: JSON.stringify(columns),
+          userId,
+          workspaceId,
+          views: { create: serializeView(defaultViewSettings("table", columns)) },
+        },
+      });
+      await tx.databaseRow.createMany({ data: rowsToCreate(database.id, rows) });
+      return database;
+    },
+    { timeout: 120_000 }
+  );
+
+  return { dryRun, databaseId: database.id, imported: rows.length, errors };
+}
+
+// Append a CSV file to a database. `mapping` gives the column id for each
+// CSV field, or null to skip it.
+export async function importCSVIntoDatabase(
+  csv: unknown,
+  database: { id: string; columns: string },
+  mapping: Array<string | null>,
+  workspaceId: string,
+  dryRun: boolean
+): Promise<CSVImportResult | { error: string }> {
+  const parsed = readCSV(csv);
+  if ("error" in parsed) return parsed;
+  const { header, records } = parsed;
+
+  if (!Array.isArray(mapping) || mapping.length !== header.length) {
+    return { error: "Choose a column for every CSV field, or skip it" };
+  }
+
+  const columns = parseColumns(database.columns);
+  const byId = new Map(columns.map((c) => [c.id, c]));
+  const mapped: Array<{ index: number; column: Column }> = [];
+  for (const [index, columnId] of mapping.entries()) {
+    if (columnId === null) continue;
+    const column = byId.get(columnId);
+    if (!column || isComputedColumn(column)) {
+      return { error: `"${header[index]}" is mapped to a column that can't be filled` };
+    }
+    if (mapped.some((m) => m.column.id === columnId)) {
+      return { error: `Two fields are mapped to ${column.name}` };
+    }
+    mapped.push({ index, column });
+  }
+  if (mapped.length === 0) return { error: "Map at least one field to a column" };
+
+  // Relation fields name the items they link to by title
+  const relationTargets = await loadRelationTargets(mapped.map((m) => m.column), workspaceId);
+  const targets: CSVTarget[] = mapped.map(({ index, column }) => ({
+    index,
+    column,
+    context: relationTargets[column.id] && {
+      toIds: new Map(relationTargets[column.id].map((t) => [t.title.toLowerCase(), t.id])),
+    },
+  }));
+  const { rows, errors, columns: converted } = convertCSVRecords(records, targets, header.length);
+
+  if (dryRun) return { dryRun, databaseId: database.id, imported: rows.length, errors };
+
+  // Select values that weren't options yet become options
+  const nextColumns = columns.map((column) => converted.find((c) => c.id === column.id) ?? column);
+
+  await db.$transaction(
+    async (tx) => {
+      if (JSON.stringify(nextColumns) !== JSON.stringify(columns)) {
+        await tx.database.update({
+          where: { id: database.id },
+          data: { columns: JSON.stringify(nextColumns) },
+        });
+      }
+      await tx.databaseRow.createMany({ data: rowsToCreate(database.id, rows) });
+    },
+    { timeout: 120_000 }
+  );
+
+  return { dryRun, databaseId: database.id, imported: rows.length, errors };
+}
@@ -0,0 +1,68 @@
+/**
+ * Line Diff
+ *
+ * A small LCS-based line diff used to compare page revisions
+ * side by side. Each row pairs a left line with a right line.
+ */
+
+export interface DiffRow {
+  type: "equal" | "added" | "removed" | "changed";
+  left: string | null;
+  right: string | null;
+}
+
+// Compare two lists of lines and return side-by-side rows
+export function diffLines(left: string[], right: string[]): DiffRow[] {
+  const n = left.length;
+  const m = right.length;
+
+  // lcs[i][j] = length of the longest common subsequence of left[i..] and right[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = left[i] === right[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  // Pair up runs of removed/added lines so edits show on the same row
+  const flush = () => {
+    const count = Math.max(removed.length, added.length);
+    for (let k = 0; k < count; k++) {
+      const l = removed[k] ?? null;
+      const r = added[k] ?? null;
+      rows.push({
+        type: l !== null && r !== null ? "changed" : l !== null ? "removed" : "added",
+        left: l,
+        right: r,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (left[i] === right[j]) {
+      flush();
+      rows.push({ type: "equal", left: left[i], right: right[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      removed.push(left[i++]);
+    } else {
+      added.push(right[j++]);
+    }
+  }
+  while (i < n) removed.push(left[i++]);
+  while (j < m) added.push(right[j++]);
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,252 @@
+/**
+ * Markdown Export
+ *
+ * Builds a zip with one Markdown file per page, laid out in directories
+ * that mirror the folder tree. Each file starts with YAML frontmatter
+ * (title, icon, tags, timestamps) and links between pages are rewritten
+ * to relative file paths, so the archive opens as an Obsidian vault and
+ * can be imported back without losing anything. Pages that database rows
+ * open as go in a directory named after their database, with the row's
+ * properties in the frontmatter. Sub-pages go in a directory next to their
+ * parent's file, named like it without the extension.
+ */
+
+import JSZip from "jszip";
+import { db } from "./db";
+import { getLinkedPageId } from "./links";
+import { docToMarkdown, stringifyFrontmatter } from "./markdown";
+import { toCSVRow } from "./csv";
+import {
+  Column,
+  RelationTarget,
+  computeRowValues,
+  formatCellValue,
+  getRowTitle,
+  isComputedColumn,
+  parseColumns,
+} from "./columns";
+import { parseDoc } from "./tiptap";
+
+interface ArchiveOptions {
+  // Also write each database as a CSV file at the root of the archive
+  includeDatabases?: boolean;
+  // Extra files to add as-is, keyed by path
+  extraFiles?: Record<string, string>;
+}
+
+// Frontmatter keys a row property can't take over
+const RESERVED_KEYS = new Set(["title", "icon", "color", "tags", "favorite", "created", "updated", "database"]);
+
+const DATABASE_HREF_PATTERN = /^(?:https?:\/\/[^/]+)?\/databases\/([A-Za-z0-9_-]+)\/?(?:[?#].*)?$/;
+
+// Make a page or folder name safe to use as a file name
+function toFileName(name: string): string {
+  return (
+    name
+      .replace(/[\\/:*?"<>|\u0000-\u001f]/g, "-")
+      .replace(/\s+/g, " ")
+      .trim()
+      .replace(/^\.+|\.+$/g, "")
+      .slice(0, 100) || "Untitled"
+  );
+}
+
+// Pick a path that isn't taken yet by adding " (2)", " (3)", ...
+function uniquePath(dir: string, name: string, extension: string, taken: Set<string>): string {
+  const prefix = dir ? `${dir}/` : "";
+  let path = `${prefix}${name}${extension}`;
+  for (let n = 2; taken.has(path.toLowerCase()); n++) {
+    path = `${prefix}${name} (${n})${extension}`;
+  }
+  taken.add(path.toLowerCase());
+  return path;
+}
+
+// Relative, URL-encoded path from the directory of one file to another file
+function relativePath(fromFile: string, toFile: string): string {
+  const from = fromFile.split("/").slice(0, -1);
+  const to = toFile.split("/");
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+  return [...from.slice(common).map(() => ".."), ...to.slice(common)]
+    .map((segment) => (segment === ".." ? segment : encodeURIComponent(segment)))
+    .join("/");
+}
+
+// A row's stored properties as frontmatter values, keyed by column name.
+// Relations and calculated columns are left to the database's CSV.
+function rowProperties(columns: Column[], data: Record<string, unknown>) {
+  const properties: Record<string, string | string[] | boolean> = {};
+  for (const column of columns) {
+    if (column.type === "relation" || isComputedColumn(column)) continue;
+    if (RESERVED_KEYS.has(column.name.toLowerCase()) || /[:#]/.test(column.name)) continue;
+    const value = data[column.id];
+    if (column.type === "checkbox") properties[column.name] = value === true;
+    else if (Array.isArray(value)) properties[column.name] = value.map(String);
+    else properties[column.name] = formatCellValue(column, value);
+  }
+  return properties;
+}
+
+// Build the Markdown archive for a workspace's pages
+export async function buildMarkdownArchive(
+  workspaceId: string,
+  options: ArchiveOptions = {}
+): Promise<ArrayBuffer> {
+  const [folders, pages, databases] = await Promise.all([
+    db.folder.findMany({
+      where: { workspaceId, deletedAt: null },
+      select: { id: true, name: true, parentId: true },
+    }),
+    db.page.findMany({
+      where: { workspaceId, deletedAt: null },
+      include: {
+        tags: { select: { name: true } },
+        databaseRow: { select: { data: true, database: { select: { id: true, name: true, columns: true } } } },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    options.includeDatabases
+      ? db.database.findMany({
+          where: { workspaceId, deletedAt: null },
+          include: { rows: { orderBy: { createdAt: "asc" } } },
+          orderBy: { createdAt: "asc" },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const taken = new Set<string>(Object.keys(options.extraFiles || {}).map((p) => p.toLowerCase()));
+
+  // Directory for each folder, built from the root down
+  const foldersById = new Map(folders.map((f) => [f.id, f]));
+  const folderDirs = new Map<string, string>();
+  const folderDir = (folderId: string, seen = new Set<string>()): string => {
+    if (folderDirs.has(folderId)) return folderDirs.get(folderId)!;
+    const folder = foldersById.get(folderId);
+    if (!folder || seen.has(folderId)) return "";
+    seen.add(folderId);
+    const parentDir = folder.parentId ? folderDir(folder.parentId, seen) : "";
+    const dir = uniquePath(parentDir, toFileName(folder.name), "", taken);
+    folderDirs.set(folderId, dir);
+    return dir;
+  };
+
+  // Row pages go in a directory per database
+  const rowPageDirs = new Map<string, string>();
+  const rowPageDir = (database: { id: string; name: string }) => {
+    if (!rowPageDirs.has(database.id)) {
+      rowPageDirs.set(database.id, uniquePath("", toFileName(database.name), "", taken));
+    }
+    return rowPageDirs.get(database.id)!;
+  };
+
+  // Assign every file a path first so links can point at them. Parents
+  // get theirs before the pages under them.
+  const pagesById = new Map(pages.map((p) => [p.id, p]));
+  const pagePaths = new Map<string, string>();
+  const pagePath = (page: (typeof pages)[number], seen = new Set<string>()): string => {
+    if (pagePaths.has(page.id)) return pagePaths.get(page.id)!;
+    seen.add(page.id);
+    const parent = page.parentPageId ? pagesById.get(page.parentPageId) : undefined;
+    const dir = page.databaseRow
+      ? rowPageDir(page.databaseRow.database)
+      : parent && !seen.has(parent.id)
+        ? pagePath(parent, seen).replace(/\.md$/, "")
+        : page.folderId
+          ? folderDir(page.folderId)
+          : "";
+    const path = uniquePath(dir, toFileName(page.title), ".md", taken);
+    pagePaths.set(page.id, path);
+    return path;
+  };
+  for (const page of pages) pagePath(page);
+
+  const databasePaths = new Map<string, string>();
+  for (const database of databases) {
+    databasePaths.set(database.id, uniquePath("", toFileName(database.name), ".csv", taken));
+  }
+
+  const zip = new JSZip();
+
+  for (const page of pages) {
+    const path = pagePaths.get(page.id)!;
+
+    const resolveHref = (href: string) => {
+      const pageId = getLinkedPageId(href);
+      if (pageId && pagePaths.has(pageId)) return relativePath(path, pagePaths.get(pageId)!);
+      const databaseId = href.match(DATABASE_HREF_PATTERN)?.[1];
+      if (databaseId && databasePaths.has(databaseId)) {
+        return relativePath(path, databasePaths.get(databaseId)!);
+      }
+      return href;
+    };
+
+    const frontmatter = stringifyFrontmatter({
+      title: page.title,
+      icon: page.icon,
+      color: page.color,
+      tags: page.tags.map((t) => t.name),
+      favorite: page.isFavorite || null,
+      created: page.createdAt.toISOString(),
+      updated: page.updatedAt.toISOString(),
+      ...(page.databaseRow && {
+        database: page.databaseRow.database.name,
+        ...rowProperties(parseColumns(page.databaseRow.database.columns), JSON.parse(page.databaseRow.data || "{}")),
+      }),
+    });
+
+    zip.file(path, frontmatter + "\n" + docToMarkdown(parseDoc(page.content), { resolveHref }));
+  }
+
+  // Empty folders still get a directory
+  for (const folder of folders) {
+    const dir = folderDir(folder.id);
+    if (dir) zip.folder(dir);
+  }
+
+  // Relations are written as the titles of the linked rows and pages
+  const pageTargets: RelationTarget[] = pages.map((p) => ({ id: p.id, title: p.title || "Untitled" }));
+  const rowTargets = new Map<string, RelationTarget[]>();
+  for (const database of databases) {
+    const columns = parseColumns(database.columns);
+    rowTargets.set(
+      database.id,
+      database.rows.map((row) => {
+        const { values } = computeRowValues(columns, JSON.parse(row.data || "{}"));
+        return { id: row.id, title: getRowTitle(columns, values), data: values };
+      })
+    );
+  }
+  const titles = new Map(
+    [...pageTargets, ...Array.from(rowTargets.values()).flat()].map((t) => [t.id, t.title])
+  );
+
+  for (const database of databases) {
+    const columns = parseColumns(database.columns);
+    const lines = [toCSVRow(columns.map((c) => c.name))];
+    const relationTargets: Record<string, RelationTarget[] | undefined> = {};
+    for (const column of columns) {
+      if (column.type !== "relation" || !column.relation) continue;
+      relationTargets[column.id] =
+        column.relation.target === "page" ? pageTargets : rowTargets.get(column.relation.databaseId ?? "");
+    }
+
+    for (const row of database.rows) {
+      const { values } = computeRowValues(columns, JSON.parse(row.data || "{}"), relationTargets);
+      lines.push(
+        toCSVRow(
+          columns.map((col) =>
+            col.type === "checkbox" ? (values[col.id] ? "Yes" : "No") : formatCellValue(col, values[col.id], titles)
+          )
+        )
+      );
+    }
+    zip.file(databasePaths.get(database.id)!, lines.join("\n") + "\n");
+  }
+
+  for (const [path, content] of Object.entries(options.extraFiles || {})) {
+    zip.file(path, content);
+  }
+
+  return zip.generateAsync({ type: "arraybuffer" });
+}
@@ -0,0 +1,273 @@
+/**
+ * Row Filters and Sorts
+ *
+ * Compound filters (and/or groups of conditions), multi-key sorts and the
+ * sort keys that cursor pagination is built on. Rows are matched on their
+ * calculated values, so rollups and formulas filter and sort like any
+ * other column. Shared by the rows API and the filter bar in the table.
+ */
+
+import { Column, ColumnType, toISODate } from "./columns";
+
+export type FilterOperator =
+  | "equals"
+  | "notEquals"
+  | "contains"
+  | "notContains"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "isEmpty"
+  | "isNotEmpty"
+  | "checked"
+  | "unchecked";
+
+export interface FilterCondition {
+  columnId: string;
+  operator: FilterOperator;
+  value?: unknown;
+}
+
+export type RowFilter = FilterCondition | { and: RowFilter[] } | { or: RowFilter[] };
+
+export interface RowSort {
+  columnId: string; // A column id, or "createdAt"
+  direction: "asc" | "desc";
+}
+
+// A row as the filters see it
+export interface QueryRow {
+  id: string;
+  createdAt: Date | string;
+  values: Record<string, unknown>;
+}
+
+export type SortKey = Array<number | string | null>;
+
+// Sort on when rows were added, as well as on columns
+export const CREATED_AT = "createdAt";
+
+export const FILTER_OPERATORS: Array<{ operator: FilterOperator; label: string; needsValue: boolean }> = [
+  { operator: "equals", label: "is", needsValue: true },
+  { operator: "notEquals", label: "is not", needsValue: true },
+  { operator: "contains", label: "contains", needsValue: true },
+  { operator: "notContains", label: "does not contain", needsValue: true },
+  { operator: "gt", label: ">", needsValue: true },
+  { operator: "gte", label: "≥", needsValue: true },
+  { operator: "lt", label: "<", needsValue: true },
+  { operator: "lte", label: "≤", needsValue: true },
+  { operator: "isEmpty", label: "is empty", needsValue: false },
+  { operator: "isNotEmpty", label: "is not empty", needsValue: false },
+  { operator: "checked", label: "is checked", needsValue: false },
+  { operator: "unchecked", label: "is not checked", needsValue: false },
+];
+
+const MAX_FILTER_DEPTH = 5;
+const MAX_CONDITIONS = 50;
+
+// Which operators make sense for a column type
+export function operatorsFor(type: ColumnType): FilterOperator[] {
+  const empty: FilterOperator[] = ["isEmpty", "isNotEmpty"];
+  switch (type) {
+    case "checkbox":
+      return ["checked", "unchecked"];
+    case "number":
+    case "date":
+    case "rollup":
+      return ["equals", "notEquals", "gt", "gte", "lt", "lte", ...empty];
+    case "select":
+      return ["equals", "notEquals", ...empty];
+    case "multiSelect":
+    case "relation":
+      return ["contains", "notContains", ...empty];
+    case "formula":
+      return ["equals", "notEquals", "contains", "notContains", "gt", "gte", "lt", "lte", ...empty, "checked", "unchecked"];
+    default:
+      return ["equals", "notEquals", "contains", "notContains", ...empty];
+  }
+}
+
+// Whether a condition is complete enough to query with
+export function isFilterReady(condition: FilterCondition): boolean {
+  const needsValue = FILTER_OPERATORS.find((o) => o.operator === condition.operator)?.needsValue;
+  return !needsValue || (condition.value !== undefined && condition.value !== null && condition.value !== "");
+}
+
+// Check a filter and sorts against the database's columns
+export function validateRowQuery(columns: Column[], filter: unknown, sorts: unknown): string | null {
+  let conditions = 0;
+
+  const checkFilter = (node: unknown, depth: number): string | null => {
+    if (depth > MAX_FILTER_DEPTH) return "Filters are nested too deeply";
+    if (!node || typeof node !== "object" || Array.isArray(node)) return "Each filter must be an object";
+
+    const group = node as Record<string, unknown>;
+    if ("and" in group || "or" in group) {
+      const children = group.and ?? group.or;
+      if (!Array.isArray(children)) return "Filter groups need a list of filters";
+      for (const child of children) {
+        const error = checkFilter(child, depth + 1);
+        if (error) return error;
+      }
+      return null;
+    }
+
+    if (++conditions > MAX_CONDITIONS) return `Use at most ${MAX_CONDITIONS} filter conditions`;
+    const condition = node as FilterCondition;
+    const column = columns.find((c) => c.id === condition.columnId);
+    if (!column) return `Unknown column "${condition.columnId}" in filter`;
+    if (!operatorsFor(column.type).includes(condition.operator)) {
+      return `Can't filter ${column.name} with "${condition.operator}"`;
+    }
+    const needsValue = FILTER_OPERATORS.find((o) => o.operator === condition.operator)?.needsValue;
+    if (needsValue && (condition.value === undefined || condition.value === null || typeof condition.value === "object")) {
+      return `The ${column.name} filter needs a value`;
+    }
+    return null;
+  };
+
+  if (filter !== undefined && filter !== null) {
+    const error = checkFilter(filter, 0);
+    if (error) return error;
+  }
+
+  if (sorts !== undefined && sorts !== null) {
+    if (!Array.isArray(sorts)) return "Sorts must be a list";
+    for (const sort of sorts as RowSort[]) {
+      if (!sort || (sort.direction !== "asc" && sort.direction !== "desc")) {
+        return "Each sort needs a direction of asc or desc";
+      }
+      if (sort.columnId !== CREATED_AT && !columns.some((c) => c.id === sort.columnId)) {
+        return `Unknown column "${sort.columnId}" in sort`;
+      }
+    }
+  }
+
+  return null;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === false ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+// Compare two values as numbers, dates or text
+function compareValues(a: unknown, b: unknown): number {
+  const numberA = asNumber(a);
+  const numberB = asNumber(b);
+  if (numberA !== null && numberB !== null) return numberA - numberB;
+
+  const dateA = typeof a === "string" ? toISODate(a) : null;
+  const dateB = typeof b === "string" ? toISODate(b) : null;
+  if (dateA && dateB) return dateA < dateB ? -1 : dateA > dateB ? 1 : 0;
+
+  return String(a ?? "").localeCompare(String(b ?? ""), undefined, { sensitivity: "base", numeric: true });
+}
+
+function matchesCondition(condition: FilterCondition, row: QueryRow): boolean {
+  const value = row.values[condition.columnId];
+  const target = condition.value;
+  const list = Array.isArray(value) ? value.map((v) => String(v).toLowerCase()) : null;
+  const text = list ? list.join(", ") : typeof value === "boolean" ? "" : String(value ?? "").toLowerCase();
+  const needle = String(target ?? "").toLowerCase();
+
+  switch (condition.operator) {
+    case "equals":
+      return !isEmptyValue(value) && compareValues(value, target) === 0;
+    case "notEquals":
+      return isEmptyValue(value) || compareValues(value, target) !== 0;
+    case "contains":
+      return list ? list.includes(needle) : text.includes(needle);
+    case "notContains":
+      return list ? !list.includes(needle) : !text.includes(needle);
+    case "gt":
+      return !isEmptyValue(value) && compareValues(value, target) > 0;
+    case "gte":
+      return !isEmptyValue(value) && compareValues(value, target) >= 0;
+    case "lt":
+      return !isEmptyValue(value) && compareValues(value, target) < 0;
+    case "lte":
+      return !isEmptyValue(value) && compareValues(value, target) <= 0;
+    case "isEmpty":
+      return isEmptyValue(value);
+    case "isNotEmpty":
+      return !isEmptyValue(value);
+    case "checked":
+      return value === true;
+    case "unchecked":
+      return value !== true;
+    default:
+      return true;
+  }
+}
+
+// Whether a row passes a filter
+export function matchesFilter(filter: RowFilter | null | undefined, row: QueryRow): boolean {
+  if (!filter) return true;
+  if ("and" in filter) return filter.and.every((f) => matchesFilter(f, row));
+  if ("or" in filter) return filter.or.length === 0 || filter.or.some((f) => matchesFilter(f, row));
+  return matchesCondition(filter, row);
+}
+
+// The columns a filter looks at
+export function filterColumnIds(filter: RowFilter | null | undefined): string[] {
+  if (!filter) return [];
+  if ("and" in filter) return filter.and.flatMap(filterColumnIds);
+  if ("or" in filter) return filter.or.flatMap(filterColumnIds);
+  return [filter.columnId];
+}
+
+// Values to sort a row by, followed by when it was added and its id as tie-breakers
+export function rowSortKey(row: QueryRow, sorts: RowSort[], titles?: Map<string, string>): SortKey {
+  const key: SortKey = sorts.map((sort) => {
+    const value = sort.columnId === CREATED_AT ? new Date(row.createdAt).toISOString() : row.values[sort.columnId];
+    if (value === null || value === undefined || value === "") return null;
+    if (Array.isArray(value)) {
+      return value.length ? value.map((v) => titles?.get(String(v)) ?? String(v)).join(", ") : null;
+    }
+    if (typeof value === "boolean") return value ? 1 : 0;
+    if (typeof value === "number") return value;
+    return String(value);
+  });
+  return [...key, new Date(row.createdAt).toISOString(), row.id];
+}
+
+// Whether a value (say, from a cursor) is a sort key for these sorts
+export function isSortKey(value: unknown, sorts: RowSort[]): value is SortKey {
+  if (!Array.isArray(value) || value.length !== sorts.length + 2) return false;
+  const isPart = (part: unknown) => part === null || typeof part === "string" || typeof part === "number";
+  // The tie-breakers, when the row was added and its id, are always there
+  return value.every(isPart) && value.slice(-2).every((part) => typeof part === "string");
+}
+
+// Compare two sort keys; empty values always sort last
+export function compareSortKeys(a: SortKey, b: SortKey, sorts: RowSort[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === y) continue;
+    if (x === null) return 1;
+    if (y === null) return -1;
+
+    let result: number;
+    if (typeof x === "number" && typeof y === "number") result = x - y;
+    else if (typeof x === "number") result = -1;
+    else if (typeof y === "number") result = 1;
+    else result = x.localeCompare(y, undefined, { sensitivity: "base", numeric: true }) || (x < y ? -1 : 1);
+
+    if (result !== 0) return sorts[i]?.direction === "desc" ? -result : result;
+  }
+  return 0;
+}
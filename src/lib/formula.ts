@@ -0,0 +1,600 @@
+/**
+ * Formula Language
+ *
+ * A small expression language for formula columns. Formulas read other
+ * columns with prop("Name") or [Name], and support arithmetic, comparisons,
+ * and/or/not, and a fixed set of number, text, date and conditional
+ * functions. Expressions are parsed into a tree and walked by a tiny
+ * interpreter - nothing is ever passed to eval, and there is no way to
+ * reach objects, globals or the network from a formula.
+ */
+
+export type FormulaValue = number | string | boolean | null;
+
+export type FormulaNode =
+  | { kind: "literal"; value: FormulaValue }
+  | { kind: "prop"; name: string }
+  | { kind: "unary"; op: "-" | "not"; operand: FormulaNode }
+  | { kind: "binary"; op: string; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+interface Token {
+  type: "number" | "string" | "name" | "prop" | "op" | "end";
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface FormulaFunction {
+  signature: string;
+  description: string;
+  minArgs: number;
+  maxArgs: number; // Infinity for variadic
+  run: (args: FormulaValue[]) => FormulaValue;
+}
+
+const MAX_LENGTH = 1000;
+const MAX_DEPTH = 50;
+const MAX_TEXT = 10_000;
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "+", "-", "*", "/", "%", "^", "<", ">", "=", "!", "(", ")", ","];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Split an expression into tokens
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = expression.slice(i).match(/^(\d+(\.\d+)?|\.\d+)/);
+    if (number) {
+      tokens.push({ type: "number", value: number[0], start: i, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      let j = i + 1;
+      while (j < expression.length && expression[j] !== char) {
+        if (expression[j] === "\\" && j + 1 < expression.length) {
+          const next = expression[j + 1];
+          value += next === "n" ? "\n" : next;
+          j += 2;
+        } else {
+          value += expression[j++];
+        }
+      }
+      if (j >= expression.length) throw new FormulaError("Text is missing its closing quote");
+      tokens.push({ type: "string", value, start: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+
+    if (char === "[") {
+      const end = expression.indexOf("]", i);
+      if (end < 0) throw new FormulaError("Column reference is missing its closing ]");
+      tokens.push({ type: "prop", value: expression.slice(i + 1, end).trim(), start: i, end: end + 1 });
+      i = end + 1;
+      continue;
+    }
+
+    const name = expression.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (name) {
+      tokens.push({ type: "name", value: name[0], start: i, end: i + name[0].length });
+      i += name[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => expression.startsWith(o, i));
+    if (op) {
+      tokens.push({ type: "op", value: op, start: i, end: i + op.length });
+      i += op.length;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected "${char}"`);
+  }
+
+  tokens.push({ type: "end", value: "", start: expression.length, end: expression.length });
+  return tokens;
+}
+
+// Recursive descent parser, lowest precedence first
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.or();
+    const token = this.peek();
+    if (token.type !== "end") throw new FormulaError(`Unexpected "${token.value}"`);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOp(...ops: string[]): string | null {
+    const token = this.peek();
+    if (token.type === "op" && ops.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    if (token.type === "name" && ops.includes(token.value.toLowerCase())) {
+      this.index++;
+      return token.value.toLowerCase();
+    }
+    return null;
+  }
+
+  private expect(op: string) {
+    const token = this.next();
+    if (token.type !== "op" || token.value !== op) {
+      throw new FormulaError(token.type === "end" ? `Expected "${op}"` : `Expected "${op}" but found "${token.value}"`);
+    }
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) throw new FormulaError("Formula is nested too deeply");
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private or(): FormulaNode {
+    let left = this.and();
+    while (this.matchOp("||", "or")) {
+      left = { kind: "binary", op: "or", left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): FormulaNode {
+    let left = this.not();
+    while (this.matchOp("&&", "and")) {
+      left = { kind: "binary", op: "and", left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): FormulaNode {
+    if (this.matchOp("!", "not")) {
+      return this.nested(() => ({ kind: "unary", op: "not", operand: this.not() }));
+    }
+    return this.comparison();
+  }
+
+  private comparison(): FormulaNode {
+    let left = this.additive();
+    let op: string | null;
+    while ((op = this.matchOp("==", "=", "!=", "<=", ">=", "<", ">"))) {
+      left = { kind: "binary", op: op === "=" ? "==" : op, left, right: this.additive() };
+    }
+    return left;
+  }
+
+  private additive(): FormulaNode {
+    let left = this.multiplicative();
+    let op: string | null;
+    while ((op = this.matchOp("+", "-"))) {
+      left = { kind: "binary", op, left, right: this.multiplicative() };
+    }
+    return left;
+  }
+
+  private multiplicative(): FormulaNode {
+    let left = this.unary();
+    let op: string | null;
+    while ((op = this.matchOp("*", "/", "%"))) {
+      left = { kind: "binary", op, left, right: this.unary() };
+    }
+    return left;
+  }
+
+  private unary(): FormulaNode {
+    if (this.matchOp("-")) {
+      return this.nested(() => ({ kind: "unary", op: "-", operand: this.unary() }));
+    }
+    if (this.matchOp("+")) return this.unary();
+    return this.power();
+  }
+
+  private power(): FormulaNode {
+    const base = this.primary();
+    if (this.matchOp("^")) {
+      return { kind: "binary", op: "^", left: base, right: this.nested(() => this.unary()) };
+    }
+    return base;
+  }
+
+  private primary(): FormulaNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value) };
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "prop":
+        if (!token.value) throw new FormulaError("Empty column reference []");
+        return { kind: "prop", name: token.value };
+      case "op":
+        if (token.value === "(") {
+          const node = this.nested(() => this.or());
+          this.expect(")");
+          return node;
+        }
+        throw new FormulaError(`Unexpected "${token.value}"`);
+      case "name":
+        return this.name(token);
+      default:
+        throw new FormulaError("Formula ends too early");
+    }
+  }
+
+  private name(token: Token): FormulaNode {
+    const lower = token.value.toLowerCase();
+    if (lower === "true" || lower === "false") return { kind: "literal", value: lower === "true" };
+
+    if (!(this.peek().type === "op" && this.peek().value === "(")) {
+      throw new FormulaError(`Unknown name "${token.value}". Use prop("${token.value}") to read a column`);
+    }
+    this.next();
+
+    const args: FormulaNode[] = [];
+    if (!this.matchOp(")")) {
+      do {
+        args.push(this.nested(() => this.or()));
+      } while (this.matchOp(","));
+      this.expect(")");
+    }
+
+    if (lower === "prop") {
+      const arg = args[0];
+      if (args.length !== 1 || arg.kind !== "literal" || typeof arg.value !== "string") {
+        throw new FormulaError('prop() takes a column name in quotes, like prop("Price")');
+      }
+      return { kind: "prop", name: arg.value };
+    }
+
+    const fn = findFunction(token.value);
+    if (!fn) throw new FormulaError(`Unknown function "${token.value}"`);
+    const [name, definition] = fn;
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      throw new FormulaError(`${definition.signature} was given ${args.length} argument${args.length === 1 ? "" : "s"}`);
+    }
+    return { kind: "call", name, args };
+  }
+}
+
+// Coerce a value to a number; empty counts as 0
+function toNumber(value: FormulaValue): number {
+  if (value === null || value === "") return 0;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const number = Number(value.replace(/,/g, ""));
+  if (Number.isNaN(number)) throw new FormulaError(`Expected a number but got "${value}"`);
+  return number;
+}
+
+// Coerce a value to text
+function toText(value: FormulaValue): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(Math.round(value * 1e10) / 1e10);
+  return String(value);
+}
+
+function toBoolean(value: FormulaValue): boolean {
+  if (typeof value === "string") return value !== "";
+  return Boolean(value);
+}
+
+function isNumeric(value: FormulaValue): boolean {
+  return value === null || typeof value === "number" || typeof value === "boolean";
+}
+
+// Dates are "YYYY-MM-DD" text, like date columns store them
+function toDate(value: FormulaValue): Date {
+  const match = typeof value === "string" ? value.match(/^(\d{4})-(\d{2})-(\d{2})/) : null;
+  if (!match) throw new FormulaError(`Expected a date but got "${toText(value)}"`);
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+}
+
+function fromDate(date: Date): string {
+  if (Number.isNaN(date.getTime())) throw new FormulaError("Invalid date");
+  return date.toISOString().slice(0, 10);
+}
+
+function toUnit(value: FormulaValue): "days" | "weeks" | "months" | "years" {
+  const unit = toText(value).toLowerCase().replace(/s?$/, "s");
+  if (unit === "days" || unit === "weeks" || unit === "months" || unit === "years") return unit;
+  throw new FormulaError(`Unknown date unit "${toText(value)}". Use days, weeks, months or years`);
+}
+
+function addToDate(date: Date, amount: number, unit: ReturnType<typeof toUnit>): Date {
+  const result = new Date(date);
+  if (unit === "days") result.setUTCDate(result.getUTCDate() + amount);
+  if (unit === "weeks") result.setUTCDate(result.getUTCDate() + amount * 7);
+  if (unit === "months" || unit === "years") {
+    // Jan 31 plus a month is the last day of February, not early March
+    const months = unit === "months" ? amount : amount * 12;
+    const day = result.getUTCDate();
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + months);
+    const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+    result.setUTCDate(Math.min(day, lastDay));
+  }
+  return result;
+}
+
+function limitText(text: string): string {
+  if (text.length > MAX_TEXT) throw new FormulaError("Text result is too long");
+  return text;
+}
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  // Conditionals
+  if: {
+    signature: "if(condition, then, else)",
+    description: "Pick a value based on a condition",
+    minArgs: 3,
+    maxArgs: 3,
+    run: () => null, // Handled in evaluate so only one branch runs
+  },
+  empty: {
+    signature: "empty(value)",
+    description: "True when a value is blank or zero",
+    minArgs: 1,
+    maxArgs: 1,
+    run: ([value]) => value === null || value === "" || value === 0 || value === false,
+  },
+
+  // Numbers
+  abs: { signature: "abs(number)", description: "Absolute value", minArgs: 1, maxArgs: 1, run: ([x]) => Math.abs(toNumber(x)) },
+  round: {
+    signature: "round(number, digits?)",
+    description: "Round to a number of decimal places",
+    minArgs: 1,
+    maxArgs: 2,
+    run: ([x, digits]) => {
+      const factor = 10 ** toNumber(digits ?? 0);
+      return Math.round(toNumber(x) * factor) / factor;
+    },
+  },
+  floor: { signature: "floor(number)", description: "Round down", minArgs: 1, maxArgs: 1, run: ([x]) => Math.floor(toNumber(x)) },
+  ceil: { signature: "ceil(number)", description: "Round up", minArgs: 1, maxArgs: 1, run: ([x]) => Math.ceil(toNumber(x)) },
+  sqrt: { signature: "sqrt(number)", description: "Square root", minArgs: 1, maxArgs: 1, run: ([x]) => Math.sqrt(toNumber(x)) },
+  pow: { signature: "pow(base, exponent)", description: "Raise to a power", minArgs: 2, maxArgs: 2, run: ([x, y]) => toNumber(x) ** toNumber(y) },
+  min: { signature: "min(a, b, ...)", description: "Smallest number", minArgs: 1, maxArgs: Infinity, run: (args) => Math.min(...args.map(toNumber)) },
+  max: { signature: "max(a, b, ...)", description: "Largest number", minArgs: 1, maxArgs: Infinity, run: (args) => Math.max(...args.map(toNumber)) },
+  toNumber: { signature: "toNumber(value)", description: "Read text as a number", minArgs: 1, maxArgs: 1, run: ([x]) => toNumber(x) },
+
+  // Text
+  format: { signature: "format(value)", description: "Turn any value into text", minArgs: 1, maxArgs: 1, run: ([x]) => toText(x) },
+  concat: { signature: "concat(a, b, ...)", description: "Join text together", minArgs: 1, maxArgs: Infinity, run: (args) => limitText(args.map(toText).join("")) },
+  length: { signature: "length(text)", description: "Number of characters", minArgs: 1, maxArgs: 1, run: ([x]) => toText(x).length },
+  upper: { signature: "upper(text)", description: "Upper case", minArgs: 1, maxArgs: 1, run: ([x]) => toText(x).toUpperCase() },
+  lower: { signature: "lower(text)", description: "Lower case", minArgs: 1, maxArgs: 1, run: ([x]) => toText(x).toLowerCase() },
+  trim: { signature: "trim(text)", description: "Remove surrounding spaces", minArgs: 1, maxArgs: 1, run: ([x]) => toText(x).trim() },
+  contains: {
+    signature: "contains(text, search)",
+    description: "True when the text includes the search",
+    minArgs: 2,
+    maxArgs: 2,
+    run: ([x, search]) => toText(x).toLowerCase().includes(toText(search).toLowerCase()),
+  },
+  replace: {
+    signature: "replace(text, find, replacement)",
+    description: "Replace every match",
+    minArgs: 3,
+    maxArgs: 3,
+    run: ([x, find, replacement]) =>
+      toText(find) ? limitText(toText(x).split(toText(find)).join(toText(replacement))) : toText(x),
+  },
+  slice: {
+    signature: "slice(text, start, end?)",
+    description: "Part of the text",
+    minArgs: 2,
+    maxArgs: 3,
+    run: ([x, start, end]) => toText(x).slice(toNumber(start), end === undefined ? undefined : toNumber(end)),
+  },
+
+  // Dates
+  today: { signature: "today()", description: "Today's date", minArgs: 0, maxArgs: 0, run: () => fromDate(new Date()) },
+  dateAdd: {
+    signature: "dateAdd(date, amount, unit)",
+    description: "Add days, weeks, months or years",
+    minArgs: 3,
+    maxArgs: 3,
+    run: ([date, amount, unit]) => fromDate(addToDate(toDate(date), toNumber(amount), toUnit(unit))),
+  },
+  dateSubtract: {
+    signature: "dateSubtract(date, amount, unit)",
+    description: "Subtract days, weeks, months or years",
+    minArgs: 3,
+    maxArgs: 3,
+    run: ([date, amount, unit]) => fromDate(addToDate(toDate(date), -toNumber(amount), toUnit(unit))),
+  },
+  dateBetween: {
+    signature: "dateBetween(end, start, unit)",
+    description: "Whole days, weeks, months or years from start to end",
+    minArgs: 3,
+    maxArgs: 3,
+    run: ([end, start, unit]) => {
+      const a = toDate(end);
+      const b = toDate(start);
+      const u = toUnit(unit);
+      if (u === "days") return Math.round((a.getTime() - b.getTime()) / DAY_MS);
+      if (u === "weeks") return Math.trunc(Math.round((a.getTime() - b.getTime()) / DAY_MS) / 7);
+      let months = (a.getUTCFullYear() - b.getUTCFullYear()) * 12 + a.getUTCMonth() - b.getUTCMonth();
+      if (months > 0 && a.getUTCDate() < b.getUTCDate()) months--;
+      if (months < 0 && a.getUTCDate() > b.getUTCDate()) months++;
+      return u === "months" ? months : Math.trunc(months / 12);
+    },
+  },
+  formatDate: {
+    signature: "formatDate(date)",
+    description: "A date written out, like Mar 5, 2024",
+    minArgs: 1,
+    maxArgs: 1,
+    run: ([date]) =>
+      toDate(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" }),
+  },
+  year: { signature: "year(date)", description: "The year of a date", minArgs: 1, maxArgs: 1, run: ([d]) => toDate(d).getUTCFullYear() },
+  month: { signature: "month(date)", description: "The month of a date, 1-12", minArgs: 1, maxArgs: 1, run: ([d]) => toDate(d).getUTCMonth() + 1 },
+  day: { signature: "day(date)", description: "The day of the month", minArgs: 1, maxArgs: 1, run: ([d]) => toDate(d).getUTCDate() },
+};
+
+function findFunction(name: string): [string, FormulaFunction] | undefined {
+  const lower = name.toLowerCase();
+  const key = Object.keys(FORMULA_FUNCTIONS).find((k) => k.toLowerCase() === lower);
+  return key ? [key, FORMULA_FUNCTIONS[key]] : undefined;
+}
+
+// Parse an expression into a tree, throwing FormulaError on mistakes
+export function parseFormula(expression: string): FormulaNode {
+  if (!expression.trim()) throw new FormulaError("Formula is empty");
+  if (expression.length > MAX_LENGTH) throw new FormulaError(`Formula is longer than ${MAX_LENGTH} characters`);
+  return new Parser(tokenize(expression)).parse();
+}
+
+// Point references to a renamed column at its new name
+export function renameFormulaReference(expression: string, from: string, to: string): string {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(expression);
+  } catch {
+    return expression;
+  }
+
+  const matches = (name: string) => name.trim().toLowerCase() === from.trim().toLowerCase();
+  let result = "";
+  let last = 0;
+
+  tokens.forEach((token, i) => {
+    const isPropArg =
+      token.type === "string" &&
+      tokens[i - 1]?.value === "(" &&
+      tokens[i - 2]?.type === "name" &&
+      tokens[i - 2].value.toLowerCase() === "prop";
+    if (!(token.type === "prop" || isPropArg) || !matches(token.value)) return;
+
+    const replacement = token.type === "prop" && !to.includes("]") ? `[${to}]` : JSON.stringify(to);
+    result += expression.slice(last, token.start) + (token.type === "prop" && to.includes("]") ? `prop(${replacement})` : replacement);
+    last = token.end;
+  });
+
+  return result + expression.slice(last);
+}
+
+// Names of every column a formula reads
+export function formulaReferences(node: FormulaNode): string[] {
+  switch (node.kind) {
+    case "prop":
+      return [node.name];
+    case "unary":
+      return formulaReferences(node.operand);
+    case "binary":
+      return [...formulaReferences(node.left), ...formulaReferences(node.right)];
+    case "call":
+      return node.args.flatMap(formulaReferences);
+    default:
+      return [];
+  }
+}
+
+function compare(op: string, left: FormulaValue, right: FormulaValue): boolean {
+  const bothNumeric = isNumeric(left) && isNumeric(right);
+  const a = bothNumeric ? toNumber(left) : toText(left);
+  const b = bothNumeric ? toNumber(right) : toText(right);
+  switch (op) {
+    case "==": return a === b;
+    case "!=": return a !== b;
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    default: return a >= b;
+  }
+}
+
+// Evaluate a parsed formula, reading columns through resolve()
+export function evaluateFormula(node: FormulaNode, resolve: (name: string) => FormulaValue): FormulaValue {
+  const evaluate = (n: FormulaNode): FormulaValue => {
+    switch (n.kind) {
+      case "literal":
+        return n.value;
+
+      case "prop":
+        return resolve(n.name);
+
+      case "unary": {
+        const value = evaluate(n.operand);
+        return n.op === "-" ? -toNumber(value) : !toBoolean(value);
+      }
+
+      case "binary": {
+        if (n.op === "and") return toBoolean(evaluate(n.left)) && toBoolean(evaluate(n.right));
+        if (n.op === "or") return toBoolean(evaluate(n.left)) || toBoolean(evaluate(n.right));
+
+        const left = evaluate(n.left);
+        const right = evaluate(n.right);
+
+        if (n.op === "+" && (typeof left === "string" || typeof right === "string")) {
+          return limitText(toText(left) + toText(right));
+        }
+        if (["==", "!=", "<", "<=", ">", ">="].includes(n.op)) return compare(n.op, left, right);
+
+        const a = toNumber(left);
+        const b = toNumber(right);
+        if ((n.op === "/" || n.op === "%") && b === 0) throw new FormulaError("Division by zero");
+        switch (n.op) {
+          case "+": return a + b;
+          case "-": return a - b;
+          case "*": return a * b;
+          case "/": return a / b;
+          case "%": return a % b;
+          default: return a ** b;
+        }
+      }
+
+      case "call": {
+        const fn = FORMULA_FUNCTIONS[n.name];
+        if (n.name === "if") {
+          return toBoolean(evaluate(n.args[0])) ? evaluate(n.args[1]) : evaluate(n.args[2]);
+        }
+        return fn.run(n.args.map(evaluate));
+      }
+    }
+  };
+
+  const result = evaluate(node);
+  if (typeof result === "number" && !Number.isFinite(result)) {
+    throw new FormulaError("Result is not a number");
+  }
+  return result;
+}
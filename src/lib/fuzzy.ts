@@ -0,0 +1,59 @@
+/**
+ * Fuzzy Matching
+ *
+ * Scores how well a typed query matches a short piece of text, for
+ * filtering lists like the editor's slash commands as you type. Every
+ * character of the query has to appear in the text, in order; matches at
+ * the start of a word and runs of consecutive characters score higher.
+ */
+
+// Score a query against text (higher is better), or null when it doesn't match
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.trim().toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  // Try each place the first character appears and keep the best run
+  let best: number | null = null;
+  for (let start = haystack.indexOf(needle[0]); start !== -1; start = haystack.indexOf(needle[0], start + 1)) {
+    const score = scoreFrom(needle, haystack, start);
+    if (score === null) break;
+    if (best === null || score > best) best = score;
+  }
+
+  // Between equal matches, the shorter text is the closer one
+  return best === null ? null : best - haystack.length / 100;
+}
+
+// Match the query's characters in order, the first one at `start`
+function scoreFrom(needle: string, haystack: string, start: number): number | null {
+  let score = 0;
+  let previous = -2;
+  let from = start;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s\-_/]/.test(haystack[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  return score;
+}
+
+// Keep the items that match, best first. Each item is matched on its best
+// scoring text (a title and its keywords, say).
+export function fuzzyFilter<T>(query: string, items: T[], texts: (item: T) => string[]): T[] {
+  if (!query.trim()) return items;
+  return items
+    .map((item) => {
+      const scores = texts(item)
+        .map((text) => fuzzyScore(query, text))
+        .filter((score): score is number => score !== null);
+      return { item, score: scores.length > 0 ? Math.max(...scores) : null };
+    })
+    .filter((match): match is { item: T; score: number } => match.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((match) => match.item);
+}
@@ -0,0 +1,377 @@
+/**
+ * Habit Schedules and Streaks
+ *
+ * Which days a habit is due on, and the streaks and completion rates that
+ * follow from its logs. A habit is due every day, on weekdays, on weekends
+ * or on chosen days of the week. Days it isn't due on neither extend nor
+ * break a streak, so a weekday habit keeps its streak over the weekend,
+ * and today only breaks one once it's over.
+ *
+ * Weekly and monthly habits instead have a quota: done on any N days of
+ * the week (Monday to Sunday) or month. They're due on any day until the
+ * quota is met, and their streaks count weeks or months met in a row,
+ * with the current period only counting once it's met.
+ *
+ * Quantitative habits ("read 30 pages") have a daily target and a unit,
+ * and their logs record an amount. A day counts as completed once its
+ * amount reaches the target; anything less is partial progress.
+ *
+ * Days are "YYYY-MM-DD" keys. Logs are stored at midnight UTC of the day
+ * they're for, so a log's key is its UTC date; `toDayKey` gives the key of
+ * a day on the local calendar, which is what the log API expects back.
+ * Which day is today depends on the user's time zone (see timezones.ts),
+ * so callers work it out and pass it in.
+ *
+ * Safe to use from both API routes and client components.
+ */
+
+export const HABIT_FREQUENCIES = ["daily", "weekdays", "weekends", "custom", "weekly", "monthly"] as const;
+export type HabitFrequency = (typeof HABIT_FREQUENCIES)[number];
+
+// Frequencies with a quota per period rather than set days
+export type PeriodFrequency = "weekly" | "monthly";
+
+// The most days a quota can ask for, per period
+export const MAX_TIMES_PER_PERIOD: Record<PeriodFrequency, number> = { weekly: 7, monthly: 31 };
+
+// Indexed like Date.getDay()
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const FREQUENCY_LABELS: Record<HabitFrequency, string> = {
+  daily: "Every day",
+  weekdays: "Weekdays",
+  weekends: "Weekends",
+  custom: "Custom days",
+  weekly: "Times a week",
+  monthly: "Times a month",
+};
+
+// What a habit's schedule is made of, as stored (targetDays is JSON) or
+// already parsed
+export interface HabitSchedule {
+  frequency: string;
+  targetDays?: string | string[] | null;
+  timesPerPeriod?: number | null;
+}
+
+// A habit's target, for quantitative habits
+export interface HabitTarget {
+  target?: number | null;
+  unit?: string | null;
+}
+
+export interface HabitLogLike {
+  date: string | Date;
+  completed: boolean;
+  amount?: number | null;
+}
+
+export interface Streaks {
+  current: number;
+  longest: number;
+}
+
+// Progress toward the quota of the period a day falls in
+export interface PeriodProgress {
+  done: number;
+  quota: number;
+  start: string;
+  end: string;
+}
+
+export function isHabitFrequency(value: unknown): value is HabitFrequency {
+  return HABIT_FREQUENCIES.includes(value as HabitFrequency);
+}
+
+// The chosen days of a custom schedule
+export function parseTargetDays(targetDays: HabitSchedule["targetDays"]): Weekday[] {
+  let days: unknown = targetDays;
+  if (typeof targetDays === "string") {
+    try {
+      days = JSON.parse(targetDays);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(days) ? WEEKDAYS.filter((day) => days.includes(day)) : [];
+}
+
+export function isPeriodic(schedule: HabitSchedule): schedule is HabitSchedule & { frequency: PeriodFrequency } {
+  return schedule.frequency === "weekly" || schedule.frequency === "monthly";
+}
+
+// Whether `times` is a quota a weekly or monthly habit can have
+export function isValidQuota(frequency: PeriodFrequency, times: unknown): times is number {
+  return Number.isInteger(times) && (times as number) >= 1 && (times as number) <= MAX_TIMES_PER_PERIOD[frequency];
+}
+
+// How many days a weekly or monthly habit asks for, at least one
+export function periodQuota(schedule: HabitSchedule): number {
+  if (!isPeriodic(schedule)) return 1;
+  const times = Math.round(schedule.timesPerPeriod ?? 1);
+  return Math.min(Math.max(times, 1), MAX_TIMES_PER_PERIOD[schedule.frequency]);
+}
+
+// The days of the week a habit can be done on. A custom schedule with no
+// days chosen falls back to every day, rather than a habit that's never
+// due; weekly and monthly habits can be done on any day.
+export function dueWeekdays(schedule: HabitSchedule): Set<number> {
+  switch (schedule.frequency) {
+    case "weekdays":
+      return new Set([1, 2, 3, 4, 5]);
+    case "weekends":
+      return new Set([0, 6]);
+    case "custom": {
+      const days = parseTargetDays(schedule.targetDays);
+      if (days.length > 0) return new Set(days.map((day) => WEEKDAYS.indexOf(day)));
+      return new Set([0, 1, 2, 3, 4, 5, 6]);
+    }
+    default:
+      return new Set([0, 1, 2, 3, 4, 5, 6]);
+  }
+}
+
+// A short description of a schedule, like "Mon, Wed, Fri"
+export function describeSchedule(schedule: HabitSchedule): string {
+  if (isPeriodic(schedule)) {
+    const times = periodQuota(schedule);
+    const count = times === 1 ? "Once" : times === 2 ? "Twice" : `${times} times`;
+    return `${count} a ${schedule.frequency === "weekly" ? "week" : "month"}`;
+  }
+  if (schedule.frequency !== "custom") {
+    return FREQUENCY_LABELS[isHabitFrequency(schedule.frequency) ? schedule.frequency : "daily"];
+  }
+  const days = parseTargetDays(schedule.targetDays);
+  if (days.length === 0 || days.length === 7) return FREQUENCY_LABELS.daily;
+  return days.map((day) => day[0].toUpperCase() + day.slice(1)).join(", ");
+}
+
+// ---- Day keys ----
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// The key of the local calendar day `date` falls on
+export function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function isDayKey(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = dayKeyDate(value);
+  return !isNaN(date.getTime()) && logDayKey(date) === value;
+}
+
+// The date a log for `key` is stored at
+export function dayKeyDate(key: string): Date {
+  return new Date(`${key}T00:00:00Z`);
+}
+
+// The key of the day a stored log is for
+export function logDayKey(date: string | Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+// The key `days` days after (or before) `key`
+export function addDays(key: string, days: number): string {
+  const date = new Date(`${key}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Day of the week for a key, as Date.getDay() numbers them
+export function weekdayOf(key: string): number {
+  return new Date(`${key}T00:00:00Z`).getUTCDay();
+}
+
+// Whether a habit can be done on a day. For weekly and monthly habits
+// that's any day; `isDue` also knows whether their quota is met yet.
+export function isDueOn(schedule: HabitSchedule, key: string): boolean {
+  return dueWeekdays(schedule).has(weekdayOf(key));
+}
+
+// ---- Periods ----
+
+// The first day of the week (from Monday) or month a day falls in
+export function periodStart(frequency: PeriodFrequency, key: string): string {
+  if (frequency === "monthly") return `${key.slice(0, 7)}-01`;
+  return addDays(key, -((weekdayOf(key) + 6) % 7));
+}
+
+// The last day of the week or month a day falls in
+export function periodEnd(frequency: PeriodFrequency, key: string): string {
+  if (frequency === "weekly") return addDays(periodStart(frequency, key), 6);
+  const [year, month] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+}
+
+// Days done in the period `key` falls in, up to and including `key`
+export function periodProgress(schedule: HabitSchedule, completed: Set<string>, key: string): PeriodProgress {
+  const frequency = isPeriodic(schedule) ? schedule.frequency : "weekly";
+  const start = periodStart(frequency, key);
+  let done = 0;
+  for (const day of completed) {
+    if (day >= start && day <= key) done++;
+  }
+  return { done, quota: periodQuota(schedule), start, end: periodEnd(frequency, key) };
+}
+
+// Whether a habit still needs doing on a day: it's one of its days, or,
+// for weekly and monthly habits, the quota wasn't met before it. A day
+// that was done counts as due either way.
+export function isDue(schedule: HabitSchedule, completed: Set<string>, key: string): boolean {
+  if (!isPeriodic(schedule) || completed.has(key)) return isDueOn(schedule, key);
+  const start = periodStart(schedule.frequency, key);
+  const doneBefore = [...completed].filter((day) => day >= start && day < key).length;
+  return doneBefore < periodQuota(schedule);
+}
+
+// What a streak is counted in
+export function streakUnit(schedule: HabitSchedule): "day" | "week" | "month" {
+  if (schedule.frequency === "weekly") return "week";
+  if (schedule.frequency === "monthly") return "month";
+  return "day";
+}
+
+// The days a habit was completed on
+export function completedDays(logs: HabitLogLike[]): Set<string> {
+  return new Set(logs.filter((log) => log.completed).map((log) => logDayKey(log.date)));
+}
+
+// ---- Streaks ----
+
+// Current and longest runs of due days completed in a row, over every
+// completion. `today` can still be done, so it only counts when it is.
+export function computeStreaks(schedule: HabitSchedule, completed: Set<string>, today: string): Streaks {
+  const due = dueWeekdays(schedule);
+  const first = [...completed].sort()[0];
+  if (!first || first > today) return { current: 0, longest: 0 };
+  if (isPeriodic(schedule)) return computePeriodStreaks(schedule, completed, first, today);
+
+  let run = 0;
+  let longest = 0;
+  for (let day = first; day <= today; day = addDays(day, 1)) {
+    if (!due.has(weekdayOf(day))) continue;
+    if (completed.has(day)) {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (day !== today) {
+      run = 0;
+    }
+  }
+
+  return { current: run, longest };
+}
+
+// Streaks of weeks or months with their quota met, from the period of
+// the first completion to today's
+function computePeriodStreaks(
+  schedule: HabitSchedule & { frequency: PeriodFrequency },
+  completed: Set<string>,
+  first: string,
+  today: string
+): Streaks {
+  const current = periodStart(schedule.frequency, today);
+  let run = 0;
+  let longest = 0;
+  for (let start = periodStart(schedule.frequency, first); start <= current; ) {
+    const end = periodEnd(schedule.frequency, start);
+    const { done, quota } = periodProgress(schedule, completed, end);
+    if (done >= quota) {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (start !== current) {
+      run = 0;
+    }
+    start = addDays(end, 1);
+  }
+  return { current: run, longest };
+}
+
+// Due days completed between `from` and `to` (inclusive), out of how many.
+// For weekly and monthly habits it's days done out of the quotas of the
+// periods in range, leaving out a period still underway until it's met.
+export function completionRate(
+  schedule: HabitSchedule,
+  completed: Set<string>,
+  from: string,
+  to: string
+): { completed: number; due: number; percentage: number } {
+  if (isPeriodic(schedule)) return periodCompletionRate(schedule, completed, from, to);
+
+  const due = dueWeekdays(schedule);
+  let dueDays = 0;
+  let done = 0;
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    if (!due.has(weekdayOf(day))) continue;
+    dueDays++;
+    if (completed.has(day)) done++;
+  }
+  return {
+    completed: done,
+    due: dueDays,
+    percentage: dueDays > 0 ? Math.round((done / dueDays) * 100) : 0,
+  };
+}
+
+function periodCompletionRate(
+  schedule: HabitSchedule & { frequency: PeriodFrequency },
+  completed: Set<string>,
+  from: string,
+  to: string
+): { completed: number; due: number; percentage: number } {
+  let dueDays = 0;
+  let done = 0;
+  for (let start = periodStart(schedule.frequency, from); start <= to; ) {
+    const end = periodEnd(schedule.frequency, start);
+    const { done: inPeriod, quota } = periodProgress(schedule, completed, end < to ? end : to);
+    if (end <= to || inPeriod >= quota) {
+      dueDays += quota;
+      done += Math.min(inPeriod, quota);
+    }
+    start = addDays(end, 1);
+  }
+  return {
+    completed: done,
+    due: dueDays,
+    percentage: dueDays > 0 ? Math.round((done / dueDays) * 100) : 0,
+  };
+}
+
+// ---- Amounts ----
+
+export function isQuantitative(habit: HabitTarget): boolean {
+  return typeof habit.target === "number" && habit.target > 0;
+}
+
+// Whether a day's amount completes a quantitative habit
+export function meetsTarget(habit: HabitTarget, amount: number | null | undefined): boolean {
+  return isQuantitative(habit) && (amount ?? 0) >= habit.target!;
+}
+
+// How far along a day's log is, from 0 to 1
+export function logProgress(habit: HabitTarget, log: HabitLogLike | undefined): number {
+  if (!log) return 0;
+  if (log.completed) return 1;
+  if (!isQuantitative(habit)) return 0;
+  return Math.min((log.amount ?? 0) / habit.target!, 1);
+}
+
+// Logs by the day they're for
+export function logsByDay<T extends HabitLogLike>(logs: T[]): Map<string, T> {
+  return new Map(logs.map((log) => [logDayKey(log.date), log]));
+}
+
+// The total amount logged between `from` and `to` (inclusive)
+export function totalAmount(logs: HabitLogLike[], from: string, to: string): number {
+  return logs.reduce((sum, log) => {
+    const day = logDayKey(log.date);
+    return day >= from && day <= to ? sum + (log.amount ?? 0) : sum;
+  }, 0);
+}
+
+// An amount with its unit, like "2.5 km"
+export function formatAmount(amount: number, unit?: string | null): string {
+  const value = Number.isInteger(amount) ? String(amount) : amount.toFixed(1).replace(/\.0$/, "");
+  return unit ? `${value} ${unit}` : value;
+}
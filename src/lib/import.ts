@@ -0,0 +1,339 @@
+/**
+ * Markdown Import
+ *
+ * Imports a zip of Markdown files - an Obsidian vault, a Notion
+ * "Markdown & CSV" export, or any folder of notes - into the user's
+ * workspace. Directories become folders, .md files become pages, CSV
+ * files become databases. A directory named like a note next to it
+ * ("Trip.md" and "Trip/") holds that note's sub-pages rather than being a
+ * folder. Frontmatter tags become Tag records, and [[wikilinks]] and
+ * relative .md links point at the imported pages.
+ *
+ * Everything is written in one transaction, so a failed import leaves
+ * nothing half-created.
+ */
+
+import JSZip from "jszip";
+import { db } from "./db";
+import { syncPageLinks } from "./links";
+import { markdownToDoc, parseFrontmatter } from "./markdown";
+import { parseCSV, inferColumns, convertCSVValue } from "./csv";
+import { ContentOwner } from "./workspaces";
+
+// Largest upload accepted, in megabytes
+export const IMPORT_MAX_MB = Number(process.env.IMPORT_MAX_MB) || 50;
+
+export interface ImportSummary {
+  folders: number;
+  pages: number;
+  tags: number;
+  databases: number;
+  rows: number;
+  unresolvedLinks: string[];
+  skipped: string[];
+}
+
+interface ImportFile {
+  path: string; // Full path inside the archive
+  dir: string; // Directory part of the path ("" for the root)
+  name: string; // Display name, without extension or Notion ID
+  text: string;
+}
+
+// Notion appends a 32 character ID to every exported file and directory
+const NOTION_ID_PATTERN = /\s+[0-9a-f]{32}$/i;
+
+// Files and directories that are app metadata rather than notes
+const IGNORED_PATTERN = /(^|\/)(__MACOSX|\.obsidian|\.trash|\.git|node_modules)(\/|$)|(^|\/)\./;
+
+function cleanName(segment: string): string {
+  return segment.replace(NOTION_ID_PATTERN, "").trim() || "Untitled";
+}
+
+function stripExtension(path: string): string {
+  return path.replace(/\.[^./]+$/, "");
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf("/");
+  return index === -1 ? "" : path.slice(0, index);
+}
+
+// Resolve a relative path against a directory, handling ./ and ../
+function resolvePath(dir: string, relative: string): string {
+  const parts = relative.startsWith("/") ? [] : dir.split("/").filter(Boolean);
+  for (const part of relative.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+// Read the notes and tables out of an uploaded file. A bare .md or .csv
+// file is treated as an archive holding just that file.
+async function readImportFiles(
+  fileName: string,
+  buffer: ArrayBuffer
+): Promise<{ files: ImportFile[]; skipped: string[] }> {
+  const entries: Array<{ path: string; read: () => Promise<string> }> = [];
+
+  if (/\.(md|markdown|csv)$/i.test(fileName)) {
+    const text = new TextDecoder().decode(buffer);
+    entries.push({ path: fileName, read: async () => text });
+  } else {
+    const zip = await JSZip.loadAsync(buffer);
+    zip.forEach((path, entry) => {
+      if (!entry.dir) entries.push({ path, read: () => entry.async("string") });
+    });
+  }
+
+  const files: ImportFile[] = [];
+  const skipped: string[] = [];
+
+  for (const entry of entries) {
+    if (IGNORED_PATTERN.test(entry.path)) continue;
+    if (!/\.(md|markdown|csv)$/i.test(entry.path)) {
+      skipped.push(entry.path);
+      continue;
+    }
+
+    const fileName = entry.path.slice(entry.path.lastIndexOf("/") + 1);
+    files.push({
+      path: entry.path,
+      dir: dirname(entry.path),
+      name: cleanName(stripExtension(fileName)),
+      text: await entry.read(),
+    });
+  }
+
+  // Newer Notion exports write each database twice; "_all" has every row
+  const paths = new Set(files.map((f) => f.path));
+  for (const file of files) {
+    if (/_all\.csv$/i.test(file.path)) file.name = cleanName(file.name.replace(/_all$/, ""));
+  }
+
+  return {
+    files: files.filter(
+      (f) => !/\.csv$/i.test(f.path) || !paths.has(f.path.replace(/\.csv$/i, "_all.csv"))
+    ),
+    skipped,
+  };
+}
+
+// Import an uploaded zip (or single .md/.csv file) into a workspace
+export async function importArchive(
+  fileName: string,
+  buffer: ArrayBuffer,
+  { userId, workspaceId }: ContentOwner
+): Promise<ImportSummary> {
+  const { files, skipped } = await readImportFiles(fileName, buffer);
+  return { ...(await importFiles(files, { userId, workspaceId })), skipped };
+}
+
+async function importFiles(
+  files: ImportFile[],
+  { userId, workspaceId }: ContentOwner
+): Promise<Omit<ImportSummary, "skipped">> {
+  const notes = files.filter((f) => !/\.csv$/i.test(f.path));
+  const tables = files.filter((f) => /\.csv$/i.test(f.path));
+
+  // Directories that hold a note's sub-pages, by the note's path
+  const pageDirs = new Map(notes.map((f) => [stripExtension(f.path), f.path]));
+
+  // Every directory holding a file, plus the directories above it
+  const dirs = new Set<string>();
+  for (const file of files) {
+    for (let dir = file.dir; dir; dir = dirname(dir)) {
+      if (!pageDirs.has(dir)) dirs.add(dir);
+    }
+  }
+  const sortedDirs = Array.from(dirs).sort((a, b) => a.split("/").length - b.split("/").length);
+  const depth = (path: string) => path.split("/").length;
+
+  const parsedNotes = [...notes].sort((a, b) => depth(a.path) - depth(b.path)).map((file) => {
+    const { data, body } = parseFrontmatter(file.text);
+    const title = typeof data.title === "string" && data.title ? data.title : file.name;
+    const rawTags = data.tags ?? data.tag ?? [];
+    const tags = (Array.isArray(rawTags) ? rawTags : rawTags.split(/[,\s]+/))
+      .map((t) => t.replace(/^#/, "").trim())
+      .filter(Boolean);
+
+    // Notion repeats the title as the first heading
+    const firstLine = body.trimStart().split("\n", 1)[0];
+    const content = firstLine.replace(/^#\s+/, "").trim() === title && firstLine.startsWith("# ")
+      ? body.trimStart().slice(firstLine.length)
+      : body;
+
+    const field = (key: string) => (typeof data[key] === "string" && data[key] ? (data[key] as string) : null);
+
+    return {
+      file,
+      title,
+      tags,
+      content,
+      icon: field("icon"),
+      color: field("color"),
+      isFavorite: field("favorite") === "true",
+    };
+  });
+
+  const unresolvedLinks = new Set<string>();
+  const summary: Omit<ImportSummary, "skipped"> = {
+    folders: sortedDirs.length,
+    pages: notes.length,
+    tags: 0,
+    databases: 0,
+    rows: 0,
+    unresolvedLinks: [],
+  };
+
+  const contents = new Map<string, string>();
+  await db.$transaction(
+    async (tx) => {
+      // Folders, parents first, appended after the workspace's existing folders
+      const lastFolder = await tx.folder.findFirst({
+        where: { workspaceId },
+        orderBy: { order: "desc" },
+      });
+      let order = (lastFolder?.order ?? -1) + 1;
+
+      // The folder a path lands in, skipping sub-page directories
+      const folderIds = new Map<string, string>();
+      const folderOf = (dir: string) => {
+        while (dir && !folderIds.has(dir)) dir = dirname(dir);
+        return folderIds.get(dir) ?? null;
+      };
+      for (const dir of sortedDirs) {
+        const folder = await tx.folder.create({
+          data: {
+            name: cleanName(dir.slice(dir.lastIndexOf("/") + 1)),
+            parentId: folderOf(dirname(dir)),
+            order: order++,
+            userId,
+            workspaceId,
+          },
+        });
+        folderIds.set(dir, folder.id);
+      }
+
+      // Create pages first so links between them can be resolved. Notes are
+      // sorted shallowest first, so a parent page exists before its sub-pages.
+      const pageIds = new Map<string, string>();
+      const pagesByName = new Map<string, string>();
+      for (const note of parsedNotes) {
+        const parentPath = pageDirs.get(note.file.dir);
+        const page = await tx.page.create({
+          data: {
+            title: note.title,
+            icon: note.icon,
+            color: note.color,
+            isFavorite: note.isFavorite,
+            folderId: folderOf(note.file.dir),
+            parentPageId: parentPath ? pageIds.get(parentPath) : null,
+            userId,
+            workspaceId,
+          },
+        });
+        pageIds.set(note.file.path, page.id);
+        const key = stripExtension(note.file.path).toLowerCase();
+        if (!pagesByName.has(key)) pagesByName.set(key, page.id);
+        for (const name of [note.file.name, note.title].map((n) => n.toLowerCase())) {
+          if (!pagesByName.has(name)) pagesByName.set(name, page.id);
+        }
+      }
+
+      // Databases
+      const databaseIds = new Map<string, string>();
+      for (const table of tables) {
+        const [header, ...rows] = parseCSV(table.text);
+        if (!header) continue;
+
+        const columns = inferColumns(header, rows);
+        const database = await tx.database.create({
+          data: {
+            name: table.name,
+            columns: JSON.stringify(columns),
+            userId,
+            workspaceId,
+          },
+        });
+        await tx.databaseRow.createMany({
+          data: rows.map((row) => ({
+            databaseId: database.id,
+            data: JSON.stringify(
+              Object.fromEntries(
+                columns
+                  .map((col, index) => [col.id, convertCSVValue(row[index] ?? "", col.type)])
+                  .filter(([, value]) => value !== "" && value !== null)
+              )
+            ),
+          })),
+        });
+        databaseIds.set(table.path, database.id);
+        summary.databases++;
+        summary.rows += rows.length;
+      }
+
+      // Tags
+      const tagIds = new Map<string, string>();
+      for (const name of new Set(parsedNotes.flatMap((n) => n.tags))) {
+        const tag = await tx.tag.upsert({
+          where: { workspaceId_name: { workspaceId, name } },
+          update: {},
+          create: { name, userId, workspaceId },
+        });
+        tagIds.set(name, tag.id);
+      }
+      summary.tags = tagIds.size;
+
+      // Convert content now that every page has an ID
+      for (const note of parsedNotes) {
+        const doc = markdownToDoc(note.content, {
+          resolveWikilink: (target) => {
+            const name = target.split("#")[0].trim().toLowerCase();
+            const id =
+              pagesByName.get(name) ??
+              pagesByName.get(resolvePath(note.file.dir, name).toLowerCase()) ??
+              pagesByName.get(stripExtension(name));
+            if (!id) unresolvedLinks.add(target);
+            return id ? `/page/${id}` : null;
+          },
+          resolveHref: (href) => {
+            if (/^[a-z]+:/i.test(href) || href.startsWith("#")) return href;
+            let decoded = href.split("#")[0];
+            try {
+              decoded = decodeURIComponent(decoded);
+            } catch {
+              // Keep the raw href if it isn't valid URI encoding
+            }
+            const path = resolvePath(note.file.dir, decoded);
+            const pageId = pageIds.get(path);
+            if (pageId) return `/page/${pageId}`;
+            const databaseId = databaseIds.get(path);
+            if (databaseId) return `/databases/${databaseId}`;
+            return href;
+          },
+        });
+
+        const pageId = pageIds.get(note.file.path)!;
+        contents.set(pageId, JSON.stringify(doc));
+        await tx.page.update({
+          where: { id: pageId },
+          data: {
+            content: contents.get(pageId),
+            tags: { connect: note.tags.map((name) => ({ id: tagIds.get(name)! })) },
+          },
+        });
+      }
+    },
+    { timeout: 120_000 }
+  );
+
+  // Index links between the new pages for backlinks
+  for (const [pageId, content] of contents) {
+    await syncPageLinks(pageId, workspaceId, content);
+  }
+
+  summary.unresolvedLinks = Array.from(unresolvedLinks);
+  return summary;
+}
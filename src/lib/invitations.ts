@@ -0,0 +1,140 @@
+/**
+ * Workspace Invitations
+ *
+ * Owners invite people to a workspace by email. An invitation is a row in
+ * the VerificationToken table, the one NextAuth keeps for email sign-in
+ * links: its identifier says which workspace, role and email it is for,
+ * and its token is a hash of the secret in the link that gets mailed out,
+ * so the table alone can't be used to join. Inviting the same email again
+ * replaces the earlier invitation, and accepting one uses it up.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { db } from "./db";
+import { sendEmail } from "./email";
+import { WORKSPACE_ROLES, WorkspaceRole, isWorkspaceRole } from "./workspaces";
+
+// Keeps invitations apart from NextAuth's own tokens
+const IDENTIFIER_PREFIX = "workspace-invite";
+
+// How long an invitation can be accepted
+const INVITATION_TTL_DAYS = 7;
+
+export interface Invitation {
+  workspaceId: string;
+  email: string;
+  role: WorkspaceRole;
+  expires: Date;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function workspacePrefix(workspaceId: string): string {
+  return `${IDENTIFIER_PREFIX}:${workspaceId}:`;
+}
+
+// Read an identifier written by createInvitation; the email goes last
+// since it is the only part that could hold a colon
+function parseInvitation(row: { identifier: string; expires: Date }): Invitation | null {
+  const [prefix, workspaceId, role, ...email] = row.identifier.split(":");
+  if (prefix !== IDENTIFIER_PREFIX || !workspaceId || !isWorkspaceRole(role) || email.length === 0) {
+    return null;
+  }
+  return { workspaceId, role, email: email.join(":"), expires: row.expires };
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Invite an email to a workspace. Returns the secret for the invitation link.
+export async function createInvitation(workspaceId: string, email: string, role: WorkspaceRole): Promise<string> {
+  const address = normalizeEmail(email);
+  await revokeInvitation(workspaceId, address);
+
+  const token = randomBytes(32).toString("base64url");
+  await db.verificationToken.create({
+    data: {
+      identifier: `${workspacePrefix(workspaceId)}${role}:${address}`,
+      token: hashToken(token),
+      expires: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+    },
+  });
+  return token;
+}
+
+// Invitations to a workspace that can still be accepted
+export async function listInvitations(workspaceId: string): Promise<Invitation[]> {
+  const rows = await db.verificationToken.findMany({
+    where: { identifier: { startsWith: workspacePrefix(workspaceId) }, expires: { gt: new Date() } },
+    orderBy: { expires: "desc" },
+  });
+  return rows.map(parseInvitation).filter((invitation): invitation is Invitation => Boolean(invitation));
+}
+
+// Withdraw the invitation for an email. Returns whether there was one.
+export async function revokeInvitation(workspaceId: string, email: string): Promise<boolean> {
+  const { count } = await db.verificationToken.deleteMany({
+    where: {
+      identifier: { startsWith: workspacePrefix(workspaceId), endsWith: `:${normalizeEmail(email)}` },
+    },
+  });
+  return count > 0;
+}
+
+// The invitation a link's secret belongs to, if it hasn't expired
+export async function findInvitation(token: string): Promise<Invitation | null> {
+  const row = await db.verificationToken.findUnique({ where: { token: hashToken(token) } });
+  const invitation = row && parseInvitation(row);
+  if (!invitation || invitation.expires < new Date()) return null;
+  return invitation;
+}
+
+// Join the workspace an invitation is for. Someone already in it keeps
+// their role unless the invitation gives them more.
+export async function acceptInvitation(
+  token: string,
+  user: { id: string; email: string }
+): Promise<{ workspaceId: string } | { error: string }> {
+  const invitation = await findInvitation(token);
+  if (!invitation) return { error: "This invitation is invalid or has expired" };
+  if (invitation.email !== normalizeEmail(user.email)) {
+    return { error: `This invitation is for ${invitation.email}. Sign in with that account to accept it.` };
+  }
+
+  const { workspaceId, role } = invitation;
+  await db.$transaction(async (tx) => {
+    const existing = await tx.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: user.id } },
+    });
+    if (!existing) {
+      await tx.workspaceMember.create({ data: { workspaceId, userId: user.id, role } });
+    } else if (WORKSPACE_ROLES.indexOf(role) < WORKSPACE_ROLES.indexOf(existing.role as WorkspaceRole)) {
+      await tx.workspaceMember.update({ where: { id: existing.id }, data: { role } });
+    }
+    await tx.verificationToken.delete({ where: { token: hashToken(token) } });
+  });
+
+  return { workspaceId };
+}
+
+// Mail an invitation link. Returns false when email isn't set up.
+export async function sendInvitationEmail(
+  invitation: { email: string; role: WorkspaceRole },
+  workspaceName: string,
+  inviterName: string,
+  url: string
+): Promise<boolean> {
+  const subject = `${inviterName} invited you to ${workspaceName} on Mind Garden`;
+  const text = [
+    `${inviterName} invited you to join the workspace "${workspaceName}" as ${invitation.role === "viewer" ? "a viewer" : `an ${invitation.role}`}.`,
+    "",
+    `Accept the invitation: ${url}`,
+    "",
+    `The link works for ${INVITATION_TTL_DAYS} days. If you don't have an account yet, sign up with ${invitation.email} first.`,
+  ].join("\n");
+
+  return sendEmail({ to: invitation.email, subject, text });
+}
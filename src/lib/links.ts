@@ -0,0 +1,155 @@
+/**
+ * Page Link Index
+ *
+ * Keeps the PageLink table in sync with the link marks inside each
+ * page's Tiptap JSON. Backlinks, outgoing links and link counts are
+ * all read from this index instead of scanning page content. The index
+ * is also how links get their text updated when a page is renamed.
+ */
+
+import { db } from "./db";
+import { pageLinkLabel, type TiptapNode } from "./tiptap";
+
+// Matches internal page links, relative ("/page/abc") or absolute ("https://host/page/abc")
+const PAGE_HREF_PATTERN = /^(?:https?:\/\/[^/]+)?\/page\/([A-Za-z0-9_-]+)\/?(?:[?#].*)?$/;
+
+// Get the page ID an href points to, or null for anything else
+export function getLinkedPageId(href: unknown): string | null {
+  if (typeof href !== "string") return null;
+  const match = href.trim().match(PAGE_HREF_PATTERN);
+  return match ? match[1] : null;
+}
+
+// Collect the IDs of all pages linked from a Tiptap document
+export function extractPageLinkIds(content: string | null | undefined): string[] {
+  if (!content) return [];
+
+  let doc: TiptapNode;
+  try {
+    doc = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  const ids = new Set<string>();
+
+  const walk = (node: TiptapNode) => {
+    // Code blocks are plain text - anything that looks like a link in there isn't one
+    if (node.type === "codeBlock") return;
+
+    for (const mark of node.marks || []) {
+      if (mark.type !== "link") continue;
+      const pageId = getLinkedPageId(mark.attrs?.href);
+      if (pageId) ids.add(pageId);
+    }
+
+    node.content?.forEach(walk);
+  };
+
+  if (doc && typeof doc === "object") walk(doc);
+
+  return [...ids];
+}
+
+// Rebuild the outgoing links of one page from its content
+export async function syncPageLinks(
+  pageId: string,
+  workspaceId: string,
+  content: string | null | undefined
+): Promise<number> {
+  const linkedIds = extractPageLinkIds(content).filter((id) => id !== pageId);
+
+  // Only index links to pages in the same workspace
+  const targets = linkedIds.length
+    ? await db.page.findMany({
+        where: { id: { in: linkedIds }, workspaceId },
+        select: { id: true },
+      })
+    : [];
+
+  await db.$transaction([
+    db.pageLink.deleteMany({ where: { sourcePageId: pageId } }),
+    db.pageLink.createMany({
+      data: targets.map((target) => ({
+        sourcePageId: pageId,
+        targetPageId: target.id,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return targets.length;
+}
+
+// Rebuild the link index for every page in a workspace
+export async function backfillPageLinks(workspaceId: string): Promise<{ pages: number; links: number }> {
+  const pages = await db.page.findMany({
+    where: { workspaceId },
+    select: { id: true, content: true },
+  });
+
+  let links = 0;
+  for (const page of pages) {
+    links += await syncPageLinks(page.id, workspaceId, page.content);
+  }
+
+  return { pages: pages.length, links };
+}
+
+// Swap the text of links to a page that still show one of its old labels.
+// Returns whether anything changed.
+function relabelLinks(node: TiptapNode, pageId: string, labels: Map<string, string>): boolean {
+  if (node.type === "codeBlock") return false;
+
+  let changed = false;
+  const isLink = node.marks?.some((mark) => mark.type === "link" && getLinkedPageId(mark.attrs?.href) === pageId);
+  const label = isLink && node.text !== undefined ? labels.get(node.text) : undefined;
+  // Empty text nodes are invalid in a document, so a link never loses all its text
+  if (label) {
+    node.text = label;
+    changed = true;
+  }
+  for (const child of node.content || []) {
+    if (relabelLinks(child, pageId, labels)) changed = true;
+  }
+  return changed;
+}
+
+// After a page is renamed or gets a new icon, update links to it that
+// show its old title. Link text someone wrote themselves is left alone.
+// A blank new title shows as "Untitled", like the page itself.
+export async function relabelPageLinks(
+  pageId: string,
+  before: { title: string; icon: string | null },
+  after: { title: string; icon: string | null }
+): Promise<number> {
+  if (!after.title.trim()) after = { ...after, title: "Untitled" };
+
+  const labels = new Map([
+    [pageLinkLabel(before), pageLinkLabel(after)],
+    [before.title, after.title],
+  ]);
+  if ([...labels].every(([from, to]) => from === to)) return 0;
+
+  const links = await db.pageLink.findMany({
+    where: { targetPageId: pageId },
+    select: { sourcePage: { select: { id: true, content: true } } },
+  });
+
+  let updated = 0;
+  for (const { sourcePage } of links) {
+    if (!sourcePage.content) continue;
+    let doc: TiptapNode;
+    try {
+      doc = JSON.parse(sourcePage.content);
+    } catch {
+      continue;
+    }
+    if (!relabelLinks(doc, pageId, labels)) continue;
+
+    await db.page.update({ where: { id: sourcePage.id }, data: { content: JSON.stringify(doc) } });
+    updated++;
+  }
+
+  return updated;
+}
@@ -0,0 +1,620 @@
+/**
+ * Markdown Conversion
+ *
+ * Turns Markdown (as written by Obsidian, Notion exports and most other
+ * editors) into the Tiptap JSON we store in Page.content, and back.
+ * Only the nodes and marks PageEditor understands are produced; anything
+ * else falls back to plain text.
+ */
+
+import { DATABASE_EMBED, getNodeText, type TiptapNode } from "./tiptap";
+
+type Mark = NonNullable<TiptapNode["marks"]>[number];
+
+export interface MarkdownOptions {
+  // Turn the target of a [[wikilink]] into an href (null = leave as text)
+  resolveWikilink?: (target: string) => string | null;
+  // Rewrite the href of a [text](href) link, e.g. relative .md paths
+  resolveHref?: (href: string) => string;
+}
+
+export interface SerializeOptions {
+  // Rewrite link hrefs, e.g. /page/<id> to a relative file path
+  resolveHref?: (href: string) => string;
+}
+
+export interface Frontmatter {
+  data: Record<string, string | string[]>;
+  body: string;
+}
+
+const FRONTMATTER_PATTERN = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/;
+const LIST_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+/;
+const TABLE_DIVIDER_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+// Split YAML frontmatter off the top of a document. Only the simple
+// `key: value` and list forms used for titles and tags are understood.
+export function parseFrontmatter(markdown: string): Frontmatter {
+  const match = markdown.match(FRONTMATTER_PATTERN);
+  if (!match) return { data: {}, body: markdown.replace(/^\uFEFF/, "") };
+
+  const data: Frontmatter["data"] = {};
+  let currentKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.*)$/) || line.match(/^-\s+(.*)$/);
+    if (item && currentKey) {
+      const list = Array.isArray(data[currentKey]) ? (data[currentKey] as string[]) : [];
+      list.push(unquote(item[1]));
+      data[currentKey] = list;
+      continue;
+    }
+
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!pair) continue;
+
+    currentKey = pair[1].toLowerCase();
+    const value = pair[2].trim();
+    if (value.startsWith("[") && value.endsWith("]")) {
+      data[currentKey] = value
+        .slice(1, -1)
+        .split(",")
+        .map((v) => unquote(v))
+        .filter(Boolean);
+    } else {
+      data[currentKey] = value ? unquote(value) : [];
+    }
+  }
+
+  return { data, body: markdown.slice(match[0].length) };
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (/^".*"$/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(trimmed)) return trimmed.slice(1, -1).replace(/''/g, "'");
+  return trimmed;
+}
+
+// Write a YAML frontmatter block. Empty values are left out.
+export function stringifyFrontmatter(
+  data: Record<string, string | string[] | boolean | null | undefined>
+): string {
+  const lines: string[] = [];
+
+  const scalar = (value: string) =>
+    /^[\w][\w .:/+-]*$/.test(value) && !/:\s|:$|\s$/.test(value) && !/^(true|false|null|yes|no|~|[\d.+-]+)$/i.test(value)
+      ? value
+      : JSON.stringify(value);
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === null || value === undefined || value === "") continue;
+    if (Array.isArray(value)) {
+      if (value.length === 0) continue;
+      lines.push(`${key}:`);
+      value.forEach((item) => lines.push(`  - ${scalar(item)}`));
+    } else {
+      lines.push(`${key}: ${typeof value === "boolean" ? value : scalar(value)}`);
+    }
+  }
+
+  return lines.length > 0 ? `---\n${lines.join("\n")}\n---\n` : "";
+}
+
+// Convert a Markdown document into a Tiptap doc
+export function markdownToDoc(markdown: string, options: MarkdownOptions = {}): TiptapNode {
+  const lines = markdown.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n");
+  const content = parseBlocks(lines, options);
+  return { type: "doc", content: content.length > 0 ? content : [{ type: "paragraph" }] };
+}
+
+// Is this line the start of a block other than a paragraph?
+function startsBlock(line: string): boolean {
+  return (
+    HEADING_PATTERN.test(line) ||
+    HR_PATTERN.test(line) ||
+    FENCE_PATTERN.test(line) ||
+    LIST_PATTERN.test(line) ||
+    /^\s*>/.test(line)
+  );
+}
+
+function indentOf(line: string): number {
+  return line.match(/^ */)![0].length;
+}
+
+function parseBlocks(lines: string[], options: MarkdownOptions): TiptapNode[] {
+  const blocks: TiptapNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({
+        type: "codeBlock",
+        attrs: { language: fence[2] || null },
+        content: code.length > 0 ? [{ type: "text", text: code.join("\n") }] : undefined,
+      });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        attrs: { level: Math.min(heading[1].length, 3) },
+        content: parseInline(heading[2], options),
+      });
+      i++;
+      continue;
+    }
+
+    if (HR_PATTERN.test(line)) {
+      blocks.push({ type: "horizontalRule" });
+      i++;
+      continue;
+    }
+
+    // Blockquote: strip the markers and parse what's inside
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s*> ?/, ""));
+        i++;
+      }
+      const inner = parseBlocks(quoted, options);
+      blocks.push({
+        type: "blockquote",
+        content: inner.length > 0 ? inner : [{ type: "paragraph" }],
+      });
+      continue;
+    }
+
+    if (LIST_PATTERN.test(line)) {
+      const [list, next] = parseList(lines, i, options);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    // Tables have no editor equivalent, so each row becomes a line of text
+    if (line.trim().startsWith("|") && TABLE_DIVIDER_PATTERN.test(lines[i + 1] || "")) {
+      const rows: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith("|")) {
+        if (!TABLE_DIVIDER_PATTERN.test(lines[i])) {
+          rows.push(
+            lines[i]
+              .trim()
+              .replace(/^\||\|$/g, "")
+              .split("|")
+              .map((cell) => cell.trim())
+              .join(" · ")
+          );
+        }
+        i++;
+      }
+      blocks.push(paragraph(rows, options));
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block
+    const text: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      text.push(lines[i].trim());
+      i++;
+    }
+    blocks.push(paragraph(text, options));
+  }
+
+  return blocks;
+}
+
+// Line breaks inside a paragraph are kept, the way Obsidian shows them
+function paragraph(lines: string[], options: MarkdownOptions): TiptapNode {
+  const content: TiptapNode[] = [];
+  lines.forEach((line, index) => {
+    if (index > 0) content.push({ type: "hardBreak" });
+    content.push(...parseInline(line.replace(/(\\| {2,})$/, ""), options));
+  });
+  return { type: "paragraph", content: content.length > 0 ? content : undefined };
+}
+
+// Parse a run of list items at the same indent into a bullet, ordered or task list
+function parseList(lines: string[], start: number, options: MarkdownOptions): [TiptapNode, number] {
+  const first = lines[start].match(LIST_PATTERN)!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const isTask = TASK_PATTERN.test(first[3]);
+  const items: TiptapNode[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_PATTERN);
+    if (!match || match[1].length !== baseIndent) break;
+    if (/\d/.test(match[2]) !== ordered || TASK_PATTERN.test(match[3]) !== isTask) break;
+
+    // Everything indented past the marker belongs to this item
+    const contentIndent = match[1].length + match[2].length + 1;
+    const itemLines = [match[3]];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (line.trim()) {
+        if (indentOf(line) <= baseIndent) break;
+        itemLines.push(line.slice(Math.min(indentOf(line), contentIndent)));
+        i++;
+        continue;
+      }
+      // A blank line only continues the item if indented content follows
+      let j = i;
+      while (j < lines.length && !lines[j].trim()) j++;
+      if (j >= lines.length || indentOf(lines[j]) <= baseIndent) break;
+      for (; i < j; i++) itemLines.push("");
+    }
+
+    const task = itemLines[0].match(TASK_PATTERN);
+    if (task) itemLines[0] = itemLines[0].slice(task[0].length);
+
+    const content = parseBlocks(itemLines, options);
+    if (content[0]?.type !== "paragraph") content.unshift({ type: "paragraph" });
+
+    items.push({
+      type: isTask ? "taskItem" : "listItem",
+      attrs: isTask ? { checked: task?.[1].toLowerCase() === "x" } : undefined,
+      content,
+    });
+  }
+
+  const type = isTask ? "taskList" : ordered ? "orderedList" : "bulletList";
+  const list: TiptapNode = { type, content: items };
+  if (ordered) list.attrs = { start: parseInt(first[2], 10) || 1 };
+
+  return [list, i];
+}
+
+// Delimited inline marks, checked in order
+const EMPHASIS: Array<{ open: string; mark: string }> = [
+  { open: "**", mark: "bold" },
+  { open: "__", mark: "bold" },
+  { open: "~~", mark: "strike" },
+  { open: "==", mark: "highlight" },
+  { open: "*", mark: "italic" },
+  { open: "_", mark: "italic" },
+];
+
+// Parse inline Markdown into text nodes with marks
+export function parseInline(text: string, options: MarkdownOptions, marks: Mark[] = []): TiptapNode[] {
+  const nodes: TiptapNode[] = [];
+  let buffer = "";
+  let i = 0;
+
+  const pushText = (value: string, withMarks: Mark[]) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text" && sameMarks(last.marks, withMarks)) {
+      last.text += value;
+    } else {
+      nodes.push(withMarks.length > 0 ? { type: "text", text: value, marks: withMarks } : { type: "text", text: value });
+    }
+  };
+  const flush = () => {
+    pushText(buffer, marks);
+    buffer = "";
+  };
+  const append = (children: TiptapNode[]) => {
+    flush();
+    for (const child of children) pushText(child.text || "", child.marks || []);
+  };
+  const link = (href: string): Mark[] => [...marks.filter((m) => m.type !== "link"), { type: "link", attrs: { href } }];
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+
+    // Escaped character
+    if (rest[0] === "\\" && rest.length > 1 && /[\\`*_~=[\]()#>|!.+-]/.test(rest[1])) {
+      buffer += rest[1];
+      i += 2;
+      continue;
+    }
+
+    // Inline code (no other marks can combine with it)
+    const code = rest.match(/^(`+)([\s\S]+?)\1/);
+    if (code) {
+      flush();
+      pushText(code[2], [{ type: "code" }]);
+      i += code[0].length;
+      continue;
+    }
+
+    // [[Wikilink]], [[Target|Alias]], [[Target#Heading]] and ![[embeds]]
+    const wiki = rest.match(/^!?\[\[([^\]|]+?)(?:\|([^\]]+))?\]\]/);
+    if (wiki) {
+      const target = wiki[1].trim();
+      const label = (wiki[2] || target.replace(/#\^?/, " > ")).trim();
+      const href = options.resolveWikilink?.(target) ?? null;
+      append([{ type: "text", text: label, marks: href ? link(href) : marks }]);
+      i += wiki[0].length;
+      continue;
+    }
+
+    // [text](href) and ![alt](src)
+    const mdLink = rest.match(/^(!?)\[((?:[^\[\]]|\[[^\]]*\])*)\]\(\s*<?([^\s>)]*)>?(?:\s+"[^"]*")?\s*\)/);
+    if (mdLink) {
+      const href = options.resolveHref ? options.resolveHref(mdLink[3]) : mdLink[3];
+      const label = mdLink[2] || mdLink[3];
+      append(href ? parseInline(label, options, link(href)) : [{ type: "text", text: label, marks }]);
+      i += mdLink[0].length;
+      continue;
+    }
+
+    // <https://autolinks>
+    const auto = rest.match(/^<(https?:\/\/[^\s>]+)>/);
+    if (auto) {
+      append([{ type: "text", text: auto[1], marks: link(auto[1]) }]);
+      i += auto[0].length;
+      continue;
+    }
+
+    // Bold, italic, strike and highlight
+    const emphasis = EMPHASIS.find(({ open }) => rest.startsWith(open));
+    if (emphasis) {
+      const { open, mark } = emphasis;
+      const close = findClosing(text, i + open.length, open);
+      const wordBoundary = open[0] !== "_" || i === 0 || !/\w/.test(text[i - 1]);
+      if (close > i + open.length && wordBoundary && !/\s/.test(text[i + open.length])) {
+        const inner = text.slice(i + open.length, close);
+        append(parseInline(inner, options, [...marks, { type: mark }]));
+        i = close + open.length;
+        continue;
+      }
+    }
+
+    buffer += rest[0];
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+// Find the closing delimiter for an emphasis run, skipping over code spans
+function findClosing(text: string, from: number, delimiter: string): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (text[i] === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end === -1) return -1;
+      i = end + 1;
+      continue;
+    }
+    if (text.startsWith(delimiter, i) && !/\s/.test(text[i - 1])) {
+      // `*` must not be the first half of a `**`
+      if (delimiter.length === 1 && text[i + 1] === delimiter) {
+        i += 2;
+        continue;
+      }
+      if (delimiter[0] === "_" && /\w/.test(text[i + delimiter.length] || "")) {
+        i++;
+        continue;
+      }
+      // In "***" the outer "**" closes last
+      while (text[i + delimiter.length] === delimiter[0]) i++;
+      return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+function sameMarks(a: Mark[] | undefined, b: Mark[]): boolean {
+  const left = a || [];
+  if (left.length !== b.length) return false;
+  return left.every((mark, index) =>
+    mark.type === b[index].type &&
+    JSON.stringify(mark.attrs || null) === JSON.stringify(b[index].attrs || null)
+  );
+}
+
+// Convert a Tiptap doc into Markdown
+export function docToMarkdown(doc: TiptapNode, options: SerializeOptions = {}): string {
+  const markdown = serializeBlocks(doc.content || [], options);
+  return markdown ? markdown + "\n" : "";
+}
+
+// Blocks are separated by a blank line
+function serializeBlocks(nodes: TiptapNode[], options: SerializeOptions): string {
+  return nodes
+    .map((node) => serializeBlock(node, options))
+    .filter((block) => block !== null)
+    .join("\n\n");
+}
+
+// Prefix every line after the first (used for list item bodies)
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line, index) => (index === 0 || !line ? line : prefix + line))
+    .join("\n");
+}
+
+function serializeBlock(node: TiptapNode, options: SerializeOptions): string | null {
+  switch (node.type) {
+    case "paragraph":
+      return serializeInline(node.content || [], options)
+        .split("\n")
+        .map(escapeBlockStart)
+        .join("\n");
+    case "heading":
+      return `${"#".repeat(Number(node.attrs?.level) || 1)} ${serializeInline(node.content || [], options)}`;
+    case "blockquote":
+      return serializeBlocks(node.content || [], options)
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+    case "codeBlock": {
+      const code = getNodeText(node);
+      const longestRun = Math.max(2, ...(code.match(/`+/g) || []).map((run) => run.length));
+      const fence = "`".repeat(longestRun + 1);
+      return `${fence}${node.attrs?.language || ""}\n${code}\n${fence}`;
+    }
+    case "horizontalRule":
+      return "---";
+    case DATABASE_EMBED: {
+      // Embedded databases become a link to the database
+      if (!node.attrs?.databaseId) return null;
+      const href = `/databases/${node.attrs?.databaseId}`;
+      return `[Embedded database](${options.resolveHref ? options.resolveHref(href) : href})`;
+    }
+    case "bulletList":
+    case "orderedList":
+    case "taskList": {
+      const start = Number(node.attrs?.start) || 1;
+      return (node.content || [])
+        .map((item, index) => {
+          const marker =
+            node.type === "orderedList"
+              ? `${start + index}.`
+              : node.type === "taskList"
+              ? `- [${item.attrs?.checked ? "x" : " "}]`
+              : "-";
+          const continuation = " ".repeat(node.type === "orderedList" ? marker.length + 1 : 2);
+          return `${marker} ${indent(serializeListItem(item, options), continuation)}`;
+        })
+        .join("\n");
+    }
+    default:
+      if (node.content) return serializeBlocks(node.content, options);
+      return node.text ? escapeBlockStart(escapeText(node.text)) : null;
+  }
+}
+
+// A nested list sits right under the item's text; other blocks get a blank line
+function serializeListItem(item: TiptapNode, options: SerializeOptions): string {
+  const [first, ...rest] = item.content || [];
+  let text = first ? serializeBlock(first, options) || "" : "";
+  for (const child of rest) {
+    const block = serializeBlock(child, options);
+    if (block === null) continue;
+    text += (/List$/.test(child.type) ? "\n" : "\n\n") + block;
+  }
+  return text;
+}
+
+// Escape characters that would otherwise be read as Markdown syntax
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]]/g, "\\$&").replace(/([~=])(?=\1)/g, "\\$1");
+}
+
+// Keep a paragraph that starts like a heading, quote or list from becoming one
+function escapeBlockStart(text: string): string {
+  return text.replace(/^(\s*)(#{1,6}\s|>|[-+]\s|\d+[.)]\s|-(?=-{2,}\s*$))/, (_, space, marker) =>
+    /^\d/.test(marker) ? `${space}${marker.replace(/([.)])/, "\\$1")}` : `${space}\\${marker}`
+  );
+}
+
+// Markdown delimiters for each mark
+const MARK_DELIMITERS: Record<string, string> = {
+  bold: "**",
+  italic: "*",
+  strike: "~~",
+  highlight: "==",
+};
+
+const MARK_ORDER = ["link", "bold", "italic", "strike", "highlight"];
+
+// Serialize inline content, keeping marks open across adjacent text nodes
+// and moving spaces outside the delimiters so the Markdown stays valid
+function serializeInline(nodes: TiptapNode[], options: SerializeOptions): string {
+  let output = "";
+  let pending = "";
+  const active: Mark[] = [];
+
+  const open = (mark: Mark) => (mark.type === "link" ? "[" : MARK_DELIMITERS[mark.type]);
+  const close = (mark: Mark) => {
+    if (mark.type !== "link") return MARK_DELIMITERS[mark.type];
+    const href = String(mark.attrs?.href || "");
+    const target = options.resolveHref ? options.resolveHref(href) : href;
+    return `](${/[\s()<>]/.test(target) ? `<${target}>` : target})`;
+  };
+  const closeFrom = (index: number) => {
+    while (active.length > index) output += close(active.pop()!);
+  };
+
+  for (const node of nodes) {
+    if (node.type === "hardBreak") {
+      closeFrom(0);
+      output += pending + "\\\n";
+      pending = "";
+      continue;
+    }
+    if (node.type !== "text" || !node.text) continue;
+
+    const marks = (node.marks || [])
+      .filter((m) => m.type === "code" || m.type in MARK_DELIMITERS || m.type === "link")
+      .sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+    const isCode = marks.some((m) => m.type === "code");
+    const wanted = marks.filter((m) => m.type !== "code");
+
+    const [, lead, core, trail] = node.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    if (!core) {
+      pending += node.text;
+      continue;
+    }
+
+    // Close marks this node doesn't share with the ones already open
+    let keep = 0;
+    while (keep < active.length && wanted.some((m) => sameMarks([m], [active[keep]]))) keep++;
+    closeFrom(keep);
+    output += pending + lead;
+    pending = trail;
+
+    for (const mark of wanted) {
+      if (!active.some((m) => sameMarks([m], [mark]))) {
+        output += open(mark);
+        active.push(mark);
+      }
+    }
+
+    if (isCode) {
+      const longestRun = Math.max(0, ...(core.match(/`+/g) || []).map((run) => run.length));
+      const ticks = "`".repeat(longestRun + 1);
+      const padding = core.startsWith("`") || core.endsWith("`") ? " " : "";
+      output += `${ticks}${padding}${core}${padding}${ticks}`;
+    } else {
+      output += escapeText(core);
+    }
+  }
+
+  closeFrom(0);
+  return output + pending;
+}
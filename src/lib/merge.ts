@@ -0,0 +1,74 @@
+/**
+ * Three-Way Merge
+ *
+ * Combines two sets of edits made from the same starting point (the base):
+ * "mine", which couldn't be saved, and "theirs", which was saved first.
+ * Used to resolve save conflicts on pages and database rows. Where both
+ * sides changed the same thing, mine wins for fields; for page content both
+ * versions of the clashing blocks are kept, mine first.
+ */
+
+import { TiptapNode } from "./tiptap";
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Merge flat records field by field: a field I changed takes my value,
+// everything else takes theirs
+export function mergeFields<T extends Record<string, unknown>>(base: T, mine: T, theirs: T): T {
+  const merged: Record<string, unknown> = { ...theirs };
+  for (const key of Object.keys(mine)) {
+    if (!same(mine[key], base[key])) merged[key] = mine[key];
+  }
+  return merged as T;
+}
+
+// For each item of `a`, the index of the matching item of `b` in their
+// longest common subsequence (or -1)
+function matchItems(a: string[], b: string[]): number[] {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(a.length).fill(-1);
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) matches[i++] = j++;
+    else if (lengths[i + 1][j] >= lengths[i][j + 1]) i++;
+    else j++;
+  }
+  return matches;
+}
+
+// Merge one stretch between blocks that neither side touched
+function mergeChunk(base: string[], mine: string[], theirs: string[]): string[] {
+  if (same(mine, base)) return theirs;
+  if (same(theirs, base) || same(mine, theirs)) return mine;
+  return [...mine, ...theirs.filter((block) => !mine.includes(block))];
+}
+
+// Merge two edited versions of a document, block by block
+export function mergeDocs(base: TiptapNode, mine: TiptapNode, theirs: TiptapNode): TiptapNode {
+  const [b, m, t] = [base, mine, theirs].map((doc) => (doc.content ?? []).map((node) => JSON.stringify(node)));
+  const toMine = matchItems(b, m);
+  const toTheirs = matchItems(b, t);
+
+  const merged: string[] = [];
+  let [i, j, k] = [0, 0, 0];
+  for (let s = 0; s <= b.length; s++) {
+    // Blocks still in both versions are where the two line up again
+    const isSync = s === b.length || (toMine[s] >= j && toTheirs[s] >= k);
+    if (!isSync) continue;
+
+    const mineEnd = s === b.length ? m.length : toMine[s];
+    const theirsEnd = s === b.length ? t.length : toTheirs[s];
+    merged.push(...mergeChunk(b.slice(i, s), m.slice(j, mineEnd), t.slice(k, theirsEnd)));
+    if (s < b.length) merged.push(b[s]);
+    [i, j, k] = [s + 1, mineEnd + 1, theirsEnd + 1];
+  }
+
+  return { ...theirs, content: merged.map((block) => JSON.parse(block)) };
+}
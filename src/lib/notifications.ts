@@ -4,6 +4,8 @@
  * Handles requesting permission and sending browser notifications
  */
 
+import { dayKeyIn, timeIn } from "./timezones";
+
 // Check if notifications are supported
 export function isNotificationSupported(): boolean {
   return typeof window !== "undefined" && "Notification" in window;
@@ -64,29 +66,59 @@ export function sendNotification(
   }
 }
 
-// Check if a habit should show a reminder right now
+// ---- Push ----
+// Push notifications reach this browser through the service worker in
+// public/sw.js, so reminders arrive with the app closed.
+
+export function isPushSupported(): boolean {
+  return isNotificationSupported() && "serviceWorker" in navigator && "PushManager" in window;
+}
+
+// This browser's push subscription, if it has one
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// Subscribe this browser to push, with the server's public VAPID key
+export async function subscribeToPush(publicKey: string): Promise<PushSubscription> {
+  await navigator.serviceWorker.register("/sw.js");
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: base64UrlToBytes(publicKey),
+  });
+}
+
+// VAPID keys come base64url-encoded; the Push API wants the raw bytes
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+// Check if a habit should show a reminder right now, on the clock of the
+// user's time zone
 export function shouldShowReminder(
   reminderTime: string,
+  timezone: string,
   lastShownTime?: string
 ): boolean {
   const now = new Date();
-  const [hours, minutes] = reminderTime.split(":").map(Number);
-  
-  const reminderDate = new Date();
-  reminderDate.setHours(hours, minutes, 0, 0);
 
-  // Check if current time is within 1 minute of reminder time
-  const diffMs = Math.abs(now.getTime() - reminderDate.getTime());
-  const isWithinWindow = diffMs < 60000; // 1 minute window
+  // Reminders go off in the minute they're set for
+  if (timeIn(now, timezone) !== reminderTime) return false;
 
   // Check if we already showed this reminder today
   if (lastShownTime) {
-    const lastShown = new Date(lastShownTime);
-    const isSameDay = lastShown.toDateString() === now.toDateString();
+    const isSameDay = dayKeyIn(new Date(lastShownTime), timezone) === dayKeyIn(now, timezone);
     if (isSameDay) return false;
   }
 
-  return isWithinWindow;
+  return true;
 }
 
 // Format time for display
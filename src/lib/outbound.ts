@@ -0,0 +1,168 @@
+/**
+ * Outbound Requests
+ *
+ * Requests the server sends to URLs users give it, like reminder webhooks.
+ * These may only reach the public internet: loopback, private, link-local
+ * and other reserved addresses are refused when a URL is saved, and again
+ * on every request once its host name has been resolved, so a host that
+ * later points somewhere internal can't be used to reach it either.
+ */
+
+import dns from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+
+// IPv4 ranges that aren't the public internet, as [first address, prefix length]
+const RESERVED_IPV4: [string, number][] = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, including cloud metadata services
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, and broadcast
+];
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split(".").reduce((n, part) => n * 256 + Number(part), 0);
+}
+
+function isPublicIPv4(ip: string): boolean {
+  const n = ipv4ToNumber(ip);
+  return !RESERVED_IPV4.some(([first, bits]) => {
+    const start = ipv4ToNumber(first);
+    return n >= start && n < start + 2 ** (32 - bits);
+  });
+}
+
+// The eight 16-bit groups of an IPv6 address
+function ipv6Groups(ip: string): number[] {
+  const parse = (part: string | undefined) =>
+    part
+      ? part.split(":").flatMap((group) => {
+          // A trailing dotted IPv4 address fills the last two groups
+          if (!group.includes(".")) return [parseInt(group, 16)];
+          const n = ipv4ToNumber(group);
+          return [Math.floor(n / 65536), n % 65536];
+        })
+      : [];
+  const [head, tail] = ip.split("::");
+  const start = parse(head);
+  const end = parse(tail);
+  return [...start, ...Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+function isPublicIPv6(ip: string): boolean {
+  const groups = ipv6Groups(ip);
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach an IPv4 host
+  const isMapped = groups.slice(0, 5).every((g) => g === 0) && groups[5] === 0xffff;
+  const isNat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0);
+  if (isMapped || isNat64) {
+    const [high, low] = groups.slice(6);
+    return isPublicIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  // Unspecified, loopback and IPv4-compatible addresses
+  if (groups.slice(0, 6).every((g) => g === 0)) return false;
+
+  return !(
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xffc0) === 0xfec0 || // site-local
+    (groups[0] & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Whether an IP address is on the public internet
+export function isPublicAddress(address: string): boolean {
+  const ip = address.split("%")[0];
+  switch (net.isIP(ip)) {
+    case 4:
+      return isPublicIPv4(ip);
+    case 6:
+      return isPublicIPv6(ip);
+    default:
+      return false;
+  }
+}
+
+// URL host names put IPv6 addresses in brackets
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+// Check a URL a user wants the server to send requests to. Returns what's
+// wrong with it, or null when it's fine.
+export async function checkOutboundUrl(value: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Must be an http or https URL";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return "Must be an http or https URL";
+
+  const host = hostOf(url);
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = net.isIP(host) ? [{ address: host, family: net.isIP(host) }] : await dns.promises.lookup(host, { all: true });
+  } catch {
+    return `Couldn't find ${host}`;
+  }
+
+  if (!addresses.every((a) => isPublicAddress(a.address))) {
+    return "Must point to a public address, not a local or private network";
+  }
+  return null;
+}
+
+// dns.lookup that won't hand out addresses off the public internet
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.length === 0 || !addresses.every((a) => isPublicAddress(a.address))) {
+      return callback(new Error(`${hostname} doesn't resolve to a public address`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// POST JSON to a user-given URL. Redirects aren't followed. Returns the
+// response status.
+export function postJson(value: string, body: unknown, timeoutMs: number): Promise<number> {
+  const url = new URL(value);
+  const host = hostOf(url);
+
+  // IP addresses connect without a lookup, so they're checked here
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    return Promise.reject(new Error(`${host} isn't a public address`));
+  }
+
+  const payload = JSON.stringify(body);
+  const send = url.protocol === "https:" ? https.request : http.request;
+
+  return new Promise((resolve, reject) => {
+    const req = send(
+      url,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(payload) },
+        lookup: publicLookup,
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.setTimeout(timeoutMs, () => req.destroy(new Error(`No response within ${timeoutMs / 1000}s`)));
+    req.on("error", reject);
+    req.end(payload);
+  });
+}
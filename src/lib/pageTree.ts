@@ -0,0 +1,93 @@
+/**
+ * Page Tree
+ *
+ * Pages can sit under other pages. A page under another always shares
+ * its parent's folder, so moving a page to a new folder or parent takes
+ * every page below it along. Database row pages stay out of the tree.
+ */
+
+import { db } from "./db";
+
+export interface PageCrumb {
+  id: string;
+  title: string;
+  icon: string | null;
+}
+
+// Get the IDs of every page below a page
+export async function getDescendantPageIds(pageId: string, workspaceId: string): Promise<string[]> {
+  const ids: string[] = [];
+  let frontier = [pageId];
+
+  while (frontier.length > 0) {
+    const children = await db.page.findMany({
+      where: { parentPageId: { in: frontier }, workspaceId },
+      select: { id: true },
+    });
+    frontier = children.map((c) => c.id).filter((id) => id !== pageId && !ids.includes(id));
+    ids.push(...frontier);
+  }
+
+  return ids;
+}
+
+// The pages above a page, from the top down
+export async function getPageAncestors(
+  parentPageId: string | null,
+  workspaceId: string
+): Promise<PageCrumb[]> {
+  const ancestors: PageCrumb[] = [];
+  let currentId = parentPageId;
+
+  while (currentId && !ancestors.some((a) => a.id === currentId)) {
+    const page = await db.page.findFirst({
+      where: { id: currentId, workspaceId, deletedAt: null },
+      select: { id: true, title: true, icon: true, parentPageId: true },
+    });
+    if (!page) break;
+    ancestors.unshift({ id: page.id, title: page.title, icon: page.icon });
+    currentId = page.parentPageId;
+  }
+
+  return ancestors;
+}
+
+// Work out where a page moves to when it gets a new parent page (or none,
+// with `parentPageId` null) or a new folder. Returns the page's new
+// parent and folder, or an error.
+export async function resolvePagePlacement(
+  page: { id: string; parentPageId: string | null; folderId: string | null },
+  updates: { parentPageId?: string | null; folderId?: string | null },
+  workspaceId: string
+): Promise<{ parentPageId: string | null; folderId: string | null } | { error: string }> {
+  if (updates.parentPageId) {
+    const parent = await db.page.findFirst({
+      where: { id: updates.parentPageId, workspaceId, deletedAt: null },
+      select: { id: true, folderId: true, databaseRowId: true },
+    });
+    if (!parent || parent.databaseRowId) return { error: "Parent page not found" };
+
+    const below = await getDescendantPageIds(page.id, workspaceId);
+    if (parent.id === page.id || below.includes(parent.id)) {
+      return { error: "A page can't be moved inside itself" };
+    }
+    return { parentPageId: parent.id, folderId: parent.folderId };
+  }
+
+  // Into a folder (or out of its parent) at the top level
+  return {
+    parentPageId: updates.parentPageId === undefined && updates.folderId === undefined ? page.parentPageId : null,
+    folderId: updates.folderId !== undefined ? updates.folderId : page.folderId,
+  };
+}
+
+// Move the pages below a page into its folder
+export async function moveDescendantsToFolder(pageId: string, folderId: string | null, workspaceId: string) {
+  const ids = await getDescendantPageIds(pageId, workspaceId);
+  if (ids.length === 0) return;
+
+  await db.page.updateMany({
+    where: { id: { in: ids } },
+    data: { folderId },
+  });
+}
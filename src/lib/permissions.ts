@@ -0,0 +1,98 @@
+/**
+ * Permissions
+ *
+ * The check every API route makes before touching content. `authorize`
+ * confirms who is signed in, works out which workspace the request is
+ * about and whether their role there allows it, and returns their access
+ * or the error response to send back instead:
+ *
+ *   const access = await authorize("edit", { page: pageId });
+ *   if (access instanceof NextResponse) return access;
+ *
+ * A request about one record (a page, folder, database, habit or tag) is
+ * checked against the workspace that record is in. Everything else is
+ * about the active workspace, which the sidebar switches between and a
+ * cookie remembers. Routes then scope their queries by `access.workspaceId`,
+ * so a record the user can't reach is simply not found.
+ */
+
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getServerSession } from "next-auth";
+import { authOptions } from "./auth";
+import { db } from "./db";
+import { ContentOwner, Permission, WorkspaceRole, getDefaultWorkspace, getMemberRole, roleAllows } from "./workspaces";
+
+export const ACTIVE_WORKSPACE_COOKIE = "mind-garden-workspace";
+
+export interface Access extends ContentOwner {
+  role: WorkspaceRole;
+}
+
+type Scope =
+  | { workspace: string }
+  | { page: string }
+  | { folder: string }
+  | { database: string }
+  | { habit: string }
+  | { tag: string };
+
+// The workspace a record is in, if there is such a record
+async function scopeWorkspaceId(scope: Scope): Promise<string | null | undefined> {
+  const select = { workspaceId: true } as const;
+  if ("workspace" in scope) return scope.workspace;
+  if ("page" in scope) return (await db.page.findUnique({ where: { id: scope.page }, select }))?.workspaceId;
+  if ("folder" in scope) return (await db.folder.findUnique({ where: { id: scope.folder }, select }))?.workspaceId;
+  if ("database" in scope) {
+    return (await db.database.findUnique({ where: { id: scope.database }, select }))?.workspaceId;
+  }
+  if ("habit" in scope) return (await db.habit.findUnique({ where: { id: scope.habit }, select }))?.workspaceId;
+  return (await db.tag.findUnique({ where: { id: scope.tag }, select }))?.workspaceId;
+}
+
+// The workspace the user has open, if they are still a member of it
+async function getActiveWorkspace(userId: string): Promise<{ workspaceId: string; role: WorkspaceRole }> {
+  const chosen = (await cookies()).get(ACTIVE_WORKSPACE_COOKIE)?.value;
+  const role = chosen ? await getMemberRole(chosen, userId) : null;
+  return chosen && role ? { workspaceId: chosen, role } : getDefaultWorkspace(userId);
+}
+
+// Check that the signed-in user may do something, in the workspace of the
+// record in `scope` or else the active one
+export async function authorize(permission: Permission, scope?: Scope): Promise<Access | NextResponse> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+  const userId = session.user.id;
+
+  let workspace = await getActiveWorkspace(userId);
+  const workspaceId = scope && (await scopeWorkspaceId(scope));
+  if (workspaceId && workspaceId !== workspace.workspaceId) {
+    const role = await getMemberRole(workspaceId, userId);
+    if (role) {
+      workspace = { workspaceId, role };
+    } else if ("workspace" in scope!) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+  }
+
+  if (!roleAllows(workspace.role, permission)) {
+    return NextResponse.json(
+      { error: permission === "manage" ? "Only workspace owners can do that" : "You can only view this workspace" },
+      { status: 403 }
+    );
+  }
+
+  return { userId, ...workspace };
+}
+
+// Remember which workspace the user has open
+export async function setActiveWorkspace(workspaceId: string) {
+  (await cookies()).set(ACTIVE_WORKSPACE_COOKIE, workspaceId, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge: 60 * 60 * 24 * 365,
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Web Push
+ *
+ * Sends push notifications to browsers that subscribed through the service
+ * worker (public/sw.js), signed with the VAPID keys in VAPID_PUBLIC_KEY and
+ * VAPID_PRIVATE_KEY (`npx web-push generate-vapid-keys` makes a pair).
+ * VAPID_SUBJECT is a mailto: or https: address push services can reach the
+ * sender at. Without the keys, nothing is sent. Subscriptions may only
+ * point at the browsers' own push services, listed in PUSH_SERVICE_HOSTS.
+ */
+
+import webpush, { WebPushError } from "web-push";
+import { db } from "./db";
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  url: string;
+  tag?: string;
+}
+
+let configured = false;
+
+// Where browsers' push services live: Chrome and Edge (FCM), Firefox,
+// Windows and Safari. A subscription's endpoint is on one of these or
+// a subdomain of one.
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com",
+  "push.services.mozilla.com",
+  "notify.windows.com",
+  "push.apple.com",
+];
+
+// Whether an endpoint is a push service's, so subscribing can't make the
+// server send requests anywhere else
+export function isPushEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  return (
+    url.protocol === "https:" &&
+    !url.port &&
+    PUSH_SERVICE_HOSTS.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`))
+  );
+}
+
+// Whether push notifications can be sent at all
+export function isPushConfigured(): boolean {
+  return Boolean(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+// The key browsers subscribe with, or null without push
+export function getPushPublicKey(): string | null {
+  return isPushConfigured() ? process.env.VAPID_PUBLIC_KEY! : null;
+}
+
+// Send a message to every browser a user subscribed. Subscriptions the
+// push service no longer knows are removed. Returns how many got it.
+export async function sendPush(userId: string, message: PushMessage): Promise<number> {
+  if (!isPushConfigured()) return 0;
+
+  if (!configured) {
+    webpush.setVapidDetails(
+      process.env.VAPID_SUBJECT || "mailto:no-reply@localhost",
+      process.env.VAPID_PUBLIC_KEY!,
+      process.env.VAPID_PRIVATE_KEY!
+    );
+    configured = true;
+  }
+
+  const subscriptions = await db.pushSubscription.findMany({ where: { userId } });
+  const payload = JSON.stringify(message);
+  let delivered = 0;
+  let lastError: unknown = null;
+
+  for (const subscription of subscriptions) {
+    // Saved before endpoints were checked - drop it rather than send there
+    if (!isPushEndpoint(subscription.endpoint)) {
+      await db.pushSubscription.delete({ where: { id: subscription.id } });
+      continue;
+    }
+
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload
+      );
+      delivered++;
+    } catch (error) {
+      // Gone for good: the browser unsubscribed or the subscription expired
+      if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        await db.pushSubscription.delete({ where: { id: subscription.id } });
+      } else {
+        lastError = error;
+      }
+    }
+  }
+
+  if (delivered === 0 && lastError) throw lastError;
+  return delivered;
+}
@@ -0,0 +1,191 @@
+/**
+ * Database Relations
+ *
+ * Server-side helpers for relation and rollup columns: loading the rows
+ * or pages a relation can point at, checking that linked ids are in
+ * the workspace, and converting stored values when columns change type.
+ */
+
+import { db } from "./db";
+import {
+  Column,
+  ConversionContext,
+  RelationConfig,
+  RelationTarget,
+  computeRowValues,
+  convertCellValue,
+  getRowTitle,
+  needsConversion,
+  parseColumns,
+  withConvertedOptions,
+} from "./columns";
+
+// Load the rows or pages one relation column can point at
+async function loadTargets(relation: RelationConfig, workspaceId: string): Promise<RelationTarget[]> {
+  if (relation.target === "page") {
+    const pages = await db.page.findMany({
+      where: { workspaceId, deletedAt: null, databaseRowId: null },
+      select: { id: true, title: true },
+      orderBy: { title: "asc" },
+    });
+    return pages.map((p) => ({ id: p.id, title: p.title || "Untitled" }));
+  }
+
+  if (!relation.databaseId) return [];
+  const database = await db.database.findFirst({
+    where: { id: relation.databaseId, workspaceId, deletedAt: null },
+    include: { rows: { orderBy: { createdAt: "asc" } } },
+  });
+  if (!database) return [];
+
+  // Formulas are included so rollups can aggregate them
+  const columns = parseColumns(database.columns);
+  return database.rows.map((row) => {
+    const { values } = computeRowValues(columns, JSON.parse(row.data || "{}"));
+    return { id: row.id, title: getRowTitle(columns, values), data: values };
+  });
+}
+
+// Targets for every relation column, keyed by column id
+export async function loadRelationTargets(
+  columns: Column[],
+  workspaceId: string
+): Promise<Record<string, RelationTarget[]>> {
+  const byTarget = new Map<string, Promise<RelationTarget[]>>();
+  const result: Record<string, RelationTarget[]> = {};
+
+  for (const column of columns) {
+    if (column.type !== "relation" || !column.relation) continue;
+    const key = `${column.relation.target}:${column.relation.databaseId ?? ""}`;
+    if (!byTarget.has(key)) byTarget.set(key, loadTargets(column.relation, workspaceId));
+    result[column.id] = await byTarget.get(key)!;
+  }
+
+  return result;
+}
+
+// Titles of every page and database row, for writing relations as text
+export async function loadRelationTitles(workspaceId: string): Promise<Map<string, string>> {
+  const [pages, databases] = await Promise.all([
+    db.page.findMany({ where: { workspaceId, deletedAt: null }, select: { id: true, title: true } }),
+    db.database.findMany({ where: { workspaceId, deletedAt: null }, include: { rows: true } }),
+  ]);
+
+  const titles = new Map(pages.map((p) => [p.id, p.title || "Untitled"]));
+  for (const database of databases) {
+    const columns = parseColumns(database.columns);
+    for (const row of database.rows) {
+      titles.set(row.id, getRowTitle(columns, JSON.parse(row.data || "{}")));
+    }
+  }
+  return titles;
+}
+
+// Make sure relation columns only point at databases in the workspace
+export async function checkRelationColumns(columns: Column[], workspaceId: string): Promise<string | null> {
+  for (const column of columns) {
+    if (column.type !== "relation" || column.relation?.target !== "database") continue;
+    if (!column.relation.databaseId) return `${column.name} needs a database to point at`;
+    const database = await db.database.findFirst({
+      where: { id: column.relation.databaseId, workspaceId, deletedAt: null },
+      select: { id: true },
+    });
+    if (!database) return `${column.name} points at a database that doesn't exist`;
+  }
+  return null;
+}
+
+// Make sure every linked id in a row is a row or page the relation can point at
+export async function checkRelationValues(
+  columns: Column[],
+  data: Record<string, unknown>,
+  workspaceId: string
+): Promise<string | null> {
+  for (const column of columns) {
+    const ids = data[column.id];
+    if (column.type !== "relation" || !column.relation || !Array.isArray(ids) || ids.length === 0) {
+      continue;
+    }
+
+    const found =
+      column.relation.target === "page"
+        ? await db.page.count({
+            where: { id: { in: ids as string[] }, workspaceId, deletedAt: null, databaseRowId: null },
+          })
+        : await db.databaseRow.count({
+            where: {
+              id: { in: ids as string[] },
+              databaseId: column.relation.databaseId,
+              database: { workspaceId, deletedAt: null },
+            },
+          });
+
+    if (found !== ids.length) return `${column.name} links to items that don't exist`;
+  }
+  return null;
+}
+
+// Save new columns, converting the stored values of any column whose type changed
+export async function updateDatabaseColumns(
+  database: { id: string; columns: string },
+  nextColumns: Column[],
+  workspaceId: string
+): Promise<Column[]> {
+  const previous = new Map(parseColumns(database.columns).map((c) => [c.id, c]));
+  const changed = nextColumns.filter((c) => previous.has(c.id) && needsConversion(previous.get(c.id)!, c));
+
+  if (changed.length === 0) {
+    await db.database.update({
+      where: { id: database.id },
+      data: { columns: JSON.stringify(nextColumns) },
+    });
+    return nextColumns;
+  }
+
+  // Relation titles let values survive a change to or from a relation
+  const contexts = new Map<string, ConversionContext>();
+  for (const column of changed) {
+    const from = previous.get(column.id)!;
+    const context: ConversionContext = {};
+    if (from.type === "relation" && from.relation) {
+      const targets = await loadTargets(from.relation, workspaceId);
+      context.fromTitles = new Map(targets.map((t) => [t.id, t.title]));
+    }
+    if (column.type === "relation" && column.relation) {
+      const targets = await loadTargets(column.relation, workspaceId);
+      context.toIds = new Map(targets.map((t) => [t.title.toLowerCase(), t.id]));
+    }
+    contexts.set(column.id, context);
+  }
+
+  const rows = await db.databaseRow.findMany({ where: { databaseId: database.id } });
+  const converted = new Map<string, unknown[]>(changed.map((c) => [c.id, []]));
+
+  const updates = rows.map((row) => {
+    const data = JSON.parse(row.data || "{}");
+    for (const column of changed) {
+      if (!(column.id in data)) continue;
+      const value = convertCellValue(data[column.id], previous.get(column.id)!, column, contexts.get(column.id));
+      if (value === undefined) delete data[column.id];
+      else data[column.id] = value;
+      converted.get(column.id)!.push(value);
+    }
+    return { id: row.id, data: JSON.stringify(data) };
+  });
+
+  const columns = nextColumns.map((column) =>
+    converted.has(column.id) ? withConvertedOptions(column, converted.get(column.id)!) : column
+  );
+
+  await db.$transaction(async (tx) => {
+    for (const update of updates) {
+      await tx.databaseRow.update({ where: { id: update.id }, data: { data: update.data } });
+    }
+    await tx.database.update({
+      where: { id: database.id },
+      data: { columns: JSON.stringify(columns) },
+    });
+  }, { timeout: 120_000 });
+
+  return columns;
+}
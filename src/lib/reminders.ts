@@ -0,0 +1,206 @@
+/**
+ * Habit Reminders
+ *
+ * Sends habit reminders from the server, so they arrive with the app
+ * closed. `sendDueReminders` runs every minute (from src/server/reminders.ts
+ * or GET /api/reminders/send) and reminds each habit's creator once its reminder time has come on the
+ * clock of their time zone, on days the habit is due and still not done.
+ *
+ * Reminders go out through channels: push to every browser the user turned
+ * it on in, email, and a webhook of their choosing. Each channel a user can
+ * be reached on gets one delivery per habit per day, recorded as a
+ * ReminderDelivery before it's sent, so a missed minute is caught up on
+ * and nothing goes out twice, even with two schedulers running.
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { isEmailConfigured, sendEmail } from "./email";
+import { postJson } from "./outbound";
+import { isPushConfigured, sendPush } from "./push";
+import { addDays, completedDays, dayKeyDate, isDue } from "./habits";
+import { DEFAULT_TIMEZONE, dayKeyIn, instantIn, isValidTimezone } from "./timezones";
+
+export const REMINDER_CHANNELS = ["push", "email", "webhook"] as const;
+export type ReminderChannelName = (typeof REMINDER_CHANNELS)[number];
+
+// How late a reminder can still go out, for when the scheduler was down
+export const REMINDER_CATCH_UP_MINUTES = Number(process.env.REMINDER_CATCH_UP_MINUTES) || 15;
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Who a reminder is for, and where they can be reached
+interface Recipient {
+  id: string;
+  email: string;
+  name: string | null;
+  reminderEmail: boolean;
+  reminderWebhookUrl: string | null;
+  _count: { pushSubscriptions: number };
+}
+
+export interface Reminder {
+  habit: { id: string; name: string; icon: string | null };
+  day: string;
+  title: string;
+  body: string;
+  url: string;
+}
+
+interface ReminderChannel {
+  // Whether the user can be reached this way
+  reaches: (recipient: Recipient) => boolean;
+  // Deliver a reminder, throwing if it didn't go through
+  send: (recipient: Recipient, reminder: Reminder) => Promise<void>;
+}
+
+export interface ReminderRunResult {
+  sent: number;
+  failed: number;
+}
+
+// Links in reminders point back at the app
+function appUrl(path: string): string {
+  return new URL(path, process.env.NEXTAUTH_URL || "http://localhost:3000").toString();
+}
+
+// Each way a reminder can go out. Another channel is one more entry here
+// and in REMINDER_CHANNELS.
+const channels: Record<ReminderChannelName, ReminderChannel> = {
+  push: {
+    reaches: (recipient) => isPushConfigured() && recipient._count.pushSubscriptions > 0,
+    async send(recipient, reminder) {
+      const delivered = await sendPush(recipient.id, {
+        title: reminder.title,
+        body: reminder.body,
+        url: "/habits",
+        tag: `${reminder.habit.id}-${reminder.day}`,
+      });
+      if (delivered === 0) throw new Error("No browsers are subscribed any more");
+    },
+  },
+
+  email: {
+    reaches: (recipient) => isEmailConfigured() && recipient.reminderEmail,
+    async send(recipient, reminder) {
+      await sendEmail({
+        to: recipient.email,
+        subject: reminder.title,
+        text: `${reminder.body}\n\n${reminder.url}`,
+      });
+    },
+  },
+
+  webhook: {
+    reaches: (recipient) => Boolean(recipient.reminderWebhookUrl),
+    async send(recipient, reminder) {
+      // Refuses private addresses, whatever the host resolves to today
+      const status = await postJson(
+        recipient.reminderWebhookUrl!,
+        { type: "habit.reminder", ...reminder },
+        WEBHOOK_TIMEOUT_MS
+      );
+      if (status < 200 || status >= 300) throw new Error(`Webhook responded with ${status}`);
+    },
+  },
+};
+
+// The day whose "HH:MM" reminder time has come at `now`, and not too long
+// ago, or null. Catching up can run past midnight, so that's yesterday's
+// reminder when it was set late in the evening.
+function dueReminderDay(reminderTime: string, now: Date, timezone: string): string | null {
+  const today = dayKeyIn(now, timezone);
+  for (const day of [today, addDays(today, -1)]) {
+    const late = Math.floor((now.getTime() - instantIn(day, reminderTime, timezone).getTime()) / 60000);
+    if (late >= 0 && late <= REMINDER_CATCH_UP_MINUTES) return day;
+  }
+  return null;
+}
+
+// Record a delivery before sending it. Returns null when another run
+// already has, which is what keeps reminders from going out twice.
+async function claimDelivery(habitId: string, userId: string, day: string, channel: ReminderChannelName) {
+  try {
+    return await db.reminderDelivery.create({ data: { habitId, userId, day, channel } });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") return null;
+    throw error;
+  }
+}
+
+// Send every reminder that's due at `now`
+export async function sendDueReminders(now = new Date()): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = { sent: 0, failed: 0 };
+
+  const habits = await db.habit.findMany({
+    where: { reminderEnabled: true, reminderTime: { not: null }, isArchived: false },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          timezone: true,
+          reminderEmail: true,
+          reminderWebhookUrl: true,
+          _count: { select: { pushSubscriptions: true } },
+        },
+      },
+    },
+  });
+
+  for (const habit of habits) {
+    const { user } = habit;
+    const timezone = isValidTimezone(user.timezone) ? user.timezone : DEFAULT_TIMEZONE;
+    const day = dueReminderDay(habit.reminderTime!, now, timezone);
+    if (!day) continue;
+
+    const reachable = REMINDER_CHANNELS.filter((name) => channels[name].reaches(user));
+    if (reachable.length === 0) continue;
+
+    // Channels already tried for that day
+    const delivered = await db.reminderDelivery.findMany({
+      where: { habitId: habit.id, userId: user.id, day },
+      select: { channel: true },
+    });
+    const pending = reachable.filter((name) => !delivered.some((d) => d.channel === name));
+    if (pending.length === 0) continue;
+
+    // Skip days it isn't due, and days it's already done. A month back
+    // covers the longest period a quota is counted over.
+    const logs = await db.habitLog.findMany({
+      where: { habitId: habit.id, completed: true, date: { gte: dayKeyDate(addDays(day, -31)) } },
+      select: { date: true, completed: true },
+    });
+    const completed = completedDays(logs);
+    if (!isDue(habit, completed, day) || completed.has(day)) continue;
+
+    const reminder: Reminder = {
+      habit: { id: habit.id, name: habit.name, icon: habit.icon },
+      day,
+      title: `${habit.icon ?? "✨"} Time for ${habit.name}!`,
+      body: "Don't forget to complete your habit today",
+      url: appUrl("/habits"),
+    };
+
+    for (const name of pending) {
+      const delivery = await claimDelivery(habit.id, user.id, day, name);
+      if (!delivery) continue;
+
+      try {
+        await channels[name].send(user, reminder);
+        await db.reminderDelivery.update({ where: { id: delivery.id }, data: { status: "sent" } });
+        result.sent++;
+      } catch (error) {
+        console.error(`Error sending ${name} reminder:`, error);
+        await db.reminderDelivery.update({
+          where: { id: delivery.id },
+          data: { status: "failed", error: error instanceof Error ? error.message : String(error) },
+        });
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,89 @@
+/**
+ * Page Revisions
+ *
+ * Records snapshots of a page every time it is saved. Autosaves fire
+ * constantly, so saves that land within REVISION_INTERVAL_MINUTES of
+ * the latest autosave revision update it instead of adding a new one.
+ */
+
+import { db } from "./db";
+import { relabelPageLinks, syncPageLinks } from "./links";
+
+// How long one revision keeps absorbing autosaves before a new one starts
+export const REVISION_INTERVAL_MINUTES =
+  Number(process.env.PAGE_REVISION_INTERVAL_MINUTES) || 10;
+
+interface PageSnapshot {
+  id: string;
+  title: string;
+  content: string | null;
+}
+
+// Record the state of a page after a save. `previous` is the state before the
+// save, used to keep a baseline for pages that existed before history did.
+export async function recordRevision(page: PageSnapshot, previous?: PageSnapshot) {
+  const latest = await db.pageRevision.findFirst({
+    where: { pageId: page.id },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!latest && previous?.content) {
+    await db.pageRevision.create({
+      data: {
+        pageId: page.id,
+        title: previous.title,
+        content: previous.content,
+        kind: "baseline",
+      },
+    });
+  }
+
+  const windowStart = new Date(Date.now() - REVISION_INTERVAL_MINUTES * 60 * 1000);
+
+  if (latest && latest.kind === "autosave" && latest.createdAt > windowStart) {
+    return db.pageRevision.update({
+      where: { id: latest.id },
+      data: { title: page.title, content: page.content },
+    });
+  }
+
+  return db.pageRevision.create({
+    data: {
+      pageId: page.id,
+      title: page.title,
+      content: page.content,
+    },
+  });
+}
+
+// Put a page back to an older revision. The restore is itself recorded as a
+// new revision so it can be undone the same way.
+export async function restoreRevision(pageId: string, revisionId: string, workspaceId: string) {
+  const revision = await db.pageRevision.findFirst({
+    where: { id: revisionId, pageId, page: { workspaceId, deletedAt: null } },
+    include: { page: { select: { title: true, icon: true } } },
+  });
+
+  if (!revision) return null;
+
+  const [page] = await db.$transaction([
+    db.page.update({
+      where: { id: pageId },
+      data: { title: revision.title, content: revision.content },
+    }),
+    db.pageRevision.create({
+      data: {
+        pageId,
+        title: revision.title,
+        content: revision.content,
+        kind: "restore",
+        restoredFromId: revision.id,
+      },
+    }),
+  ]);
+
+  await syncPageLinks(pageId, workspaceId, page.content);
+  await relabelPageLinks(pageId, revision.page, page);
+
+  return page;
+}
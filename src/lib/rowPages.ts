@@ -0,0 +1,55 @@
+/**
+ * Row Pages
+ *
+ * Any database row can be opened as a page: its properties at the top
+ * and a full page body underneath. The body is an ordinary Page linked
+ * to the row, so it is searched, linked to and exported like any other
+ * page. Its title follows the row's title column both ways. Row pages
+ * are left out of page lists, since they live in their database.
+ */
+
+import { db } from "./db";
+import { Column, getRowTitle, parseColumns } from "./columns";
+import { relabelPageLinks } from "./links";
+
+// Get a row's page, creating it the first time the row is opened
+export async function ensureRowPage(
+  row: { id: string; data: string },
+  database: { columns: string; icon: string | null; workspaceId: string | null },
+  userId: string
+) {
+  const columns = parseColumns(database.columns);
+  return db.page.upsert({
+    where: { databaseRowId: row.id },
+    update: {},
+    create: {
+      title: getRowTitle(columns, JSON.parse(row.data || "{}")),
+      icon: database.icon,
+      databaseRowId: row.id,
+      userId,
+      workspaceId: database.workspaceId,
+    },
+  });
+}
+
+// Give a row's page the row's current title, and links to it the new text
+export async function syncRowPageTitle(rowId: string, columns: Column[], data: Record<string, unknown>) {
+  const page = await db.page.findUnique({ where: { databaseRowId: rowId } });
+  const title = getRowTitle(columns, data);
+  if (!page || page.title === title) return;
+
+  await db.page.update({ where: { id: page.id }, data: { title } });
+  await relabelPageLinks(page.id, page, { title, icon: page.icon });
+}
+
+// Row data with a new title written into the title column, or null if
+// the database has no column to hold one
+export function withRowTitle(
+  columns: Column[],
+  data: Record<string, unknown>,
+  title: string
+): Record<string, unknown> | null {
+  const titleColumn = columns.find((c) => c.type === "text");
+  if (!titleColumn) return null;
+  return { ...data, [titleColumn.id]: title };
+}
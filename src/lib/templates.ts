@@ -0,0 +1,293 @@
+/**
+ * Database Templates
+ *
+ * Starting points for new databases. Built-in templates are schemas with
+ * a few sample rows; personal templates are databases a user saved,
+ * stored as JSON strings like a database's columns. Both come down to a
+ * snapshot - columns, views and rows - that a new database is made from.
+ * Duplicating a database goes through a snapshot too.
+ */
+
+import { Column } from "./columns";
+import { ViewLayout, ViewSettings, defaultViewSettings, localISODate } from "./views";
+
+export interface SnapshotRow {
+  id: string; // The row it was taken from, so relations between rows can be kept
+  data: Record<string, unknown>;
+  page?: {
+    title: string;
+    icon: string | null;
+    color: string | null;
+    content: string | null;
+  } | null;
+}
+
+export interface DatabaseSnapshot {
+  name: string;
+  icon: string | null;
+  color: string | null;
+  description: string | null;
+  columns: Column[];
+  views: ViewSettings[];
+  rows: SnapshotRow[];
+  sourceId: string | null; // The database it was taken from, for relations to itself
+}
+
+export interface BuiltInTemplate {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  columns: Column[];
+  layouts: ViewLayout[]; // Views to create; boards and calendars pick their column
+  sampleRows: () => Array<Record<string, unknown>>; // Dates are relative to today
+}
+
+// A personal template as Prisma stores it
+export interface StoredTemplate {
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+  description: string | null;
+  columns: string;
+  views: string;
+  rows: string;
+  sourceId: string | null;
+  createdAt: Date | string;
+}
+
+// A personal template as the gallery shows it
+export interface PersonalTemplate {
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+  description: string | null;
+  columnCount: number;
+  rowCount: number;
+  createdAt: string;
+}
+
+const MAX_TEMPLATE_NAME = 100;
+
+// A date `offset` days from today, as a date column stores it
+function daysFromToday(offset: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + offset);
+  return localISODate(date);
+}
+
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  {
+    id: "blank",
+    name: "Blank",
+    icon: "📊",
+    description: "Start from scratch",
+    columns: [
+      { id: "title", name: "Name", type: "text" },
+      { id: "status", name: "Status", type: "select", options: ["To Do", "In Progress", "Done"] },
+    ],
+    layouts: ["table"],
+    sampleRows: () => [],
+  },
+  {
+    id: "todo",
+    name: "To-Do List",
+    icon: "✅",
+    description: "Track tasks and priorities",
+    columns: [
+      { id: "task", name: "Task", type: "text" },
+      { id: "status", name: "Status", type: "select", options: ["To Do", "In Progress", "Done"] },
+      { id: "priority", name: "Priority", type: "select", options: ["Low", "Medium", "High"] },
+      { id: "done", name: "Completed", type: "checkbox" },
+    ],
+    layouts: ["table", "board"],
+    sampleRows: () => [
+      { task: "Water the plants", status: "To Do", priority: "Medium", done: false },
+      { task: "Plan the week", status: "In Progress", priority: "High", done: false },
+      { task: "Tidy the desk", status: "Done", priority: "Low", done: true },
+    ],
+  },
+  {
+    id: "shopping",
+    name: "Shopping List",
+    icon: "🛒",
+    description: "Items with prices",
+    columns: [
+      { id: "item", name: "Item", type: "text" },
+      { id: "price", name: "Price", type: "number" },
+      { id: "quantity", name: "Qty", type: "number" },
+      { id: "category", name: "Category", type: "select", options: ["Groceries", "Household", "Personal", "Other"] },
+      { id: "subtotal", name: "Subtotal", type: "formula", formula: 'prop("Price") * if(empty(prop("Qty")), 1, prop("Qty"))' },
+      { id: "bought", name: "Bought", type: "checkbox" },
+    ],
+    layouts: ["table"],
+    sampleRows: () => [
+      { item: "Oat milk", price: 2.49, quantity: 2, category: "Groceries", bought: false },
+      { item: "Dish soap", price: 3.99, quantity: 1, category: "Household", bought: true },
+    ],
+  },
+  {
+    id: "tracker",
+    name: "Habit Tracker",
+    icon: "📅",
+    description: "Track daily habits",
+    columns: [
+      { id: "date", name: "Date", type: "date" },
+      { id: "habit", name: "Habit", type: "text" },
+      { id: "completed", name: "Done", type: "checkbox" },
+      { id: "notes", name: "Notes", type: "text" },
+    ],
+    layouts: ["table", "calendar"],
+    sampleRows: () => [
+      { date: daysFromToday(-1), habit: "Morning walk", completed: true, notes: "" },
+      { date: daysFromToday(0), habit: "Read 20 pages", completed: false, notes: "" },
+    ],
+  },
+  {
+    id: "reading",
+    name: "Reading Log",
+    icon: "📚",
+    description: "Books to read and what you thought",
+    columns: [
+      { id: "title", name: "Title", type: "text" },
+      { id: "status", name: "Status", type: "select", options: ["Want to Read", "Reading", "Finished"] },
+      { id: "author", name: "Author", type: "text" },
+      { id: "genres", name: "Genres", type: "multiSelect", options: ["Fiction", "Non-fiction", "Sci-fi", "History", "Poetry"] },
+      { id: "rating", name: "Rating", type: "select", options: ["★", "★★", "★★★", "★★★★", "★★★★★"] },
+      { id: "finished", name: "Finished", type: "date" },
+    ],
+    layouts: ["table", "board", "gallery"],
+    sampleRows: () => [
+      { title: "The Left Hand of Darkness", status: "Finished", author: "Ursula K. Le Guin", genres: ["Fiction", "Sci-fi"], rating: "★★★★★", finished: daysFromToday(-12) },
+      { title: "Braiding Sweetgrass", status: "Reading", author: "Robin Wall Kimmerer", genres: ["Non-fiction"] },
+      { title: "The Dawn of Everything", status: "Want to Read", author: "David Graeber & David Wengrow", genres: ["History"] },
+    ],
+  },
+  {
+    id: "budget",
+    name: "Budget",
+    icon: "💰",
+    description: "Income and spending by category",
+    columns: [
+      { id: "item", name: "Item", type: "text" },
+      { id: "type", name: "Type", type: "select", options: ["Income", "Expense"] },
+      { id: "amount", name: "Amount", type: "number" },
+      { id: "category", name: "Category", type: "select", options: ["Salary", "Housing", "Food", "Transport", "Fun", "Other"] },
+      { id: "date", name: "Date", type: "date" },
+      { id: "net", name: "Net", type: "formula", formula: 'if(prop("Type") == "Expense", -prop("Amount"), prop("Amount"))' },
+    ],
+    layouts: ["table", "board"],
+    sampleRows: () => [
+      { item: "Paycheck", type: "Income", amount: 2400, category: "Salary", date: daysFromToday(-14) },
+      { item: "Rent", type: "Expense", amount: 950, category: "Housing", date: daysFromToday(-13) },
+      { item: "Groceries", type: "Expense", amount: 84.5, category: "Food", date: daysFromToday(-2) },
+    ],
+  },
+  {
+    id: "jobs",
+    name: "Job Applications",
+    icon: "💼",
+    description: "Where you applied and how it's going",
+    columns: [
+      { id: "company", name: "Company", type: "text" },
+      { id: "stage", name: "Stage", type: "select", options: ["Wishlist", "Applied", "Interviewing", "Offer", "Rejected"] },
+      { id: "role", name: "Role", type: "text" },
+      { id: "applied", name: "Applied", type: "date" },
+      { id: "link", name: "Posting", type: "url" },
+      { id: "contact", name: "Contact", type: "email" },
+      { id: "waiting", name: "Days waiting", type: "formula", formula: 'if(empty(prop("Applied")), "", dateBetween(today(), prop("Applied"), "days"))' },
+    ],
+    layouts: ["table", "board"],
+    sampleRows: () => [
+      { company: "Acme Gardens", stage: "Interviewing", role: "Frontend Engineer", applied: daysFromToday(-10), link: "https://example.com/jobs/1", contact: "hiring@example.com" },
+      { company: "Green Leaf Labs", stage: "Applied", role: "Product Designer", applied: daysFromToday(-3) },
+      { company: "Seedling Co.", stage: "Wishlist", role: "Developer Advocate" },
+    ],
+  },
+  {
+    id: "workouts",
+    name: "Workout Log",
+    icon: "💪",
+    description: "Sessions, sets and reps",
+    columns: [
+      { id: "workout", name: "Workout", type: "text" },
+      { id: "date", name: "Date", type: "date" },
+      { id: "kind", name: "Type", type: "select", options: ["Strength", "Cardio", "Mobility"] },
+      { id: "minutes", name: "Minutes", type: "number" },
+      { id: "sets", name: "Sets", type: "number" },
+      { id: "reps", name: "Reps", type: "number" },
+      { id: "volume", name: "Total reps", type: "formula", formula: 'prop("Sets") * prop("Reps")' },
+    ],
+    layouts: ["table", "calendar"],
+    sampleRows: () => [
+      { workout: "Squats", date: daysFromToday(-2), kind: "Strength", minutes: 30, sets: 4, reps: 8 },
+      { workout: "Easy run", date: daysFromToday(-1), kind: "Cardio", minutes: 25 },
+      { workout: "Stretching", date: daysFromToday(0), kind: "Mobility", minutes: 15 },
+    ],
+  },
+];
+
+// Look up a built-in template, falling back to a blank database
+export function getBuiltInTemplate(id: string | null | undefined): BuiltInTemplate {
+  return BUILT_IN_TEMPLATES.find((t) => t.id === id) ?? BUILT_IN_TEMPLATES[0];
+}
+
+// A snapshot of a built-in template, with today's sample rows
+export function builtInSnapshot(template: BuiltInTemplate): DatabaseSnapshot {
+  return {
+    name: template.id === "blank" ? "Untitled Database" : `My ${template.name}`,
+    icon: template.id === "blank" ? null : template.icon,
+    color: null,
+    description: null,
+    columns: template.columns,
+    views: template.layouts.map((layout) => defaultViewSettings(layout, template.columns)),
+    rows: template.sampleRows().map((data, index) => ({ id: `sample-${index}`, data })),
+    sourceId: null,
+  };
+}
+
+function parseList<T>(value: string | null | undefined): T[] {
+  try {
+    const parsed = JSON.parse(value || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// A snapshot of a personal template
+export function templateSnapshot(template: StoredTemplate): DatabaseSnapshot {
+  return {
+    name: template.name,
+    icon: template.icon,
+    color: template.color,
+    description: template.description,
+    columns: parseList<Column>(template.columns),
+    views: parseList<ViewSettings>(template.views),
+    rows: parseList<SnapshotRow>(template.rows),
+    sourceId: template.sourceId,
+  };
+}
+
+// A personal template's gallery entry
+export function toPersonalTemplate(template: StoredTemplate): PersonalTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    icon: template.icon,
+    color: template.color,
+    description: template.description,
+    columnCount: parseList(template.columns).length,
+    rowCount: parseList(template.rows).length,
+    createdAt: new Date(template.createdAt).toISOString(),
+  };
+}
+
+// Check a template name
+export function validateTemplateName(name: unknown): string | null {
+  if (typeof name !== "string" || !name.trim()) return "Template name is required";
+  if (name.length > MAX_TEMPLATE_NAME) return `Template name must be ${MAX_TEMPLATE_NAME} characters or fewer`;
+  return null;
+}
@@ -0,0 +1,92 @@
+/**
+ * Time Zones
+ *
+ * Each user has an IANA time zone (like "Europe/Berlin"), saved on their
+ * account. Habit days, streaks and reminders follow the clock in that
+ * zone, wherever the server or browser happens to be. Accounts from before
+ * time zones have none until the app first opens in a browser, which
+ * saves the browser's own; until then they're treated as UTC.
+ *
+ * Safe to use from both API routes and client components.
+ */
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export function isValidTimezone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The zone the browser (or server) is running in
+export function localTimezone(): string {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimezone(zone) ? zone : DEFAULT_TIMEZONE;
+}
+
+// Every zone the runtime knows, for pickers
+export function listTimezones(): string[] {
+  const zones = Intl.supportedValuesOf?.("timeZone") ?? [];
+  return zones.includes(DEFAULT_TIMEZONE) ? zones : [DEFAULT_TIMEZONE, ...zones];
+}
+
+// The wall-clock date and time at `date` in a zone
+function partsIn(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute") };
+}
+
+// The "YYYY-MM-DD" key of the day `date` falls on in a zone
+export function dayKeyIn(date: Date, timezone: string): string {
+  const { year, month, day } = partsIn(date, timezone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// The "HH:MM" time `date` shows on a clock in a zone
+export function timeIn(date: Date, timezone: string): string {
+  const { hour, minute } = partsIn(date, timezone);
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+// How many minutes a zone is ahead of UTC at `date` (negative if behind)
+export function utcOffsetMinutes(date: Date, timezone: string): number {
+  const { year, month, day, hour, minute } = partsIn(date, timezone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  return Math.round((wallClock - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+// The moment a zone's clock shows "HH:MM" `time` on the "YYYY-MM-DD" `day`
+export function instantIn(day: string, time: string, timezone: string): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hour, minute);
+  // Around a daylight saving change the offset at the answer can differ
+  // from the first guess, so it's worked out a second time
+  const guess = wallClock - utcOffsetMinutes(new Date(wallClock), timezone) * 60000;
+  return new Date(wallClock - utcOffsetMinutes(new Date(guess), timezone) * 60000);
+}
+
+// A zone's name with its current offset, like "Asia/Kolkata (UTC+5:30)"
+export function describeTimezone(timezone: string, at = new Date()): string {
+  const offset = utcOffsetMinutes(at, timezone);
+  if (offset === 0) return timezone === DEFAULT_TIMEZONE ? timezone : `${timezone} (UTC)`;
+  const sign = offset > 0 ? "+" : "-";
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `${timezone} (UTC${sign}${hours}${minutes ? `:${pad(minutes)}` : ""})`;
+}
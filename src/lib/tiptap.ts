@@ -0,0 +1,118 @@
+/**
+ * Tiptap Document Helpers
+ *
+ * Shared types and helpers for the Tiptap JSON we store in Page.content.
+ * Safe to use from both API routes and client components.
+ */
+
+// Minimal shape of a Tiptap JSON node
+export interface TiptapNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: TiptapNode[];
+  text?: string;
+  marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+}
+
+// Node type of a database embedded in a page
+export const DATABASE_EMBED = "databaseEmbed";
+
+// Attributes of an embedded database
+export interface DatabaseEmbedAttrs {
+  databaseId: string | null;
+  columns: string[] | null; // Column IDs to show, in order; null shows them all
+  limit: number | null; // Most rows to show; null pages through every row
+}
+
+// The text a page link shows when it's inserted: the page's icon and title
+export function pageLinkLabel(page: { title: string; icon: string | null }): string {
+  return `${page.icon || "📄"} ${page.title}`;
+}
+
+// An empty document, as created for new pages
+export const EMPTY_DOC: TiptapNode = {
+  type: "doc",
+  content: [{ type: "paragraph" }],
+};
+
+// Parse stored content into a document (falls back to an empty doc)
+export function parseDoc(content: string | null | undefined): TiptapNode {
+  if (!content) return EMPTY_DOC;
+  try {
+    const doc = JSON.parse(content);
+    return doc && typeof doc === "object" && typeof doc.type === "string" ? doc : EMPTY_DOC;
+  } catch {
+    return EMPTY_DOC;
+  }
+}
+
+// Get the plain text of a node and all of its children
+export function getNodeText(node: TiptapNode): string {
+  if (node.type === "text") return node.text || "";
+  if (node.type === "hardBreak") return "\n";
+  return (node.content || []).map(getNodeText).join("");
+}
+
+// Flatten a document into display lines, one per block, for diffing and previews
+export function docToLines(doc: TiptapNode): string[] {
+  const lines: string[] = [];
+
+  const walk = (node: TiptapNode, prefix: string) => {
+    switch (node.type) {
+      case "doc":
+        node.content?.forEach((child) => walk(child, prefix));
+        break;
+      case "heading":
+        lines.push(`${prefix}${"#".repeat(Number(node.attrs?.level) || 1)} ${getNodeText(node)}`);
+        break;
+      case "paragraph":
+        lines.push(prefix + getNodeText(node));
+        break;
+      case "bulletList":
+        node.content?.forEach((item) => walkItem(item, prefix, "• "));
+        break;
+      case "orderedList":
+        node.content?.forEach((item, i) => walkItem(item, prefix, `${i + 1}. `));
+        break;
+      case "taskList":
+        node.content?.forEach((item) =>
+          walkItem(item, prefix, item.attrs?.checked ? "[x] " : "[ ] ")
+        );
+        break;
+      case "blockquote":
+        node.content?.forEach((child) => walk(child, `${prefix}> `));
+        break;
+      case "codeBlock":
+        getNodeText(node).split("\n").forEach((line) => lines.push(`${prefix}    ${line}`));
+        break;
+      case "horizontalRule":
+        lines.push(`${prefix}---`);
+        break;
+      case DATABASE_EMBED:
+        lines.push(`${prefix}[Database]`);
+        break;
+      default:
+        if (node.content) {
+          node.content.forEach((child) => walk(child, prefix));
+        } else if (node.text) {
+          lines.push(prefix + node.text);
+        }
+    }
+  };
+
+  // List items: first block gets the bullet, the rest are indented under it
+  const walkItem = (item: TiptapNode, prefix: string, bullet: string) => {
+    const [first, ...rest] = item.content || [];
+    if (first) {
+      if (first.type === "paragraph") {
+        lines.push(prefix + bullet + getNodeText(first));
+      } else {
+        walk(first, prefix + bullet);
+      }
+    }
+    rest.forEach((child) => walk(child, prefix + "  "));
+  };
+
+  walk(doc, "");
+  return lines;
+}
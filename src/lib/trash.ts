@@ -0,0 +1,328 @@
+/**
+ * Trash (Soft Delete)
+ *
+ * Pages, folders and databases are moved to the trash by setting
+ * `deletedAt` instead of being removed. Trashing a folder trashes its
+ * subfolders and pages with the same timestamp, so restoring the folder
+ * brings back exactly what went out with it. Databases do the same with
+ * the pages their rows open as, and pages with the pages below them when
+ * those go too. Otherwise the pages below a trashed page move up a level.
+ *
+ * Items older than TRASH_RETENTION_DAYS are purged for good.
+ */
+
+import { db } from "./db";
+import { getDescendantPageIds } from "./pageTree";
+
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+export type TrashItemType = "page" | "folder" | "database";
+
+export const TRASH_ITEM_TYPES: TrashItemType[] = ["page", "folder", "database"];
+
+// Get the IDs of a folder and every folder below it
+async function getFolderTreeIds(folderId: string, workspaceId: string): Promise<string[]> {
+  const ids = [folderId];
+  let frontier = [folderId];
+
+  while (frontier.length > 0) {
+    const children = await db.folder.findMany({
+      where: { parentId: { in: frontier }, workspaceId },
+      select: { id: true },
+    });
+    frontier = children.map((c) => c.id).filter((id) => !ids.includes(id));
+    ids.push(...frontier);
+  }
+
+  return ids;
+}
+
+// Un-trash the folders above a restored item so it lands back where it was
+async function restoreFolderAncestors(folderId: string | null, workspaceId: string) {
+  const trashedIds: string[] = [];
+  let currentId = folderId;
+
+  while (currentId) {
+    const folder = await db.folder.findFirst({
+      where: { id: currentId, workspaceId },
+      select: { id: true, parentId: true, deletedAt: true },
+    });
+    if (!folder) break;
+    if (folder.deletedAt) trashedIds.push(folder.id);
+    currentId = folder.parentId;
+  }
+
+  if (trashedIds.length > 0) {
+    await db.folder.updateMany({
+      where: { id: { in: trashedIds } },
+      data: { deletedAt: null },
+    });
+  }
+}
+
+// Un-trash the pages above a restored page so it lands back under them
+async function restorePageAncestors(parentPageId: string | null, workspaceId: string) {
+  let currentId = parentPageId;
+  const seen = new Set<string>();
+
+  while (currentId && !seen.has(currentId)) {
+    seen.add(currentId);
+    const page = await db.page.findFirst({
+      where: { id: currentId, workspaceId },
+      select: { id: true, folderId: true, parentPageId: true, deletedAt: true },
+    });
+    if (!page) break;
+    if (page.deletedAt) {
+      await restoreFolderAncestors(page.folderId, workspaceId);
+      await db.page.update({ where: { id: page.id }, data: { deletedAt: null } });
+    }
+    currentId = page.parentPageId;
+  }
+}
+
+// Move a page to the trash. The pages below it go too when `withChildren`
+// is set; otherwise they move up to the page's own parent.
+export async function trashPage(
+  page: { id: string; parentPageId: string | null },
+  workspaceId: string,
+  withChildren = false
+) {
+  const deletedAt = new Date();
+
+  if (withChildren) {
+    const ids = await getDescendantPageIds(page.id, workspaceId);
+    await db.page.updateMany({
+      where: { id: { in: [page.id, ...ids] }, deletedAt: null },
+      data: { deletedAt },
+    });
+    return;
+  }
+
+  await db.$transaction([
+    db.page.updateMany({
+      where: { parentPageId: page.id, workspaceId },
+      data: { parentPageId: page.parentPageId },
+    }),
+    db.page.update({
+      where: { id: page.id },
+      data: { deletedAt },
+    }),
+  ]);
+}
+
+// Move a folder, its subfolders and all their pages to the trash
+export async function trashFolder(folderId: string, workspaceId: string) {
+  const deletedAt = new Date();
+  const folderIds = await getFolderTreeIds(folderId, workspaceId);
+
+  await db.$transaction([
+    db.folder.updateMany({
+      where: { id: { in: folderIds }, deletedAt: null },
+      data: { deletedAt },
+    }),
+    db.page.updateMany({
+      where: { folderId: { in: folderIds }, workspaceId, deletedAt: null },
+      data: { deletedAt },
+    }),
+  ]);
+}
+
+// Move a database (and with it, its rows and their pages) to the trash
+export async function trashDatabase(databaseId: string) {
+  const deletedAt = new Date();
+
+  await db.$transaction([
+    db.database.update({
+      where: { id: databaseId },
+      data: { deletedAt },
+    }),
+    db.page.updateMany({
+      where: { databaseRow: { databaseId }, deletedAt: null },
+      data: { deletedAt },
+    }),
+  ]);
+}
+
+// List what's in the trash. Pages and subfolders that were trashed along
+// with their folder are folded into that folder's entry.
+export async function listTrash(workspaceId: string) {
+  const [folders, pages, databases] = await Promise.all([
+    db.folder.findMany({
+      where: { workspaceId, deletedAt: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        icon: true,
+        color: true,
+        deletedAt: true,
+        parent: { select: { name: true, deletedAt: true } },
+        _count: { select: { pages: true, children: true } },
+      },
+      orderBy: { deletedAt: "desc" },
+    }),
+    db.page.findMany({
+      where: { workspaceId, deletedAt: { not: null }, databaseRowId: null },
+      select: {
+        id: true,
+        title: true,
+        icon: true,
+        color: true,
+        deletedAt: true,
+        folder: { select: { name: true, icon: true, deletedAt: true } },
+        parentPage: { select: { deletedAt: true } },
+      },
+      orderBy: { deletedAt: "desc" },
+    }),
+    db.database.findMany({
+      where: { workspaceId, deletedAt: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        icon: true,
+        color: true,
+        deletedAt: true,
+        _count: { select: { rows: true } },
+      },
+      orderBy: { deletedAt: "desc" },
+    }),
+  ]);
+
+  const sameTime = (a: Date | null | undefined, b: Date | null | undefined) =>
+    !!a && !!b && a.getTime() === b.getTime();
+
+  return {
+    retentionDays: TRASH_RETENTION_DAYS,
+    folders: folders.filter((f) => !sameTime(f.parent?.deletedAt, f.deletedAt)),
+    pages: pages.filter(
+      (p) => !sameTime(p.folder?.deletedAt, p.deletedAt) && !sameTime(p.parentPage?.deletedAt, p.deletedAt)
+    ),
+    databases,
+  };
+}
+
+// Take an item back out of the trash. Returns false if it isn't in the trash.
+export async function restoreFromTrash(
+  type: TrashItemType,
+  id: string,
+  workspaceId: string
+): Promise<boolean> {
+  if (type === "page") {
+    const page = await db.page.findFirst({
+      where: { id, workspaceId, deletedAt: { not: null } },
+    });
+    if (!page) return false;
+
+    // Only bring back the pages below it that were trashed together with it
+    const below = await getDescendantPageIds(id, workspaceId);
+    await restoreFolderAncestors(page.folderId, workspaceId);
+    await restorePageAncestors(page.parentPageId, workspaceId);
+    await db.page.updateMany({
+      where: { id: { in: [id, ...below] }, deletedAt: page.deletedAt },
+      data: { deletedAt: null },
+    });
+    return true;
+  }
+
+  if (type === "folder") {
+    const folder = await db.folder.findFirst({
+      where: { id, workspaceId, deletedAt: { not: null } },
+    });
+    if (!folder) return false;
+
+    // Only bring back what was trashed together with this folder
+    const folderIds = await getFolderTreeIds(id, workspaceId);
+    await restoreFolderAncestors(folder.parentId, workspaceId);
+    await db.$transaction([
+      db.folder.updateMany({
+        where: { id: { in: folderIds }, deletedAt: folder.deletedAt },
+        data: { deletedAt: null },
+      }),
+      db.page.updateMany({
+        where: { folderId: { in: folderIds }, workspaceId, deletedAt: folder.deletedAt },
+        data: { deletedAt: null },
+      }),
+    ]);
+    return true;
+  }
+
+  const database = await db.database.findFirst({
+    where: { id, workspaceId, deletedAt: { not: null } },
+  });
+  if (!database) return false;
+
+  await db.$transaction([
+    db.database.update({ where: { id }, data: { deletedAt: null } }),
+    db.page.updateMany({
+      where: { databaseRow: { databaseId: id }, deletedAt: database.deletedAt },
+      data: { deletedAt: null },
+    }),
+  ]);
+  return true;
+}
+
+// Permanently delete an item that is in the trash
+export async function deleteFromTrash(
+  type: TrashItemType,
+  id: string,
+  workspaceId: string
+): Promise<boolean> {
+  if (type === "page") {
+    const page = await db.page.findFirst({
+      where: { id, workspaceId, deletedAt: { not: null } },
+    });
+    if (!page) return false;
+
+    // Pages trashed along with it go too; they'd otherwise lose their parent
+    const below = await getDescendantPageIds(id, workspaceId);
+    await db.page.deleteMany({
+      where: { id: { in: [id, ...below] }, workspaceId, deletedAt: page.deletedAt },
+    });
+    return true;
+  }
+
+  if (type === "folder") {
+    const folder = await db.folder.findFirst({
+      where: { id, workspaceId, deletedAt: { not: null } },
+    });
+    if (!folder) return false;
+
+    // Pages would otherwise survive as orphans (folderId is SetNull)
+    const folderIds = await getFolderTreeIds(id, workspaceId);
+    await db.$transaction([
+      db.page.deleteMany({
+        where: { folderId: { in: folderIds }, workspaceId, deletedAt: { not: null } },
+      }),
+      db.folder.delete({ where: { id } }),
+    ]);
+    return true;
+  }
+
+  const result = await db.database.deleteMany({
+    where: { id, workspaceId, deletedAt: { not: null } },
+  });
+  return result.count > 0;
+}
+
+// Permanently delete everything trashed before `cutoff` (optionally in one workspace)
+async function purgeTrashedBefore(cutoff: Date, workspaceId?: string) {
+  const where = { deletedAt: { lt: cutoff }, ...(workspaceId && { workspaceId }) };
+
+  const [pages, databases, folders] = await db.$transaction([
+    db.page.deleteMany({ where }),
+    db.database.deleteMany({ where }),
+    db.folder.deleteMany({ where }),
+  ]);
+
+  return { pages: pages.count, databases: databases.count, folders: folders.count };
+}
+
+// Empty a workspace's trash
+export async function emptyTrash(workspaceId: string) {
+  return purgeTrashedBefore(new Date(), workspaceId);
+}
+
+// Purge items that have been in the trash longer than the retention period
+export async function purgeExpiredTrash(workspaceId?: string) {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  return purgeTrashedBefore(cutoff, workspaceId);
+}
@@ -0,0 +1,37 @@
+/**
+ * Version Tokens
+ *
+ * Pages and database rows are saved with optimistic concurrency. A
+ * record's version token is its updatedAt time: reads send it as an ETag
+ * (rows also carry updatedAt in their JSON), and saves send it back in
+ * If-Match. A save whose token no longer matches is refused with
+ * 409 Conflict and the current copy, so newer edits made elsewhere aren't
+ * overwritten unnoticed. Saves without If-Match go through as before.
+ * The write itself is conditional on the version that was checked, so two
+ * saves made from the same version can't both go through.
+ *
+ * Safe to use from both API routes and client components.
+ */
+
+// The version token for a record last updated at `updatedAt`
+export function versionTag(updatedAt: Date | string): string {
+  return `"${new Date(updatedAt).getTime()}"`;
+}
+
+// Whether an If-Match header allows writing over a record
+export function matchesVersion(ifMatch: string | null, updatedAt: Date): boolean {
+  if (!ifMatch || ifMatch.trim() === "*") return true;
+  const current = versionTag(updatedAt);
+  return ifMatch.split(",").some((tag) => tag.trim().replace(/^W\//, "") === current);
+}
+
+// Extra where conditions that make a write only go through over the
+// version an If-Match header was checked against
+export function versionCondition(ifMatch: string | null, updatedAt: Date): { updatedAt?: Date } {
+  return ifMatch && ifMatch.trim() !== "*" ? { updatedAt } : {};
+}
+
+// Headers for a save that only goes through if the record is unchanged
+export function ifMatchHeaders(updatedAt: Date | string | null | undefined): Record<string, string> {
+  return updatedAt ? { "If-Match": versionTag(updatedAt) } : {};
+}
@@ -0,0 +1,268 @@
+/**
+ * Database Views
+ *
+ * Saved ways of looking at a database: a layout (table, board, calendar
+ * or gallery) plus the view's own filters, sorts, hidden columns and
+ * column order. Views are stored with their settings as JSON strings,
+ * like a database's columns; these helpers turn them into objects, check
+ * them against the columns and keep them in step when columns change.
+ */
+
+import { Column } from "./columns";
+import {
+  CREATED_AT,
+  FilterCondition,
+  FilterOperator,
+  RowFilter,
+  RowSort,
+  isFilterReady,
+  operatorsFor,
+} from "./filters";
+
+export type ViewLayout = "table" | "board" | "calendar" | "gallery";
+
+export interface DatabaseView {
+  id: string;
+  name: string;
+  layout: ViewLayout;
+  position: number;
+  filters: FilterCondition[];
+  filterMode: "and" | "or";
+  sorts: RowSort[];
+  hiddenColumns: string[];
+  columnOrder: string[];
+  groupBy: string | null;
+  dateColumn: string | null;
+}
+
+export type ViewSettings = Omit<DatabaseView, "id" | "position">;
+
+// A view as Prisma stores it
+export interface StoredView {
+  id: string;
+  name: string;
+  layout: string;
+  position: number;
+  filters: string;
+  filterMode: string;
+  sorts: string;
+  hiddenColumns: string;
+  columnOrder: string;
+  groupBy: string | null;
+  dateColumn: string | null;
+}
+
+export const VIEW_LAYOUTS: Array<{ layout: ViewLayout; label: string }> = [
+  { layout: "table", label: "Table" },
+  { layout: "board", label: "Board" },
+  { layout: "calendar", label: "Calendar" },
+  { layout: "gallery", label: "Gallery" },
+];
+
+const MAX_VIEW_NAME = 100;
+
+function parseList<T>(value: string | null | undefined): T[] {
+  try {
+    const parsed = JSON.parse(value || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Turn a stored view into one with its settings parsed
+export function parseView(view: StoredView): DatabaseView {
+  return {
+    id: view.id,
+    name: view.name,
+    layout: VIEW_LAYOUTS.some((l) => l.layout === view.layout) ? (view.layout as ViewLayout) : "table",
+    position: view.position,
+    filters: parseList<FilterCondition>(view.filters),
+    filterMode: view.filterMode === "or" ? "or" : "and",
+    sorts: parseList<RowSort>(view.sorts),
+    hiddenColumns: parseList<string>(view.hiddenColumns),
+    columnOrder: parseList<string>(view.columnOrder),
+    groupBy: view.groupBy,
+    dateColumn: view.dateColumn,
+  };
+}
+
+// A view's settings without its ID and position, for copying it
+export function viewSettings(view: DatabaseView): ViewSettings {
+  return {
+    name: view.name,
+    layout: view.layout,
+    filters: view.filters,
+    filterMode: view.filterMode,
+    sorts: view.sorts,
+    hiddenColumns: view.hiddenColumns,
+    columnOrder: view.columnOrder,
+    groupBy: view.groupBy,
+    dateColumn: view.dateColumn,
+  };
+}
+
+// Turn view settings back into what Prisma stores. Only the given keys are set.
+export function serializeView(settings: Partial<ViewSettings>) {
+  return {
+    name: settings.name,
+    layout: settings.layout,
+    filters: settings.filters && JSON.stringify(settings.filters),
+    filterMode: settings.filterMode,
+    sorts: settings.sorts && JSON.stringify(settings.sorts),
+    hiddenColumns: settings.hiddenColumns && JSON.stringify(settings.hiddenColumns),
+    columnOrder: settings.columnOrder && JSON.stringify(settings.columnOrder),
+    groupBy: settings.groupBy,
+    dateColumn: settings.dateColumn,
+  };
+}
+
+// Columns a board can group by
+export function canGroupBy(column: Column): boolean {
+  return column.type === "select";
+}
+
+// Columns a calendar can place rows on
+export function canPlaceOnCalendar(column: Column): boolean {
+  return column.type === "date" || column.type === "formula";
+}
+
+// Check view settings against the database's columns. Returns an error message, or null.
+// Filters without a value yet are allowed, since views save while they're being edited.
+export function validateView(columns: Column[], settings: Partial<ViewSettings>): string | null {
+  const find = (id: unknown) => columns.find((c) => c.id === id);
+
+  if (settings.name !== undefined) {
+    if (typeof settings.name !== "string" || !settings.name.trim()) return "Views need a name";
+    if (settings.name.length > MAX_VIEW_NAME) return `View names can be at most ${MAX_VIEW_NAME} characters`;
+  }
+  if (settings.layout !== undefined && !VIEW_LAYOUTS.some((l) => l.layout === settings.layout)) {
+    return `Unknown view layout "${settings.layout}"`;
+  }
+  if (settings.filterMode !== undefined && settings.filterMode !== "and" && settings.filterMode !== "or") {
+    return "Filters are joined by and or or";
+  }
+
+  if (settings.filters !== undefined) {
+    if (!Array.isArray(settings.filters)) return "Filters must be a list";
+    for (const filter of settings.filters) {
+      const column = find(filter?.columnId);
+      if (!column) return `Unknown column "${filter?.columnId}" in filter`;
+      if (!operatorsFor(column.type).includes(filter.operator)) {
+        return `Can't filter ${column.name} with "${filter.operator}"`;
+      }
+    }
+  }
+
+  if (settings.sorts !== undefined) {
+    if (!Array.isArray(settings.sorts)) return "Sorts must be a list";
+    for (const sort of settings.sorts) {
+      if (!sort || (sort.direction !== "asc" && sort.direction !== "desc")) {
+        return "Each sort needs a direction of asc or desc";
+      }
+      if (sort.columnId !== CREATED_AT && !find(sort.columnId)) return `Unknown column "${sort.columnId}" in sort`;
+    }
+  }
+
+  for (const key of ["hiddenColumns", "columnOrder"] as const) {
+    const ids = settings[key];
+    if (ids === undefined) continue;
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string")) return `${key} must be a list of column ids`;
+  }
+
+  if (settings.groupBy) {
+    const column = find(settings.groupBy);
+    if (!column || !canGroupBy(column)) return "Boards are grouped by a select column";
+  }
+  if (settings.dateColumn) {
+    const column = find(settings.dateColumn);
+    if (!column || !canPlaceOnCalendar(column)) return "Calendars are keyed on a date column";
+  }
+
+  return null;
+}
+
+// Drop anything in a view that the columns no longer support
+export function pruneView(view: DatabaseView, columns: Column[]): DatabaseView {
+  const byId = new Map(columns.map((c) => [c.id, c]));
+  const supports = (columnId: string, operator: FilterOperator) => {
+    const column = byId.get(columnId);
+    return Boolean(column) && operatorsFor(column!.type).includes(operator);
+  };
+  const groupBy = view.groupBy ? byId.get(view.groupBy) : undefined;
+  const dateColumn = view.dateColumn ? byId.get(view.dateColumn) : undefined;
+
+  return {
+    ...view,
+    filters: view.filters.filter((f) => supports(f.columnId, f.operator)),
+    sorts: view.sorts.filter((s) => s.columnId === CREATED_AT || byId.has(s.columnId)),
+    hiddenColumns: view.hiddenColumns.filter((id) => byId.has(id)),
+    columnOrder: view.columnOrder.filter((id) => byId.has(id)),
+    groupBy: groupBy && canGroupBy(groupBy) ? groupBy.id : null,
+    dateColumn: dateColumn && canPlaceOnCalendar(dateColumn) ? dateColumn.id : null,
+  };
+}
+
+// Settings for a new view of a database, picking sensible columns for the layout
+export function defaultViewSettings(layout: ViewLayout, columns: Column[]): ViewSettings {
+  return {
+    name: VIEW_LAYOUTS.find((l) => l.layout === layout)?.label ?? "Table",
+    layout,
+    filters: [],
+    filterMode: "and",
+    sorts: [],
+    hiddenColumns: [],
+    columnOrder: [],
+    groupBy: layout === "board" ? columns.find(canGroupBy)?.id ?? null : null,
+    dateColumn: layout === "calendar" ? columns.find((c) => c.type === "date")?.id ?? null : null,
+  };
+}
+
+// The columns a view shows, in its order; new columns go at the end
+export function visibleColumns(columns: Column[], view: Pick<DatabaseView, "hiddenColumns" | "columnOrder">): Column[] {
+  const hidden = new Set(view.hiddenColumns);
+  const position = new Map(view.columnOrder.map((id, index) => [id, index]));
+  return columns
+    .filter((c) => !hidden.has(c.id))
+    .map((column, index) => ({ column, index: position.get(column.id) ?? view.columnOrder.length + index }))
+    .sort((a, b) => a.index - b.index)
+    .map(({ column }) => column);
+}
+
+// The view's filters as a query filter, leaving out conditions still waiting for a value
+export function viewFilter(view: Pick<DatabaseView, "filters" | "filterMode">): RowFilter | null {
+  const ready = view.filters.filter(isFilterReady);
+  if (ready.length === 0) return null;
+  return view.filterMode === "or" ? { or: ready } : { and: ready };
+}
+
+// A date as YYYY-MM-DD in local time
+export function localISODate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Filter for the rows a calendar shows in a month
+export function calendarFilter(dateColumn: string, month: Date): RowFilter {
+  const start = new Date(month.getFullYear(), month.getMonth(), 1);
+  const end = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  return {
+    and: [
+      { columnId: dateColumn, operator: "gte", value: localISODate(start) },
+      { columnId: dateColumn, operator: "lte", value: localISODate(end) },
+    ],
+  };
+}
+
+// The view each database last opened on is remembered per browser, so
+// switching views doesn't change the default for everyone else sharing it
+const lastViewKey = (databaseId: string) => `mind-garden-last-view:${databaseId}`;
+
+export function loadLastViewId(databaseId: string): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(lastViewKey(databaseId));
+}
+
+export function saveLastViewId(databaseId: string, viewId: string) {
+  localStorage.setItem(lastViewKey(databaseId), viewId);
+}
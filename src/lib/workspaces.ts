@@ -0,0 +1,119 @@
+/**
+ * Workspaces
+ *
+ * Folders, pages, databases, habits and tags belong to a workspace, which
+ * its members share. What a member can do depends on their role:
+ * - viewer: read everything in the workspace
+ * - editor: also create, change and delete content
+ * - owner: also rename the workspace and manage members and invitations
+ *
+ * Everyone gets a personal workspace when they sign up. Accounts from
+ * before workspaces get theirs the first time they need one, and it takes
+ * over everything they had.
+ */
+
+import { db } from "./db";
+
+export const WORKSPACE_ROLES = ["owner", "editor", "viewer"] as const;
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+export type Permission = "view" | "edit" | "manage";
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, Permission[]> = {
+  owner: ["view", "edit", "manage"],
+  editor: ["view", "edit"],
+  viewer: ["view"],
+};
+
+// Who new content is created by, and where it goes
+export interface ContentOwner {
+  userId: string;
+  workspaceId: string;
+}
+
+// Default PARA folders every new workspace starts with
+const PARA_FOLDERS = [
+  { name: "Projects", icon: "🎯", folderType: "project", order: 0 },
+  { name: "Areas", icon: "🌱", folderType: "area", order: 1 },
+  { name: "Resources", icon: "📚", folderType: "resource", order: 2 },
+  { name: "Archive", icon: "📦", folderType: "archive", order: 3 },
+];
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return WORKSPACE_ROLES.includes(value as WorkspaceRole);
+}
+
+// Whether a role allows something
+export function roleAllows(role: WorkspaceRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// A user's role in a workspace, or null if they aren't a member
+export async function getMemberRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  const member = await db.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    select: { role: true },
+  });
+  return member && isWorkspaceRole(member.role) ? member.role : null;
+}
+
+// Create a workspace owned by a user, with the default folders
+export async function createWorkspace(userId: string, name: string, icon?: string | null) {
+  return db.$transaction(async (tx) => {
+    const workspace = await tx.workspace.create({
+      data: {
+        name,
+        icon: icon || undefined,
+        members: { create: { userId, role: "owner" } },
+      },
+    });
+    await tx.folder.createMany({
+      data: PARA_FOLDERS.map((folder) => ({ ...folder, isDefault: true, userId, workspaceId: workspace.id })),
+    });
+    return workspace;
+  });
+}
+
+// The workspace a user starts in: the first one they joined. Accounts
+// without one get a personal workspace holding their existing content.
+export async function getDefaultWorkspace(userId: string): Promise<{ workspaceId: string; role: WorkspaceRole }> {
+  const member = await db.workspaceMember.findFirst({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+  });
+  if (member && isWorkspaceRole(member.role)) {
+    return { workspaceId: member.workspaceId, role: member.role };
+  }
+
+  const workspaceId = await db.$transaction(async (tx) => {
+    const workspace = await tx.workspace.create({
+      data: { name: "Personal", members: { create: { userId, role: "owner" } } },
+    });
+    const adopt = { where: { userId, workspaceId: null }, data: { workspaceId: workspace.id } };
+    await tx.folder.updateMany(adopt);
+    await tx.page.updateMany(adopt);
+    await tx.database.updateMany(adopt);
+    await tx.habit.updateMany(adopt);
+    await tx.tag.updateMany(adopt);
+    return workspace.id;
+  });
+  return { workspaceId, role: "owner" };
+}
+
+// The workspaces a user belongs to, oldest first
+export async function listWorkspaces(userId: string) {
+  const members = await db.workspaceMember.findMany({
+    where: { userId },
+    include: {
+      workspace: { select: { id: true, name: true, icon: true, _count: { select: { members: true } } } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+  return members.map((member) => ({
+    id: member.workspace.id,
+    name: member.workspace.name,
+    icon: member.workspace.icon,
+    memberCount: member.workspace._count.members,
+    role: member.role as WorkspaceRole,
+  }));
+}
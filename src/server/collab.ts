@@ -0,0 +1,63 @@
+/**
+ * Collaboration Server
+ *
+ * A standalone WebSocket server that syncs the Yjs documents pages are
+ * edited through (see src/lib/collab.ts). Run it next to the app with
+ * `npm run collab`, and point COLLAB_URL at it. Each document is named
+ * after its page's ID; members of the page's workspace join with a token
+ * from GET /api/pages/[pageId]/collab, and viewers can only watch. It
+ * needs the app's NEXTAUTH_SECRET to check those tokens.
+ */
+
+import { Server } from "@hocuspocus/server";
+import { db } from "@/lib/db";
+import { isCollabSecretSet, loadCollabDocument, storeCollabDocument, verifyCollabToken } from "@/lib/collab";
+import { getMemberRole, roleAllows } from "@/lib/workspaces";
+
+// Without the secret tokens can't be checked, and anyone could join any page
+if (!isCollabSecretSet()) {
+  console.error("NEXTAUTH_SECRET must be set for the collaboration server to check tokens");
+  process.exit(1);
+}
+
+const port = Number(process.env.COLLAB_PORT) || 1234;
+
+const server = Server.configure({
+  port,
+  // Write merged changes back to the page at most every few seconds
+  debounce: 2000,
+  maxDebounce: 10000,
+  quiet: true,
+
+  async onAuthenticate({ token, documentName, connection }) {
+    const userId = verifyCollabToken(token, documentName);
+    const page =
+      userId &&
+      (await db.page.findFirst({
+        where: { id: documentName, deletedAt: null },
+        select: { workspaceId: true },
+      }));
+    const role = page && page.workspaceId ? await getMemberRole(page.workspaceId, userId) : null;
+    if (!role) throw new Error("Not authorized");
+
+    connection.readOnly = !roleAllows(role, "edit");
+    return { userId };
+  },
+
+  async onLoadDocument({ document, documentName }) {
+    await loadCollabDocument(documentName, document);
+    return document;
+  },
+
+  async onStoreDocument({ document, documentName }) {
+    try {
+      await storeCollabDocument(documentName, document);
+    } catch (error) {
+      console.error("Error storing page:", error);
+    }
+  },
+});
+
+server.listen().then(() => {
+  console.log(`Collaboration server listening on port ${port}`);
+});
@@ -0,0 +1,95 @@
+/**
+ * Habit Log Re-keying
+ *
+ * A one-off fix for habit logs written before time zones. The habits page
+ * used to send the local midnight of the day clicked, and the log API kept
+ * that instant's UTC date, so anyone ahead of UTC had each log saved a day
+ * early. This moves those logs to the day they were for, going by the time
+ * zone of the habit's creator (the only person who could log it then).
+ *
+ *   npm run habits:rekey -- --before 2026-10-18T00:00:00Z [--dry-run]
+ *
+ * `--before` is when the time zone release went out: only logs created
+ * and last changed before then are touched. Moving a log counts as a
+ * change, so running it again is safe. Accounts that haven't opened the
+ * app since have no time zone yet and are skipped; run it again later to
+ * pick them up.
+ */
+
+import { db } from "@/lib/db";
+import { addDays, dayKeyDate, logDayKey } from "@/lib/habits";
+import { isValidTimezone, utcOffsetMinutes } from "@/lib/timezones";
+
+function readArgs() {
+  const args = process.argv.slice(2);
+  const beforeIndex = args.indexOf("--before");
+  const before = beforeIndex >= 0 ? new Date(args[beforeIndex + 1]) : null;
+  if (!before || isNaN(before.getTime())) {
+    console.error("Usage: npm run habits:rekey -- --before <when time zones were released> [--dry-run]");
+    process.exit(1);
+  }
+  return { before, dryRun: args.includes("--dry-run") };
+}
+
+async function main() {
+  const { before, dryRun } = readArgs();
+  const counts = { moved: 0, unchanged: 0, conflicts: 0, skippedHabits: 0 };
+
+  const habits = await db.habit.findMany({
+    select: { id: true, name: true, user: { select: { email: true, timezone: true } } },
+  });
+
+  for (const habit of habits) {
+    const timezone = habit.user.timezone;
+    if (!isValidTimezone(timezone)) {
+      counts.skippedHabits++;
+      continue;
+    }
+
+    // Latest first, so each log moves into a day the one after it has left
+    const logs = await db.habitLog.findMany({
+      where: { habitId: habit.id, createdAt: { lt: before }, updatedAt: { lt: before } },
+      orderBy: { date: "desc" },
+      select: { id: true, date: true },
+    });
+    // Days a log is moving out of (still there on a dry run)
+    const vacated = new Set<string>();
+
+    for (const log of logs) {
+      // Local midnight is still the previous day in UTC only ahead of UTC
+      const day = addDays(logDayKey(log.date), 1);
+      if (utcOffsetMinutes(dayKeyDate(day), timezone) <= 0) {
+        counts.unchanged++;
+        continue;
+      }
+
+      const taken = await db.habitLog.findUnique({
+        where: { habitId_date: { habitId: habit.id, date: dayKeyDate(day) } },
+        select: { id: true },
+      });
+      if (taken && !vacated.has(day)) {
+        console.warn(`Skipped "${habit.name}" (${habit.user.email}) on ${day}: that day already has a log`);
+        counts.conflicts++;
+        continue;
+      }
+
+      if (!dryRun) {
+        await db.habitLog.update({ where: { id: log.id }, data: { date: dayKeyDate(day) } });
+      }
+      vacated.add(logDayKey(log.date));
+      counts.moved++;
+    }
+  }
+
+  console.log(
+    `${dryRun ? "Would move" : "Moved"} ${counts.moved} logs; ${counts.unchanged} were already on the right day, ` +
+      `${counts.conflicts} clashed with another log, and ${counts.skippedHabits} habits' creators have no time zone yet`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Error re-keying habit logs:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
@@ -0,0 +1,56 @@
+/**
+ * Reminder Scheduler
+ *
+ * Sends habit reminders by push, email and webhook while the app is closed
+ * (see src/lib/reminders.ts). Run it next to the app with
+ * `npm run reminders`, which checks at the start of every minute; hosts
+ * with scheduled jobs can call GET /api/reminders/send instead. Running
+ * both is safe: each reminder still goes out once.
+ *
+ * It also clears trash past TRASH_RETENTION_DAYS out of every workspace,
+ * once an hour, so nothing waits on GET /api/trash/purge being scheduled.
+ */
+
+import { sendDueReminders } from "@/lib/reminders";
+import { purgeExpiredTrash } from "@/lib/trash";
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let running = false;
+
+async function tick() {
+  // A slow run (say, a webhook timing out) shouldn't overlap the next one
+  if (running) return;
+  running = true;
+  try {
+    const { sent, failed } = await sendDueReminders();
+    if (sent || failed) console.log(`Sent ${sent} reminders, ${failed} failed`);
+  } catch (error) {
+    console.error("Error sending reminders:", error);
+  } finally {
+    running = false;
+  }
+}
+
+async function purgeTrash() {
+  try {
+    const { pages, databases, folders } = await purgeExpiredTrash();
+    if (pages || databases || folders) {
+      console.log(`Purged ${pages} pages, ${databases} databases and ${folders} folders from the trash`);
+    }
+  } catch (error) {
+    console.error("Error purging trash:", error);
+  }
+}
+
+// Line up with the start of each minute, when reminder times come round
+setTimeout(() => {
+  tick();
+  setInterval(tick, 60 * 1000);
+}, 60 * 1000 - (Date.now() % (60 * 1000)));
+
+setInterval(purgeTrash, PURGE_INTERVAL_MS);
+
+tick();
+purgeTrash();
+console.log("Reminder scheduler started");